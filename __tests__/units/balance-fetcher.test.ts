@@ -1,6 +1,7 @@
 import { ethers } from "ethers";
 import { FileManager } from "../../src/file-manager";
 import { BalanceFetcher } from "../../src/balance-fetcher";
+import { ARBITRUM_NOVA, ARBITRUM_ONE } from "../../src/constants/chains";
 import {
   DistributorType,
   DistributorsData,
@@ -9,6 +10,9 @@ import {
 
 jest.mock("../../src/file-manager");
 
+const NOVA_NETWORK = { chainId: BigInt(42170) };
+const HEAD_BLOCK = 50000000;
+
 describe("BalanceFetcher", () => {
   let mockFileManager: jest.Mocked<FileManager>;
   let mockProvider: jest.Mocked<ethers.Provider>;
@@ -69,9 +73,14 @@ describe("BalanceFetcher", () => {
         readDistributors: jest.fn(),
         readDistributorBalances: jest.fn(),
         writeDistributorBalances: jest.fn(),
+        readDistributorOutflows: jest.fn(),
+        readDistributorRecipients: jest.fn(),
         readBlockNumbers: jest.fn(),
       } as unknown as jest.Mocked<FileManager>;
-      mockProvider = {} as jest.Mocked<ethers.Provider>;
+      mockProvider = {
+        getNetwork: jest.fn().mockResolvedValue(NOVA_NETWORK),
+        getBlockNumber: jest.fn().mockResolvedValue(HEAD_BLOCK),
+      } as unknown as jest.Mocked<ethers.Provider>;
       fetcher = new BalanceFetcher(mockFileManager, mockProvider);
     });
 
@@ -146,8 +155,14 @@ describe("BalanceFetcher", () => {
       mockFileManager = {
         readDistributors: jest.fn(),
         readBlockNumbers: jest.fn(),
+        readDistributorBalances: jest.fn(),
+        readDistributorOutflows: jest.fn(),
+        readDistributorRecipients: jest.fn(),
       } as unknown as jest.Mocked<FileManager>;
-      mockProvider = {} as jest.Mocked<ethers.Provider>;
+      mockProvider = {
+        getNetwork: jest.fn().mockResolvedValue(NOVA_NETWORK),
+        getBlockNumber: jest.fn().mockResolvedValue(HEAD_BLOCK),
+      } as unknown as jest.Mocked<ethers.Provider>;
       fetcher = new BalanceFetcher(mockFileManager, mockProvider);
 
       mockDistributorsData = {
@@ -193,9 +208,13 @@ describe("BalanceFetcher", () => {
         readBlockNumbers: jest.fn(),
         readDistributorBalances: jest.fn(),
         writeDistributorBalances: jest.fn(),
+        readDistributorOutflows: jest.fn(),
+        readDistributorRecipients: jest.fn(),
       } as unknown as jest.Mocked<FileManager>;
       mockProvider = {
         getBalance: jest.fn(),
+        getNetwork: jest.fn().mockResolvedValue(NOVA_NETWORK),
+        getBlockNumber: jest.fn().mockResolvedValue(HEAD_BLOCK),
       } as unknown as jest.Mocked<ethers.Provider>;
       fetcher = new BalanceFetcher(mockFileManager, mockProvider);
 
@@ -269,6 +288,67 @@ describe("BalanceFetcher", () => {
       });
     });
 
+    it("stops at the retirement date of a replaced distributor", async () => {
+      const distributor =
+        mockDistributorsData.distributors[
+          "0xdff90519a9DE6ad469D4f9839a9220C5D340B792"
+        ]!;
+      mockFileManager.readDistributors.mockReturnValue({
+        ...mockDistributorsData,
+        distributors: {
+          [distributor.distributor_address]: {
+            ...distributor,
+            active_until_block: 3150000,
+            active_until_date: "2023-03-15",
+          },
+        },
+      });
+      mockFileManager.readBlockNumbers.mockReturnValue(mockBlockNumberData);
+      mockFileManager.readDistributorBalances.mockReturnValue(undefined);
+      mockProvider.getBalance.mockResolvedValue(BigInt(1));
+
+      await fetcher.fetchBalances();
+
+      const fetchedBlocks = mockProvider.getBalance.mock.calls.map(
+        ([, blockTag]) => blockTag,
+      );
+      expect(fetchedBlocks).toEqual([672, 3584, 3141957]);
+    });
+
+    it("skips the dates a reactivated distributor was replaced, except the day before it returned", async () => {
+      const distributor =
+        mockDistributorsData.distributors[
+          "0xdff90519a9DE6ad469D4f9839a9220C5D340B792"
+        ]!;
+      mockFileManager.readDistributors.mockReturnValue({
+        ...mockDistributorsData,
+        distributors: {
+          [distributor.distributor_address]: {
+            ...distributor,
+            active_periods: [
+              {
+                from_block: 672,
+                from_date: "2022-08-08",
+                until_block: 680,
+                until_date: "2022-08-08",
+              },
+              { from_block: 3170000, from_date: "2023-03-17" },
+            ],
+          },
+        },
+      });
+      mockFileManager.readBlockNumbers.mockReturnValue(mockBlockNumberData);
+      mockFileManager.readDistributorBalances.mockReturnValue(undefined);
+      mockProvider.getBalance.mockResolvedValue(BigInt(1));
+
+      await fetcher.fetchBalances();
+
+      const fetchedBlocks = mockProvider.getBalance.mock.calls.map(
+        ([, blockTag]) => blockTag,
+      );
+      expect(fetchedBlocks).toEqual([672, 3166694, 3187362]);
+    });
+
     it("skips distributors with future creation dates entirely", async () => {
       const futureDate = new Date();
       futureDate.setFullYear(futureDate.getFullYear() + 1);
@@ -317,9 +397,14 @@ describe("BalanceFetcher", () => {
         readDistributors: jest.fn(),
         readDistributorBalances: jest.fn(),
         writeDistributorBalances: jest.fn(),
+        readDistributorOutflows: jest.fn(),
+        readDistributorRecipients: jest.fn(),
         readBlockNumbers: jest.fn(),
       } as unknown as jest.Mocked<FileManager>;
-      mockProvider = {} as jest.Mocked<ethers.Provider>;
+      mockProvider = {
+        getNetwork: jest.fn().mockResolvedValue(NOVA_NETWORK),
+        getBlockNumber: jest.fn().mockResolvedValue(HEAD_BLOCK),
+      } as unknown as jest.Mocked<ethers.Provider>;
       fetcher = new BalanceFetcher(mockFileManager, mockProvider);
 
       mockDistributorsData = {
@@ -379,4 +464,260 @@ describe("BalanceFetcher", () => {
       expect(mockFileManager.readDistributors).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe("fetchBalances - persisting balances", () => {
+    const address = "0xdff90519a9DE6ad469D4f9839a9220C5D340B792";
+    let fetcher: BalanceFetcher;
+    let mockDistributorsData: DistributorsData;
+    let mockBlockNumberData: BlockNumberData;
+
+    beforeEach(() => {
+      mockFileManager = {
+        readDistributors: jest.fn(),
+        readBlockNumbers: jest.fn(),
+        readDistributorBalances: jest.fn(),
+        writeDistributorBalances: jest.fn(),
+        readDistributorOutflows: jest.fn(),
+        readDistributorRecipients: jest.fn(),
+      } as unknown as jest.Mocked<FileManager>;
+      mockProvider = {
+        getBalance: jest.fn(),
+        getNetwork: jest.fn().mockResolvedValue(NOVA_NETWORK),
+        getBlockNumber: jest.fn().mockResolvedValue(HEAD_BLOCK),
+      } as unknown as jest.Mocked<ethers.Provider>;
+      fetcher = new BalanceFetcher(mockFileManager, mockProvider);
+
+      mockBlockNumberData = {
+        metadata: { chain_id: 42170 },
+        blocks: {
+          "2022-08-07": 654,
+          "2022-08-08": 672,
+          "2022-08-09": 3584,
+        },
+      };
+
+      mockDistributorsData = {
+        metadata: {
+          chain_id: 42170,
+          arbowner_address: "0x0000000000000000000000000000000000000070",
+          last_scanned_block: 1000,
+        },
+        distributors: {
+          [address]: {
+            type: DistributorType.L2_SURPLUS_FEE,
+            block: 672,
+            date: "2022-08-08",
+            tx_hash:
+              "0x6151c7f22d923b9a1ae3d0302b03e8cd2af70ee5792b26e10858d4de6b005fa9",
+            method: "0xfcdde2b4",
+            owner: "0x9C040726F2A657226Ed95712245DeE84b650A1b5",
+            event_data: "0x...",
+            is_reward_distributor: true,
+            distributor_address: address,
+          },
+        },
+      };
+
+      mockFileManager.readDistributors.mockReturnValue(mockDistributorsData);
+      mockFileManager.readBlockNumbers.mockReturnValue(mockBlockNumberData);
+    });
+
+    it("writes a complete BalanceData document for the distributor", async () => {
+      mockFileManager.readDistributorBalances.mockReturnValue(undefined);
+      mockProvider.getBalance
+        .mockResolvedValueOnce(BigInt("1000000000000000000"))
+        .mockResolvedValueOnce(BigInt("2500000000000000000"));
+
+      await fetcher.fetchBalances();
+
+      expect(mockFileManager.writeDistributorBalances).toHaveBeenCalledTimes(1);
+      expect(mockFileManager.writeDistributorBalances).toHaveBeenCalledWith(
+        address,
+        {
+          metadata: { chain_id: 42170, reward_distributor: address },
+          balances: {
+            "2022-08-08": {
+              block_number: 672,
+              balance_wei: "1000000000000000000",
+            },
+            "2022-08-09": {
+              block_number: 3584,
+              balance_wei: "2500000000000000000",
+            },
+          },
+        },
+      );
+    });
+
+    it("only fetches dates missing from the existing balances file", async () => {
+      mockFileManager.readDistributorBalances.mockReturnValue({
+        metadata: { chain_id: 42170, reward_distributor: address },
+        balances: {
+          "2022-08-08": { block_number: 672, balance_wei: "5" },
+        },
+      });
+      mockProvider.getBalance.mockResolvedValue(BigInt(7));
+
+      await fetcher.fetchBalances();
+
+      expect(mockProvider.getBalance).toHaveBeenCalledTimes(1);
+      expect(mockProvider.getBalance).toHaveBeenCalledWith(address, 3584);
+      expect(mockFileManager.writeDistributorBalances).toHaveBeenCalledWith(
+        address,
+        {
+          metadata: { chain_id: 42170, reward_distributor: address },
+          balances: {
+            "2022-08-08": { block_number: 672, balance_wei: "5" },
+            "2022-08-09": { block_number: 3584, balance_wei: "7" },
+          },
+        },
+      );
+    });
+
+    it("does not write when every applicable date is already stored", async () => {
+      mockFileManager.readDistributorBalances.mockReturnValue({
+        metadata: { chain_id: 42170, reward_distributor: address },
+        balances: {
+          "2022-08-08": { block_number: 672, balance_wei: "5" },
+          "2022-08-09": { block_number: 3584, balance_wei: "7" },
+        },
+      });
+
+      await fetcher.fetchBalances();
+
+      expect(mockProvider.getBalance).not.toHaveBeenCalled();
+      expect(mockFileManager.writeDistributorBalances).not.toHaveBeenCalled();
+    });
+
+    it("refetches stale dates and clears them from the metadata", async () => {
+      mockFileManager.readDistributorBalances.mockReturnValue({
+        metadata: {
+          chain_id: 42170,
+          reward_distributor: address,
+          stale_dates: ["2022-08-08"],
+        },
+        balances: {
+          "2022-08-08": { block_number: 670, balance_wei: "5" },
+          "2022-08-09": { block_number: 3584, balance_wei: "7" },
+        },
+      });
+      mockProvider.getBalance.mockResolvedValue(BigInt(6));
+
+      await fetcher.fetchBalances();
+
+      expect(mockProvider.getBalance).toHaveBeenCalledTimes(1);
+      expect(mockFileManager.writeDistributorBalances).toHaveBeenCalledWith(
+        address,
+        {
+          metadata: { chain_id: 42170, reward_distributor: address },
+          balances: {
+            "2022-08-08": { block_number: 672, balance_wei: "6" },
+            "2022-08-09": { block_number: 3584, balance_wei: "7" },
+          },
+        },
+      );
+    });
+
+    it("skips dates whose block is newer than the safe block", async () => {
+      mockFileManager.readDistributorBalances.mockReturnValue(undefined);
+      mockProvider.getBlockNumber.mockResolvedValue(4000);
+      mockProvider.getBalance.mockResolvedValue(BigInt(1));
+
+      await fetcher.fetchBalances();
+
+      // 3584 is within 1000 blocks of the head
+      expect(mockProvider.getBalance).toHaveBeenCalledTimes(1);
+      expect(mockProvider.getBalance).toHaveBeenCalledWith(address, 672);
+    });
+
+    it("uses the chain's finality strategy for the safe block", async () => {
+      mockFileManager.readDistributorBalances.mockReturnValue(undefined);
+      mockProvider.getBlock = jest
+        .fn()
+        .mockResolvedValue({ number: 3584 }) as typeof mockProvider.getBlock;
+      mockProvider.getBalance.mockResolvedValue(BigInt(1));
+      fetcher = new BalanceFetcher(mockFileManager, mockProvider, {
+        ...ARBITRUM_NOVA,
+        finality: { kind: "tag", tag: "finalized" },
+      });
+
+      await fetcher.fetchBalances();
+
+      expect(mockProvider.getBlock).toHaveBeenCalledWith("finalized");
+      expect(mockProvider.getBlockNumber).not.toHaveBeenCalled();
+      expect(mockProvider.getBalance).toHaveBeenCalledTimes(2);
+    });
+
+    it("refuses block numbers stored for another chain", async () => {
+      mockBlockNumberData.metadata.chain_id = 42161;
+
+      await expect(fetcher.fetchBalances()).rejects.toThrow(
+        "Store file belongs to a different chain than the provider\n  File: block_numbers.json\n  Stored chain_id: 42161\n  Provider chain_id: 42170",
+      );
+      expect(mockProvider.getBalance).not.toHaveBeenCalled();
+    });
+
+    it("refuses to extend balances stored for another chain", async () => {
+      mockFileManager.readDistributorBalances.mockReturnValue({
+        metadata: { chain_id: 42161, reward_distributor: address },
+        balances: {},
+      });
+
+      await expect(fetcher.fetchBalances()).rejects.toThrow(
+        `File: distributors/${address}/balances.json`,
+      );
+      expect(mockFileManager.writeDistributorBalances).not.toHaveBeenCalled();
+    });
+
+    it("accepts stores of the selected chain", async () => {
+      mockBlockNumberData.metadata.chain_id = 42161;
+      mockDistributorsData.metadata.chain_id = 42161;
+      mockFileManager.readDistributorBalances.mockReturnValue(undefined);
+      mockProvider.getBalance.mockResolvedValue(BigInt(1));
+      mockProvider.getNetwork.mockResolvedValue({
+        chainId: BigInt(42161),
+      } as unknown as ethers.Network);
+      fetcher = new BalanceFetcher(mockFileManager, mockProvider, ARBITRUM_ONE);
+
+      await fetcher.fetchBalances();
+
+      expect(
+        mockFileManager.writeDistributorBalances.mock.calls[0]![1].metadata,
+      ).toEqual({ chain_id: 42161, reward_distributor: address });
+    });
+
+    it("retries failed balance queries before succeeding", async () => {
+      jest.useFakeTimers();
+      mockFileManager.readDistributorBalances.mockReturnValue(undefined);
+      mockProvider.getBalance
+        .mockRejectedValueOnce(new Error("Network error"))
+        .mockResolvedValue(BigInt(1));
+      jest.spyOn(console, "log").mockImplementation(() => {});
+
+      const promise = fetcher.fetchBalances();
+      await jest.advanceTimersByTimeAsync(1000);
+      await promise;
+      jest.useRealTimers();
+
+      expect(mockProvider.getBalance).toHaveBeenCalledTimes(3);
+      expect(mockFileManager.writeDistributorBalances).toHaveBeenCalledTimes(1);
+    });
+
+    it("throws with distributor and block context when retries are exhausted", async () => {
+      jest.useFakeTimers();
+      mockFileManager.readDistributorBalances.mockReturnValue(undefined);
+      mockProvider.getBalance.mockRejectedValue(new Error("timeout"));
+      jest.spyOn(console, "log").mockImplementation(() => {});
+
+      const promise = fetcher.fetchBalances();
+      const assertion = expect(promise).rejects.toThrow(
+        /Failed to fetch balance for distributor\n  Distributor: 0xdff90519a9DE6ad469D4f9839a9220C5D340B792\n  Block: 672/,
+      );
+      await jest.advanceTimersByTimeAsync(3000);
+      await assertion;
+      jest.useRealTimers();
+
+      expect(mockFileManager.writeDistributorBalances).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -223,7 +223,7 @@ describe("BlockFinder - findBlocksForDateRange", () => {
   });
 
   describe("Metadata handling", () => {
-    it("should preserve existing metadata when initializing result", async () => {
+    it("should refuse existing data from another chain", async () => {
       const existingData: BlockNumberData = {
         metadata: {
           chain_id: 999,
@@ -234,12 +234,14 @@ describe("BlockFinder - findBlocksForDateRange", () => {
       };
       testContext.fileManager.writeBlockNumbers(existingData);
 
-      const result = await blockFinder.findBlocksForDateRange(
-        new Date("2024-01-16"),
-        new Date("2024-01-16"),
+      await expect(
+        blockFinder.findBlocksForDateRange(
+          new Date("2024-01-16"),
+          new Date("2024-01-16"),
+        ),
+      ).rejects.toThrow(
+        "Store file belongs to a different chain than the provider",
       );
-
-      expect(result.metadata.chain_id).toBe(999);
     });
 
     it("should set chain ID from provider when no existing metadata", async () => {
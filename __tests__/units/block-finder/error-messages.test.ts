@@ -7,7 +7,12 @@ import {
 } from "../file-manager/test-utils";
 import { createMockProvider, expectError, INVALID_RPC } from "./test-utils";
 import { BlockFinder } from "../../../src/block-finder";
-import { BlockFinderError, RPCError } from "../../../src/types";
+import { ARBITRUM_ONE } from "../../../src/constants/chains";
+import {
+  BlockFinderError,
+  ChainMismatchError,
+  RPCError,
+} from "../../../src/types";
 
 describe("BlockFinder - Error Messages", () => {
   let testContext: TestContext;
@@ -110,7 +115,7 @@ describe("BlockFinder - Error Messages", () => {
       mockProvider.destroy();
     });
 
-    it("should include last checked block in binary search errors", async () => {
+    it("should include last checked block in search errors", async () => {
       const mockProvider = createMockProvider();
       let callCount = 0;
 
@@ -143,8 +148,8 @@ describe("BlockFinder - Error Messages", () => {
       expect(error).toBeInstanceOf(BlockFinderError);
       const blockError = error as BlockFinderError;
       expect(blockError.message).toContain("Failed to get block");
-      expect(blockError.message).toContain("during binary search");
-      expect(blockError.operation).toBe("binarySearchForBlock");
+      expect(blockError.message).toContain("during end-of-day block search");
+      expect(blockError.operation).toBe("searchForBlock");
       expect(blockError.context.searchBounds).toBeDefined();
       expect(blockError.context.targetTimestamp).toBeDefined();
 
@@ -194,6 +199,57 @@ describe("BlockFinder - Error Messages", () => {
     });
   });
 
+  describe("Chain mismatches", () => {
+    it("should refuse a provider connected to a different chain", async () => {
+      const mockProvider = createMockProvider();
+      const oneBlockFinder = new BlockFinder(
+        testContext.fileManager,
+        mockProvider,
+        ARBITRUM_ONE,
+      );
+
+      const error = await expectError(() =>
+        oneBlockFinder.findBlocksForDateRange(
+          new Date("2024-01-15"),
+          new Date("2024-01-16"),
+        ),
+      );
+
+      expect(error).toBeInstanceOf(ChainMismatchError);
+      expect((error as ChainMismatchError).message).toBe(
+        "Provider is connected to a different chain than selected\n  Selected: arbitrum-one (42161)\n  Provider chain_id: 42170\n  Check: Point RPC_URL at arbitrum-one or select chain 42170 with --chain",
+      );
+
+      mockProvider.destroy();
+    });
+
+    it("should refuse block numbers stored for a different chain", async () => {
+      const mockProvider = createMockProvider();
+      testContext.fileManager.writeBlockNumbers({
+        metadata: { chain_id: 42161 },
+        blocks: { "2024-01-14": 170000000 },
+      });
+
+      const error = await expectError(() =>
+        new BlockFinder(
+          testContext.fileManager,
+          mockProvider,
+        ).findBlocksForDateRange(
+          new Date("2024-01-15"),
+          new Date("2024-01-16"),
+        ),
+      );
+
+      expect(error).toBeInstanceOf(ChainMismatchError);
+      expect((error as ChainMismatchError).context).toEqual({
+        file: "block_numbers.json",
+        storedChainId: 42161,
+      });
+
+      mockProvider.destroy();
+    });
+  });
+
   describe("RPCError context", () => {
     it("should include retry count and operation in RPCError", async () => {
       const error = await expectError(() => blockFinder.getSafeCurrentBlock());
@@ -0,0 +1,137 @@
+import { ethers } from "ethers";
+import {
+  setupTestEnvironment,
+  cleanupTestEnvironment,
+  TestContext,
+} from "../file-manager/test-utils";
+import { BlockFinder } from "../../../src/block-finder";
+
+const JAN_1_MIDNIGHT = Date.UTC(2024, 0, 1) / 1000;
+const DAY = 86400;
+
+// Four blocks a second from two days before 2024-01-01, with a head well after 2024-01-10
+const CHAIN_START = JAN_1_MIDNIGHT - 2 * DAY;
+const HEAD_BLOCK = 15 * DAY * 4;
+const BINARY_SEARCH_CALLS = Math.ceil(Math.log2(HEAD_BLOCK));
+
+function regularTimestamp(blockNumber: number): number {
+  return CHAIN_START + Math.floor(blockNumber / 4);
+}
+
+// Last block before the given midnight, found by brute-force bisection over the timestamps
+function expectedBlock(
+  timestampOf: (blockNumber: number) => number,
+  midnight: number,
+): number {
+  let low = 0;
+  let high = HEAD_BLOCK;
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (timestampOf(mid) < midnight) low = mid;
+    else high = mid;
+  }
+  return low;
+}
+
+describe("BlockFinder - interpolation search", () => {
+  let testContext: TestContext;
+  let provider: jest.Mocked<ethers.Provider>;
+
+  function createProvider(
+    timestampOf: (blockNumber: number) => number,
+  ): jest.Mocked<ethers.Provider> {
+    return {
+      getNetwork: jest.fn().mockResolvedValue({ chainId: BigInt(42170) }),
+      getBlockNumber: jest.fn().mockResolvedValue(HEAD_BLOCK),
+      getBlock: jest.fn(async (blockNumber: number) =>
+        blockNumber > HEAD_BLOCK
+          ? null
+          : {
+              number: blockNumber,
+              timestamp: timestampOf(blockNumber),
+              hash: "0x" + blockNumber.toString(16).padStart(64, "0"),
+            },
+      ),
+    } as unknown as jest.Mocked<ethers.Provider>;
+  }
+
+  beforeEach(() => {
+    testContext = setupTestEnvironment();
+  });
+
+  afterEach(() => {
+    cleanupTestEnvironment(testContext.tempDir);
+  });
+
+  it("finds end-of-day blocks in a handful of getBlock calls on a regular chain", async () => {
+    provider = createProvider(regularTimestamp);
+    const blockFinder = new BlockFinder(testContext.fileManager, provider);
+
+    const result = await blockFinder.findBlocksForDateRange(
+      new Date("2024-01-01"),
+      new Date("2024-01-10"),
+    );
+
+    for (let day = 0; day < 10; day++) {
+      const date = `2024-01-${String(day + 1).padStart(2, "0")}`;
+      expect(result.blocks[date]).toBe(
+        expectedBlock(regularTimestamp, JAN_1_MIDNIGHT + (day + 1) * DAY),
+      );
+      expect(blockFinder.rpcCallsByDate[date]).toBeLessThanOrEqual(8);
+    }
+    expect(Object.keys(blockFinder.rpcCallsByDate)).toHaveLength(10);
+  });
+
+  it("falls back to bisection when block times are irregular", async () => {
+    // Block production stops for 20 hours on 2024-01-02, then runs at a quarter of the rate
+    const outageStart = (3 * DAY + 3600) * 4;
+    const irregularTimestamp = (blockNumber: number): number =>
+      blockNumber < outageStart
+        ? regularTimestamp(blockNumber)
+        : regularTimestamp(outageStart) +
+          20 * 3600 +
+          (blockNumber - outageStart);
+    provider = createProvider(irregularTimestamp);
+    const blockFinder = new BlockFinder(testContext.fileManager, provider);
+
+    const result = await blockFinder.findBlocksForDateRange(
+      new Date("2024-01-01"),
+      new Date("2024-01-04"),
+    );
+
+    for (let day = 0; day < 4; day++) {
+      const date = `2024-01-0${day + 1}`;
+      expect(result.blocks[date]).toBe(
+        expectedBlock(irregularTimestamp, JAN_1_MIDNIGHT + (day + 1) * DAY),
+      );
+      // Each guess that fails to halve the range is followed by a bisection step
+      expect(blockFinder.rpcCallsByDate[date]).toBeLessThanOrEqual(
+        2 * BINARY_SEARCH_CALLS + 2,
+      );
+    }
+  });
+
+  it("counts retried getBlock calls", async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    provider = createProvider(regularTimestamp);
+    const getBlock = provider.getBlock.getMockImplementation()!;
+    provider.getBlock
+      .mockImplementationOnce(getBlock)
+      .mockRejectedValueOnce(new Error("timeout"));
+    const blockFinder = new BlockFinder(testContext.fileManager, provider);
+
+    const result = blockFinder.findBlocksForDateRange(
+      new Date("2024-01-01"),
+      new Date("2024-01-02"),
+    );
+    await jest.runAllTimersAsync();
+    await result;
+
+    const counted = Object.values(blockFinder.rpcCallsByDate).reduce(
+      (sum, count) => sum + count,
+    );
+    expect(counted).toBe(provider.getBlock.mock.calls.length);
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,143 @@
+import { ethers } from "ethers";
+import {
+  setupTestEnvironment,
+  cleanupTestEnvironment,
+  TestContext,
+} from "../file-manager/test-utils";
+import { BlockFinder } from "../../../src/block-finder";
+import { BlockNumberData } from "../../../src/types";
+
+const JAN_1_MIDNIGHT = Date.UTC(2024, 0, 1) / 1000;
+const DAY = 86400;
+
+// One block every 10 seconds from 2024-01-01, so each day ends 8640 blocks after the last
+const BLOCKS_PER_DAY = DAY / 10;
+const HEAD_BLOCK = 60 * BLOCKS_PER_DAY;
+
+function endOfDay(day: number): number {
+  return day * BLOCKS_PER_DAY;
+}
+
+describe("BlockFinder - search bounds", () => {
+  let testContext: TestContext;
+  let provider: jest.Mocked<ethers.Provider>;
+  let blockFinder: BlockFinder;
+  let timestampOf: (blockNumber: number) => number;
+
+  function requestedBlocks(): number[] {
+    return provider.getBlock.mock.calls.map(([blockNumber]) =>
+      Number(blockNumber),
+    );
+  }
+
+  beforeEach(() => {
+    testContext = setupTestEnvironment();
+    timestampOf = (blockNumber) => JAN_1_MIDNIGHT + (blockNumber - 1) * 10;
+    provider = {
+      getNetwork: jest.fn().mockResolvedValue({ chainId: BigInt(42170) }),
+      getBlockNumber: jest.fn().mockResolvedValue(HEAD_BLOCK),
+      getBlock: jest.fn(async (blockNumber: number) =>
+        blockNumber > HEAD_BLOCK
+          ? null
+          : {
+              number: blockNumber,
+              timestamp: timestampOf(blockNumber),
+              hash: "0x" + blockNumber.toString(16).padStart(64, "0"),
+            },
+      ),
+    } as unknown as jest.Mocked<ethers.Provider>;
+    blockFinder = new BlockFinder(testContext.fileManager, provider);
+  });
+
+  afterEach(() => {
+    cleanupTestEnvironment(testContext.tempDir);
+  });
+
+  describe("getSearchBounds", () => {
+    const existingBlocks: BlockNumberData = {
+      metadata: { chain_id: 42170 },
+      blocks: { "2024-01-01": endOfDay(1), "2024-01-05": endOfDay(5) },
+    };
+
+    it("uses the block after the next known date's block as the upper bound", () => {
+      expect(
+        blockFinder.getSearchBounds(
+          new Date("2024-01-03"),
+          existingBlocks,
+          HEAD_BLOCK,
+        ),
+      ).toEqual([endOfDay(1), endOfDay(5) + 1]);
+    });
+
+    it("caps the upper bound at the safe current block", () => {
+      expect(
+        blockFinder.getSearchBounds(
+          new Date("2024-01-03"),
+          existingBlocks,
+          endOfDay(4),
+        ),
+      ).toEqual([endOfDay(1), endOfDay(4)]);
+    });
+  });
+
+  it("fills gaps without requesting blocks past the next known date", async () => {
+    testContext.fileManager.writeBlockNumbers({
+      metadata: { chain_id: 42170 },
+      blocks: { "2024-01-01": endOfDay(1), "2024-01-05": endOfDay(5) },
+    });
+
+    const result = await blockFinder.findBlocksForDateRange(
+      new Date("2024-01-01"),
+      new Date("2024-01-05"),
+    );
+
+    expect(result.blocks).toEqual({
+      "2024-01-01": endOfDay(1),
+      "2024-01-02": endOfDay(2),
+      "2024-01-03": endOfDay(3),
+      "2024-01-04": endOfDay(4),
+      "2024-01-05": endOfDay(5),
+    });
+    expect(Math.max(...requestedBlocks())).toBe(endOfDay(5) + 1);
+  });
+
+  it("estimates the upper bound from the blocks per day of earlier dates", async () => {
+    testContext.fileManager.writeBlockNumbers({
+      metadata: { chain_id: 42170 },
+      blocks: { "2024-01-01": endOfDay(1), "2024-01-02": endOfDay(2) },
+    });
+
+    const result = await blockFinder.findBlocksForDateRange(
+      new Date("2024-01-03"),
+      new Date("2024-01-04"),
+    );
+
+    expect(result.blocks["2024-01-03"]).toBe(endOfDay(3));
+    expect(result.blocks["2024-01-04"]).toBe(endOfDay(4));
+    // A quarter of a day's blocks of headroom past each date's end
+    expect(requestedBlocks()).toContain(endOfDay(3) + BLOCKS_PER_DAY / 4);
+    expect(Math.max(...requestedBlocks())).toBe(
+      endOfDay(4) + BLOCKS_PER_DAY / 4,
+    );
+  });
+
+  it("falls back to the safe current block when the estimate is before midnight", async () => {
+    // Blocks speed up to one every 5 seconds from 2024-01-03
+    timestampOf = (blockNumber) =>
+      blockNumber <= endOfDay(2)
+        ? JAN_1_MIDNIGHT + (blockNumber - 1) * 10
+        : JAN_1_MIDNIGHT + 2 * DAY + (blockNumber - endOfDay(2) - 1) * 5;
+    testContext.fileManager.writeBlockNumbers({
+      metadata: { chain_id: 42170 },
+      blocks: { "2024-01-01": endOfDay(1), "2024-01-02": endOfDay(2) },
+    });
+
+    const result = await blockFinder.findBlocksForDateRange(
+      new Date("2024-01-03"),
+      new Date("2024-01-04"),
+    );
+
+    expect(result.blocks["2024-01-03"]).toBe(endOfDay(2) + 2 * BLOCKS_PER_DAY);
+    expect(requestedBlocks()).toContain(HEAD_BLOCK - 1000);
+  });
+});
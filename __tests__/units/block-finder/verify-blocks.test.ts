@@ -0,0 +1,225 @@
+import { ethers } from "ethers";
+import {
+  setupTestEnvironment,
+  cleanupTestEnvironment,
+  TestContext,
+  VALID_ADDRESS,
+  VALID_TX_HASH,
+} from "../file-manager/test-utils";
+import { BlockFinder } from "../../../src/block-finder";
+import {
+  BlockIssueKind,
+  BlockNumberData,
+  DistributorType,
+} from "../../../src/types";
+
+// One block per hour, each half an hour before the hour, so 2024-01-01 ends at block 24
+const JAN_1_MIDNIGHT = Date.UTC(2024, 0, 1) / 1000;
+const HEAD_BLOCK = 2000;
+
+function blockHash(blockNumber: number, fork: string = "0"): string {
+  return "0x" + fork + blockNumber.toString(16).padStart(63, "0");
+}
+
+describe("BlockFinder - verification and repair", () => {
+  let testContext: TestContext;
+  let provider: jest.Mocked<ethers.Provider>;
+  let blockFinder: BlockFinder;
+
+  function writeBlocks(data: Partial<BlockNumberData>): void {
+    testContext.fileManager.writeBlockNumbers({
+      metadata: { chain_id: 42170 },
+      blocks: {},
+      ...data,
+    });
+  }
+
+  beforeEach(() => {
+    testContext = setupTestEnvironment();
+    provider = {
+      getNetwork: jest.fn().mockResolvedValue({ chainId: BigInt(42170) }),
+      getBlockNumber: jest.fn().mockResolvedValue(HEAD_BLOCK),
+      getBlock: jest.fn(async (blockNumber: number) =>
+        blockNumber > HEAD_BLOCK
+          ? null
+          : {
+              number: blockNumber,
+              timestamp: JAN_1_MIDNIGHT + blockNumber * 3600 - 1800,
+              hash: blockHash(blockNumber),
+            },
+      ),
+    } as unknown as jest.Mocked<ethers.Provider>;
+    blockFinder = new BlockFinder(testContext.fileManager, provider);
+  });
+
+  afterEach(() => {
+    cleanupTestEnvironment(testContext.tempDir);
+  });
+
+  it("records the hash of each block it finds", async () => {
+    await blockFinder.findBlocksForDateRange(
+      new Date("2024-01-01"),
+      new Date("2024-01-02"),
+    );
+
+    expect(testContext.fileManager.readBlockNumbers()).toEqual({
+      metadata: { chain_id: 42170 },
+      blocks: { "2024-01-01": 24, "2024-01-02": 48 },
+      hashes: { "2024-01-01": blockHash(24), "2024-01-02": blockHash(48) },
+    });
+  });
+
+  describe("verifyBlocks", () => {
+    it("reports no issues for valid blocks", async () => {
+      writeBlocks({
+        blocks: { "2024-01-01": 24, "2024-01-02": 48 },
+        hashes: { "2024-01-01": blockHash(24) },
+      });
+
+      expect(await blockFinder.verifyBlocks()).toEqual({
+        metadata: { chain_id: 42170 },
+        checked_dates: 2,
+        issues: [],
+      });
+    });
+
+    it("reports blocks whose hash changed", async () => {
+      writeBlocks({
+        blocks: { "2024-01-01": 24 },
+        hashes: { "2024-01-01": blockHash(24, "f") },
+      });
+
+      const { issues } = await blockFinder.verifyBlocks();
+
+      expect(issues).toEqual([
+        {
+          date: "2024-01-01",
+          block_number: 24,
+          kind: BlockIssueKind.HASH_MISMATCH,
+          message: `Stored end-of-day block hash does not match the chain\n  Date: 2024-01-01\n  Block: 24\n  Stored hash: ${blockHash(24, "f")}\n  Chain hash: ${blockHash(24)}\n  Check: Run repair-blocks to recompute this date`,
+        },
+      ]);
+    });
+
+    it("reports blocks that break the end-of-day invariant", async () => {
+      writeBlocks({ blocks: { "2024-01-01": 25, "2024-01-02": 47 } });
+
+      const { issues } = await blockFinder.verifyBlocks();
+
+      expect(issues.map((issue) => issue.kind)).toEqual([
+        BlockIssueKind.AFTER_MIDNIGHT,
+        BlockIssueKind.NOT_LAST_BEFORE_MIDNIGHT,
+      ]);
+      expect(issues[1]!.message).toBe(
+        "Stored end-of-day block is not the last block before midnight\n  Date: 2024-01-02\n  Block: 47\n  Next block 48 timestamp: 2024-01-02T23:30:00.000Z\n  Midnight: 2024-01-03T00:00:00.000Z\n  Check: Run repair-blocks to recompute this date",
+      );
+    });
+
+    it("reports blocks the provider cannot find", async () => {
+      writeBlocks({ blocks: { "2024-01-01": HEAD_BLOCK + 1 } });
+
+      const { issues } = await blockFinder.verifyBlocks();
+
+      expect(issues[0]!.kind).toBe(BlockIssueKind.BLOCK_NOT_FOUND);
+    });
+  });
+
+  describe("repairBlocks", () => {
+    beforeEach(() => {
+      testContext.fileManager.writeDistributors({
+        metadata: {
+          chain_id: 42170,
+          arbowner_address: "0x0000000000000000000000000000000000000070",
+        },
+        distributors: {
+          [VALID_ADDRESS]: {
+            type: DistributorType.L2_BASE_FEE,
+            block: 1,
+            date: "2024-01-01",
+            tx_hash: VALID_TX_HASH,
+            method: "0x57f585db",
+            owner: VALID_ADDRESS,
+            event_data: "0x",
+            is_reward_distributor: true,
+            distributor_address: VALID_ADDRESS,
+          },
+        },
+      });
+      testContext.fileManager.writeDistributorBalances(VALID_ADDRESS, {
+        metadata: { chain_id: 42170, reward_distributor: VALID_ADDRESS },
+        balances: {
+          "2024-01-01": { block_number: 24, balance_wei: "1" },
+          "2024-01-02": { block_number: 50, balance_wei: "2" },
+          "2024-01-03": { block_number: 72, balance_wei: "3" },
+        },
+      });
+      testContext.fileManager.writeDistributorOutflows(VALID_ADDRESS, {
+        metadata: { chain_id: 42170, reward_distributor: VALID_ADDRESS },
+        outflows: {
+          "2024-01-01": {
+            block_number: 24,
+            total_outflow_wei: "0",
+            events: [],
+          },
+          "2024-01-02": {
+            block_number: 50,
+            total_outflow_wei: "0",
+            events: [],
+          },
+          "2024-01-03": {
+            block_number: 72,
+            total_outflow_wei: "0",
+            events: [],
+          },
+        },
+      });
+    });
+
+    it("recomputes invalid dates and marks dependent data stale", async () => {
+      writeBlocks({
+        blocks: { "2024-01-01": 24, "2024-01-02": 50, "2024-01-03": 72 },
+      });
+
+      const report = await blockFinder.repairBlocks();
+
+      expect(report.repaired).toEqual([
+        { date: "2024-01-02", previous_block: 50, block_number: 48 },
+      ]);
+      expect(report.stale_distributors).toEqual([VALID_ADDRESS]);
+      expect(testContext.fileManager.readBlockNumbers()).toEqual({
+        metadata: { chain_id: 42170 },
+        blocks: { "2024-01-01": 24, "2024-01-02": 48, "2024-01-03": 72 },
+        hashes: {
+          "2024-01-01": blockHash(24),
+          "2024-01-02": blockHash(48),
+          "2024-01-03": blockHash(72),
+        },
+      });
+      expect(
+        testContext.fileManager.readDistributorBalances(VALID_ADDRESS)!.metadata
+          .stale_dates,
+      ).toEqual(["2024-01-02"]);
+      // The next day's outflows start after the repaired block
+      expect(
+        testContext.fileManager.readDistributorOutflows(VALID_ADDRESS)!.metadata
+          .stale_dates,
+      ).toEqual(["2024-01-02", "2024-01-03"]);
+    });
+
+    it("backfills hashes without marking anything stale when blocks are valid", async () => {
+      writeBlocks({ blocks: { "2024-01-01": 24 } });
+
+      const report = await blockFinder.repairBlocks();
+
+      expect(report.repaired).toEqual([]);
+      expect(report.stale_distributors).toEqual([]);
+      expect(testContext.fileManager.readBlockNumbers()!.hashes).toEqual({
+        "2024-01-01": blockHash(24),
+      });
+      expect(
+        testContext.fileManager.readDistributorBalances(VALID_ADDRESS)!.metadata
+          .stale_dates,
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,940 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as util from "util";
+import {
+  main,
+  parseOptions,
+  parseDateRange,
+  parseAddressOption,
+  parseChainOption,
+  parseFinalityOption,
+  migrateStoreLayout,
+  resolveStoreDirectory,
+  EXIT_FAILURE,
+  EXIT_SUCCESS,
+  EXIT_USAGE,
+} from "../../src/cli";
+import { Pipeline } from "../../src/pipeline";
+import { FileManager } from "../../src/file-manager";
+import { BlockFinder } from "../../src/block-finder";
+import { DistributorDetector } from "../../src/distributor-detector";
+import { BalanceFetcher } from "../../src/balance-fetcher";
+import { EventScanner } from "../../src/event-scanner";
+import { FeeCalculator } from "../../src/fee-calculator";
+import { OutflowReconciler } from "../../src/outflow-reconciler";
+import { GapDetector } from "../../src/gap-detector";
+import { ARBITRUM_NOVA, ARBITRUM_ONE } from "../../src/constants/chains";
+import { withRetry } from "../../src/utils/retry";
+import {
+  BlockIssueKind,
+  BlockVerificationReport,
+  GapReport,
+  RecipientMismatchKind,
+  ReconciliationReport,
+  StoreMigrationReport,
+  StoreVerificationReport,
+  StoreViolationKind,
+  UsageError,
+} from "../../src/types";
+
+jest.mock("../../src/pipeline");
+jest.mock("../../src/file-manager");
+jest.mock("../../src/block-finder");
+jest.mock("../../src/distributor-detector");
+jest.mock("../../src/balance-fetcher");
+jest.mock("../../src/event-scanner");
+jest.mock("../../src/fee-calculator");
+jest.mock("../../src/outflow-reconciler");
+jest.mock("../../src/gap-detector");
+
+const RPC_ENV = { RPC_URL: "http://localhost:8545" };
+const DISTRIBUTOR = "0x37daA99b1cAAE0c22670963e103a66CA2c5dB2dB";
+
+describe("CLI", () => {
+  let consoleErrorSpy: jest.SpyInstance;
+  let stdoutSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleErrorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+    jest.mocked(FileManager.prototype.acquireLock).mockReturnValue([]);
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    stdoutSpy = jest
+      .spyOn(process.stdout, "write")
+      .mockImplementation(() => true);
+  });
+
+  describe("parseOptions", () => {
+    it("accepts separate and inline option values", () => {
+      const options = parseOptions(
+        ["--start", "2024-01-01", "--end=2024-01-02"],
+        ["start", "end"],
+      );
+
+      expect(options.get("start")).toBe("2024-01-01");
+      expect(options.get("end")).toBe("2024-01-02");
+    });
+
+    it("rejects unknown options", () => {
+      expect(() => parseOptions(["--foo", "bar"], ["start"])).toThrow(
+        new UsageError("Unknown option: --foo"),
+      );
+    });
+
+    it("rejects options without a value", () => {
+      expect(() => parseOptions(["--start"], ["start"])).toThrow(
+        "Missing value for option: --start",
+      );
+    });
+
+    it("rejects positional arguments", () => {
+      expect(() => parseOptions(["extra"], ["start"])).toThrow(
+        "Unexpected argument: extra",
+      );
+    });
+
+    it("accepts flags without a value and rejects flags given one", () => {
+      const options = parseOptions(
+        ["--dry-run", "--start", "2024-01-01"],
+        ["start"],
+        ["dry-run"],
+      );
+
+      expect(options.get("dry-run")).toBe("true");
+      expect(options.get("start")).toBe("2024-01-01");
+      expect(() => parseOptions(["--dry-run=yes"], [], ["dry-run"])).toThrow(
+        "Option --dry-run does not take a value",
+      );
+    });
+  });
+
+  describe("parseDateRange", () => {
+    const parse = (args: string[]) =>
+      parseDateRange(parseOptions(args, ["start", "end"]));
+
+    it("parses dates as UTC midnight", () => {
+      expect(parse(["--start", "2023-01-01", "--end", "2024-01-01"])).toEqual({
+        startDate: new Date("2023-01-01T00:00:00Z"),
+        endDate: new Date("2024-01-01T00:00:00Z"),
+      });
+    });
+
+    it("requires --start and --end", () => {
+      expect(() => parse(["--end", "2024-01-01"])).toThrow(
+        "Missing required option: --start",
+      );
+      expect(() => parse(["--start", "2024-01-01"])).toThrow(
+        "Missing required option: --end",
+      );
+    });
+
+    it("rejects invalid calendar dates", () => {
+      expect(() =>
+        parse(["--start", "2024-02-30", "--end", "2024-03-01"]),
+      ).toThrow("Invalid date for --start: 2024-02-30. Expected YYYY-MM-DD");
+    });
+
+    it("rejects a start date after the end date", () => {
+      expect(() =>
+        parse(["--start", "2024-01-02", "--end", "2024-01-01"]),
+      ).toThrow("--start (2024-01-02) must not be after --end (2024-01-01)");
+    });
+  });
+
+  describe("parseAddressOption", () => {
+    it("returns undefined when the option is absent", () => {
+      expect(parseAddressOption(new Map(), "distributor")).toBeUndefined();
+    });
+
+    it("checksums the address", () => {
+      const options = new Map([["distributor", DISTRIBUTOR.toLowerCase()]]);
+
+      expect(parseAddressOption(options, "distributor")).toBe(DISTRIBUTOR);
+    });
+
+    it("rejects invalid addresses", () => {
+      const options = new Map([["distributor", "0x1234"]]);
+
+      expect(() => parseAddressOption(options, "distributor")).toThrow(
+        "Invalid address for --distributor: 0x1234",
+      );
+    });
+  });
+
+  describe("parseChainOption", () => {
+    it("defaults to Arbitrum Nova", () => {
+      expect(parseChainOption(new Map())).toBe(ARBITRUM_NOVA);
+    });
+
+    it("accepts chain names and ids", () => {
+      expect(parseChainOption(new Map([["chain", "arbitrum-one"]]))).toBe(
+        ARBITRUM_ONE,
+      );
+      expect(parseChainOption(new Map([["chain", "42161"]]))).toBe(
+        ARBITRUM_ONE,
+      );
+    });
+
+    it("rejects unregistered chains", () => {
+      expect(() => parseChainOption(new Map([["chain", "1"]]))).toThrow(
+        "Unknown chain for --chain: 1. Expected one of: arbitrum-one, arbitrum-nova",
+      );
+    });
+
+    it("chooses from the given registry", () => {
+      const orbit = { ...ARBITRUM_ONE, chain_id: 660279, name: "xai-mainnet" };
+      const registry = [ARBITRUM_ONE, ARBITRUM_NOVA, orbit];
+
+      expect(
+        parseChainOption(new Map([["chain", "xai-mainnet"]]), registry),
+      ).toBe(orbit);
+      expect(() =>
+        parseChainOption(new Map([["chain", "1"]]), registry),
+      ).toThrow("Expected one of: arbitrum-one, arbitrum-nova, xai-mainnet");
+    });
+  });
+
+  describe("parseFinalityOption", () => {
+    it("returns undefined when not provided", () => {
+      expect(parseFinalityOption(new Map())).toBeUndefined();
+    });
+
+    it("parses block depths, ages and block tags", () => {
+      const parse = (value: string) =>
+        parseFinalityOption(new Map([["finality", value]]));
+
+      expect(parse("500")).toEqual({ kind: "depth", blocks: 500 });
+      expect(parse("3600s")).toEqual({ kind: "age", seconds: 3600 });
+      expect(parse("30m")).toEqual({ kind: "age", seconds: 1800 });
+      expect(parse("4h")).toEqual({ kind: "age", seconds: 14400 });
+      expect(parse("1d")).toEqual({ kind: "age", seconds: 86400 });
+      expect(parse("finalized")).toEqual({ kind: "tag", tag: "finalized" });
+      expect(parse("safe")).toEqual({ kind: "tag", tag: "safe" });
+    });
+
+    it("rejects other values", () => {
+      expect(() =>
+        parseFinalityOption(new Map([["finality", "latest"]])),
+      ).toThrow(UsageError);
+      expect(() => parseFinalityOption(new Map([["finality", "4w"]]))).toThrow(
+        "Invalid value for --finality: 4w",
+      );
+    });
+  });
+
+  describe("resolveStoreDirectory", () => {
+    let storeDirectory: string;
+
+    beforeEach(() => {
+      storeDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "cli-store-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(storeDirectory, { recursive: true, force: true });
+    });
+
+    it("namespaces the store by chain id", () => {
+      expect(resolveStoreDirectory(storeDirectory, ARBITRUM_ONE)).toBe(
+        path.join(storeDirectory, "42161"),
+      );
+    });
+
+    it("rejects stores in the single-chain layout", () => {
+      fs.writeFileSync(path.join(storeDirectory, "block_numbers.json"), "{}");
+
+      expect(() =>
+        resolveStoreDirectory(storeDirectory, ARBITRUM_NOVA),
+      ).toThrow(
+        `Store uses the single-chain layout\n  File: ${path.join(storeDirectory, "block_numbers.json")}\n  Check: Run migrate to move the store's contents into ${path.join(storeDirectory, "42170")}`,
+      );
+    });
+  });
+
+  describe("migrateStoreLayout", () => {
+    let storeDirectory: string;
+    const blocks = JSON.stringify({
+      metadata: { chain_id: 42170 },
+      blocks: {},
+    });
+
+    beforeEach(() => {
+      storeDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "cli-store-"));
+      fs.writeFileSync(path.join(storeDirectory, "block_numbers.json"), blocks);
+      fs.mkdirSync(path.join(storeDirectory, "distributors", DISTRIBUTOR), {
+        recursive: true,
+      });
+      fs.writeFileSync(
+        path.join(storeDirectory, "distributors", DISTRIBUTOR, "balances.json"),
+        "{}",
+      );
+    });
+
+    afterEach(() => {
+      fs.rmSync(storeDirectory, { recursive: true, force: true });
+    });
+
+    it("moves a single-chain store into the chain's directory", () => {
+      const chainDirectory = path.join(storeDirectory, "42170");
+
+      expect(migrateStoreLayout(storeDirectory, ARBITRUM_NOVA, false)).toEqual({
+        from: storeDirectory,
+        to: chainDirectory,
+        files: ["distributors", "block_numbers.json"],
+      });
+
+      expect(fs.readdirSync(storeDirectory)).toEqual(["42170"]);
+      expect(
+        fs.readFileSync(
+          path.join(chainDirectory, "block_numbers.json"),
+          "utf-8",
+        ),
+      ).toBe(blocks);
+      expect(
+        fs.existsSync(
+          path.join(
+            chainDirectory,
+            "distributors",
+            DISTRIBUTOR,
+            "balances.json",
+          ),
+        ),
+      ).toBe(true);
+      expect(resolveStoreDirectory(storeDirectory, ARBITRUM_NOVA)).toBe(
+        chainDirectory,
+      );
+      expect(
+        migrateStoreLayout(storeDirectory, ARBITRUM_NOVA, false),
+      ).toBeUndefined();
+    });
+
+    it("only lists the files to move in a dry run", () => {
+      expect(
+        migrateStoreLayout(storeDirectory, ARBITRUM_NOVA, true)?.files,
+      ).toEqual(["distributors", "block_numbers.json"]);
+      expect(fs.readdirSync(storeDirectory).sort()).toEqual([
+        "block_numbers.json",
+        "distributors",
+      ]);
+    });
+
+    it("finishes a move that was interrupted part way", () => {
+      fs.mkdirSync(path.join(storeDirectory, "42170"));
+      fs.renameSync(
+        path.join(storeDirectory, "distributors"),
+        path.join(storeDirectory, "42170", "distributors"),
+      );
+
+      expect(
+        migrateStoreLayout(storeDirectory, ARBITRUM_NOVA, false)?.files,
+      ).toEqual(["block_numbers.json"]);
+      expect(fs.readdirSync(path.join(storeDirectory, "42170")).sort()).toEqual(
+        ["block_numbers.json", "distributors"],
+      );
+    });
+
+    it("refuses a store holding another chain's data", () => {
+      expect(() =>
+        migrateStoreLayout(storeDirectory, ARBITRUM_ONE, false),
+      ).toThrow(
+        `Store belongs to a different chain than selected\n  File: ${path.join(storeDirectory, "block_numbers.json")}\n  Stored chain_id: 42170\n  Selected: arbitrum-one (42161)\n  Check: Select chain 42170 with --chain`,
+      );
+      expect(fs.existsSync(path.join(storeDirectory, "42161"))).toBe(false);
+    });
+
+    it("does not overwrite a file already in the chain's directory", () => {
+      fs.mkdirSync(path.join(storeDirectory, "42170"));
+      fs.writeFileSync(
+        path.join(storeDirectory, "42170", "block_numbers.json"),
+        "{}",
+      );
+
+      expect(() =>
+        migrateStoreLayout(storeDirectory, ARBITRUM_NOVA, false),
+      ).toThrow(/^Cannot move store file into the chain's directory\n/);
+      expect(
+        fs.readFileSync(
+          path.join(storeDirectory, "block_numbers.json"),
+          "utf-8",
+        ),
+      ).toBe(blocks);
+      // The store's lock was released
+      expect(fs.existsSync(path.join(storeDirectory, ".lock"))).toBe(false);
+    });
+  });
+
+  describe("main", () => {
+    const runArgs = ["run", "--start", "2024-01-01", "--end", "2024-01-02"];
+
+    it("prints usage and exits with usage code when no command is given", async () => {
+      expect(await main([], RPC_ENV)).toBe(EXIT_USAGE);
+    });
+
+    it("exits successfully for --help", async () => {
+      expect(await main(["--help"], RPC_ENV)).toBe(EXIT_SUCCESS);
+    });
+
+    it("exits with usage code for unknown commands", async () => {
+      expect(await main(["frobnicate"], RPC_ENV)).toBe(EXIT_USAGE);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Unknown command: frobnicate"),
+      );
+    });
+
+    it("exits with usage code when RPC_URL is missing", async () => {
+      expect(await main(runArgs, {})).toBe(EXIT_USAGE);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining("RPC_URL is not set"),
+      );
+      expect(Pipeline.prototype.run).not.toHaveBeenCalled();
+    });
+
+    it("runs the pipeline against the store and prints the report", async () => {
+      const report = {
+        metadata: { chain_id: 42170 },
+        distributors: {},
+        by_type: {},
+        total: { total_fee_wei: "0", daily: {} },
+      };
+      jest.mocked(Pipeline.prototype.run).mockResolvedValue(report);
+
+      expect(await main([...runArgs, "--store", "./data"], RPC_ENV)).toBe(
+        EXIT_SUCCESS,
+      );
+
+      expect(FileManager).toHaveBeenCalledWith(path.join("data", "42170"), {
+        readOnly: false,
+      });
+      expect(Pipeline.prototype.run).toHaveBeenCalledWith(
+        new Date("2024-01-01T00:00:00Z"),
+        new Date("2024-01-02T00:00:00Z"),
+      );
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        JSON.stringify(report, null, 2) + "\n",
+      );
+    });
+
+    it("keeps stdout parseable when a call is retried", async () => {
+      // Console output reaches stdout as it would outside the tests
+      jest
+        .spyOn(console, "log")
+        .mockImplementation((...args: unknown[]) =>
+          process.stdout.write(`${util.format(...args)}\n`),
+        );
+      const report = { metadata: { chain_id: 42170 }, total: {} };
+      jest
+        .mocked(Pipeline.prototype.run)
+        .mockImplementation(
+          () =>
+            withRetry(
+              jest
+                .fn()
+                .mockRejectedValueOnce(new Error("socket hang up"))
+                .mockResolvedValueOnce(report),
+              { initialDelay: 0, operationName: "getBlock" },
+            ) as ReturnType<Pipeline["run"]>,
+        );
+
+      expect(await main(runArgs, RPC_ENV)).toBe(EXIT_SUCCESS);
+
+      const stdout = stdoutSpy.mock.calls.map(([chunk]) => chunk).join("");
+      expect(JSON.parse(stdout)).toEqual(report);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Retry attempt 1/3 for getBlock"),
+      );
+    });
+
+    it("exits with failure code when a stage fails", async () => {
+      jest
+        .mocked(Pipeline.prototype.run)
+        .mockRejectedValue(new Error("Block 5 not found"));
+
+      expect(await main(runArgs, RPC_ENV)).toBe(EXIT_FAILURE);
+      expect(consoleErrorSpy).toHaveBeenCalledWith("Error: Block 5 not found");
+      expect(stdoutSpy).not.toHaveBeenCalled();
+    });
+
+    it("holds the store lock while a command writes and releases it after a failure", async () => {
+      jest
+        .mocked(Pipeline.prototype.run)
+        .mockRejectedValue(new Error("Block 5 not found"));
+
+      expect(await main(runArgs, RPC_ENV)).toBe(EXIT_FAILURE);
+
+      expect(FileManager.prototype.acquireLock).toHaveBeenCalledTimes(1);
+      expect(FileManager.prototype.releaseLock).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports orphaned temporary files removed when the lock is taken", async () => {
+      jest
+        .mocked(FileManager.prototype.acquireLock)
+        .mockReturnValueOnce(["block_numbers.json.tmp"]);
+      jest.mocked(Pipeline.prototype.run).mockResolvedValue({
+        metadata: { chain_id: 42170 },
+        distributors: {},
+        by_type: {},
+        total: { total_fee_wei: "0", daily: {} },
+      });
+
+      expect(await main(runArgs, RPC_ENV)).toBe(EXIT_SUCCESS);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^Removed temporary files left by an interrupted write\n.*\n {2}Files: block_numbers\.json\.tmp$/,
+        ),
+      );
+    });
+
+    it("fails without running the command when the store is locked", async () => {
+      jest
+        .mocked(FileManager.prototype.acquireLock)
+        .mockImplementationOnce(() => {
+          throw new Error("Store is locked by another run");
+        });
+
+      expect(await main(runArgs, RPC_ENV)).toBe(EXIT_FAILURE);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        "Error: Store is locked by another run",
+      );
+      expect(Pipeline.prototype.run).not.toHaveBeenCalled();
+    });
+
+    it("rejects options the command does not accept", async () => {
+      expect(await main(["calculate", "--start", "2024-01-01"], {})).toBe(
+        EXIT_USAGE,
+      );
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Unknown option: --start"),
+      );
+    });
+  });
+
+  describe("stage commands", () => {
+    it("find-blocks runs the block finder and prints block numbers", async () => {
+      const blocks = { metadata: { chain_id: 42170 }, blocks: {} };
+      jest
+        .mocked(BlockFinder.prototype.findBlocksForDateRange)
+        .mockResolvedValue(blocks);
+
+      expect(
+        await main(
+          ["find-blocks", "--start", "2024-01-01", "--end", "2024-01-05"],
+          RPC_ENV,
+        ),
+      ).toBe(EXIT_SUCCESS);
+
+      expect(BlockFinder.prototype.findBlocksForDateRange).toHaveBeenCalledWith(
+        new Date("2024-01-01T00:00:00Z"),
+        new Date("2024-01-05T00:00:00Z"),
+      );
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        JSON.stringify(blocks, null, 2) + "\n",
+      );
+    });
+
+    it("passes the selected chain to stages and its store directory", async () => {
+      jest
+        .mocked(BlockFinder.prototype.findBlocksForDateRange)
+        .mockResolvedValue({ metadata: { chain_id: 42161 }, blocks: {} });
+
+      expect(
+        await main(
+          [
+            "find-blocks",
+            "--start",
+            "2024-01-01",
+            "--end",
+            "2024-01-05",
+            "--chain",
+            "arbitrum-one",
+          ],
+          RPC_ENV,
+        ),
+      ).toBe(EXIT_SUCCESS);
+
+      expect(FileManager).toHaveBeenCalledWith(path.join("store", "42161"), {
+        readOnly: false,
+      });
+      expect(BlockFinder).toHaveBeenCalledWith(
+        expect.any(FileManager),
+        expect.anything(),
+        ARBITRUM_ONE,
+      );
+    });
+
+    it("applies --finality to the selected chain", async () => {
+      expect(
+        await main(
+          ["detect-distributors", "--end", "2024-01-05", "--finality", "4h"],
+          RPC_ENV,
+        ),
+      ).toBe(EXIT_SUCCESS);
+
+      expect(DistributorDetector).toHaveBeenCalledWith(
+        expect.any(FileManager),
+        expect.anything(),
+        { ...ARBITRUM_NOVA, finality: { kind: "age", seconds: 14400 } },
+      );
+    });
+
+    it("detect-distributors scans up to the end date", async () => {
+      expect(
+        await main(["detect-distributors", "--end", "2024-01-05"], RPC_ENV),
+      ).toBe(EXIT_SUCCESS);
+
+      expect(
+        DistributorDetector.prototype.detectDistributors,
+      ).toHaveBeenCalledWith(new Date("2024-01-05T00:00:00Z"));
+    });
+
+    it("fetch-balances passes the checksummed distributor address", async () => {
+      expect(
+        await main(
+          ["fetch-balances", "--distributor", DISTRIBUTOR.toLowerCase()],
+          RPC_ENV,
+        ),
+      ).toBe(EXIT_SUCCESS);
+
+      expect(BalanceFetcher.prototype.fetchBalances).toHaveBeenCalledWith(
+        DISTRIBUTOR,
+      );
+      expect(stdoutSpy).not.toHaveBeenCalled();
+    });
+
+    it("fetch-balances processes all distributors without --distributor", async () => {
+      expect(await main(["fetch-balances"], RPC_ENV)).toBe(EXIT_SUCCESS);
+
+      expect(BalanceFetcher.prototype.fetchBalances).toHaveBeenCalledWith(
+        undefined,
+      );
+    });
+
+    it("scan-outflows passes the distributor address", async () => {
+      expect(
+        await main(["scan-outflows", "--distributor", DISTRIBUTOR], RPC_ENV),
+      ).toBe(EXIT_SUCCESS);
+
+      expect(EventScanner.prototype.scanOutflows).toHaveBeenCalledWith(
+        DISTRIBUTOR,
+      );
+    });
+
+    it("scan-recipients passes the distributor address", async () => {
+      expect(
+        await main(["scan-recipients", "--distributor", DISTRIBUTOR], RPC_ENV),
+      ).toBe(EXIT_SUCCESS);
+
+      expect(EventScanner.prototype.scanRecipientUpdates).toHaveBeenCalledWith(
+        DISTRIBUTOR,
+      );
+    });
+
+    it("calculate reads the selected store without requiring RPC_URL", async () => {
+      const report = {
+        metadata: { chain_id: 42170 },
+        distributors: {},
+        by_type: {},
+        total: { total_fee_wei: "0", daily: {} },
+      };
+      jest
+        .mocked(FeeCalculator.prototype.calculateFees)
+        .mockReturnValue(report);
+
+      expect(await main(["calculate", "--store", "/tmp/store"], {})).toBe(
+        EXIT_SUCCESS,
+      );
+
+      expect(FileManager).toHaveBeenCalledWith("/tmp/store/42170", {
+        readOnly: true,
+      });
+      expect(FileManager.prototype.acquireLock).not.toHaveBeenCalled();
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        JSON.stringify(report, null, 2) + "\n",
+      );
+    });
+
+    it("verify-blocks fails when stored blocks have issues", async () => {
+      const report: BlockVerificationReport = {
+        metadata: { chain_id: 42170 },
+        checked_dates: 1,
+        issues: [
+          {
+            date: "2024-01-01",
+            block_number: 100,
+            kind: BlockIssueKind.HASH_MISMATCH,
+            message: "Stored end-of-day block hash does not match the chain",
+          },
+        ],
+      };
+      jest.mocked(BlockFinder.prototype.verifyBlocks).mockResolvedValue(report);
+
+      expect(await main(["verify-blocks"], RPC_ENV)).toBe(EXIT_FAILURE);
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        JSON.stringify(report, null, 2) + "\n",
+      );
+
+      jest
+        .mocked(BlockFinder.prototype.verifyBlocks)
+        .mockResolvedValue({ ...report, issues: [] });
+      expect(await main(["verify-blocks"], RPC_ENV)).toBe(EXIT_SUCCESS);
+    });
+
+    it("repair-blocks prints the repair report", async () => {
+      jest.mocked(BlockFinder.prototype.repairBlocks).mockResolvedValue({
+        metadata: { chain_id: 42170 },
+        checked_dates: 1,
+        issues: [],
+        repaired: [],
+        stale_distributors: [],
+      });
+
+      expect(await main(["repair-blocks"], RPC_ENV)).toBe(EXIT_SUCCESS);
+      expect(BlockFinder.prototype.repairBlocks).toHaveBeenCalled();
+    });
+
+    it("gaps prints the report without RPC_URL and fails when dates are missing", async () => {
+      const report: GapReport = {
+        metadata: { chain_id: 42170 },
+        latest_date: "2024-01-03",
+        block_numbers: ["2024-01-02"],
+        distributors: {},
+      };
+      jest.mocked(GapDetector.prototype.findGaps).mockReturnValue(report);
+
+      expect(await main(["gaps"], {})).toBe(EXIT_FAILURE);
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        JSON.stringify(report, null, 2) + "\n",
+      );
+
+      jest
+        .mocked(GapDetector.prototype.findGaps)
+        .mockReturnValue({ ...report, block_numbers: [] });
+      expect(await main(["gaps"], {})).toBe(EXIT_SUCCESS);
+    });
+
+    it("verify prints violations without RPC_URL and fails when any are found", async () => {
+      const report: StoreVerificationReport = {
+        checked_files: 2,
+        violations: [
+          {
+            file: "block_numbers.json",
+            kind: StoreViolationKind.INVALID_JSON,
+            message: "File is not valid JSON",
+          },
+        ],
+      };
+      jest.mocked(FileManager.prototype.verifyStore).mockReturnValue(report);
+
+      expect(await main(["verify"], {})).toBe(EXIT_FAILURE);
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        JSON.stringify(report, null, 2) + "\n",
+      );
+
+      jest
+        .mocked(FileManager.prototype.verifyStore)
+        .mockReturnValue({ checked_files: 2, violations: [] });
+      expect(await main(["verify"], {})).toBe(EXIT_SUCCESS);
+    });
+
+    it("migrate upgrades the store under its lock, or only reports read-only with --dry-run", async () => {
+      const report: StoreMigrationReport = {
+        schema_version: 1,
+        dry_run: true,
+        files: [{ file: "block_numbers.json", from_version: 0, to_version: 1 }],
+      };
+      jest.mocked(FileManager.prototype.migrateStore).mockReturnValue(report);
+
+      expect(await main(["migrate", "--dry-run"], {})).toBe(EXIT_SUCCESS);
+      expect(FileManager).toHaveBeenCalledWith("store/42170", {
+        readOnly: true,
+      });
+      expect(FileManager.prototype.acquireLock).not.toHaveBeenCalled();
+      expect(FileManager.prototype.migrateStore).toHaveBeenCalledWith(true);
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        JSON.stringify(report, null, 2) + "\n",
+      );
+
+      expect(await main(["migrate"], {})).toBe(EXIT_SUCCESS);
+      expect(FileManager.prototype.migrateStore).toHaveBeenLastCalledWith(
+        false,
+      );
+      expect(FileManager.prototype.acquireLock).toHaveBeenCalledTimes(1);
+    });
+
+    it("migrate moves a single-chain store into the chain's directory first", async () => {
+      const storeDirectory = fs.mkdtempSync(
+        path.join(os.tmpdir(), "cli-store-"),
+      );
+      fs.writeFileSync(
+        path.join(storeDirectory, "block_numbers.json"),
+        JSON.stringify({ metadata: { chain_id: 42170 }, blocks: {} }),
+      );
+      const report: StoreMigrationReport = {
+        schema_version: 1,
+        dry_run: false,
+        files: [],
+      };
+      jest.mocked(FileManager.prototype.migrateStore).mockReturnValue(report);
+
+      try {
+        expect(await main(["migrate", "--store", storeDirectory], {})).toBe(
+          EXIT_SUCCESS,
+        );
+
+        const chainDirectory = path.join(storeDirectory, "42170");
+        expect(FileManager).toHaveBeenCalledWith(chainDirectory, {
+          readOnly: false,
+        });
+        expect(
+          fs.existsSync(path.join(chainDirectory, "block_numbers.json")),
+        ).toBe(true);
+        expect(stdoutSpy).toHaveBeenCalledWith(
+          JSON.stringify(
+            {
+              ...report,
+              layout: {
+                from: storeDirectory,
+                to: chainDirectory,
+                files: ["block_numbers.json"],
+              },
+            },
+            null,
+            2,
+          ) + "\n",
+        );
+      } finally {
+        fs.rmSync(storeDirectory, { recursive: true, force: true });
+      }
+    });
+
+    it("selects chains registered in the store's chains.json", async () => {
+      const storeDirectory = fs.mkdtempSync(
+        path.join(os.tmpdir(), "cli-store-"),
+      );
+      fs.writeFileSync(
+        path.join(storeDirectory, "chains.json"),
+        JSON.stringify({
+          chains: [
+            {
+              chain_id: 660279,
+              name: "xai-mainnet",
+              finality_blocks: 1000,
+              default_chunk_size: 5000,
+              genesis_date: "2024-01-09",
+            },
+          ],
+        }),
+      );
+      jest
+        .mocked(BlockFinder.prototype.findBlocksForDateRange)
+        .mockResolvedValue({ metadata: { chain_id: 660279 }, blocks: {} });
+
+      try {
+        expect(
+          await main(
+            [
+              "find-blocks",
+              "--start",
+              "2024-02-01",
+              "--end",
+              "2024-02-02",
+              "--chain",
+              "xai-mainnet",
+              "--store",
+              storeDirectory,
+            ],
+            RPC_ENV,
+          ),
+        ).toBe(EXIT_SUCCESS);
+
+        expect(FileManager).toHaveBeenCalledWith(
+          path.join(storeDirectory, "660279"),
+          { readOnly: false },
+        );
+        expect(BlockFinder).toHaveBeenCalledWith(
+          expect.any(FileManager),
+          expect.anything(),
+          expect.objectContaining({ chain_id: 660279, name: "xai-mainnet" }),
+        );
+      } finally {
+        fs.rmSync(storeDirectory, { recursive: true, force: true });
+      }
+    });
+
+    it("repair-gaps fails when dates remain missing", async () => {
+      jest.mocked(Pipeline.prototype.repairGaps).mockResolvedValue({
+        metadata: { chain_id: 42170 },
+        latest_date: "2024-01-03",
+        block_numbers: [],
+        distributors: {
+          [DISTRIBUTOR]: { balances: ["2024-01-01"], outflows: [] },
+        },
+      });
+
+      expect(await main(["repair-gaps"], RPC_ENV)).toBe(EXIT_FAILURE);
+      expect(Pipeline.prototype.repairGaps).toHaveBeenCalled();
+    });
+
+    it("reconcile prints the report and fails when mismatches are found", async () => {
+      const report: ReconciliationReport = {
+        metadata: { chain_id: 42170 },
+        distributors: {
+          [DISTRIBUTOR]: {
+            checked_transactions: 1,
+            mismatches: [
+              {
+                date: "2024-01-01",
+                tx_hash: "0x" + "a".repeat(64),
+                block_number: 100,
+                recipients: [
+                  {
+                    kind: RecipientMismatchKind.MISSING_RECIPIENT,
+                    recipient: DISTRIBUTOR,
+                    weight: 10000,
+                    expected_wei: "0",
+                    actual_wei: "0",
+                  },
+                ],
+                message: "Outflows do not match recipient weights",
+              },
+            ],
+          },
+        },
+      };
+      jest
+        .mocked(OutflowReconciler.prototype.reconcile)
+        .mockReturnValue(report);
+
+      expect(await main(["reconcile"], {})).toBe(EXIT_FAILURE);
+      expect(stdoutSpy).toHaveBeenCalledWith(
+        JSON.stringify(report, null, 2) + "\n",
+      );
+    });
+
+    it("reconcile succeeds when every transaction matches", async () => {
+      jest.mocked(OutflowReconciler.prototype.reconcile).mockReturnValue({
+        metadata: { chain_id: 42170 },
+        distributors: {
+          [DISTRIBUTOR]: { checked_transactions: 3, mismatches: [] },
+        },
+      });
+
+      expect(await main(["reconcile", "--distributor", DISTRIBUTOR], {})).toBe(
+        EXIT_SUCCESS,
+      );
+      expect(OutflowReconciler.prototype.reconcile).toHaveBeenCalledWith(
+        DISTRIBUTOR,
+      );
+    });
+
+    it("exits with failure code when a stage throws", async () => {
+      jest
+        .mocked(BalanceFetcher.prototype.fetchBalances)
+        .mockRejectedValue(new Error(`Distributor not found: ${DISTRIBUTOR}`));
+
+      expect(
+        await main(["fetch-balances", "--distributor", DISTRIBUTOR], RPC_ENV),
+      ).toBe(EXIT_FAILURE);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  ARBITRUM_NOVA,
+  ARBITRUM_ONE,
+  CHAIN_REGISTRY,
+  DEFAULT_CHAIN,
+  findChainConfig,
+} from "../../../src/constants/chains";
+import { CHAIN_IDS, CONTRACTS } from "../../../src/types";
+
+describe("Chain Registry", () => {
+  it("registers Arbitrum One and Nova with the ArbOwner precompile", () => {
+    expect(CHAIN_REGISTRY.map((chain) => chain.chain_id)).toEqual([
+      CHAIN_IDS.ARBITRUM_ONE,
+      CHAIN_IDS.ARBITRUM_NOVA,
+    ]);
+    for (const chain of CHAIN_REGISTRY) {
+      expect(chain.arbowner_address).toBe(CONTRACTS.ARB_OWNER);
+    }
+  });
+
+  it("has unique chain ids and names", () => {
+    const ids = new Set(CHAIN_REGISTRY.map((chain) => chain.chain_id));
+    const names = new Set(CHAIN_REGISTRY.map((chain) => chain.name));
+
+    expect(ids.size).toBe(CHAIN_REGISTRY.length);
+    expect(names.size).toBe(CHAIN_REGISTRY.length);
+  });
+
+  it("defaults to Arbitrum Nova", () => {
+    expect(DEFAULT_CHAIN).toBe(ARBITRUM_NOVA);
+  });
+
+  describe("findChainConfig", () => {
+    it("finds chains by name or id", () => {
+      expect(findChainConfig("arbitrum-one")).toBe(ARBITRUM_ONE);
+      expect(findChainConfig("42170")).toBe(ARBITRUM_NOVA);
+    });
+
+    it("searches the given registry", () => {
+      const orbit = { ...ARBITRUM_ONE, chain_id: 660279, name: "xai-mainnet" };
+
+      expect(findChainConfig("660279", [...CHAIN_REGISTRY, orbit])).toBe(orbit);
+      expect(findChainConfig("xai-mainnet")).toBeUndefined();
+    });
+
+    it("returns undefined for unregistered chains", () => {
+      expect(findChainConfig("1")).toBeUndefined();
+      expect(findChainConfig("Arbitrum-Nova")).toBeUndefined();
+    });
+  });
+});
@@ -5,7 +5,9 @@ import {
   BlockNumberData,
   DistributorInfo,
   DistributorType,
+  ChainMismatchError,
 } from "../../../src/types";
+import { ARBITRUM_NOVA, ARBITRUM_ONE } from "../../../src/constants/chains";
 import { ethers } from "ethers";
 
 // Mock dependencies
@@ -16,6 +18,7 @@ describe("DistributorDetector.detectDistributors", () => {
   let mockFileManager: jest.Mocked<FileManager>;
   let mockProvider: jest.Mocked<ethers.Provider>;
   let scanBlockRangeSpy: jest.SpyInstance;
+  let getFeeCollectorsSpy: jest.SpyInstance;
 
   // Test data
   const testBlockNumbers: BlockNumberData = {
@@ -33,6 +36,7 @@ describe("DistributorDetector.detectDistributors", () => {
       chain_id: 42170,
       arbowner_address: "0x0000000000000000000000000000000000000070",
       last_scanned_block: 150,
+      last_polled_block: 150,
     },
     distributors: {
       "0x1234567890123456789012345678901234567890": {
@@ -61,6 +65,13 @@ describe("DistributorDetector.detectDistributors", () => {
     distributor_address: "0xABCDEF0123456789ABCDEF0123456789ABCDEF01",
   };
 
+  const newDistributorEntry: DistributorInfo = {
+    ...newDistributorInfo,
+    active_from_block: 250,
+    active_from_date: "2023-03-16",
+    active_periods: [{ from_block: 250, from_date: "2023-03-16" }],
+  };
+
   beforeEach(() => {
     // Mock FileManager
     mockFileManager = new FileManager("test-store") as jest.Mocked<FileManager>;
@@ -71,6 +82,7 @@ describe("DistributorDetector.detectDistributors", () => {
     // Mock Provider
     mockProvider = {
       getNetwork: jest.fn().mockResolvedValue({ chainId: 42170n }),
+      getBlockNumber: jest.fn().mockResolvedValue(100000),
     } as unknown as jest.Mocked<ethers.Provider>;
 
     // Create detector instance
@@ -78,6 +90,10 @@ describe("DistributorDetector.detectDistributors", () => {
 
     // Spy on scanBlockRange static method
     scanBlockRangeSpy = jest.spyOn(DistributorDetector, "scanBlockRange");
+    // No batch posters unless a test sets some
+    getFeeCollectorsSpy = jest
+      .spyOn(DistributorDetector, "getFeeCollectors")
+      .mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -96,18 +112,26 @@ describe("DistributorDetector.detectDistributors", () => {
       const result = await detector.detectDistributors(endDate);
 
       // Assert
-      expect(mockFileManager.readDistributors).toHaveBeenCalledTimes(1);
-      expect(mockFileManager.readBlockNumbers).toHaveBeenCalledTimes(1);
-      expect(scanBlockRangeSpy).toHaveBeenCalledWith(mockProvider, 0, 300);
+      // Once for the scan range and once by the chain guard
+      expect(mockFileManager.readDistributors).toHaveBeenCalledTimes(2);
+      expect(mockFileManager.readBlockNumbers).toHaveBeenCalledTimes(2);
+      expect(scanBlockRangeSpy).toHaveBeenCalledWith(
+        mockProvider,
+        0,
+        300,
+        ARBITRUM_NOVA.default_chunk_size,
+        ARBITRUM_NOVA.arbowner_address,
+      );
 
       const expectedData: DistributorsData = {
         metadata: {
           chain_id: 42170,
           arbowner_address: "0x0000000000000000000000000000000000000070",
           last_scanned_block: 300,
+          last_polled_block: 300,
         },
         distributors: {
-          "0xABCDEF0123456789ABCDEF0123456789ABCDEF01": newDistributorInfo,
+          "0xABCDEF0123456789ABCDEF0123456789ABCDEF01": newDistributorEntry,
         },
       };
 
@@ -128,20 +152,27 @@ describe("DistributorDetector.detectDistributors", () => {
       const result = await detector.detectDistributors(endDate);
 
       // Assert
-      expect(scanBlockRangeSpy).toHaveBeenCalledWith(mockProvider, 151, 400);
+      expect(scanBlockRangeSpy).toHaveBeenCalledWith(
+        mockProvider,
+        151,
+        400,
+        ARBITRUM_NOVA.default_chunk_size,
+        ARBITRUM_NOVA.arbowner_address,
+      );
 
       const expectedData: DistributorsData = {
         metadata: {
           chain_id: 42170,
           arbowner_address: "0x0000000000000000000000000000000000000070",
           last_scanned_block: 400,
+          last_polled_block: 400,
         },
         distributors: {
           "0x1234567890123456789012345678901234567890":
             existingDistributors.distributors[
               "0x1234567890123456789012345678901234567890"
             ]!,
-          "0xABCDEF0123456789ABCDEF0123456789ABCDEF01": newDistributorInfo,
+          "0xABCDEF0123456789ABCDEF0123456789ABCDEF01": newDistributorEntry,
         },
       };
 
@@ -159,6 +190,7 @@ describe("DistributorDetector.detectDistributors", () => {
         metadata: {
           ...existingDistributors.metadata,
           last_scanned_block: 200,
+          last_polled_block: 200,
         },
       };
       mockFileManager.readDistributors.mockReturnValue(upToDateDistributors);
@@ -184,12 +216,19 @@ describe("DistributorDetector.detectDistributors", () => {
       const result = await detector.detectDistributors(endDate);
 
       // Assert
-      expect(scanBlockRangeSpy).toHaveBeenCalledWith(mockProvider, 151, 300);
+      expect(scanBlockRangeSpy).toHaveBeenCalledWith(
+        mockProvider,
+        151,
+        300,
+        ARBITRUM_NOVA.default_chunk_size,
+        ARBITRUM_NOVA.arbowner_address,
+      );
 
       const expectedData: DistributorsData = {
         metadata: {
           ...existingDistributors.metadata,
           last_scanned_block: 300,
+          last_polled_block: 300,
         },
         distributors: existingDistributors.distributors,
       };
@@ -226,13 +265,14 @@ describe("DistributorDetector.detectDistributors", () => {
         metadata: {
           ...existingDistributors.metadata,
           last_scanned_block: 300,
+          last_polled_block: 300,
         },
         distributors: {
           "0x1234567890123456789012345678901234567890":
             existingDistributors.distributors[
               "0x1234567890123456789012345678901234567890"
             ]!,
-          "0xABCDEF0123456789ABCDEF0123456789ABCDEF01": newDistributorInfo,
+          "0xABCDEF0123456789ABCDEF0123456789ABCDEF01": newDistributorEntry,
         },
       };
 
@@ -243,6 +283,358 @@ describe("DistributorDetector.detectDistributors", () => {
     });
   });
 
+  describe("distributor lifecycle", () => {
+    const replacementInfo: DistributorInfo = {
+      ...existingDistributors.distributors[
+        "0x1234567890123456789012345678901234567890"
+      ]!,
+      block: 280,
+      date: "2023-03-16",
+      tx_hash: "0x" + "c".repeat(64),
+      distributor_address: "0x2222222222222222222222222222222222222222",
+    };
+
+    it("should retire a live distributor when a new one of the same type is created", async () => {
+      // Arrange
+      const endDate = new Date("2023-03-16");
+      mockFileManager.readDistributors.mockReturnValue(existingDistributors);
+      mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
+      scanBlockRangeSpy.mockResolvedValue([
+        replacementInfo,
+        newDistributorInfo,
+      ]);
+
+      // Act
+      const result = await detector.detectDistributors(endDate);
+
+      // Assert
+      expect(result.distributors).toEqual({
+        "0x1234567890123456789012345678901234567890": {
+          ...existingDistributors.distributors[
+            "0x1234567890123456789012345678901234567890"
+          ]!,
+          active_until_block: 280,
+          active_until_date: "2023-03-16",
+          active_periods: [
+            {
+              from_block: 120,
+              from_date: "2023-03-14",
+              until_block: 280,
+              until_date: "2023-03-16",
+            },
+          ],
+        },
+        "0x2222222222222222222222222222222222222222": {
+          ...replacementInfo,
+          active_from_block: 280,
+          active_from_date: "2023-03-16",
+          active_periods: [{ from_block: 280, from_date: "2023-03-16" }],
+        },
+        "0xABCDEF0123456789ABCDEF0123456789ABCDEF01": newDistributorEntry,
+      });
+    });
+
+    it("should retire each distributor in turn when several replacements are found", async () => {
+      // Arrange
+      const endDate = new Date("2023-03-17");
+      const secondReplacement: DistributorInfo = {
+        ...replacementInfo,
+        block: 350,
+        date: "2023-03-17",
+        distributor_address: "0x3333333333333333333333333333333333333333",
+      };
+      mockFileManager.readDistributors.mockReturnValue(existingDistributors);
+      mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
+      scanBlockRangeSpy.mockResolvedValue([secondReplacement, replacementInfo]);
+
+      // Act
+      const result = await detector.detectDistributors(endDate);
+
+      // Assert
+      expect(
+        result.distributors["0x1234567890123456789012345678901234567890"]!
+          .active_until_block,
+      ).toBe(280);
+      expect(
+        result.distributors["0x2222222222222222222222222222222222222222"]!
+          .active_until_block,
+      ).toBe(350);
+      expect(
+        result.distributors["0x3333333333333333333333333333333333333333"]!
+          .active_until_block,
+      ).toBeUndefined();
+    });
+
+    it("should reactivate a retired distributor that is set again, keeping its earlier period closed", async () => {
+      // Arrange
+      const endDate = new Date("2023-03-17");
+      const retiredData: DistributorsData = {
+        ...existingDistributors,
+        distributors: {
+          "0x1234567890123456789012345678901234567890": {
+            ...existingDistributors.distributors[
+              "0x1234567890123456789012345678901234567890"
+            ]!,
+            active_from_block: 120,
+            active_from_date: "2023-03-14",
+            active_until_block: 140,
+            active_until_date: "2023-03-14",
+          },
+          "0x2222222222222222222222222222222222222222": {
+            ...replacementInfo,
+            block: 140,
+            date: "2023-03-14",
+            active_from_block: 140,
+            active_from_date: "2023-03-14",
+          },
+        },
+      };
+      const reactivation: DistributorInfo = {
+        ...existingDistributors.distributors[
+          "0x1234567890123456789012345678901234567890"
+        ]!,
+        block: 350,
+        date: "2023-03-17",
+      };
+      mockFileManager.readDistributors.mockReturnValue(retiredData);
+      mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
+      scanBlockRangeSpy.mockResolvedValue([reactivation]);
+
+      // Act
+      const result = await detector.detectDistributors(endDate);
+
+      // Assert
+      expect(
+        result.distributors["0x1234567890123456789012345678901234567890"],
+      ).toEqual({
+        ...existingDistributors.distributors[
+          "0x1234567890123456789012345678901234567890"
+        ]!,
+        active_from_block: 120,
+        active_from_date: "2023-03-14",
+        active_periods: [
+          {
+            from_block: 120,
+            from_date: "2023-03-14",
+            until_block: 140,
+            until_date: "2023-03-14",
+          },
+          { from_block: 350, from_date: "2023-03-17" },
+        ],
+      });
+      expect(
+        result.distributors["0x2222222222222222222222222222222222222222"],
+      ).toMatchObject({
+        active_until_block: 350,
+        active_until_date: "2023-03-17",
+      });
+    });
+
+    it("should close only the current period when a reactivated distributor is replaced", async () => {
+      // Arrange
+      const endDate = new Date("2023-03-17");
+      const reactivatedData: DistributorsData = {
+        ...existingDistributors,
+        distributors: {
+          "0x1234567890123456789012345678901234567890": {
+            ...existingDistributors.distributors[
+              "0x1234567890123456789012345678901234567890"
+            ]!,
+            active_from_block: 120,
+            active_from_date: "2023-03-14",
+            active_periods: [
+              {
+                from_block: 120,
+                from_date: "2023-03-14",
+                until_block: 140,
+                until_date: "2023-03-14",
+              },
+              { from_block: 200, from_date: "2023-03-15" },
+            ],
+          },
+        },
+      };
+      mockFileManager.readDistributors.mockReturnValue(reactivatedData);
+      mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
+      scanBlockRangeSpy.mockResolvedValue([replacementInfo]);
+
+      // Act
+      const result = await detector.detectDistributors(endDate);
+
+      // Assert
+      expect(
+        result.distributors["0x1234567890123456789012345678901234567890"],
+      ).toMatchObject({
+        active_until_block: 280,
+        active_until_date: "2023-03-16",
+        active_periods: [
+          {
+            from_block: 120,
+            from_date: "2023-03-14",
+            until_block: 140,
+            until_date: "2023-03-14",
+          },
+          {
+            from_block: 200,
+            from_date: "2023-03-15",
+            until_block: 280,
+            until_date: "2023-03-16",
+          },
+        ],
+      });
+    });
+
+    it("should not modify the existing data passed in", async () => {
+      // Arrange
+      const endDate = new Date("2023-03-16");
+      const snapshot = JSON.parse(JSON.stringify(existingDistributors));
+      mockFileManager.readDistributors.mockReturnValue(existingDistributors);
+      mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
+      scanBlockRangeSpy.mockResolvedValue([replacementInfo]);
+
+      // Act
+      await detector.detectDistributors(endDate);
+
+      // Assert
+      expect(existingDistributors).toEqual(snapshot);
+    });
+  });
+
+  describe("L1 base fee collectors", () => {
+    const collectorA = "0x1111111111111111111111111111111111111111";
+    const collectorB = "0x2222222222222222222222222222222222222222";
+
+    beforeEach(() => {
+      jest
+        .spyOn(DistributorDetector, "isRewardDistributor")
+        .mockResolvedValue(false);
+      scanBlockRangeSpy.mockResolvedValue([]);
+    });
+
+    it("should record collector changes at the end-of-day block that shows them", async () => {
+      // Arrange: B joins on the 15th and replaces A on the 16th
+      mockFileManager.readDistributors.mockReturnValue(undefined);
+      mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
+      getFeeCollectorsSpy
+        .mockResolvedValueOnce([collectorA])
+        .mockResolvedValueOnce([collectorA, collectorB])
+        .mockResolvedValueOnce([collectorB]);
+
+      // Act
+      const result = await detector.detectDistributors(new Date("2023-03-16"));
+
+      // Assert
+      expect(getFeeCollectorsSpy.mock.calls).toEqual([
+        [mockProvider, 100],
+        [mockProvider, 200],
+        [mockProvider, 300],
+      ]);
+      expect(result.metadata.last_polled_block).toBe(300);
+      expect(result.distributors[collectorA]).toEqual({
+        type: DistributorType.L1_BASE_FEE,
+        block: 100,
+        date: "2023-03-14",
+        tx_hash: ethers.ZeroHash,
+        method: "0x29149799",
+        owner: ethers.ZeroAddress,
+        event_data: "0x",
+        is_reward_distributor: false,
+        distributor_address: collectorA,
+        active_from_block: 100,
+        active_from_date: "2023-03-14",
+        active_until_block: 300,
+        active_until_date: "2023-03-16",
+        active_periods: [
+          {
+            from_block: 100,
+            from_date: "2023-03-14",
+            until_block: 300,
+            until_date: "2023-03-16",
+          },
+        ],
+      });
+      expect(result.distributors[collectorB]!.active_periods).toEqual([
+        { from_block: 200, from_date: "2023-03-15" },
+      ]);
+    });
+
+    it("should reactivate a collector that is set again", async () => {
+      // Arrange
+      mockFileManager.readDistributors.mockReturnValue(undefined);
+      mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
+      getFeeCollectorsSpy
+        .mockResolvedValueOnce([collectorA])
+        .mockResolvedValueOnce([collectorB])
+        .mockResolvedValueOnce([collectorA]);
+
+      // Act
+      const result = await detector.detectDistributors(new Date("2023-03-16"));
+
+      // Assert
+      expect(result.distributors[collectorA]!.active_periods).toEqual([
+        {
+          from_block: 100,
+          from_date: "2023-03-14",
+          until_block: 200,
+          until_date: "2023-03-15",
+        },
+        { from_block: 300, from_date: "2023-03-16" },
+      ]);
+      expect(
+        result.distributors[collectorA]!.active_until_block,
+      ).toBeUndefined();
+      expect(result.distributors[collectorB]!.active_until_block).toBe(300);
+    });
+
+    it("should poll only dates after last_polled_block", async () => {
+      // Arrange
+      mockFileManager.readDistributors.mockReturnValue(existingDistributors);
+      mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
+      getFeeCollectorsSpy.mockResolvedValue([collectorA]);
+
+      // Act
+      const result = await detector.detectDistributors(new Date("2023-03-17"));
+
+      // Assert
+      expect(getFeeCollectorsSpy.mock.calls).toEqual([
+        [mockProvider, 200],
+        [mockProvider, 300],
+        [mockProvider, 400],
+      ]);
+      expect(result.distributors[collectorA]!.block).toBe(200);
+      expect(result.metadata.last_polled_block).toBe(400);
+    });
+
+    it("should poll every date of a store scanned before collectors were polled", async () => {
+      // Arrange
+      const metadata: DistributorsData["metadata"] = {
+        ...existingDistributors.metadata,
+        last_scanned_block: 300,
+      };
+      delete metadata.last_polled_block;
+      mockFileManager.readDistributors.mockReturnValue({
+        ...existingDistributors,
+        metadata,
+      });
+      mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
+      getFeeCollectorsSpy.mockResolvedValue([collectorA]);
+
+      // Act
+      const result = await detector.detectDistributors(new Date("2023-03-16"));
+
+      // Assert
+      expect(scanBlockRangeSpy).not.toHaveBeenCalled();
+      expect(getFeeCollectorsSpy).toHaveBeenCalledTimes(3);
+      expect(result.distributors[collectorA]!.block).toBe(100);
+      expect(result.metadata).toEqual({
+        chain_id: 42170,
+        arbowner_address: "0x0000000000000000000000000000000000000070",
+        last_scanned_block: 300,
+        last_polled_block: 300,
+      });
+    });
+  });
+
   describe("error handling", () => {
     it("should throw error when end date not found in block numbers", async () => {
       // Arrange
@@ -308,6 +700,48 @@ describe("DistributorDetector.detectDistributors", () => {
     });
   });
 
+  describe("finality", () => {
+    it("should not scan past the newest final block", async () => {
+      // Arrange
+      const endDate = new Date("2023-03-17");
+      mockFileManager.readDistributors.mockReturnValue(existingDistributors);
+      mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
+      mockProvider.getBlockNumber.mockResolvedValue(1350);
+      scanBlockRangeSpy.mockResolvedValue([]);
+
+      // Act
+      await detector.detectDistributors(endDate);
+
+      // Assert
+      expect(scanBlockRangeSpy).toHaveBeenCalledWith(
+        mockProvider,
+        151,
+        350,
+        ARBITRUM_NOVA.default_chunk_size,
+        ARBITRUM_NOVA.arbowner_address,
+      );
+      const writtenData = mockFileManager.writeDistributors.mock
+        .calls[0]![0] as DistributorsData;
+      expect(writtenData.metadata.last_scanned_block).toBe(350);
+    });
+
+    it("should skip scanning when nothing new is final", async () => {
+      // Arrange
+      const endDate = new Date("2023-03-17");
+      mockFileManager.readDistributors.mockReturnValue(existingDistributors);
+      mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
+      mockProvider.getBlockNumber.mockResolvedValue(1100);
+
+      // Act
+      const result = await detector.detectDistributors(endDate);
+
+      // Assert
+      expect(result).toBe(existingDistributors);
+      expect(scanBlockRangeSpy).not.toHaveBeenCalled();
+      expect(mockFileManager.writeDistributors).not.toHaveBeenCalled();
+    });
+  });
+
   describe("chain ID handling", () => {
     it("should get chain ID from provider for new data", async () => {
       // Arrange
@@ -326,7 +760,7 @@ describe("DistributorDetector.detectDistributors", () => {
       expect(writtenData.metadata.chain_id).toBe(42170);
     });
 
-    it("should preserve existing chain ID when updating", async () => {
+    it("should refuse to update distributors stored for another chain", async () => {
       // Arrange
       const endDate = new Date("2023-03-16");
       const existingWithDifferentChain = {
@@ -342,14 +776,73 @@ describe("DistributorDetector.detectDistributors", () => {
       mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
       scanBlockRangeSpy.mockResolvedValue([newDistributorInfo]);
 
+      // Act & Assert
+      await expect(detector.detectDistributors(endDate)).rejects.toThrow(
+        new ChainMismatchError(
+          "Store file belongs to a different chain than the provider\n  File: distributors.json\n  Stored chain_id: 99999\n  Provider chain_id: 42170\n  Check: Point RPC_URL at chain 99999, or move the file out of the store for chain 42170",
+          42170,
+          { file: "distributors.json", storedChainId: 99999 },
+        ),
+      );
+      expect(scanBlockRangeSpy).not.toHaveBeenCalled();
+      expect(mockFileManager.writeDistributors).not.toHaveBeenCalled();
+    });
+
+    it("should refuse a provider connected to another chain", async () => {
+      // Arrange
+      const endDate = new Date("2023-03-16");
+      mockFileManager.readDistributors.mockReturnValue(undefined);
+      mockFileManager.readBlockNumbers.mockReturnValue(testBlockNumbers);
+      mockProvider.getNetwork.mockResolvedValue({
+        chainId: 42161n,
+      } as unknown as ethers.Network);
+      scanBlockRangeSpy.mockResolvedValue([newDistributorInfo]);
+
+      // Act & Assert
+      await expect(detector.detectDistributors(endDate)).rejects.toThrow(
+        "Provider is connected to a different chain than selected\n  Selected: arbitrum-nova (42170)\n  Provider chain_id: 42161",
+      );
+      expect(mockFileManager.writeDistributors).not.toHaveBeenCalled();
+    });
+
+    it("should scan with the selected chain's chunk size and ArbOwner address", async () => {
+      // Arrange
+      const endDate = new Date("2023-03-16");
+      const chain = {
+        ...ARBITRUM_ONE,
+        default_chunk_size: 500,
+        arbowner_address: "0x0000000000000000000000000000000000000071",
+      };
+      detector = new DistributorDetector(mockFileManager, mockProvider, chain);
+      mockFileManager.readDistributors.mockReturnValue(undefined);
+      mockFileManager.readBlockNumbers.mockReturnValue({
+        ...testBlockNumbers,
+        metadata: { chain_id: 42161 },
+      });
+      mockProvider.getNetwork.mockResolvedValue({
+        chainId: 42161n,
+      } as unknown as ethers.Network);
+      scanBlockRangeSpy.mockResolvedValue([]);
+
       // Act
       await detector.detectDistributors(endDate);
 
       // Assert
-      expect(mockProvider.getNetwork).not.toHaveBeenCalled();
+      expect(scanBlockRangeSpy).toHaveBeenCalledWith(
+        mockProvider,
+        0,
+        expect.any(Number),
+        500,
+        "0x0000000000000000000000000000000000000071",
+      );
       const writtenData = mockFileManager.writeDistributors.mock
         .calls[0]![0] as DistributorsData;
-      expect(writtenData.metadata.chain_id).toBe(99999);
+      expect(writtenData.metadata).toEqual({
+        chain_id: 42161,
+        arbowner_address: "0x0000000000000000000000000000000000000071",
+        last_scanned_block: expect.any(Number),
+        last_polled_block: expect.any(Number),
+      });
     });
   });
 
@@ -366,7 +859,13 @@ describe("DistributorDetector.detectDistributors", () => {
 
       // Assert
       expect(mockFileManager.readBlockNumbers).toHaveBeenCalled();
-      expect(scanBlockRangeSpy).toHaveBeenCalledWith(mockProvider, 151, 300);
+      expect(scanBlockRangeSpy).toHaveBeenCalledWith(
+        mockProvider,
+        151,
+        300,
+        ARBITRUM_NOVA.default_chunk_size,
+        ARBITRUM_NOVA.arbowner_address,
+      );
     });
   });
 });
@@ -30,5 +30,11 @@ describe("DistributorDetector.getDistributorType", () => {
       const result = DistributorDetector.getDistributorType("0x12345678");
       expect(result).toBeNull();
     });
+
+    it("returns null for ArbAggregator setFeeCollector signature", () => {
+      // L1 base fee collectors are not announced through OwnerActs
+      const result = DistributorDetector.getDistributorType("0x29149799");
+      expect(result).toBeNull();
+    });
   });
 });
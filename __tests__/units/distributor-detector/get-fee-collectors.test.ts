@@ -0,0 +1,90 @@
+import { ethers } from "ethers";
+import { DistributorDetector } from "../../../src/distributor-detector";
+import { withRetry } from "../../../src/utils/retry";
+
+// Mock the retry utility
+jest.mock("../../../src/utils/retry", () => ({
+  withRetry: jest.fn((operation) => operation()),
+}));
+
+describe("DistributorDetector.getFeeCollectors", () => {
+  // Derived from the precompile ABI rather than the constants
+  const ARB_AGGREGATOR = "0x000000000000000000000000000000000000006D";
+  const GET_BATCH_POSTERS = ethers.id("getBatchPosters()").slice(0, 10);
+  const GET_FEE_COLLECTOR = ethers.id("getFeeCollector(address)").slice(0, 10);
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+
+  const posterA = ethers.getAddress("0x" + "a".repeat(40));
+  const posterB = ethers.getAddress("0x" + "b".repeat(40));
+  const posterC = ethers.getAddress("0x" + "c".repeat(40));
+  const collectorA = "0x1111111111111111111111111111111111111111";
+  const collectorB = "0x2222222222222222222222222222222222222222";
+
+  let mockProvider: jest.Mocked<ethers.Provider>;
+
+  beforeEach(() => {
+    const collectors: Record<string, string> = {
+      [posterA]: collectorB,
+      [posterB]: collectorA,
+      [posterC]: collectorB,
+    };
+    mockProvider = {
+      call: jest.fn(async (transaction: ethers.TransactionRequest) => {
+        const data = transaction.data as string;
+        if (data.startsWith(GET_BATCH_POSTERS)) {
+          return coder.encode(["address[]"], [[posterA, posterB, posterC]]);
+        }
+        const [poster] = coder.decode(["address"], ethers.dataSlice(data, 4));
+        return coder.encode(["address"], [collectors[poster as string]]);
+      }),
+    } as unknown as jest.Mocked<ethers.Provider>;
+
+    // Reset the retry mock
+    (withRetry as jest.Mock).mockImplementation((operation) => operation());
+  });
+
+  it("returns every batch poster's collector once, sorted", async () => {
+    const result = await DistributorDetector.getFeeCollectors(
+      mockProvider,
+      1234,
+    );
+
+    expect(result).toEqual([collectorA, collectorB]);
+  });
+
+  it("reads ArbAggregator at the given block", async () => {
+    await DistributorDetector.getFeeCollectors(mockProvider, 1234);
+
+    const calls = mockProvider.call.mock.calls.map(([transaction]) => ({
+      to: transaction.to,
+      selector: (transaction.data as string).slice(0, 10),
+      blockTag: transaction.blockTag,
+    }));
+    expect(calls).toEqual([
+      { to: ARB_AGGREGATOR, selector: GET_BATCH_POSTERS, blockTag: 1234 },
+      { to: ARB_AGGREGATOR, selector: GET_FEE_COLLECTOR, blockTag: 1234 },
+      { to: ARB_AGGREGATOR, selector: GET_FEE_COLLECTOR, blockTag: 1234 },
+      { to: ARB_AGGREGATOR, selector: GET_FEE_COLLECTOR, blockTag: 1234 },
+    ]);
+  });
+
+  it("returns no collectors when no batch poster is registered", async () => {
+    mockProvider.call.mockResolvedValue(coder.encode(["address[]"], [[]]));
+
+    const result = await DistributorDetector.getFeeCollectors(
+      mockProvider,
+      1234,
+    );
+
+    expect(result).toEqual([]);
+    expect(mockProvider.call).toHaveBeenCalledTimes(1);
+  });
+
+  it("propagates RPC errors", async () => {
+    mockProvider.call.mockRejectedValue(new Error("missing trie node"));
+
+    await expect(
+      DistributorDetector.getFeeCollectors(mockProvider, 1234),
+    ).rejects.toThrow("missing trie node");
+  });
+});
@@ -105,6 +105,34 @@ describe("DistributorDetector.scanBlockRange", () => {
       });
     });
 
+    it("should filter on the real ArbOwner precompile, event and selectors", async () => {
+      // Arrange: derive everything from the precompile ABI rather than the constants
+      mockProvider.getLogs.mockResolvedValue([]);
+      const padSelector = (signature: string) =>
+        ethers.zeroPadBytes(ethers.id(signature).slice(0, 10), 32);
+
+      // Act
+      await DistributorDetector.scanBlockRange(mockProvider, 100, 200);
+
+      // Assert
+      const filter = mockProvider.getLogs.mock.calls[0]?.[0];
+      expect(filter?.address).toBe(
+        "0x0000000000000000000000000000000000000070",
+      );
+      expect(filter?.topics?.[0]).toBe(
+        ethers.id("OwnerActs(bytes4,address,bytes)"),
+      );
+      expect(filter?.topics?.[1]).toEqual([
+        padSelector("setInfraFeeAccount(address)"),
+        padSelector("setNetworkFeeAccount(address)"),
+        padSelector("setL1PricingRewardRecipient(address)"),
+      ]);
+      // ArbAggregator's setFeeCollector never emits OwnerActs, so it is not filtered on
+      expect(filter?.topics?.[1]).not.toContain(
+        padSelector("setFeeCollector(address,address)"),
+      );
+    });
+
     it("should return empty array when no events found", async () => {
       // Arrange
       mockProvider.getLogs.mockResolvedValue([]);
@@ -0,0 +1,710 @@
+import { ethers } from "ethers";
+import { FileManager } from "../../src/file-manager";
+import { EventScanner } from "../../src/event-scanner";
+import {
+  DistributorType,
+  DistributorsData,
+  BlockNumberData,
+  OutflowData,
+  OutflowEventKind,
+  RecipientsData,
+  ChainMismatchError,
+} from "../../src/types";
+import {
+  OWNER_RECIEVED_EVENT_ABI,
+  OWNER_RECIEVED_EVENT_SIGNATURE,
+  RECIPIENT_RECIEVED_EVENT_ABI,
+  RECIPIENTS_UPDATED_EVENT_ABI,
+  RECIPIENT_RECIEVED_EVENT_SIGNATURE,
+} from "../../src/constants/event-scanner";
+
+jest.mock("../../src/file-manager");
+
+const DISTRIBUTOR = "0xdff90519a9DE6ad469D4f9839a9220C5D340B792";
+const RECIPIENT_1 = "0x9C040726F2A657226Ed95712245DeE84b650A1b5";
+const RECIPIENT_2 = "0x37daA99b1cAAE0c22670963e103a66CA2c5dB2dB";
+const TX_HASH_1 = "0x" + "a".repeat(64);
+const TX_HASH_2 = "0x" + "b".repeat(64);
+const OWNER = "0x3B68a689c929327224dBfCe31C1bf72Ffd2559Ce";
+
+function createRecipientRecievedLog(
+  recipient: string,
+  value: bigint,
+  blockNumber: number,
+  transactionHash: string,
+  index: number = 0,
+): ethers.Log {
+  const iface = new ethers.Interface(RECIPIENT_RECIEVED_EVENT_ABI);
+  const fragment = iface.getEvent("RecipientRecieved")!;
+  const { data, topics } = iface.encodeEventLog(fragment, [recipient, value]);
+  return {
+    address: DISTRIBUTOR,
+    blockNumber,
+    transactionHash,
+    index,
+    data,
+    topics,
+  } as unknown as ethers.Log;
+}
+
+function createOwnerRecievedLog(
+  owner: string,
+  recipient: string,
+  value: bigint,
+  blockNumber: number,
+  transactionHash: string,
+  index: number = 0,
+): ethers.Log {
+  const iface = new ethers.Interface(OWNER_RECIEVED_EVENT_ABI);
+  const fragment = iface.getEvent("OwnerRecieved")!;
+  const { data, topics } = iface.encodeEventLog(fragment, [
+    owner,
+    recipient,
+    value,
+  ]);
+  return {
+    address: DISTRIBUTOR,
+    blockNumber,
+    transactionHash,
+    index,
+    data,
+    topics,
+  } as unknown as ethers.Log;
+}
+
+function createRecipientsUpdatedLog(
+  recipients: string[],
+  weights: bigint[],
+  blockNumber: number,
+  transactionHash: string,
+): ethers.Log {
+  const iface = new ethers.Interface(RECIPIENTS_UPDATED_EVENT_ABI);
+  const fragment = iface.getEvent("RecipientsUpdated")!;
+  const { data, topics } = iface.encodeEventLog(fragment, [
+    ethers.solidityPackedKeccak256(["address[]"], [recipients]),
+    recipients,
+    ethers.solidityPackedKeccak256(["uint256[]"], [weights]),
+    weights,
+  ]);
+  return {
+    address: DISTRIBUTOR,
+    blockNumber,
+    transactionHash,
+    index: 0,
+    data,
+    topics,
+  } as unknown as ethers.Log;
+}
+
+describe("EventScanner", () => {
+  let mockFileManager: jest.Mocked<FileManager>;
+  let mockProvider: jest.Mocked<ethers.Provider>;
+  let scanner: EventScanner;
+
+  const blockNumberData: BlockNumberData = {
+    metadata: { chain_id: 42170 },
+    blocks: {
+      "2022-08-07": 654,
+      "2022-08-08": 672,
+      "2022-08-09": 3584,
+    },
+  };
+
+  const distributorsData: DistributorsData = {
+    metadata: {
+      chain_id: 42170,
+      arbowner_address: "0x0000000000000000000000000000000000000070",
+      last_scanned_block: 3584,
+    },
+    distributors: {
+      [DISTRIBUTOR]: {
+        type: DistributorType.L2_SURPLUS_FEE,
+        block: 660,
+        date: "2022-08-08",
+        tx_hash: TX_HASH_1,
+        method: "0xfcdde2b4",
+        owner: RECIPIENT_1,
+        event_data: "0x",
+        is_reward_distributor: true,
+        distributor_address: DISTRIBUTOR,
+      },
+    },
+  };
+
+  beforeEach(() => {
+    mockFileManager = {
+      readDistributors: jest.fn(),
+      readBlockNumbers: jest.fn(),
+      readDistributorBalances: jest.fn(),
+      readDistributorOutflows: jest.fn(),
+      writeDistributorOutflows: jest.fn(),
+      readDistributorRecipients: jest.fn(),
+      writeDistributorRecipients: jest.fn(),
+    } as unknown as jest.Mocked<FileManager>;
+    mockProvider = {
+      getLogs: jest.fn(),
+      getBlock: jest.fn(),
+      getCode: jest.fn(),
+      getNetwork: jest.fn().mockResolvedValue({ chainId: BigInt(42170) }),
+    } as unknown as jest.Mocked<ethers.Provider>;
+    scanner = new EventScanner(mockFileManager, mockProvider);
+  });
+
+  describe("constants", () => {
+    it("uses the keccak256 topic of the RecipientRecieved event", () => {
+      expect(RECIPIENT_RECIEVED_EVENT_SIGNATURE).toBe(
+        ethers.id("RecipientRecieved(address,uint256)"),
+      );
+    });
+
+    it("uses the keccak256 topic of the OwnerRecieved event", () => {
+      expect(OWNER_RECIEVED_EVENT_SIGNATURE).toBe(
+        ethers.id("OwnerRecieved(address,address,uint256)"),
+      );
+    });
+  });
+
+  describe("parseRecipientRecieved", () => {
+    it("extracts checksummed recipient, decimal value and tx hash", () => {
+      const log = createRecipientRecievedLog(
+        RECIPIENT_1.toLowerCase(),
+        BigInt("1230000000000000000000"),
+        700,
+        TX_HASH_1,
+      );
+
+      expect(EventScanner.parseRecipientRecieved(log)).toEqual({
+        recipient: RECIPIENT_1,
+        value_wei: "1230000000000000000000",
+        tx_hash: TX_HASH_1,
+        block_number: 700,
+        kind: OutflowEventKind.RECIPIENT,
+      });
+    });
+
+    it("throws for logs that are not RecipientRecieved events", () => {
+      const log = {
+        ...createRecipientRecievedLog(RECIPIENT_1, BigInt(1), 700, TX_HASH_1),
+        topics: [ethers.id("Other(uint256)")],
+      } as unknown as ethers.Log;
+
+      expect(() => EventScanner.parseRecipientRecieved(log)).toThrow(
+        "Failed to parse log as RecipientRecieved event",
+      );
+    });
+  });
+
+  describe("parseOwnerRecieved", () => {
+    it("records the owner as payee and the failed recipient as intended", () => {
+      const log = createOwnerRecievedLog(
+        OWNER.toLowerCase(),
+        RECIPIENT_1.toLowerCase(),
+        BigInt(500),
+        700,
+        TX_HASH_1,
+      );
+
+      expect(EventScanner.parseOwnerRecieved(log)).toEqual({
+        recipient: OWNER,
+        value_wei: "500",
+        tx_hash: TX_HASH_1,
+        block_number: 700,
+        kind: OutflowEventKind.OWNER_FALLBACK,
+        intended_recipient: RECIPIENT_1,
+      });
+    });
+
+    it("throws for logs that are not OwnerRecieved events", () => {
+      const log = createRecipientRecievedLog(
+        RECIPIENT_1,
+        BigInt(1),
+        700,
+        TX_HASH_1,
+      );
+
+      expect(() => EventScanner.parseOwnerRecieved(log)).toThrow(
+        "Failed to parse log as OwnerRecieved event",
+      );
+    });
+  });
+
+  describe("scanBlockRange", () => {
+    it("queries the distributor's outflow logs in chunks", async () => {
+      mockProvider.getLogs.mockResolvedValue([]);
+
+      await EventScanner.scanBlockRange(mockProvider, DISTRIBUTOR, 1, 25, 10);
+
+      expect(mockProvider.getLogs).toHaveBeenCalledTimes(3);
+      expect(mockProvider.getLogs).toHaveBeenNthCalledWith(1, {
+        address: DISTRIBUTOR,
+        topics: [
+          [RECIPIENT_RECIEVED_EVENT_SIGNATURE, OWNER_RECIEVED_EVENT_SIGNATURE],
+        ],
+        fromBlock: 1,
+        toBlock: 10,
+      });
+      expect(mockProvider.getLogs).toHaveBeenNthCalledWith(3, {
+        address: DISTRIBUTOR,
+        topics: [
+          [RECIPIENT_RECIEVED_EVENT_SIGNATURE, OWNER_RECIEVED_EVENT_SIGNATURE],
+        ],
+        fromBlock: 21,
+        toBlock: 25,
+      });
+    });
+
+    it("returns events ordered by block and log index", async () => {
+      mockProvider.getLogs.mockResolvedValue([
+        createRecipientRecievedLog(RECIPIENT_2, BigInt(2), 700, TX_HASH_2, 1),
+        createRecipientRecievedLog(RECIPIENT_1, BigInt(1), 700, TX_HASH_2, 0),
+        createRecipientRecievedLog(RECIPIENT_1, BigInt(3), 680, TX_HASH_1, 5),
+      ]);
+
+      const events = await EventScanner.scanBlockRange(
+        mockProvider,
+        DISTRIBUTOR,
+        673,
+        3584,
+      );
+
+      expect(events.map((e) => e.value_wei)).toEqual(["3", "1", "2"]);
+    });
+
+    it("parses both recipient payouts and owner fallbacks", async () => {
+      mockProvider.getLogs.mockResolvedValue([
+        createRecipientRecievedLog(RECIPIENT_2, BigInt(2), 700, TX_HASH_1, 1),
+        createOwnerRecievedLog(
+          OWNER,
+          RECIPIENT_1,
+          BigInt(1),
+          700,
+          TX_HASH_1,
+          0,
+        ),
+      ]);
+
+      const events = await EventScanner.scanBlockRange(
+        mockProvider,
+        DISTRIBUTOR,
+        673,
+        3584,
+      );
+
+      expect(events.map((e) => e.kind)).toEqual([
+        OutflowEventKind.OWNER_FALLBACK,
+        OutflowEventKind.RECIPIENT,
+      ]);
+      expect(events[0]!.intended_recipient).toBe(RECIPIENT_1);
+    });
+  });
+
+  describe("scanOutflows", () => {
+    beforeEach(() => {
+      mockFileManager.readDistributors.mockReturnValue(distributorsData);
+      mockFileManager.readBlockNumbers.mockReturnValue(blockNumberData);
+    });
+
+    it("returns early when no distributors are found in storage", async () => {
+      mockFileManager.readDistributors.mockReturnValue(undefined);
+
+      await scanner.scanOutflows();
+
+      expect(mockProvider.getLogs).not.toHaveBeenCalled();
+      expect(mockFileManager.writeDistributorOutflows).not.toHaveBeenCalled();
+    });
+
+    it("throws error when specified distributor is not found", async () => {
+      const nonExistentAddress = "0x1234567890123456789012345678901234567890";
+
+      await expect(scanner.scanOutflows(nonExistentAddress)).rejects.toThrow(
+        `Distributor not found: ${nonExistentAddress}`,
+      );
+    });
+
+    it("scans each day between consecutive end-of-day blocks from creation", async () => {
+      mockFileManager.readDistributorOutflows.mockReturnValue(undefined);
+      mockProvider.getLogs.mockResolvedValue([]);
+
+      await scanner.scanOutflows();
+
+      expect(mockProvider.getLogs).toHaveBeenCalledTimes(2);
+      expect(mockProvider.getLogs).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ fromBlock: 655, toBlock: 672 }),
+      );
+      expect(mockProvider.getLogs).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ fromBlock: 673, toBlock: 3584 }),
+      );
+    });
+
+    it("aggregates daily totals and writes after each date", async () => {
+      mockFileManager.readDistributorOutflows.mockReturnValue(undefined);
+      mockProvider.getLogs
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          createRecipientRecievedLog(
+            RECIPIENT_1,
+            BigInt(600),
+            700,
+            TX_HASH_1,
+            0,
+          ),
+          createOwnerRecievedLog(
+            OWNER,
+            RECIPIENT_2,
+            BigInt(400),
+            700,
+            TX_HASH_1,
+            1,
+          ),
+        ]);
+
+      await scanner.scanOutflows();
+
+      expect(mockFileManager.writeDistributorOutflows).toHaveBeenCalledTimes(2);
+      const finalData = mockFileManager.writeDistributorOutflows.mock
+        .calls[1]![1] as OutflowData;
+      expect(finalData).toEqual({
+        metadata: { chain_id: 42170, reward_distributor: DISTRIBUTOR },
+        outflows: {
+          "2022-08-08": {
+            block_number: 672,
+            total_outflow_wei: "0",
+            events: [],
+          },
+          "2022-08-09": {
+            block_number: 3584,
+            total_outflow_wei: "1000",
+            events: [
+              {
+                recipient: RECIPIENT_1,
+                value_wei: "600",
+                tx_hash: TX_HASH_1,
+                block_number: 700,
+                kind: OutflowEventKind.RECIPIENT,
+              },
+              {
+                recipient: OWNER,
+                value_wei: "400",
+                tx_hash: TX_HASH_1,
+                block_number: 700,
+                kind: OutflowEventKind.OWNER_FALLBACK,
+                intended_recipient: RECIPIENT_2,
+              },
+            ],
+          },
+        },
+      });
+    });
+
+    it("only scans dates missing from the existing outflows file", async () => {
+      mockFileManager.readDistributorOutflows.mockReturnValue({
+        metadata: { chain_id: 42170, reward_distributor: DISTRIBUTOR },
+        outflows: {
+          "2022-08-08": {
+            block_number: 672,
+            total_outflow_wei: "0",
+            events: [],
+          },
+        },
+      });
+      mockProvider.getLogs.mockResolvedValue([]);
+
+      await scanner.scanOutflows(DISTRIBUTOR);
+
+      expect(mockProvider.getLogs).toHaveBeenCalledTimes(1);
+      expect(mockProvider.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ fromBlock: 673, toBlock: 3584 }),
+      );
+      expect(mockFileManager.writeDistributorOutflows).toHaveBeenCalledTimes(1);
+    });
+
+    it("rescans stale dates and clears them from the metadata", async () => {
+      mockFileManager.readDistributorOutflows.mockReturnValue({
+        metadata: {
+          chain_id: 42170,
+          reward_distributor: DISTRIBUTOR,
+          stale_dates: ["2022-08-09"],
+        },
+        outflows: {
+          "2022-08-08": {
+            block_number: 672,
+            total_outflow_wei: "0",
+            events: [],
+          },
+          "2022-08-09": {
+            block_number: 3500,
+            total_outflow_wei: "0",
+            events: [],
+          },
+        },
+      });
+      mockProvider.getLogs.mockResolvedValue([]);
+
+      await scanner.scanOutflows(DISTRIBUTOR);
+
+      expect(mockProvider.getLogs).toHaveBeenCalledTimes(1);
+      expect(mockProvider.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ fromBlock: 673, toBlock: 3584 }),
+      );
+      const writtenData = mockFileManager.writeDistributorOutflows.mock
+        .calls[0]![1] as OutflowData;
+      expect(writtenData.metadata).toEqual({
+        chain_id: 42170,
+        reward_distributor: DISTRIBUTOR,
+      });
+      expect(writtenData.outflows["2022-08-09"]!.block_number).toBe(3584);
+    });
+
+    it("does not scan dates after the distributor was retired", async () => {
+      mockFileManager.readDistributors.mockReturnValue({
+        ...distributorsData,
+        distributors: {
+          [DISTRIBUTOR]: {
+            ...distributorsData.distributors[DISTRIBUTOR]!,
+            active_until_block: 670,
+            active_until_date: "2022-08-08",
+          },
+        },
+      });
+      mockFileManager.readDistributorOutflows.mockReturnValue(undefined);
+      mockProvider.getLogs.mockResolvedValue([]);
+
+      await scanner.scanOutflows();
+
+      expect(mockProvider.getLogs).toHaveBeenCalledTimes(1);
+      expect(mockProvider.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ fromBlock: 655, toBlock: 672 }),
+      );
+    });
+
+    it("does not scan the dates a reactivated distributor was replaced", async () => {
+      mockFileManager.readDistributors.mockReturnValue({
+        ...distributorsData,
+        distributors: {
+          [DISTRIBUTOR]: {
+            ...distributorsData.distributors[DISTRIBUTOR]!,
+            block: 640,
+            date: "2022-08-07",
+            active_periods: [
+              {
+                from_block: 640,
+                from_date: "2022-08-07",
+                until_block: 650,
+                until_date: "2022-08-07",
+              },
+              { from_block: 3000, from_date: "2022-08-09" },
+            ],
+          },
+        },
+      });
+      mockFileManager.readDistributorOutflows.mockReturnValue(undefined);
+      mockProvider.getLogs.mockResolvedValue([]);
+
+      await scanner.scanOutflows();
+
+      expect(mockProvider.getLogs).toHaveBeenCalledTimes(2);
+      expect(mockProvider.getLogs).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ fromBlock: 640, toBlock: 654 }),
+      );
+      expect(mockProvider.getLogs).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ fromBlock: 673, toBlock: 3584 }),
+      );
+    });
+
+    it("starts from the creation block when no earlier day is known", async () => {
+      mockFileManager.readBlockNumbers.mockReturnValue({
+        metadata: { chain_id: 42170 },
+        blocks: { "2022-08-08": 672 },
+      });
+      mockFileManager.readDistributorOutflows.mockReturnValue(undefined);
+      mockProvider.getLogs.mockResolvedValue([]);
+
+      await scanner.scanOutflows();
+
+      expect(mockProvider.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ fromBlock: 660, toBlock: 672 }),
+      );
+    });
+
+    it("refuses to scan when a distributor file belongs to another chain", async () => {
+      mockFileManager.readDistributorRecipients.mockReturnValue({
+        metadata: {
+          chain_id: 42161,
+          reward_distributor: DISTRIBUTOR,
+          last_scanned_block: 3584,
+        },
+        updates: [],
+      });
+
+      await expect(scanner.scanOutflows()).rejects.toThrow(
+        new ChainMismatchError(
+          `Store file belongs to a different chain than the provider\n  File: distributors/${DISTRIBUTOR}/recipients.json\n  Stored chain_id: 42161\n  Provider chain_id: 42170\n  Check: Point RPC_URL at chain 42161, or move the file out of the store for chain 42170`,
+          42170,
+          {
+            file: `distributors/${DISTRIBUTOR}/recipients.json`,
+            storedChainId: 42161,
+          },
+        ),
+      );
+      expect(mockProvider.getLogs).not.toHaveBeenCalled();
+      expect(mockFileManager.writeDistributorOutflows).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("parseRecipientsUpdated", () => {
+    it("extracts checksummed recipients, weights and the event date", () => {
+      const log = createRecipientsUpdatedLog(
+        [RECIPIENT_1.toLowerCase(), RECIPIENT_2.toLowerCase()],
+        [BigInt(6000), BigInt(4000)],
+        500,
+        TX_HASH_1,
+      );
+
+      // 2022-08-07T12:00:00Z
+      const update = EventScanner.parseRecipientsUpdated(log, 1659873600);
+
+      expect(update).toEqual({
+        block_number: 500,
+        date: "2022-08-07",
+        tx_hash: TX_HASH_1,
+        recipient_group: ethers.solidityPackedKeccak256(
+          ["address[]"],
+          [[RECIPIENT_1, RECIPIENT_2]],
+        ),
+        recipient_weights: ethers.solidityPackedKeccak256(
+          ["uint256[]"],
+          [[6000, 4000]],
+        ),
+        recipients: [RECIPIENT_1, RECIPIENT_2],
+        weights: [6000, 4000],
+      });
+    });
+
+    it("throws for logs that are not RecipientsUpdated events", () => {
+      const log = createRecipientRecievedLog(
+        RECIPIENT_1,
+        BigInt(1),
+        700,
+        TX_HASH_1,
+      );
+
+      expect(() => EventScanner.parseRecipientsUpdated(log, 0)).toThrow(
+        "Failed to parse log as RecipientsUpdated event",
+      );
+    });
+  });
+
+  describe("findDeploymentBlock", () => {
+    it("finds the first block with contract code", async () => {
+      mockProvider.getCode.mockImplementation(async (_address, blockTag) =>
+        (blockTag as number) >= 437 ? "0x6080" : "0x",
+      );
+
+      await expect(
+        EventScanner.findDeploymentBlock(mockProvider, DISTRIBUTOR, 660),
+      ).resolves.toBe(437);
+      expect(mockProvider.getCode.mock.calls.length).toBeLessThanOrEqual(10);
+    });
+  });
+
+  describe("scanRecipientUpdates", () => {
+    const initialLog = createRecipientsUpdatedLog(
+      [RECIPIENT_1],
+      [BigInt(10000)],
+      500,
+      TX_HASH_1,
+    );
+
+    beforeEach(() => {
+      mockFileManager.readDistributors.mockReturnValue(distributorsData);
+      mockFileManager.readBlockNumbers.mockReturnValue(blockNumberData);
+      mockProvider.getBlock.mockResolvedValue({
+        timestamp: 1659873600,
+      } as ethers.Block);
+    });
+
+    it("scans from the deployment block on the first run", async () => {
+      mockFileManager.readDistributorRecipients.mockReturnValue(undefined);
+      mockProvider.getCode.mockImplementation(async (_address, blockTag) =>
+        (blockTag as number) >= 500 ? "0x6080" : "0x",
+      );
+      mockProvider.getLogs.mockResolvedValue([initialLog]);
+
+      await scanner.scanRecipientUpdates();
+
+      expect(mockProvider.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ fromBlock: 500, toBlock: 3584 }),
+      );
+      const written = mockFileManager.writeDistributorRecipients.mock
+        .calls[0]![1] as RecipientsData;
+      expect(written.metadata).toEqual({
+        chain_id: 42170,
+        reward_distributor: DISTRIBUTOR,
+        last_scanned_block: 3584,
+      });
+      expect(written.updates).toHaveLength(1);
+      expect(written.updates[0]!.recipients).toEqual([RECIPIENT_1]);
+      expect(written.updates[0]!.date).toBe("2022-08-07");
+    });
+
+    it("resumes after last_scanned_block and appends new updates", async () => {
+      const existing: RecipientsData = {
+        metadata: {
+          chain_id: 42170,
+          reward_distributor: DISTRIBUTOR,
+          last_scanned_block: 672,
+        },
+        updates: [EventScanner.parseRecipientsUpdated(initialLog, 1659873600)],
+      };
+      mockFileManager.readDistributorRecipients.mockReturnValue(existing);
+      mockProvider.getLogs.mockResolvedValue([
+        createRecipientsUpdatedLog(
+          [RECIPIENT_1, RECIPIENT_2],
+          [BigInt(5000), BigInt(5000)],
+          1000,
+          TX_HASH_2,
+        ),
+      ]);
+
+      await scanner.scanRecipientUpdates(DISTRIBUTOR);
+
+      expect(mockProvider.getCode).not.toHaveBeenCalled();
+      expect(mockProvider.getLogs).toHaveBeenCalledWith(
+        expect.objectContaining({ fromBlock: 673, toBlock: 3584 }),
+      );
+      const written = mockFileManager.writeDistributorRecipients.mock
+        .calls[0]![1] as RecipientsData;
+      expect(written.updates.map((u) => u.block_number)).toEqual([500, 1000]);
+    });
+
+    it("stops at the last tracked day of a retired distributor", async () => {
+      mockFileManager.readDistributors.mockReturnValue({
+        ...distributorsData,
+        distributors: {
+          [DISTRIBUTOR]: {
+            ...distributorsData.distributors[DISTRIBUTOR]!,
+            active_until_block: 670,
+            active_until_date: "2022-08-08",
+          },
+        },
+      });
+      mockFileManager.readDistributorRecipients.mockReturnValue({
+        metadata: {
+          chain_id: 42170,
+          reward_distributor: DISTRIBUTOR,
+          last_scanned_block: 672,
+        },
+        updates: [],
+      });
+
+      await scanner.scanRecipientUpdates();
+
+      expect(mockProvider.getLogs).not.toHaveBeenCalled();
+      expect(mockFileManager.writeDistributorRecipients).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,356 @@
+import { FileManager } from "../../src/file-manager";
+import { FeeCalculator } from "../../src/fee-calculator";
+import {
+  BalanceData,
+  DistributorInfo,
+  DistributorsData,
+  DistributorType,
+  OutflowData,
+} from "../../src/types";
+
+jest.mock("../../src/file-manager");
+
+const DISTRIBUTOR_1 = "0x37daA99b1cAAE0c22670963e103a66CA2c5dB2dB";
+const DISTRIBUTOR_2 = "0xdff90519a9DE6ad469D4f9839a9220C5D340B792";
+const DISTRIBUTOR_3 = "0x3B68a689c929327224dBfCe31C1bf72Ffd2559Ce";
+
+function createDistributorInfo(
+  address: string,
+  type: DistributorType,
+  date: string,
+): DistributorInfo {
+  return {
+    type,
+    block: 100,
+    date,
+    tx_hash: "0x" + "a".repeat(64),
+    method: "0xfcdde2b4",
+    owner: "0x9C040726F2A657226Ed95712245DeE84b650A1b5",
+    event_data: "0x",
+    is_reward_distributor: true,
+    distributor_address: address,
+  };
+}
+
+function createBalanceData(
+  address: string,
+  balances: { [date: string]: string },
+): BalanceData {
+  return {
+    metadata: { chain_id: 42170, reward_distributor: address },
+    balances: Object.fromEntries(
+      Object.entries(balances).map(([date, balance_wei], i) => [
+        date,
+        { block_number: 1000 + i, balance_wei },
+      ]),
+    ),
+  };
+}
+
+function createOutflowData(
+  address: string,
+  outflows: { [date: string]: string },
+): OutflowData {
+  return {
+    metadata: { chain_id: 42170, reward_distributor: address },
+    outflows: Object.fromEntries(
+      Object.entries(outflows).map(([date, total_outflow_wei], i) => [
+        date,
+        { block_number: 1000 + i, total_outflow_wei, events: [] },
+      ]),
+    ),
+  };
+}
+
+describe("FeeCalculator", () => {
+  let mockFileManager: jest.Mocked<FileManager>;
+  let calculator: FeeCalculator;
+  let balances: { [address: string]: BalanceData };
+  let outflows: { [address: string]: OutflowData };
+
+  const distributorsData: DistributorsData = {
+    metadata: {
+      chain_id: 42170,
+      arbowner_address: "0x0000000000000000000000000000000000000070",
+      last_scanned_block: 5000,
+    },
+    distributors: {
+      [DISTRIBUTOR_1]: createDistributorInfo(
+        DISTRIBUTOR_1,
+        DistributorType.L2_SURPLUS_FEE,
+        "2024-01-01",
+      ),
+      [DISTRIBUTOR_2]: createDistributorInfo(
+        DISTRIBUTOR_2,
+        DistributorType.L2_SURPLUS_FEE,
+        "2024-01-02",
+      ),
+      [DISTRIBUTOR_3]: createDistributorInfo(
+        DISTRIBUTOR_3,
+        DistributorType.L2_BASE_FEE,
+        "2024-01-01",
+      ),
+    },
+  };
+
+  beforeEach(() => {
+    balances = {
+      [DISTRIBUTOR_1]: createBalanceData(DISTRIBUTOR_1, {
+        "2024-01-01": "1000",
+        "2024-01-02": "300",
+        "2024-01-03": "800",
+      }),
+      [DISTRIBUTOR_2]: createBalanceData(DISTRIBUTOR_2, {
+        "2024-01-02": "50",
+        "2024-01-03": "70",
+      }),
+      [DISTRIBUTOR_3]: createBalanceData(DISTRIBUTOR_3, {
+        "2024-01-01": "5",
+        "2024-01-02": "10",
+        "2024-01-03": "0",
+      }),
+    };
+    outflows = {
+      [DISTRIBUTOR_1]: createOutflowData(DISTRIBUTOR_1, {
+        "2024-01-01": "0",
+        "2024-01-02": "1200",
+        "2024-01-03": "0",
+      }),
+      [DISTRIBUTOR_2]: createOutflowData(DISTRIBUTOR_2, {
+        "2024-01-02": "0",
+        "2024-01-03": "0",
+      }),
+      [DISTRIBUTOR_3]: createOutflowData(DISTRIBUTOR_3, {
+        "2024-01-01": "0",
+        "2024-01-02": "0",
+        "2024-01-03": "15",
+      }),
+    };
+
+    mockFileManager = {
+      readDistributors: jest.fn().mockReturnValue(distributorsData),
+      readDistributorBalances: jest.fn((address: string) => balances[address]),
+      readDistributorOutflows: jest.fn((address: string) => outflows[address]),
+    } as unknown as jest.Mocked<FileManager>;
+    calculator = new FeeCalculator(mockFileManager);
+  });
+
+  it("stores FileManager as readonly property", () => {
+    expect(calculator.fileManager).toBe(mockFileManager);
+  });
+
+  it("throws when distributors data is missing", () => {
+    mockFileManager.readDistributors.mockReturnValue(undefined);
+
+    expect(() => calculator.calculateFees()).toThrow(
+      /Distributors data not found/,
+    );
+  });
+
+  it("calculates daily fees as balance change plus outflows", () => {
+    const report = calculator.calculateFees();
+
+    expect(report.distributors[DISTRIBUTOR_1]).toEqual({
+      type: DistributorType.L2_SURPLUS_FEE,
+      active_from_date: "2024-01-01",
+      total_fee_wei: "2000",
+      daily: {
+        "2024-01-01": {
+          block_number: 1000,
+          balance_wei: "1000",
+          outflow_wei: "0",
+          daily_fee_wei: "1000",
+          cumulative_fee_wei: "1000",
+        },
+        "2024-01-02": {
+          block_number: 1001,
+          balance_wei: "300",
+          outflow_wei: "1200",
+          daily_fee_wei: "500",
+          cumulative_fee_wei: "1500",
+        },
+        "2024-01-03": {
+          block_number: 1002,
+          balance_wei: "800",
+          outflow_wei: "0",
+          daily_fee_wei: "500",
+          cumulative_fee_wei: "2000",
+        },
+      },
+    });
+  });
+
+  it("matches Balance_Current + sum of outflows for cumulative fees", () => {
+    const report = calculator.calculateFees();
+
+    // 0 + 15 outflows
+    expect(report.distributors[DISTRIBUTOR_3]!.total_fee_wei).toBe("15");
+    // 800 + 1200 outflows
+    expect(report.distributors[DISTRIBUTOR_1]!.total_fee_wei).toBe("2000");
+  });
+
+  it("keeps full precision for values beyond Number.MAX_SAFE_INTEGER", () => {
+    balances[DISTRIBUTOR_1] = createBalanceData(DISTRIBUTOR_1, {
+      "2024-01-01": "1230000000000000000001",
+    });
+    outflows[DISTRIBUTOR_1] = createOutflowData(DISTRIBUTOR_1, {
+      "2024-01-01": "999999999999999999999",
+    });
+
+    const report = calculator.calculateFees();
+
+    expect(report.distributors[DISTRIBUTOR_1]!.total_fee_wei).toBe(
+      "2230000000000000000000",
+    );
+  });
+
+  it("aggregates fees per distributor type", () => {
+    const report = calculator.calculateFees();
+
+    expect(report.by_type[DistributorType.L2_SURPLUS_FEE]).toEqual({
+      total_fee_wei: "2070",
+      daily: {
+        "2024-01-01": { daily_fee_wei: "1000", cumulative_fee_wei: "1000" },
+        "2024-01-02": { daily_fee_wei: "550", cumulative_fee_wei: "1550" },
+        "2024-01-03": { daily_fee_wei: "520", cumulative_fee_wei: "2070" },
+      },
+    });
+    expect(report.by_type[DistributorType.L2_BASE_FEE]!.total_fee_wei).toBe(
+      "15",
+    );
+    expect(report.by_type[DistributorType.L1_SURPLUS_FEE]).toBeUndefined();
+  });
+
+  it("aggregates fees across all distributors in total", () => {
+    const report = calculator.calculateFees();
+
+    expect(report.metadata).toEqual({ chain_id: 42170 });
+    expect(report.total).toEqual({
+      total_fee_wei: "2085",
+      daily: {
+        "2024-01-01": { daily_fee_wei: "1005", cumulative_fee_wei: "1005" },
+        "2024-01-02": { daily_fee_wei: "555", cumulative_fee_wei: "1560" },
+        "2024-01-03": { daily_fee_wei: "525", cumulative_fee_wei: "2085" },
+      },
+    });
+  });
+
+  it("reports no daily fees for distributors without balances", () => {
+    delete balances[DISTRIBUTOR_2];
+
+    const report = calculator.calculateFees();
+
+    expect(report.distributors[DISTRIBUTOR_2]).toEqual({
+      type: DistributorType.L2_SURPLUS_FEE,
+      active_from_date: "2024-01-02",
+      total_fee_wei: "0",
+      daily: {},
+    });
+  });
+
+  it("stops attributing fees to a distributor after it is retired", () => {
+    mockFileManager.readDistributors.mockReturnValue({
+      ...distributorsData,
+      distributors: {
+        ...distributorsData.distributors,
+        [DISTRIBUTOR_1]: {
+          ...distributorsData.distributors[DISTRIBUTOR_1]!,
+          active_from_block: 100,
+          active_from_date: "2024-01-01",
+          active_until_block: 1500,
+          active_until_date: "2024-01-02",
+        },
+      },
+    });
+    delete outflows[DISTRIBUTOR_1]!.outflows["2024-01-03"];
+
+    const report = calculator.calculateFees();
+
+    expect(report.distributors[DISTRIBUTOR_1]!.active_from_date).toBe(
+      "2024-01-01",
+    );
+    expect(report.distributors[DISTRIBUTOR_1]!.active_until_date).toBe(
+      "2024-01-02",
+    );
+    expect(Object.keys(report.distributors[DISTRIBUTOR_1]!.daily)).toEqual([
+      "2024-01-01",
+      "2024-01-02",
+    ]);
+    expect(report.distributors[DISTRIBUTOR_1]!.total_fee_wei).toBe("1500");
+    expect(report.by_type[DistributorType.L2_SURPLUS_FEE]!.daily).toEqual({
+      "2024-01-01": { daily_fee_wei: "1000", cumulative_fee_wei: "1000" },
+      "2024-01-02": { daily_fee_wei: "550", cumulative_fee_wei: "1550" },
+      "2024-01-03": { daily_fee_wei: "20", cumulative_fee_wei: "1570" },
+    });
+  });
+
+  it("attributes no fees to a reactivated distributor while its replacement was live", () => {
+    mockFileManager.readDistributors.mockReturnValue({
+      ...distributorsData,
+      distributors: {
+        ...distributorsData.distributors,
+        [DISTRIBUTOR_1]: {
+          ...distributorsData.distributors[DISTRIBUTOR_1]!,
+          active_from_block: 100,
+          active_from_date: "2024-01-01",
+          active_periods: [
+            {
+              from_block: 100,
+              from_date: "2024-01-01",
+              until_block: 900,
+              until_date: "2024-01-01",
+            },
+            { from_block: 2100, from_date: "2024-01-03" },
+          ],
+        },
+      },
+    });
+    // The day before the reactivation only needs its balance, as the starting point
+    delete outflows[DISTRIBUTOR_1]!.outflows["2024-01-02"];
+
+    const report = calculator.calculateFees();
+
+    expect(report.distributors[DISTRIBUTOR_1]!.daily).toEqual({
+      "2024-01-01": {
+        block_number: 1000,
+        balance_wei: "1000",
+        outflow_wei: "0",
+        daily_fee_wei: "1000",
+        cumulative_fee_wei: "1000",
+      },
+      "2024-01-03": {
+        block_number: 1002,
+        balance_wei: "800",
+        outflow_wei: "0",
+        daily_fee_wei: "500",
+        cumulative_fee_wei: "1500",
+      },
+    });
+    expect(
+      report.distributors[DISTRIBUTOR_1]!.active_until_date,
+    ).toBeUndefined();
+  });
+
+  it("throws with context when a balance date has no outflow data", () => {
+    delete outflows[DISTRIBUTOR_2]!.outflows["2024-01-03"];
+
+    expect(() => calculator.calculateFees()).toThrow(
+      `Missing outflow data for fee calculation\n  Distributor: ${DISTRIBUTOR_2}\n  Date: 2024-01-03`,
+    );
+  });
+
+  it("throws when balances or outflows are stale after a block repair", () => {
+    balances[DISTRIBUTOR_3]!.metadata.stale_dates = ["2024-01-02"];
+
+    expect(() => calculator.calculateFees()).toThrow(
+      `Stale balance data for fee calculation\n  Distributor: ${DISTRIBUTOR_3}\n  Date: 2024-01-02`,
+    );
+
+    delete balances[DISTRIBUTOR_3]!.metadata.stale_dates;
+    outflows[DISTRIBUTOR_3]!.metadata.stale_dates = ["2024-01-03"];
+
+    expect(() => calculator.calculateFees()).toThrow(
+      `Stale outflow data for fee calculation\n  Distributor: ${DISTRIBUTOR_3}\n  Date: 2024-01-03`,
+    );
+  });
+});
@@ -5,6 +5,9 @@ import {
   cleanupTestEnvironment,
   createTestDate,
   TestContext,
+  withSchemaVersion,
+  TEST_BACKENDS,
+  itOnFileSystem,
 } from "./test-utils";
 import { BlockNumberData, CHAIN_IDS } from "../../../src/types";
 
@@ -25,169 +28,214 @@ function createBlockNumberData(
   };
 }
 
-describe("FileManager - Block Numbers", () => {
-  let testContext: TestContext;
+describe.each(TEST_BACKENDS)(
+  "%s - FileManager - Block Numbers",
+  (backendName) => {
+    let testContext: TestContext;
 
-  beforeEach(() => {
-    testContext = setupTestEnvironment();
-  });
-
-  afterEach(() => {
-    cleanupTestEnvironment(testContext.tempDir);
-  });
+    beforeEach(() => {
+      testContext = setupTestEnvironment(backendName);
+    });
 
-  describe("readBlockNumbers()", () => {
-    it("should return undefined when block_numbers.json does not exist", () => {
-      const result = testContext.fileManager.readBlockNumbers();
-      expect(result).toBeUndefined();
+    afterEach(() => {
+      cleanupTestEnvironment(testContext.tempDir);
     });
 
-    it("should write and read back BlockNumberData with multiple date entries", () => {
-      const testData = createBlockNumberData({
-        blocks: {
-          "2024-01-15": 12345678,
-          "2024-01-16": 12356789,
-          "2024-01-17": 12367890,
-        },
+    describe("readBlockNumbers()", () => {
+      it("should return undefined when block_numbers.json does not exist", () => {
+        const result = testContext.fileManager.readBlockNumbers();
+        expect(result).toBeUndefined();
       });
 
-      testContext.fileManager.writeBlockNumbers(testData);
-      const result = testContext.fileManager.readBlockNumbers();
+      it("should write and read back BlockNumberData with multiple date entries", () => {
+        const testData = createBlockNumberData({
+          blocks: {
+            "2024-01-15": 12345678,
+            "2024-01-16": 12356789,
+            "2024-01-17": 12367890,
+          },
+        });
 
-      expect(result).toEqual(testData);
-    });
+        testContext.fileManager.writeBlockNumbers(testData);
+        const result = testContext.fileManager.readBlockNumbers();
 
-    it("should preserve block number precision for large block numbers", () => {
-      const largeBlockNumber = 200000000;
-      const testData = createBlockNumberData({
-        blocks: {
-          "2024-01-15": largeBlockNumber,
-        },
+        expect(result).toEqual(testData);
       });
 
-      testContext.fileManager.writeBlockNumbers(testData);
-      const result = testContext.fileManager.readBlockNumbers();
+      it("should preserve block number precision for large block numbers", () => {
+        const largeBlockNumber = 200000000;
+        const testData = createBlockNumberData({
+          blocks: {
+            "2024-01-15": largeBlockNumber,
+          },
+        });
 
-      expect(result?.blocks["2024-01-15"]).toBe(largeBlockNumber);
-    });
+        testContext.fileManager.writeBlockNumbers(testData);
+        const result = testContext.fileManager.readBlockNumbers();
 
-    it("should format JSON with 2-space indentation for human readability", () => {
-      const testData = createBlockNumberData({
-        blocks: {
-          [TEST_DATE]: TEST_BLOCK_NUMBER,
-        },
+        expect(result?.blocks["2024-01-15"]).toBe(largeBlockNumber);
       });
 
-      testContext.fileManager.writeBlockNumbers(testData);
-
-      const fileContent = fs.readFileSync("store/block_numbers.json", "utf-8");
-      expect(fileContent).toBe(JSON.stringify(testData, null, 2));
-    });
-
-    it("should maintain date ordering in blocks object", () => {
-      const testData = createBlockNumberData({
-        blocks: {
-          "2024-01-17": 12367890,
-          "2024-01-15": 12345678,
-          "2024-01-16": 12356789,
-        },
+      it("should format JSON with 2-space indentation for human readability", () => {
+        const testData = createBlockNumberData({
+          blocks: {
+            [TEST_DATE]: TEST_BLOCK_NUMBER,
+          },
+        });
+
+        testContext.fileManager.writeBlockNumbers(testData);
+
+        const fileContent = testContext.backend.read(
+          "block_numbers.json",
+          "test",
+        );
+        expect(fileContent).toBe(
+          JSON.stringify(withSchemaVersion(testData), null, 2),
+        );
       });
 
-      testContext.fileManager.writeBlockNumbers(testData);
-      const result = testContext.fileManager.readBlockNumbers();
+      it("should maintain date ordering in blocks object", () => {
+        const testData = createBlockNumberData({
+          blocks: {
+            "2024-01-17": 12367890,
+            "2024-01-15": 12345678,
+            "2024-01-16": 12356789,
+          },
+        });
 
-      const dates = Object.keys(result?.blocks || {});
-      expect(dates).toEqual(["2024-01-17", "2024-01-15", "2024-01-16"]);
-    });
+        testContext.fileManager.writeBlockNumbers(testData);
+        const result = testContext.fileManager.readBlockNumbers();
 
-    it("should handle single date entry correctly", () => {
-      const testData = createBlockNumberData({
-        blocks: {
-          [TEST_DATE]: TEST_BLOCK_NUMBER,
-        },
+        const dates = Object.keys(result?.blocks || {});
+        expect(dates).toEqual(["2024-01-17", "2024-01-15", "2024-01-16"]);
       });
 
-      testContext.fileManager.writeBlockNumbers(testData);
-      const result = testContext.fileManager.readBlockNumbers();
+      it("should handle single date entry correctly", () => {
+        const testData = createBlockNumberData({
+          blocks: {
+            [TEST_DATE]: TEST_BLOCK_NUMBER,
+          },
+        });
+
+        testContext.fileManager.writeBlockNumbers(testData);
+        const result = testContext.fileManager.readBlockNumbers();
 
-      expect(result).toEqual(testData);
+        expect(result).toEqual(testData);
+      });
     });
-  });
 
-  describe("writeBlockNumbers()", () => {
-    it("should validate date formats are YYYY-MM-DD", () => {
-      const invalidData = createBlockNumberData({
-        blocks: {
-          "01/15/2024": TEST_BLOCK_NUMBER,
-        },
+    describe("writeBlockNumbers()", () => {
+      it("should validate date formats are YYYY-MM-DD", () => {
+        const invalidData = createBlockNumberData({
+          blocks: {
+            "01/15/2024": TEST_BLOCK_NUMBER,
+          },
+        });
+
+        expect(() =>
+          testContext.fileManager.writeBlockNumbers(invalidData),
+        ).toThrow(/Invalid date format/);
       });
 
-      expect(() =>
-        testContext.fileManager.writeBlockNumbers(invalidData),
-      ).toThrow(/Invalid date format/);
-    });
+      it("should ensure block numbers are positive integers", () => {
+        const negativeBlockData = createBlockNumberData({
+          blocks: {
+            [TEST_DATE]: -12345678,
+          },
+        });
 
-    it("should ensure block numbers are positive integers", () => {
-      const negativeBlockData = createBlockNumberData({
-        blocks: {
-          [TEST_DATE]: -12345678,
-        },
+        expect(() =>
+          testContext.fileManager.writeBlockNumbers(negativeBlockData),
+        ).toThrow(/positive integer/);
       });
 
-      expect(() =>
-        testContext.fileManager.writeBlockNumbers(negativeBlockData),
-      ).toThrow(/positive integer/);
-    });
+      it("should reject zero as block number", () => {
+        const zeroBlockData = createBlockNumberData({
+          blocks: {
+            [TEST_DATE]: 0,
+          },
+        });
 
-    it("should reject zero as block number", () => {
-      const zeroBlockData = createBlockNumberData({
-        blocks: {
-          [TEST_DATE]: 0,
-        },
+        expect(() =>
+          testContext.fileManager.writeBlockNumbers(zeroBlockData),
+        ).toThrow(/positive integer/);
       });
 
-      expect(() =>
-        testContext.fileManager.writeBlockNumbers(zeroBlockData),
-      ).toThrow(/positive integer/);
-    });
+      itOnFileSystem(backendName)(
+        "should create store directory if it does not exist",
+        () => {
+          expect(fs.existsSync("store")).toBe(false);
 
-    it("should create store directory if it does not exist", () => {
-      expect(fs.existsSync("store")).toBe(false);
+          const testData = createBlockNumberData({
+            blocks: {
+              [TEST_DATE]: TEST_BLOCK_NUMBER,
+            },
+          });
 
-      const testData = createBlockNumberData({
-        blocks: {
-          [TEST_DATE]: TEST_BLOCK_NUMBER,
+          testContext.fileManager.writeBlockNumbers(testData);
+
+          expect(fs.existsSync("store")).toBe(true);
+          expect(testContext.backend.exists("block_numbers.json")).toBe(true);
         },
+      );
+
+      it("should validate calendar dates not just format", () => {
+        const testData = createBlockNumberData({
+          blocks: {
+            "2024-02-30": 12345678, // February 30th doesn't exist
+          },
+        });
+
+        expect(() =>
+          testContext.fileManager.writeBlockNumbers(testData),
+        ).toThrow("Invalid calendar date: 2024-02-30");
       });
 
-      testContext.fileManager.writeBlockNumbers(testData);
+      it("should validate block numbers are within reasonable range", () => {
+        const testData = createBlockNumberData({
+          blocks: {
+            "2024-01-15": 2000000000, // Exceeds 1 billion blocks
+          },
+        });
+
+        expect(() =>
+          testContext.fileManager.writeBlockNumbers(testData),
+        ).toThrow(
+          "Block number exceeds reasonable maximum: 2000000000 (max: 1000000000)",
+        );
+      });
 
-      expect(fs.existsSync("store")).toBe(true);
-      expect(fs.existsSync("store/block_numbers.json")).toBe(true);
-    });
+      it("should accept block hashes for stored dates", () => {
+        const testData = createBlockNumberData({
+          blocks: { [TEST_DATE]: TEST_BLOCK_NUMBER },
+          hashes: { [TEST_DATE]: "0x" + "ab".repeat(32) },
+        });
 
-    it("should validate calendar dates not just format", () => {
-      const testData = createBlockNumberData({
-        blocks: {
-          "2024-02-30": 12345678, // February 30th doesn't exist
-        },
+        testContext.fileManager.writeBlockNumbers(testData);
+
+        expect(testContext.fileManager.readBlockNumbers()).toEqual(testData);
       });
 
-      expect(() => testContext.fileManager.writeBlockNumbers(testData)).toThrow(
-        "Invalid calendar date: 2024-02-30",
-      );
-    });
+      it("should reject malformed block hashes", () => {
+        const testData = createBlockNumberData({
+          blocks: { [TEST_DATE]: TEST_BLOCK_NUMBER },
+          hashes: { [TEST_DATE]: "0x1234" },
+        });
 
-    it("should validate block numbers are within reasonable range", () => {
-      const testData = createBlockNumberData({
-        blocks: {
-          "2024-01-15": 2000000000, // Exceeds 1 billion blocks
-        },
+        expect(() =>
+          testContext.fileManager.writeBlockNumbers(testData),
+        ).toThrow(`Invalid block hash format for ${TEST_DATE}: 0x1234`);
       });
 
-      expect(() => testContext.fileManager.writeBlockNumbers(testData)).toThrow(
-        "Block number exceeds reasonable maximum: 2000000000 (max: 1000000000)",
-      );
+      it("should reject block hashes for dates without a block", () => {
+        const testData = createBlockNumberData({
+          hashes: { [TEST_DATE]: "0x" + "ab".repeat(32) },
+        });
+
+        expect(() =>
+          testContext.fileManager.writeBlockNumbers(testData),
+        ).toThrow(`Block hash recorded for ${TEST_DATE} without a block`);
+      });
     });
-  });
-});
+  },
+);
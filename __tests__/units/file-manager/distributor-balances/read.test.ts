@@ -1,191 +1,214 @@
 import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
-import * as fs from "fs";
 import {
   setupTestEnvironment,
   cleanupTestEnvironment,
   VALID_ADDRESS,
   TestContext,
+  TEST_BACKENDS,
 } from "../test-utils";
 import { BalanceData, CHAIN_IDS } from "../../../../src/types";
 
-describe("FileManager - Distributor Balances - Read Operations", () => {
-  let testContext: TestContext;
+describe.each(TEST_BACKENDS)(
+  "%s - FileManager - Distributor Balances - Read Operations",
+  (backendName) => {
+    let testContext: TestContext;
 
-  beforeEach(() => {
-    testContext = setupTestEnvironment();
-  });
-
-  afterEach(() => {
-    cleanupTestEnvironment(testContext.tempDir);
-  });
-
-  describe("readDistributorBalances()", () => {
-    it("should return undefined when balances.json does not exist", () => {
-      const result =
-        testContext.fileManager.readDistributorBalances(VALID_ADDRESS);
-
-      expect(result).toBeUndefined();
+    beforeEach(() => {
+      testContext = setupTestEnvironment(backendName);
     });
 
-    it("should create distributor directory when writing balances for new address", () => {
-      const testData: BalanceData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          reward_distributor: VALID_ADDRESS,
-        },
-        balances: {
-          "2024-01-15": {
-            block_number: 12345678,
-            balance_wei: "1234567890123456789012",
-          },
-        },
-      };
+    afterEach(() => {
+      cleanupTestEnvironment(testContext.tempDir);
+    });
 
-      expect(fs.existsSync(`store/distributors/${VALID_ADDRESS}`)).toBe(false);
+    describe("readDistributorBalances()", () => {
+      it("should return undefined when balances.json does not exist", () => {
+        const result =
+          testContext.fileManager.readDistributorBalances(VALID_ADDRESS);
 
-      testContext.fileManager.writeDistributorBalances(VALID_ADDRESS, testData);
+        expect(result).toBeUndefined();
+      });
 
-      expect(fs.existsSync(`store/distributors/${VALID_ADDRESS}`)).toBe(true);
-      expect(
-        fs.existsSync(`store/distributors/${VALID_ADDRESS}/balances.json`),
-      ).toBe(true);
-    });
-
-    it("should write and read back BalanceData with many dates", () => {
-      const testData: BalanceData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          reward_distributor: VALID_ADDRESS,
-        },
-        balances: {
-          "2024-01-01": {
-            block_number: 100000,
-            balance_wei: "1000000000000000000000",
+      it("should create distributor directory when writing balances for new address", () => {
+        const testData: BalanceData = {
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            reward_distributor: VALID_ADDRESS,
           },
-          "2024-01-02": {
-            block_number: 200000,
-            balance_wei: "2000000000000000000000",
+          balances: {
+            "2024-01-15": {
+              block_number: 12345678,
+              balance_wei: "1234567890123456789012",
+            },
           },
-          "2024-01-03": {
-            block_number: 300000,
-            balance_wei: "3000000000000000000000",
+        };
+
+        expect(
+          testContext.backend.listDirectories("distributors", "test"),
+        ).toEqual([]);
+
+        testContext.fileManager.writeDistributorBalances(
+          VALID_ADDRESS,
+          testData,
+        );
+
+        expect(
+          testContext.backend.listDirectories("distributors", "test"),
+        ).toEqual([VALID_ADDRESS]);
+        expect(
+          testContext.backend.exists(
+            `distributors/${VALID_ADDRESS}/balances.json`,
+          ),
+        ).toBe(true);
+      });
+
+      it("should write and read back BalanceData with many dates", () => {
+        const testData: BalanceData = {
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            reward_distributor: VALID_ADDRESS,
           },
-          "2024-01-04": {
-            block_number: 400000,
-            balance_wei: "4000000000000000000000",
+          balances: {
+            "2024-01-01": {
+              block_number: 100000,
+              balance_wei: "1000000000000000000000",
+            },
+            "2024-01-02": {
+              block_number: 200000,
+              balance_wei: "2000000000000000000000",
+            },
+            "2024-01-03": {
+              block_number: 300000,
+              balance_wei: "3000000000000000000000",
+            },
+            "2024-01-04": {
+              block_number: 400000,
+              balance_wei: "4000000000000000000000",
+            },
+            "2024-01-05": {
+              block_number: 500000,
+              balance_wei: "5000000000000000000000",
+            },
           },
-          "2024-01-05": {
-            block_number: 500000,
-            balance_wei: "5000000000000000000000",
+        };
+
+        testContext.fileManager.writeDistributorBalances(
+          VALID_ADDRESS,
+          testData,
+        );
+        const result =
+          testContext.fileManager.readDistributorBalances(VALID_ADDRESS);
+
+        expect(result).toEqual(testData);
+        expect(Object.keys(result?.balances || {}).length).toBe(5);
+      });
+
+      it("should preserve wei values as strings without modification", () => {
+        const exactWeiValue =
+          "123456789012345678901234567890123456789012345678901234567890";
+
+        const testData: BalanceData = {
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            reward_distributor: VALID_ADDRESS,
           },
-        },
-      };
-
-      testContext.fileManager.writeDistributorBalances(VALID_ADDRESS, testData);
-      const result =
-        testContext.fileManager.readDistributorBalances(VALID_ADDRESS);
-
-      expect(result).toEqual(testData);
-      expect(Object.keys(result?.balances || {}).length).toBe(5);
-    });
-
-    it("should preserve wei values as strings without modification", () => {
-      const exactWeiValue =
-        "123456789012345678901234567890123456789012345678901234567890";
-
-      const testData: BalanceData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          reward_distributor: VALID_ADDRESS,
-        },
-        balances: {
-          "2024-01-15": {
-            block_number: 12345678,
-            balance_wei: exactWeiValue,
+          balances: {
+            "2024-01-15": {
+              block_number: 12345678,
+              balance_wei: exactWeiValue,
+            },
           },
-        },
-      };
-
-      testContext.fileManager.writeDistributorBalances(VALID_ADDRESS, testData);
-      const result =
-        testContext.fileManager.readDistributorBalances(VALID_ADDRESS);
-
-      expect(result?.balances["2024-01-15"]?.balance_wei).toBe(exactWeiValue);
-      expect(typeof result?.balances["2024-01-15"]?.balance_wei).toBe("string");
-    });
-
-    it("should handle balance of 0 correctly", () => {
-      const testData: BalanceData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          reward_distributor: VALID_ADDRESS,
-        },
-        balances: {
-          "2024-01-15": {
-            block_number: 12345678,
-            balance_wei: "0",
+        };
+
+        testContext.fileManager.writeDistributorBalances(
+          VALID_ADDRESS,
+          testData,
+        );
+        const result =
+          testContext.fileManager.readDistributorBalances(VALID_ADDRESS);
+
+        expect(result?.balances["2024-01-15"]?.balance_wei).toBe(exactWeiValue);
+        expect(typeof result?.balances["2024-01-15"]?.balance_wei).toBe(
+          "string",
+        );
+      });
+
+      it("should handle balance of 0 correctly", () => {
+        const testData: BalanceData = {
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            reward_distributor: VALID_ADDRESS,
           },
-        },
-      };
-
-      testContext.fileManager.writeDistributorBalances(VALID_ADDRESS, testData);
-      const result =
-        testContext.fileManager.readDistributorBalances(VALID_ADDRESS);
-
-      expect(result?.balances["2024-01-15"]?.balance_wei).toBe("0");
-    });
-
-    it("should update existing balance file with new dates", () => {
-      const initialData: BalanceData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          reward_distributor: VALID_ADDRESS,
-        },
-        balances: {
-          "2024-01-15": {
-            block_number: 12345678,
-            balance_wei: "1000000000000000000000",
+          balances: {
+            "2024-01-15": {
+              block_number: 12345678,
+              balance_wei: "0",
+            },
+          },
+        };
+
+        testContext.fileManager.writeDistributorBalances(
+          VALID_ADDRESS,
+          testData,
+        );
+        const result =
+          testContext.fileManager.readDistributorBalances(VALID_ADDRESS);
+
+        expect(result?.balances["2024-01-15"]?.balance_wei).toBe("0");
+      });
+
+      it("should update existing balance file with new dates", () => {
+        const initialData: BalanceData = {
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            reward_distributor: VALID_ADDRESS,
+          },
+          balances: {
+            "2024-01-15": {
+              block_number: 12345678,
+              balance_wei: "1000000000000000000000",
+            },
           },
-        },
-      };
-
-      testContext.fileManager.writeDistributorBalances(
-        VALID_ADDRESS,
-        initialData,
-      );
-
-      // Add a new date to the existing data
-      const updatedData: BalanceData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          reward_distributor: VALID_ADDRESS,
-        },
-        balances: {
-          "2024-01-15": {
-            block_number: 12345678,
-            balance_wei: "1000000000000000000000",
+        };
+
+        testContext.fileManager.writeDistributorBalances(
+          VALID_ADDRESS,
+          initialData,
+        );
+
+        // Add a new date to the existing data
+        const updatedData: BalanceData = {
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            reward_distributor: VALID_ADDRESS,
           },
-          "2024-01-16": {
-            block_number: 12356789,
-            balance_wei: "2000000000000000000000",
+          balances: {
+            "2024-01-15": {
+              block_number: 12345678,
+              balance_wei: "1000000000000000000000",
+            },
+            "2024-01-16": {
+              block_number: 12356789,
+              balance_wei: "2000000000000000000000",
+            },
           },
-        },
-      };
-
-      testContext.fileManager.writeDistributorBalances(
-        VALID_ADDRESS,
-        updatedData,
-      );
-      const result =
-        testContext.fileManager.readDistributorBalances(VALID_ADDRESS);
-
-      expect(Object.keys(result?.balances || {}).length).toBe(2);
-      expect(result?.balances["2024-01-15"]?.balance_wei).toBe(
-        "1000000000000000000000",
-      );
-      expect(result?.balances["2024-01-16"]?.balance_wei).toBe(
-        "2000000000000000000000",
-      );
+        };
+
+        testContext.fileManager.writeDistributorBalances(
+          VALID_ADDRESS,
+          updatedData,
+        );
+        const result =
+          testContext.fileManager.readDistributorBalances(VALID_ADDRESS);
+
+        expect(Object.keys(result?.balances || {}).length).toBe(2);
+        expect(result?.balances["2024-01-15"]?.balance_wei).toBe(
+          "1000000000000000000000",
+        );
+        expect(result?.balances["2024-01-16"]?.balance_wei).toBe(
+          "2000000000000000000000",
+        );
+      });
     });
-  });
-});
+  },
+);
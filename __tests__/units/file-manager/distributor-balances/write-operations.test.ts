@@ -5,60 +5,81 @@ import {
   cleanupTestEnvironment,
   VALID_ADDRESS,
   TestContext,
+  withSchemaVersion,
+  TEST_BACKENDS,
+  itOnFileSystem,
 } from "../test-utils";
 import { BalanceData, CHAIN_IDS } from "../../../../src/types";
 
-describe("FileManager - Distributor Balances - Write Operations", () => {
-  let testContext: TestContext;
+describe.each(TEST_BACKENDS)(
+  "%s - FileManager - Distributor Balances - Write Operations",
+  (backendName) => {
+    let testContext: TestContext;
 
-  beforeEach(() => {
-    testContext = setupTestEnvironment();
-  });
-
-  afterEach(() => {
-    cleanupTestEnvironment(testContext.tempDir);
-  });
+    beforeEach(() => {
+      testContext = setupTestEnvironment(backendName);
+    });
 
-  describe("writeDistributorBalances() - File Operations", () => {
-    it("should create store directory if it does not exist", () => {
-      expect(fs.existsSync("store")).toBe(false);
+    afterEach(() => {
+      cleanupTestEnvironment(testContext.tempDir);
+    });
 
-      const testData: BalanceData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          reward_distributor: VALID_ADDRESS,
-        },
-        balances: {},
-      };
+    describe("writeDistributorBalances() - File Operations", () => {
+      itOnFileSystem(backendName)(
+        "should create store directory if it does not exist",
+        () => {
+          expect(fs.existsSync("store")).toBe(false);
 
-      testContext.fileManager.writeDistributorBalances(VALID_ADDRESS, testData);
+          const testData: BalanceData = {
+            metadata: {
+              chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+              reward_distributor: VALID_ADDRESS,
+            },
+            balances: {},
+          };
 
-      expect(fs.existsSync("store")).toBe(true);
-      expect(
-        fs.existsSync(`store/distributors/${VALID_ADDRESS}/balances.json`),
-      ).toBe(true);
-    });
+          testContext.fileManager.writeDistributorBalances(
+            VALID_ADDRESS,
+            testData,
+          );
 
-    it("should format JSON with 2-space indentation", () => {
-      const testData: BalanceData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          reward_distributor: VALID_ADDRESS,
+          expect(fs.existsSync("store")).toBe(true);
+          expect(
+            testContext.backend.exists(
+              `distributors/${VALID_ADDRESS}/balances.json`,
+            ),
+          ).toBe(true);
         },
-        balances: {
-          "2024-01-15": {
-            block_number: 12345678,
-            balance_wei: "1234567890123456789012",
+      );
+
+      it("should format JSON with 2-space indentation", () => {
+        const testData: BalanceData = {
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            reward_distributor: VALID_ADDRESS,
           },
-        },
-      };
+          balances: {
+            "2024-01-15": {
+              block_number: 12345678,
+              balance_wei: "1234567890123456789012",
+            },
+          },
+        };
 
-      testContext.fileManager.writeDistributorBalances(VALID_ADDRESS, testData);
+        testContext.fileManager.writeDistributorBalances(
+          VALID_ADDRESS,
+          testData,
+        );
 
-      const filePath = `store/distributors/${VALID_ADDRESS}/balances.json`;
-      const fileContent = fs.readFileSync(filePath, "utf-8");
+        const fileContent = testContext.backend.read(
+          `distributors/${VALID_ADDRESS}/balances.json`,
+          "test",
+        );
 
-      expect(fileContent).toBe(JSON.stringify(testData, null, 2));
+        expect(fileContent).toBe(
+          JSON.stringify(withSchemaVersion(testData), null, 2),
+        );
+      });
     });
-  });
-});
+  },
+);
@@ -5,68 +5,89 @@ import {
   cleanupTestEnvironment,
   VALID_ADDRESS,
   TestContext,
+  withSchemaVersion,
+  TEST_BACKENDS,
+  itOnFileSystem,
 } from "../test-utils";
 import { OutflowData, CHAIN_IDS } from "../../../../src/types";
 
-describe("FileManager - Distributor Outflows - Write Operations", () => {
-  let testContext: TestContext;
+describe.each(TEST_BACKENDS)(
+  "%s - FileManager - Distributor Outflows - Write Operations",
+  (backendName) => {
+    let testContext: TestContext;
 
-  beforeEach(() => {
-    testContext = setupTestEnvironment();
-  });
-
-  afterEach(() => {
-    cleanupTestEnvironment(testContext.tempDir);
-  });
+    beforeEach(() => {
+      testContext = setupTestEnvironment(backendName);
+    });
 
-  describe("writeDistributorOutflows() - File Operations", () => {
-    it("should create store directory if it does not exist", () => {
-      expect(fs.existsSync("store")).toBe(false);
+    afterEach(() => {
+      cleanupTestEnvironment(testContext.tempDir);
+    });
 
-      const testData: OutflowData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          reward_distributor: VALID_ADDRESS,
-        },
-        outflows: {},
-      };
+    describe("writeDistributorOutflows() - File Operations", () => {
+      itOnFileSystem(backendName)(
+        "should create store directory if it does not exist",
+        () => {
+          expect(fs.existsSync("store")).toBe(false);
 
-      testContext.fileManager.writeDistributorOutflows(VALID_ADDRESS, testData);
+          const testData: OutflowData = {
+            metadata: {
+              chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+              reward_distributor: VALID_ADDRESS,
+            },
+            outflows: {},
+          };
 
-      expect(fs.existsSync("store")).toBe(true);
-      expect(
-        fs.existsSync(`store/distributors/${VALID_ADDRESS}/outflows.json`),
-      ).toBe(true);
-    });
+          testContext.fileManager.writeDistributorOutflows(
+            VALID_ADDRESS,
+            testData,
+          );
 
-    it("should format JSON with 2-space indentation", () => {
-      const testData: OutflowData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          reward_distributor: VALID_ADDRESS,
+          expect(fs.existsSync("store")).toBe(true);
+          expect(
+            testContext.backend.exists(
+              `distributors/${VALID_ADDRESS}/outflows.json`,
+            ),
+          ).toBe(true);
         },
-        outflows: {
-          "2024-01-15": {
-            block_number: 12345678,
-            total_outflow_wei: "1000000000000000000000",
-            events: [
-              {
-                recipient: "0xAaa1234567890123456789012345678901234567",
-                value_wei: "1000000000000000000000",
-                tx_hash:
-                  "0xdef4567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
-              },
-            ],
+      );
+
+      it("should format JSON with 2-space indentation", () => {
+        const testData: OutflowData = {
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            reward_distributor: VALID_ADDRESS,
           },
-        },
-      };
+          outflows: {
+            "2024-01-15": {
+              block_number: 12345678,
+              total_outflow_wei: "1000000000000000000000",
+              events: [
+                {
+                  recipient: "0xAaa1234567890123456789012345678901234567",
+                  value_wei: "1000000000000000000000",
+                  tx_hash:
+                    "0xdef4567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
+                },
+              ],
+            },
+          },
+        };
 
-      testContext.fileManager.writeDistributorOutflows(VALID_ADDRESS, testData);
+        testContext.fileManager.writeDistributorOutflows(
+          VALID_ADDRESS,
+          testData,
+        );
 
-      const filePath = `store/distributors/${VALID_ADDRESS}/outflows.json`;
-      const fileContent = fs.readFileSync(filePath, "utf-8");
+        const fileContent = testContext.backend.read(
+          `distributors/${VALID_ADDRESS}/outflows.json`,
+          "test",
+        );
 
-      expect(fileContent).toBe(JSON.stringify(testData, null, 2));
+        expect(fileContent).toBe(
+          JSON.stringify(withSchemaVersion(testData), null, 2),
+        );
+      });
     });
-  });
-});
+  },
+);
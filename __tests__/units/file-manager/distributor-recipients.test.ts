@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import {
+  setupTestEnvironment,
+  cleanupTestEnvironment,
+  VALID_ADDRESS,
+  VALID_ADDRESS_2,
+  VALID_TX_HASH,
+  TestContext,
+  TEST_BACKENDS,
+} from "./test-utils";
+import {
+  RecipientsData,
+  RecipientsUpdate,
+  CHAIN_IDS,
+} from "../../../src/types";
+
+const RECIPIENT_1 = "0xAaa1234567890123456789012345678901234567";
+const RECIPIENT_2 = "0xbbB2345678901234567890123456789012345678";
+const GROUP_HASH = "0x" + "1".repeat(64);
+const WEIGHTS_HASH = "0x" + "2".repeat(64);
+
+function createUpdate(overrides?: Partial<RecipientsUpdate>): RecipientsUpdate {
+  return {
+    block_number: 12345678,
+    date: "2024-01-15",
+    tx_hash: VALID_TX_HASH,
+    recipient_group: GROUP_HASH,
+    recipient_weights: WEIGHTS_HASH,
+    recipients: [RECIPIENT_1, RECIPIENT_2],
+    weights: [7500, 2500],
+    ...overrides,
+  };
+}
+
+function createRecipientsData(updates: RecipientsUpdate[]): RecipientsData {
+  return {
+    metadata: {
+      chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+      reward_distributor: VALID_ADDRESS,
+      last_scanned_block: 20000000,
+    },
+    updates,
+  };
+}
+
+describe.each(TEST_BACKENDS)(
+  "%s - FileManager - Distributor Recipients",
+  (backendName) => {
+    let testContext: TestContext;
+
+    beforeEach(() => {
+      testContext = setupTestEnvironment(backendName);
+    });
+
+    afterEach(() => {
+      cleanupTestEnvironment(testContext.tempDir);
+    });
+
+    describe("readDistributorRecipients()", () => {
+      it("should return undefined when recipients.json does not exist", () => {
+        expect(
+          testContext.fileManager.readDistributorRecipients(VALID_ADDRESS),
+        ).toBeUndefined();
+      });
+
+      it("should write and read back the update history", () => {
+        const testData = createRecipientsData([
+          createUpdate(),
+          createUpdate({
+            block_number: 15000000,
+            date: "2024-03-01",
+            recipients: [RECIPIENT_2],
+            weights: [10000],
+          }),
+        ]);
+
+        testContext.fileManager.writeDistributorRecipients(
+          VALID_ADDRESS,
+          testData,
+        );
+
+        expect(
+          testContext.backend.exists(
+            `distributors/${VALID_ADDRESS}/recipients.json`,
+          ),
+        ).toBe(true);
+        expect(
+          testContext.fileManager.readDistributorRecipients(VALID_ADDRESS),
+        ).toEqual(testData);
+      });
+    });
+
+    describe("writeDistributorRecipients()", () => {
+      const expectWriteToThrow = (data: RecipientsData, error: RegExp) => {
+        expect(() =>
+          testContext.fileManager.writeDistributorRecipients(
+            VALID_ADDRESS,
+            data,
+          ),
+        ).toThrow(error);
+      };
+
+      it("should reject a reward_distributor that does not match the address", () => {
+        expectWriteToThrow(
+          {
+            ...createRecipientsData([]),
+            metadata: {
+              chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+              reward_distributor: VALID_ADDRESS_2,
+              last_scanned_block: 1,
+            },
+          },
+          /Reward distributor address mismatch/,
+        );
+      });
+
+      it("should reject weights that do not sum to 10000 basis points", () => {
+        expectWriteToThrow(
+          createRecipientsData([createUpdate({ weights: [7500, 2000] })]),
+          /sum to 9500, expected 10000 basis points/,
+        );
+      });
+
+      it("should reject non-integer weights", () => {
+        expectWriteToThrow(
+          createRecipientsData([createUpdate({ weights: [7500.5, 2499.5] })]),
+          /Invalid recipient weight/,
+        );
+      });
+
+      it("should reject mismatched recipients and weights", () => {
+        expectWriteToThrow(
+          createRecipientsData([createUpdate({ weights: [10000] })]),
+          /Recipients and weights length mismatch/,
+        );
+      });
+
+      it("should require checksummed recipients", () => {
+        expectWriteToThrow(
+          createRecipientsData([
+            createUpdate({
+              recipients: [RECIPIENT_1.toLowerCase(), RECIPIENT_2],
+            }),
+          ]),
+          /Recipient address must be checksummed/,
+        );
+      });
+
+      it("should validate recipient group hashes", () => {
+        expectWriteToThrow(
+          createRecipientsData([createUpdate({ recipient_group: "0x1234" })]),
+          /Invalid recipient_group format/,
+        );
+      });
+
+      it("should require updates in block order", () => {
+        expectWriteToThrow(
+          createRecipientsData([
+            createUpdate({ block_number: 15000000 }),
+            createUpdate({ block_number: 12345678 }),
+          ]),
+          /must be in block order/,
+        );
+      });
+
+      it("should reject updates after last_scanned_block", () => {
+        expectWriteToThrow(
+          createRecipientsData([createUpdate({ block_number: 30000000 })]),
+          /after last_scanned_block/,
+        );
+      });
+    });
+  },
+);
@@ -9,6 +9,9 @@ import {
   VALID_TX_HASH,
   createTestDate,
   TestContext,
+  withSchemaVersion,
+  TEST_BACKENDS,
+  itOnFileSystem,
 } from "./test-utils";
 import {
   DistributorsData,
@@ -74,231 +77,369 @@ function createDistributorInfo(
   };
 }
 
-describe("FileManager - Distributors", () => {
-  let testContext: TestContext;
+describe.each(TEST_BACKENDS)(
+  "%s - FileManager - Distributors",
+  (backendName) => {
+    let testContext: TestContext;
 
-  beforeEach(() => {
-    testContext = setupTestEnvironment();
-  });
-
-  afterEach(() => {
-    cleanupTestEnvironment(testContext.tempDir);
-  });
+    beforeEach(() => {
+      testContext = setupTestEnvironment(backendName);
+    });
 
-  describe("readDistributors()", () => {
-    it("should return undefined when distributors.json does not exist", () => {
-      const result = testContext.fileManager.readDistributors();
-      expect(result).toBeUndefined();
+    afterEach(() => {
+      cleanupTestEnvironment(testContext.tempDir);
     });
 
-    it("should write and read back DistributorsData with multiple distributors", () => {
-      const testData = createDistributorsData({
-        distributors: {
-          [VALID_ADDRESS]: createDistributorInfo(),
-          [INVALID_ADDRESS]: createDistributorInfo({
-            type: DistributorType.L2_SURPLUS_FEE,
-            block: 15678901,
-            date: "2024-06-01",
-            tx_hash:
-              "0xdef4567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
-            method: "0xfcdde2b4",
-            event_data:
-              "0x0000000000000000000000001234567890123456789012345678901234567890",
-            distributor_address: INVALID_ADDRESS,
-          }),
-          "0x2234567890123456789012345678901234567890": createDistributorInfo({
-            type: DistributorType.L1_SURPLUS_FEE,
-            block: 18901234,
-            date: "2024-09-15",
-            tx_hash:
-              "0x7890abcdef1234567890abcdef1234567890abcdef1234567890abcdef123456",
-            method: "0x934be07d",
-            event_data:
-              "0x000000000000000000000000abcdef1234567890abcdef1234567890abcdef12",
-            distributor_address: "0x2234567890123456789012345678901234567890",
-          }),
-        },
+    describe("readDistributors()", () => {
+      it("should return undefined when distributors.json does not exist", () => {
+        const result = testContext.fileManager.readDistributors();
+        expect(result).toBeUndefined();
       });
 
-      testContext.fileManager.writeDistributors(testData);
-      const result = testContext.fileManager.readDistributors();
+      it("should write and read back DistributorsData with multiple distributors", () => {
+        const testData = createDistributorsData({
+          distributors: {
+            [VALID_ADDRESS]: createDistributorInfo(),
+            [INVALID_ADDRESS]: createDistributorInfo({
+              type: DistributorType.L2_SURPLUS_FEE,
+              block: 15678901,
+              date: "2024-06-01",
+              tx_hash:
+                "0xdef4567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
+              method: "0xfcdde2b4",
+              event_data:
+                "0x0000000000000000000000001234567890123456789012345678901234567890",
+              distributor_address: INVALID_ADDRESS,
+            }),
+            "0x2234567890123456789012345678901234567890": createDistributorInfo(
+              {
+                type: DistributorType.L1_SURPLUS_FEE,
+                block: 18901234,
+                date: "2024-09-15",
+                tx_hash:
+                  "0x7890abcdef1234567890abcdef1234567890abcdef1234567890abcdef123456",
+                method: "0x934be07d",
+                event_data:
+                  "0x000000000000000000000000abcdef1234567890abcdef1234567890abcdef12",
+                distributor_address:
+                  "0x2234567890123456789012345678901234567890",
+              },
+            ),
+          },
+        });
 
-      expect(result).toEqual(testData);
-    });
-  });
+        testContext.fileManager.writeDistributors(testData);
+        const result = testContext.fileManager.readDistributors();
 
-  describe("writeDistributors()", () => {
-    it("should validate all distributor addresses are checksummed", () => {
-      const invalidData = createDistributorsData({
-        distributors: {
-          [VALID_ADDRESS_LOWERCASE]: createDistributorInfo(),
-        },
+        expect(result).toEqual(testData);
       });
-
-      expect(() =>
-        testContext.fileManager.writeDistributors(invalidData),
-      ).toThrow(/address.*checksum/i);
     });
 
-    it("should validate distributor types match the DistributorType enum", () => {
-      const invalidData = createDistributorsData({
-        distributors: {
-          [VALID_ADDRESS]: {
-            ...createDistributorInfo(),
-            type: "INVALID_TYPE" as unknown as DistributorType,
+    describe("writeDistributors()", () => {
+      it("should validate all distributor addresses are checksummed", () => {
+        const invalidData = createDistributorsData({
+          distributors: {
+            [VALID_ADDRESS_LOWERCASE]: createDistributorInfo(),
           },
-        },
+        });
+
+        expect(() =>
+          testContext.fileManager.writeDistributors(invalidData),
+        ).toThrow(/address.*checksum/i);
       });
 
-      expect(() =>
-        testContext.fileManager.writeDistributors(invalidData),
-      ).toThrow(/Invalid DistributorType value/);
-    });
+      it("should validate distributor types match the DistributorType enum", () => {
+        const invalidData = createDistributorsData({
+          distributors: {
+            [VALID_ADDRESS]: {
+              ...createDistributorInfo(),
+              type: "INVALID_TYPE" as unknown as DistributorType,
+            },
+          },
+        });
 
-    it("should ensure all required fields are present", () => {
-      const distributorInfo = createDistributorInfo();
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { date, ...incompleteInfo } = distributorInfo;
-      const missingFieldData = createDistributorsData({
-        distributors: {
-          [VALID_ADDRESS]: incompleteInfo as unknown as typeof distributorInfo,
-        },
+        expect(() =>
+          testContext.fileManager.writeDistributors(invalidData),
+        ).toThrow(/Invalid DistributorType value/);
       });
 
-      expect(() =>
-        testContext.fileManager.writeDistributors(missingFieldData),
-      ).toThrow(/Missing required field.*date/);
-    });
+      it("should ensure all required fields are present", () => {
+        const distributorInfo = createDistributorInfo();
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { date, ...incompleteInfo } = distributorInfo;
+        const missingFieldData = createDistributorsData({
+          distributors: {
+            [VALID_ADDRESS]:
+              incompleteInfo as unknown as typeof distributorInfo,
+          },
+        });
 
-    it("should validate date formats", () => {
-      const invalidDateData: DistributorsData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          arbowner_address: CONTRACTS.ARB_OWNER,
-        },
-        distributors: {
-          "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9": {
-            type: DistributorType.L2_BASE_FEE,
-            block: 12345678,
-            date: "01/15/2024",
-            tx_hash:
-              "0xabc1234567890abcdef1234567890abcdef1234567890abcdef1234567890abc",
-            method: "0x57f585db",
-            owner: CONTRACTS.ARB_OWNER,
-            event_data:
-              "0x00000000000000000000000067a24ce4321ab3af51c2d0a4801c3e111d88c9d9",
-            is_reward_distributor: true,
-            distributor_address: "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9",
+        expect(() =>
+          testContext.fileManager.writeDistributors(missingFieldData),
+        ).toThrow(/Missing required field.*date/);
+      });
+
+      it("should validate date formats", () => {
+        const invalidDateData: DistributorsData = {
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            arbowner_address: CONTRACTS.ARB_OWNER,
           },
-        },
-      };
+          distributors: {
+            "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9": {
+              type: DistributorType.L2_BASE_FEE,
+              block: 12345678,
+              date: "01/15/2024",
+              tx_hash:
+                "0xabc1234567890abcdef1234567890abcdef1234567890abcdef1234567890abc",
+              method: "0x57f585db",
+              owner: CONTRACTS.ARB_OWNER,
+              event_data:
+                "0x00000000000000000000000067a24ce4321ab3af51c2d0a4801c3e111d88c9d9",
+              is_reward_distributor: true,
+              distributor_address: "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9",
+            },
+          },
+        };
 
-      expect(() =>
-        testContext.fileManager.writeDistributors(invalidDateData),
-      ).toThrow(/Invalid date format/);
-    });
+        expect(() =>
+          testContext.fileManager.writeDistributors(invalidDateData),
+        ).toThrow(/Invalid date format/);
+      });
 
-    it("should validate transaction hashes", () => {
-      const invalidTxHashData: DistributorsData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          arbowner_address: CONTRACTS.ARB_OWNER,
-        },
-        distributors: {
-          "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9": {
-            type: DistributorType.L2_BASE_FEE,
-            block: 12345678,
-            date: "2024-01-15",
-            tx_hash: "0xinvalid",
-            method: "0x57f585db",
-            owner: CONTRACTS.ARB_OWNER,
-            event_data:
-              "0x00000000000000000000000067a24ce4321ab3af51c2d0a4801c3e111d88c9d9",
-            is_reward_distributor: true,
-            distributor_address: "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9",
+      it("should validate transaction hashes", () => {
+        const invalidTxHashData: DistributorsData = {
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            arbowner_address: CONTRACTS.ARB_OWNER,
           },
-        },
-      };
+          distributors: {
+            "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9": {
+              type: DistributorType.L2_BASE_FEE,
+              block: 12345678,
+              date: "2024-01-15",
+              tx_hash: "0xinvalid",
+              method: "0x57f585db",
+              owner: CONTRACTS.ARB_OWNER,
+              event_data:
+                "0x00000000000000000000000067a24ce4321ab3af51c2d0a4801c3e111d88c9d9",
+              is_reward_distributor: true,
+              distributor_address: "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9",
+            },
+          },
+        };
 
-      expect(() =>
-        testContext.fileManager.writeDistributors(invalidTxHashData),
-      ).toThrow(/Invalid transaction hash/);
-    });
+        expect(() =>
+          testContext.fileManager.writeDistributors(invalidTxHashData),
+        ).toThrow(/Invalid transaction hash/);
+      });
 
-    it("should format JSON with 2-space indentation", () => {
-      const testData: DistributorsData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          arbowner_address: CONTRACTS.ARB_OWNER,
-        },
-        distributors: {
-          "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9": {
-            type: DistributorType.L2_BASE_FEE,
-            block: 12345678,
-            date: "2024-01-15",
-            tx_hash:
-              "0xabc1234567890abcdef1234567890abcdef1234567890abcdef1234567890abc",
-            method: "0x57f585db",
-            owner: CONTRACTS.ARB_OWNER,
-            event_data:
-              "0x00000000000000000000000067a24ce4321ab3af51c2d0a4801c3e111d88c9d9",
-            is_reward_distributor: true,
-            distributor_address: "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9",
+      it("should round-trip lifecycle fields", () => {
+        const distributorInfo = {
+          ...createDistributorInfo(),
+          active_from_block: TEST_BLOCK_NUMBER,
+          active_from_date: TEST_DATE,
+          active_until_block: TEST_BLOCK_NUMBER + 1000,
+          active_until_date: TEST_DATE,
+        };
+        const data = createDistributorsData({
+          distributors: {
+            [distributorInfo.distributor_address]: distributorInfo,
           },
-        },
-      };
+        });
 
-      testContext.fileManager.writeDistributors(testData);
+        testContext.fileManager.writeDistributors(data);
 
-      const fileContent = fs.readFileSync("store/distributors.json", "utf-8");
-      expect(fileContent).toBe(JSON.stringify(testData, null, 2));
-    });
+        expect(testContext.fileManager.readDistributors()).toEqual(data);
+      });
 
-    it("should create store directory if it does not exist", () => {
-      expect(fs.existsSync("store")).toBe(false);
+      it("should validate lifecycle date formats", () => {
+        const distributorInfo = {
+          ...createDistributorInfo(),
+          active_until_block: TEST_BLOCK_NUMBER + 1000,
+          active_until_date: "01/16/2024",
+        };
 
-      const testData: DistributorsData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          arbowner_address: CONTRACTS.ARB_OWNER,
-        },
-        distributors: {},
-      };
+        expect(() =>
+          testContext.fileManager.writeDistributors(
+            createDistributorsData({
+              distributors: {
+                [distributorInfo.distributor_address]: distributorInfo,
+              },
+            }),
+          ),
+        ).toThrow(/Invalid date format/);
+      });
 
-      testContext.fileManager.writeDistributors(testData);
+      it("should require active_until block and date together", () => {
+        const distributorInfo = {
+          ...createDistributorInfo(),
+          active_until_block: TEST_BLOCK_NUMBER + 1000,
+        };
 
-      expect(fs.existsSync("store")).toBe(true);
-      expect(fs.existsSync("store/distributors.json")).toBe(true);
-    });
+        expect(() =>
+          testContext.fileManager.writeDistributors(
+            createDistributorsData({
+              distributors: {
+                [distributorInfo.distributor_address]: distributorInfo,
+              },
+            }),
+          ),
+        ).toThrow(/active_until_block and active_until_date/);
+      });
 
-    it("should use validateEnumValue for distributor type validation", () => {
-      const address = "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9";
-      const testData: DistributorsData = {
-        metadata: {
-          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
-          arbowner_address: "0x0000000000000000000000000000000000000001",
-        },
-        distributors: {
-          [address]: {
-            address: address,
-            // @ts-expect-error Testing invalid type
-            type: "INVALID_TYPE",
-            display_name: "Test Distributor",
-            block: 12345678,
-            date: "2024-01-15",
-            tx_hash:
-              "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
-            method: "create",
-            owner: "0x0000000000000000000000000000000000000001",
-            event_data: "{}",
-            is_reward_distributor: true,
+      it("should round-trip active periods", () => {
+        const distributorInfo = {
+          ...createDistributorInfo(),
+          active_from_block: TEST_BLOCK_NUMBER,
+          active_from_date: TEST_DATE,
+          active_periods: [
+            {
+              from_block: TEST_BLOCK_NUMBER,
+              from_date: TEST_DATE,
+              until_block: TEST_BLOCK_NUMBER + 1000,
+              until_date: TEST_DATE,
+            },
+            { from_block: TEST_BLOCK_NUMBER + 2000, from_date: TEST_DATE },
+          ],
+        };
+        const data = createDistributorsData({
+          distributors: {
+            [distributorInfo.distributor_address]: distributorInfo,
           },
-        },
-      };
+        });
+
+        testContext.fileManager.writeDistributors(data);
+
+        expect(testContext.fileManager.readDistributors()).toEqual(data);
+      });
+
+      it("should reject overlapping active periods", () => {
+        const distributorInfo = {
+          ...createDistributorInfo(),
+          active_periods: [
+            { from_block: TEST_BLOCK_NUMBER, from_date: TEST_DATE },
+            { from_block: TEST_BLOCK_NUMBER + 2000, from_date: TEST_DATE },
+          ],
+        };
+
+        expect(() =>
+          testContext.fileManager.writeDistributors(
+            createDistributorsData({
+              distributors: {
+                [distributorInfo.distributor_address]: distributorInfo,
+              },
+            }),
+          ),
+        ).toThrow(/overlapping active periods 0 and 1/);
+      });
+
+      it("should require active_until_block to match the end of the last active period", () => {
+        const distributorInfo = {
+          ...createDistributorInfo(),
+          active_until_block: TEST_BLOCK_NUMBER + 1000,
+          active_until_date: TEST_DATE,
+          active_periods: [
+            { from_block: TEST_BLOCK_NUMBER, from_date: TEST_DATE },
+          ],
+        };
+
+        expect(() =>
+          testContext.fileManager.writeDistributors(
+            createDistributorsData({
+              distributors: {
+                [distributorInfo.distributor_address]: distributorInfo,
+              },
+            }),
+          ),
+        ).toThrow(/does not match the end of its last active period/);
+      });
 
-      expect(() => testContext.fileManager.writeDistributors(testData)).toThrow(
-        "Invalid DistributorType value: INVALID_TYPE. Valid values are: L2_BASE_FEE, L2_SURPLUS_FEE",
+      it("should format JSON with 2-space indentation", () => {
+        const testData: DistributorsData = {
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            arbowner_address: CONTRACTS.ARB_OWNER,
+          },
+          distributors: {
+            "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9": {
+              type: DistributorType.L2_BASE_FEE,
+              block: 12345678,
+              date: "2024-01-15",
+              tx_hash:
+                "0xabc1234567890abcdef1234567890abcdef1234567890abcdef1234567890abc",
+              method: "0x57f585db",
+              owner: CONTRACTS.ARB_OWNER,
+              event_data:
+                "0x00000000000000000000000067a24ce4321ab3af51c2d0a4801c3e111d88c9d9",
+              is_reward_distributor: true,
+              distributor_address: "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9",
+            },
+          },
+        };
+
+        testContext.fileManager.writeDistributors(testData);
+
+        const fileContent = testContext.backend.read(
+          "distributors.json",
+          "test",
+        );
+        expect(fileContent).toBe(
+          JSON.stringify(withSchemaVersion(testData), null, 2),
+        );
+      });
+
+      itOnFileSystem(backendName)(
+        "should create store directory if it does not exist",
+        () => {
+          expect(fs.existsSync("store")).toBe(false);
+
+          const testData: DistributorsData = {
+            metadata: {
+              chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+              arbowner_address: CONTRACTS.ARB_OWNER,
+            },
+            distributors: {},
+          };
+
+          testContext.fileManager.writeDistributors(testData);
+
+          expect(fs.existsSync("store")).toBe(true);
+          expect(testContext.backend.exists("distributors.json")).toBe(true);
+        },
       );
+
+      it("should use validateEnumValue for distributor type validation", () => {
+        const address = "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9";
+        const testData: DistributorsData = {
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            arbowner_address: "0x0000000000000000000000000000000000000001",
+          },
+          distributors: {
+            [address]: {
+              address: address,
+              // @ts-expect-error Testing invalid type
+              type: "INVALID_TYPE",
+              display_name: "Test Distributor",
+              block: 12345678,
+              date: "2024-01-15",
+              tx_hash:
+                "0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef",
+              method: "create",
+              owner: "0x0000000000000000000000000000000000000001",
+              event_data: "{}",
+              is_reward_distributor: true,
+            },
+          },
+        };
+
+        expect(() =>
+          testContext.fileManager.writeDistributors(testData),
+        ).toThrow(
+          "Invalid DistributorType value: INVALID_TYPE. Valid values are: L2_BASE_FEE, L2_SURPLUS_FEE",
+        );
+      });
     });
-  });
-});
+  },
+);
@@ -0,0 +1,142 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  setupTestEnvironment,
+  cleanupTestEnvironment,
+  VALID_ADDRESS,
+  TestContext,
+} from "./test-utils";
+import { FileManager } from "../../../src/file-manager";
+import {
+  BlockNumberData,
+  CHAIN_IDS,
+  StoreViolationKind,
+} from "../../../src/types";
+
+// Above the Linux PID limit, so no process can have it
+const DEAD_PID = 99999999;
+const DISTRIBUTOR_DIR = path.join("store", "distributors", VALID_ADDRESS);
+
+const blocks: BlockNumberData = {
+  metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+  blocks: { "2024-01-01": 100 },
+};
+
+/**
+ * Records the path of every file or directory synced, by matching each synced
+ * descriptor to the call that opened it.
+ */
+function trackSyncedPaths(): string[] {
+  // The module itself; the namespace import only has getters, which cannot be spied on
+  const fsModule = jest.requireActual<typeof fs>("fs");
+  const synced: string[] = [];
+  const fsync = fsModule.fsyncSync;
+  const openSpy = jest.spyOn(fsModule, "openSync");
+  jest.spyOn(fsModule, "fsyncSync").mockImplementation((fd) => {
+    const opened = openSpy.mock.results.map((result) => result.value);
+    const call = openSpy.mock.calls[opened.lastIndexOf(fd)];
+    synced.push(String(call?.[0]));
+    fsync(fd);
+  });
+  return synced;
+}
+
+describe("FileManager - durable writes", () => {
+  let testContext: TestContext;
+
+  beforeEach(() => {
+    testContext = setupTestEnvironment();
+  });
+
+  afterEach(() => {
+    testContext.fileManager.releaseLock();
+    cleanupTestEnvironment(testContext.tempDir);
+  });
+
+  it("syncs the temporary file before the rename and the directory after it", () => {
+    testContext.fileManager.ensureStoreDirectory();
+    const synced = trackSyncedPaths();
+
+    testContext.fileManager.writeBlockNumbers(blocks);
+
+    expect(synced).toEqual([
+      path.join("store", "block_numbers.json.tmp"),
+      "store",
+    ]);
+  });
+
+  it("syncs the parent of each directory it creates", () => {
+    const synced = trackSyncedPaths();
+
+    testContext.fileManager.writeDistributorBalances(VALID_ADDRESS, {
+      metadata: {
+        chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+        reward_distributor: VALID_ADDRESS,
+      },
+      balances: { "2024-01-01": { block_number: 100, balance_wei: "1" } },
+    });
+
+    const root = path.resolve(".");
+    expect(synced).toEqual([
+      path.join(root, "store", "distributors"),
+      path.join(root, "store"),
+      root,
+      path.join(DISTRIBUTOR_DIR, "balances.json.tmp"),
+      DISTRIBUTOR_DIR,
+    ]);
+  });
+
+  it("does not sync when durability is turned off", () => {
+    const synced = trackSyncedPaths();
+
+    new FileManager("store", { durable: false }).writeBlockNumbers(blocks);
+
+    expect(synced).toEqual([]);
+    expect(new FileManager("store").readBlockNumbers()).toEqual(blocks);
+  });
+
+  it("removes orphaned temporary files when the lock is acquired", () => {
+    fs.mkdirSync(DISTRIBUTOR_DIR, { recursive: true });
+    fs.writeFileSync(path.join("store", "block_numbers.json.tmp"), "");
+    fs.writeFileSync(path.join(DISTRIBUTOR_DIR, "balances.json.tmp"), "{");
+    fs.writeFileSync(path.join("store", `.lock.${DEAD_PID}.tmp`), "");
+
+    expect(testContext.fileManager.acquireLock()).toEqual([
+      `.lock.${DEAD_PID}.tmp`,
+      "block_numbers.json.tmp",
+      path.join("distributors", VALID_ADDRESS, "balances.json.tmp"),
+    ]);
+
+    expect(fs.readdirSync("store").sort()).toEqual([".lock", "distributors"]);
+    expect(fs.readdirSync(DISTRIBUTOR_DIR)).toEqual([]);
+  });
+
+  it("keeps the lock temporary file of a running process", () => {
+    const liveLockTemp = `.lock.${process.ppid}.tmp`;
+    fs.mkdirSync("store");
+    fs.writeFileSync(path.join("store", liveLockTemp), "");
+
+    expect(testContext.fileManager.acquireLock()).toEqual([]);
+    expect(fs.existsSync(path.join("store", liveLockTemp))).toBe(true);
+  });
+
+  it("reports orphaned temporary files from verifyStore without removing them", () => {
+    testContext.fileManager.writeBlockNumbers(blocks);
+    fs.writeFileSync(path.join("store", "distributors.json.tmp"), "");
+
+    const report = new FileManager("store", { readOnly: true }).verifyStore();
+
+    expect(report.violations).toEqual([
+      {
+        file: "distributors.json.tmp",
+        kind: StoreViolationKind.ORPHANED_TEMP_FILE,
+        message: expect.stringMatching(
+          /^Temporary file left by an interrupted write\n {2}File: distributors\.json\.tmp\n/,
+        ),
+      },
+    ]);
+    expect(fs.existsSync(path.join("store", "distributors.json.tmp"))).toBe(
+      true,
+    );
+  });
+});
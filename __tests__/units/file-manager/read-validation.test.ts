@@ -0,0 +1,188 @@
+import {
+  setupTestEnvironment,
+  cleanupTestEnvironment,
+  VALID_ADDRESS,
+  VALID_TX_HASH,
+  TestContext,
+  TEST_BACKENDS,
+} from "./test-utils";
+import { FileManagerError, StoreViolationKind } from "../../../src/types";
+
+function captureError(read: () => unknown): FileManagerError {
+  try {
+    read();
+  } catch (error) {
+    if (error instanceof FileManagerError) return error;
+    throw error;
+  }
+  throw new Error("Expected the read to throw");
+}
+
+describe.each(TEST_BACKENDS)(
+  "%s - FileManager - validation on read",
+  (backendName) => {
+    let testContext: TestContext;
+    const distributorDir = `distributors/${VALID_ADDRESS}`;
+
+    function writeRaw(key: string, data: unknown): void {
+      testContext.backend.write(
+        key,
+        typeof data === "string" ? data : JSON.stringify(data),
+        "test",
+      );
+    }
+
+    beforeEach(() => {
+      testContext = setupTestEnvironment(backendName);
+    });
+
+    afterEach(() => {
+      cleanupTestEnvironment(testContext.tempDir);
+    });
+
+    it("wraps JSON parse errors with the file path and operation", () => {
+      writeRaw("block_numbers.json", '{"metadata":');
+      const filePath = testContext.backend.describe("block_numbers.json");
+
+      const error = captureError(() =>
+        testContext.fileManager.readBlockNumbers(),
+      );
+
+      expect(error.operation).toBe("readBlockNumbers");
+      expect(error.path).toBe(filePath);
+      expect(error.pointer).toBeUndefined();
+      expect(error.cause).toBeInstanceOf(SyntaxError);
+      expect(error.message).toContain(
+        `File is not valid JSON\n  File: ${filePath}\n  Error: `,
+      );
+    });
+
+    it("reports the JSON pointer of a field with the wrong type", () => {
+      writeRaw("block_numbers.json", {
+        metadata: { chain_id: 42170 },
+        blocks: { "2024-01-01": 100, "2024-01-02": "200" },
+      });
+
+      const error = captureError(() =>
+        testContext.fileManager.readBlockNumbers(),
+      );
+
+      const filePath = testContext.backend.describe("block_numbers.json");
+      expect(error.operation).toBe("readBlockNumbers");
+      expect(error.path).toBe(filePath);
+      expect(error.pointer).toBe("/blocks/2024-01-02");
+      expect(error.message).toBe(
+        `Invalid field in block_numbers.json\n  File: ${filePath}\n  Field: /blocks/2024-01-02\n  Expected: number\n  Got: string\n  Check: Repair the field by hand, or remove the file and rerun the stage that writes it`,
+      );
+    });
+
+    it("reports missing metadata", () => {
+      writeRaw("distributors.json", {
+        metadata: { chain_id: 42170 },
+        distributors: {},
+      });
+
+      const error = captureError(() =>
+        testContext.fileManager.readDistributors(),
+      );
+
+      expect(error.operation).toBe("readDistributors");
+      expect(error.pointer).toBe("/metadata/arbowner_address");
+      expect(error.message).toContain("Expected: string\n  Got: missing");
+    });
+
+    it("reports unknown distributor types", () => {
+      writeRaw("distributors.json", {
+        metadata: { chain_id: 42170, arbowner_address: VALID_ADDRESS },
+        distributors: {
+          [VALID_ADDRESS]: {
+            type: "L3_FEE",
+            block: 1,
+            date: "2024-01-01",
+            tx_hash: VALID_TX_HASH,
+            method: "0x57f585db",
+            owner: VALID_ADDRESS,
+            event_data: "0x",
+            is_reward_distributor: true,
+            distributor_address: VALID_ADDRESS,
+          },
+        },
+      });
+
+      const error = captureError(() =>
+        testContext.fileManager.readDistributors(),
+      );
+
+      expect(error.pointer).toBe(`/distributors/${VALID_ADDRESS}/type`);
+      expect(error.message).toContain(
+        'Expected: one of L2_BASE_FEE, L2_SURPLUS_FEE, L1_SURPLUS_FEE, L1_BASE_FEE\n  Got: "L3_FEE"',
+      );
+    });
+
+    it("validates balances and outflows, including nested events", () => {
+      writeRaw(`${distributorDir}/balances.json`, {
+        metadata: { chain_id: 42170, reward_distributor: VALID_ADDRESS },
+        balances: { "2024-01-01": { block_number: 100, balance_wei: 1 } },
+      });
+      writeRaw(`${distributorDir}/outflows.json`, {
+        metadata: {
+          chain_id: 42170,
+          reward_distributor: VALID_ADDRESS,
+          stale_dates: ["2024-01-01"],
+        },
+        outflows: {
+          "2024-01-01": {
+            block_number: 100,
+            total_outflow_wei: "1",
+            events: [
+              { recipient: VALID_ADDRESS, value_wei: "1", tx_hash: null },
+            ],
+          },
+        },
+      });
+
+      const balancesError = captureError(() =>
+        testContext.fileManager.readDistributorBalances(VALID_ADDRESS),
+      );
+      const outflowsError = captureError(() =>
+        testContext.fileManager.readDistributorOutflows(VALID_ADDRESS),
+      );
+
+      expect(balancesError.operation).toBe("readDistributorBalances");
+      expect(balancesError.pointer).toBe("/balances/2024-01-01/balance_wei");
+      expect(outflowsError.operation).toBe("readDistributorOutflows");
+      expect(outflowsError.pointer).toBe(
+        "/outflows/2024-01-01/events/0/tx_hash",
+      );
+      expect(outflowsError.message).toContain("Expected: string\n  Got: null");
+    });
+
+    it("reports a document that is not an object at the root", () => {
+      writeRaw(`${distributorDir}/recipients.json`, []);
+
+      const error = captureError(() =>
+        testContext.fileManager.readDistributorRecipients(VALID_ADDRESS),
+      );
+
+      expect(error.pointer).toBe("");
+      expect(error.message).toContain(
+        "Field: (root)\n  Expected: object\n  Got: array",
+      );
+    });
+
+    it("reports schema violations from verifyStore as invalid data", () => {
+      writeRaw("block_numbers.json", {
+        metadata: {},
+        blocks: {},
+      });
+
+      expect(testContext.fileManager.verifyStore().violations).toEqual([
+        {
+          file: "block_numbers.json",
+          kind: StoreViolationKind.INVALID_DATA,
+          message: expect.stringContaining("Field: /metadata/chain_id"),
+        },
+      ]);
+    });
+  },
+);
@@ -0,0 +1,193 @@
+import {
+  setupTestEnvironment,
+  cleanupTestEnvironment,
+  VALID_ADDRESS,
+  TestContext,
+  withSchemaVersion,
+  TEST_BACKENDS,
+} from "./test-utils";
+import {
+  BalanceData,
+  BlockNumberData,
+  CHAIN_IDS,
+  FileManagerError,
+  STORE_SCHEMA_VERSION,
+  StoreViolationKind,
+} from "../../../src/types";
+
+const BLOCK_NUMBERS_KEY = "block_numbers.json";
+const BALANCES_KEY = `distributors/${VALID_ADDRESS}/balances.json`;
+
+const blocks: BlockNumberData = {
+  metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+  blocks: { "2024-01-01": 100 },
+};
+
+const balances: BalanceData = {
+  metadata: {
+    chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+    reward_distributor: VALID_ADDRESS,
+  },
+  balances: { "2024-01-01": { block_number: 100, balance_wei: "1" } },
+};
+
+function withVersion<T extends { metadata: object }>(
+  data: T,
+  schemaVersion: unknown,
+): T {
+  return {
+    ...data,
+    metadata: { ...data.metadata, schema_version: schemaVersion },
+  };
+}
+
+describe.each(TEST_BACKENDS)(
+  "%s - FileManager - schema versions",
+  (backendName) => {
+    let testContext: TestContext;
+
+    function writeRaw(key: string, data: unknown): void {
+      testContext.backend.write(key, JSON.stringify(data), "test");
+    }
+
+    function readRaw(key: string): unknown {
+      return JSON.parse(testContext.backend.read(key, "test") ?? "");
+    }
+
+    beforeEach(() => {
+      testContext = setupTestEnvironment(backendName);
+    });
+
+    afterEach(() => {
+      testContext.fileManager.releaseLock();
+      cleanupTestEnvironment(testContext.tempDir);
+    });
+
+    it("writes the current schema version and reads data without it", () => {
+      testContext.fileManager.writeBlockNumbers(blocks);
+
+      expect(readRaw(BLOCK_NUMBERS_KEY)).toEqual(withSchemaVersion(blocks));
+      expect(testContext.fileManager.readBlockNumbers()).toEqual(blocks);
+    });
+
+    it("upgrades files without a schema version on read", () => {
+      writeRaw(BLOCK_NUMBERS_KEY, blocks);
+
+      expect(testContext.fileManager.readBlockNumbers()).toEqual(blocks);
+      expect(readRaw(BLOCK_NUMBERS_KEY)).toEqual(blocks);
+    });
+
+    it("refuses to read a file written by a newer version", () => {
+      writeRaw(
+        BLOCK_NUMBERS_KEY,
+        withVersion(blocks, STORE_SCHEMA_VERSION + 1),
+      );
+
+      expect(() => testContext.fileManager.readBlockNumbers()).toThrow(
+        expect.objectContaining({
+          name: "FileManagerError",
+          operation: "readBlockNumbers",
+          path: testContext.backend.describe(BLOCK_NUMBERS_KEY),
+          pointer: "/metadata/schema_version",
+          message: `File was written by a newer version of the fee tracker\n  File: ${testContext.backend.describe(BLOCK_NUMBERS_KEY)}\n  Schema version: ${STORE_SCHEMA_VERSION + 1}\n  Supported: up to ${STORE_SCHEMA_VERSION}\n  Check: Upgrade the fee tracker to open this store`,
+        }),
+      );
+    });
+
+    it("rejects a schema version that is not a non-negative integer", () => {
+      writeRaw(BLOCK_NUMBERS_KEY, withVersion(blocks, "1"));
+
+      expect(() => testContext.fileManager.readBlockNumbers()).toThrow(
+        'Field: /metadata/schema_version\n  Expected: non-negative integer\n  Got: "1"',
+      );
+    });
+
+    it("refuses the lock on a store holding a file from a newer version", () => {
+      writeRaw(BALANCES_KEY, withVersion(balances, STORE_SCHEMA_VERSION + 1));
+
+      expect(() => testContext.fileManager.acquireLock()).toThrow(
+        expect.objectContaining({
+          operation: "acquireLock",
+          path: testContext.backend.describe(BALANCES_KEY),
+        }),
+      );
+      // The lock was not left held
+      writeRaw(BALANCES_KEY, balances);
+      expect(() => testContext.fileManager.acquireLock()).not.toThrow();
+    });
+
+    it("reports files from a newer version from verifyStore", () => {
+      writeRaw(
+        BLOCK_NUMBERS_KEY,
+        withVersion(blocks, STORE_SCHEMA_VERSION + 1),
+      );
+
+      expect(testContext.fileManager.verifyStore().violations).toEqual([
+        {
+          file: "block_numbers.json",
+          kind: StoreViolationKind.INVALID_DATA,
+          message: expect.stringMatching(
+            /^File was written by a newer version/,
+          ),
+        },
+      ]);
+    });
+
+    describe("migrateStore", () => {
+      beforeEach(() => {
+        writeRaw(BLOCK_NUMBERS_KEY, blocks);
+        writeRaw(BALANCES_KEY, balances);
+        testContext.fileManager.writeDistributors({
+          metadata: {
+            chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+            arbowner_address: VALID_ADDRESS,
+          },
+          distributors: {},
+        });
+      });
+
+      it("lists the files to upgrade without writing them in a dry run", () => {
+        const report = testContext
+          .openFileManager({
+            readOnly: true,
+          })
+          .migrateStore(true);
+
+        expect(report).toEqual({
+          schema_version: STORE_SCHEMA_VERSION,
+          dry_run: true,
+          files: [
+            {
+              file: "block_numbers.json",
+              from_version: 0,
+              to_version: STORE_SCHEMA_VERSION,
+            },
+            {
+              file: `distributors/${VALID_ADDRESS}/balances.json`,
+              from_version: 0,
+              to_version: STORE_SCHEMA_VERSION,
+            },
+          ],
+        });
+        expect(readRaw(BLOCK_NUMBERS_KEY)).toEqual(blocks);
+      });
+
+      it("rewrites older files in the current version", () => {
+        const { fileManager } = testContext;
+
+        expect(fileManager.migrateStore(false).files).toHaveLength(2);
+
+        expect(readRaw(BLOCK_NUMBERS_KEY)).toEqual(withSchemaVersion(blocks));
+        expect(readRaw(BALANCES_KEY)).toEqual(withSchemaVersion(balances));
+        expect(fileManager.migrateStore(false).files).toEqual([]);
+      });
+
+      it("refuses to write to a read-only store", () => {
+        const readOnly = testContext.openFileManager({ readOnly: true });
+
+        expect(() => readOnly.migrateStore(false)).toThrow(FileManagerError);
+        expect(readRaw(BLOCK_NUMBERS_KEY)).toEqual(blocks);
+      });
+    });
+  },
+);
@@ -0,0 +1,180 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  setupTestEnvironment,
+  cleanupTestEnvironment,
+  TestContext,
+} from "./test-utils";
+import { FileManager } from "../../../src/file-manager";
+import * as storeLock from "../../../src/storage/store-lock";
+import { CHAIN_IDS, FileManagerError, StoreLock } from "../../../src/types";
+
+const LOCK_PATH = path.join("store", ".lock");
+// Above the Linux PID limit, so no process can have it
+const DEAD_PID = 99999999;
+
+function readLockFile(): StoreLock {
+  return JSON.parse(fs.readFileSync(LOCK_PATH, "utf-8")) as StoreLock;
+}
+
+describe("FileManager - store lock", () => {
+  let testContext: TestContext;
+
+  beforeEach(() => {
+    testContext = setupTestEnvironment();
+  });
+
+  afterEach(() => {
+    testContext.fileManager.releaseLock();
+    cleanupTestEnvironment(testContext.tempDir);
+  });
+
+  it("records the holder's PID, hostname and start time", () => {
+    testContext.fileManager.acquireLock();
+
+    expect(readLockFile()).toEqual({
+      pid: process.pid,
+      hostname: os.hostname(),
+      started_at: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+    });
+    expect(fs.readdirSync("store")).toEqual([".lock"]);
+
+    testContext.fileManager.releaseLock();
+    expect(fs.existsSync(LOCK_PATH)).toBe(false);
+  });
+
+  it("refuses a lock held by another run and names the holder", () => {
+    testContext.fileManager.acquireLock();
+    const { started_at } = readLockFile();
+
+    let error: unknown;
+    try {
+      new FileManager("store").acquireLock();
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(FileManagerError);
+    expect(error).toMatchObject({
+      operation: "acquireLock",
+      path: LOCK_PATH,
+      message: `Store is locked by another run\n  Store: store\n  Holder: PID ${process.pid} on ${os.hostname()} since ${started_at}\n  Check: Wait for that run to finish; if it is no longer running, remove ${LOCK_PATH}`,
+    });
+  });
+
+  it("takes over a stale lock left by a process that is no longer running", () => {
+    fs.mkdirSync("store");
+    fs.writeFileSync(
+      LOCK_PATH,
+      JSON.stringify({
+        pid: DEAD_PID,
+        hostname: os.hostname(),
+        started_at: "2024-01-01T00:00:00.000Z",
+      }),
+    );
+
+    testContext.fileManager.acquireLock();
+
+    expect(readLockFile().pid).toBe(process.pid);
+  });
+
+  it("lets only one of two runs take over the same stale lock", () => {
+    fs.mkdirSync("store");
+    fs.writeFileSync(
+      LOCK_PATH,
+      JSON.stringify({
+        pid: DEAD_PID,
+        hostname: os.hostname(),
+        started_at: "2024-01-01T00:00:00.000Z",
+      }),
+    );
+    const otherRun = new FileManager("store");
+    const isStaleLock = jest.requireActual<typeof storeLock>(
+      "../../../src/storage/store-lock",
+    ).isStaleLock;
+    // The other run takes over the stale lock right after this run found it stale
+    const spy = jest
+      .spyOn(storeLock, "isStaleLock")
+      .mockImplementationOnce((holder) => {
+        const stale = isStaleLock(holder);
+        otherRun.acquireLock();
+        return stale;
+      });
+
+    try {
+      expect(() => testContext.fileManager.acquireLock()).toThrow(
+        "Store is locked by another run",
+      );
+    } finally {
+      spy.mockRestore();
+    }
+
+    const otherLock = readLockFile();
+    expect(otherLock.started_at).not.toBe("2024-01-01T00:00:00.000Z");
+    expect(fs.readdirSync("store")).toEqual([".lock"]);
+    otherRun.releaseLock();
+    expect(fs.existsSync(LOCK_PATH)).toBe(false);
+  });
+
+  it("does not treat locks from other hosts as stale", () => {
+    fs.mkdirSync("store");
+    fs.writeFileSync(
+      LOCK_PATH,
+      JSON.stringify({
+        pid: DEAD_PID,
+        hostname: `not-${os.hostname()}`,
+        started_at: "2024-01-01T00:00:00.000Z",
+      }),
+    );
+
+    expect(() => testContext.fileManager.acquireLock()).toThrow(
+      `Holder: PID ${DEAD_PID} on not-${os.hostname()} since 2024-01-01T00:00:00.000Z`,
+    );
+  });
+
+  it("does not remove a lock it does not hold", () => {
+    testContext.fileManager.acquireLock();
+
+    new FileManager("store").releaseLock();
+
+    expect(readLockFile().pid).toBe(process.pid);
+  });
+
+  describe("read-only mode", () => {
+    it("reads a locked store without taking the lock", () => {
+      testContext.fileManager.writeBlockNumbers({
+        metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+        blocks: { "2024-01-01": 100 },
+      });
+      testContext.fileManager.acquireLock();
+
+      const readOnly = new FileManager("store", { readOnly: true });
+
+      expect(readOnly.readBlockNumbers()?.blocks).toEqual({
+        "2024-01-01": 100,
+      });
+      expect(readOnly.verifyStore().violations).toEqual([]);
+    });
+
+    it("rejects writes, transactions and locking", () => {
+      const readOnly = new FileManager("store", { readOnly: true });
+
+      expect(() =>
+        readOnly.writeBlockNumbers({
+          metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+          blocks: {},
+        }),
+      ).toThrow(
+        expect.objectContaining({
+          name: "FileManagerError",
+          operation: "writeBlockNumbers",
+          message: expect.stringMatching(/^Store is open read-only\n/),
+        }),
+      );
+      expect(() => readOnly.beginTransaction()).toThrow(FileManagerError);
+      expect(() => readOnly.acquireLock()).toThrow(FileManagerError);
+      expect(fs.existsSync("store")).toBe(false);
+    });
+  });
+});
@@ -2,7 +2,18 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { FileManager } from "../../../src/file-manager";
-import { FileManager as FileManagerInterface } from "../../../src/types";
+import { FileSystemBackend } from "../../../src/storage/filesystem-backend";
+import { MemoryBackend } from "../../../src/storage/memory-backend";
+import {
+  SqliteBackend,
+  isSqliteAvailable,
+} from "../../../src/storage/sqlite-backend";
+import {
+  FileManager as FileManagerInterface,
+  FileManagerOptions,
+  STORE_SCHEMA_VERSION,
+  StorageBackend,
+} from "../../../src/types";
 
 // Common test constants
 export const VALID_ADDRESS = "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9";
@@ -17,6 +28,39 @@ export const VALID_TX_HASH =
 export const MAX_UINT256 =
   "115792089237316195423570985008687907853269984665640564039457584007913129639935";
 
+export type TestBackend =
+  | "FileSystemBackend"
+  | "MemoryBackend"
+  | "SqliteBackend";
+
+/**
+ * Whether the SqliteBackend runs can be included. Setting REQUIRE_SQLITE_TESTS turns a
+ * Node.js without node:sqlite into a failure, so CI cannot skip them unnoticed.
+ */
+export function canTestSqlite(): boolean {
+  if (isSqliteAvailable()) {
+    return true;
+  }
+  if (process.env["REQUIRE_SQLITE_TESTS"]) {
+    throw new Error(
+      `REQUIRE_SQLITE_TESTS is set, but SqliteBackend needs Node.js 22.5 or later\n  Node.js: ${process.version}`,
+    );
+  }
+  return false;
+}
+
+// Backends the file manager suites run against
+export const TEST_BACKENDS: TestBackend[] = [
+  "FileSystemBackend",
+  "MemoryBackend",
+  ...(canTestSqlite() ? ["SqliteBackend" as const] : []),
+];
+
+/** `it` for tests of the store's directory and files on disk, skipped on other backends */
+export function itOnFileSystem(backendName: TestBackend): jest.It {
+  return backendName === "FileSystemBackend" ? it : it.skip;
+}
+
 // Test setup helpers
 export function setupFileManager(): FileManagerInterface {
   return new FileManager("store");
@@ -25,16 +69,63 @@ export function setupFileManager(): FileManagerInterface {
 export interface TestContext {
   tempDir: string;
   fileManager: FileManagerInterface;
+  /** The store's backend, for planting and inspecting raw files */
+  backend: StorageBackend;
+  /** Opens another FileManager on the same store, as a separate run would */
+  openFileManager(options?: FileManagerOptions): FileManagerInterface;
 }
 
-export function setupTestEnvironment(): TestContext {
+// Databases opened by setupTestEnvironment(), closed by cleanupTestEnvironment()
+const openDatabases: SqliteBackend[] = [];
+
+/**
+ * Creates a temporary working directory holding the store. A FileSystemBackend keeps
+ * the store in ./store, a SqliteBackend in ./store.db.
+ */
+export function setupTestEnvironment(
+  backendName: TestBackend = "FileSystemBackend",
+): TestContext {
   const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "file-manager-test-"));
   process.chdir(tempDir);
-  const fileManager = setupFileManager();
-  return { tempDir, fileManager };
+
+  switch (backendName) {
+    case "FileSystemBackend":
+      return {
+        tempDir,
+        fileManager: setupFileManager(),
+        backend: new FileSystemBackend("store"),
+        openFileManager: (options) => new FileManager("store", options),
+      };
+    case "MemoryBackend": {
+      const backend = new MemoryBackend();
+      return {
+        tempDir,
+        fileManager: new FileManager(backend),
+        backend,
+        openFileManager: (options) => new FileManager(backend, options),
+      };
+    }
+    case "SqliteBackend": {
+      const openDatabase = (): SqliteBackend => {
+        const database = new SqliteBackend(path.join(tempDir, "store.db"));
+        openDatabases.push(database);
+        return database;
+      };
+      const backend = openDatabase();
+      return {
+        tempDir,
+        fileManager: new FileManager(backend),
+        backend,
+        openFileManager: (options) => new FileManager(openDatabase(), options),
+      };
+    }
+  }
 }
 
 export function cleanupTestEnvironment(tempDir: string): void {
+  for (const database of openDatabases.splice(0)) {
+    database.close();
+  }
   process.chdir("/");
   fs.rmSync(tempDir, { recursive: true, force: true });
 }
@@ -51,6 +142,14 @@ export function createTestDate(offsetDays: number = 0): string {
   return datePart;
 }
 
+// Data as FileManager writes it, with the schema version added to its metadata
+export function withSchemaVersion<T extends { metadata: object }>(data: T): T {
+  return {
+    ...data,
+    metadata: { ...data.metadata, schema_version: STORE_SCHEMA_VERSION },
+  };
+}
+
 // Validation test helpers
 export function expectValidationError(
   fn: () => void,
@@ -0,0 +1,288 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  setupTestEnvironment,
+  cleanupTestEnvironment,
+  VALID_ADDRESS,
+  TestContext,
+  withSchemaVersion,
+  TEST_BACKENDS,
+  itOnFileSystem,
+} from "./test-utils";
+import { FileManager } from "../../../src/file-manager";
+import {
+  BalanceData,
+  BlockNumberData,
+  CHAIN_IDS,
+  FileManagerError,
+  StoreViolationKind,
+} from "../../../src/types";
+
+const JOURNAL_PATH = path.join("store", ".journal");
+const BALANCES_PATH = path.join(
+  "store",
+  "distributors",
+  VALID_ADDRESS,
+  "balances.json",
+);
+
+function createBlocks(blockNumber: number): BlockNumberData {
+  return {
+    metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+    blocks: { "2024-01-01": blockNumber },
+  };
+}
+
+function createBalances(balanceWei: string): BalanceData {
+  return {
+    metadata: {
+      chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+      reward_distributor: VALID_ADDRESS,
+    },
+    balances: { "2024-01-01": { block_number: 100, balance_wei: balanceWei } },
+  };
+}
+
+describe.each(TEST_BACKENDS)(
+  "%s - FileManager - transactions",
+  (backendName) => {
+    let testContext: TestContext;
+
+    beforeEach(() => {
+      testContext = setupTestEnvironment(backendName);
+      testContext.fileManager.writeBlockNumbers(createBlocks(100));
+      testContext.fileManager.writeDistributorBalances(
+        VALID_ADDRESS,
+        createBalances("1"),
+      );
+    });
+
+    afterEach(() => {
+      cleanupTestEnvironment(testContext.tempDir);
+    });
+
+    it("stages writes until commit and reads staged data back", () => {
+      const { fileManager } = testContext;
+
+      fileManager.beginTransaction();
+      fileManager.writeBlockNumbers(createBlocks(200));
+      fileManager.writeDistributorBalances(VALID_ADDRESS, createBalances("2"));
+
+      expect(fileManager.readBlockNumbers()).toEqual(createBlocks(200));
+      expect(testContext.openFileManager().readBlockNumbers()).toEqual(
+        createBlocks(100),
+      );
+
+      fileManager.commitTransaction();
+
+      const reopened = testContext.openFileManager();
+      expect(reopened.readBlockNumbers()).toEqual(createBlocks(200));
+      expect(reopened.readDistributorBalances(VALID_ADDRESS)).toEqual(
+        createBalances("2"),
+      );
+      expect(testContext.backend.hasPendingCommit()).toBe(false);
+    });
+
+    it("discards staged writes on rollback", () => {
+      const { fileManager } = testContext;
+
+      fileManager.beginTransaction();
+      fileManager.writeBlockNumbers(createBlocks(200));
+      fileManager.rollbackTransaction();
+
+      expect(fileManager.readBlockNumbers()).toEqual(createBlocks(100));
+      expect(testContext.backend.hasPendingCommit()).toBe(false);
+    });
+
+    it("validates data when it is staged", () => {
+      const { fileManager } = testContext;
+
+      fileManager.beginTransaction();
+
+      expect(() => fileManager.writeBlockNumbers(createBlocks(-1))).toThrow(
+        "Block number must be a positive integer, got: -1",
+      );
+    });
+
+    it("rejects nested transactions and commits without a transaction", () => {
+      const { fileManager } = testContext;
+
+      expect(() => fileManager.commitTransaction()).toThrow(
+        expect.objectContaining({
+          name: "FileManagerError",
+          operation: "commitTransaction",
+        }),
+      );
+      fileManager.beginTransaction();
+      expect(() => fileManager.beginTransaction()).toThrow(FileManagerError);
+    });
+
+    itOnFileSystem(backendName)(
+      "discards a journal without a manifest when the lock is acquired",
+      () => {
+        // Interrupted while journaling, before the commit point
+        fs.mkdirSync(JOURNAL_PATH);
+        fs.writeFileSync(
+          path.join(JOURNAL_PATH, "0.json"),
+          JSON.stringify(createBlocks(200)),
+        );
+
+        const reopened = new FileManager("store");
+        expect(fs.existsSync(JOURNAL_PATH)).toBe(true);
+        reopened.acquireLock();
+
+        expect(fs.existsSync(JOURNAL_PATH)).toBe(false);
+        expect(reopened.readBlockNumbers()).toEqual(createBlocks(100));
+        reopened.releaseLock();
+      },
+    );
+
+    describe("with an unfinished commit", () => {
+      beforeEach(() => {
+        // Interrupted after the commit point, before block_numbers.json was moved into place
+        fs.mkdirSync(JOURNAL_PATH);
+        fs.writeFileSync(
+          path.join(JOURNAL_PATH, "0.json"),
+          JSON.stringify(withSchemaVersion(createBlocks(200))),
+        );
+        fs.writeFileSync(
+          path.join(JOURNAL_PATH, "manifest.json"),
+          JSON.stringify({
+            files: [{ path: "block_numbers.json", journal: "0.json" }],
+          }),
+        );
+      });
+
+      itOnFileSystem(backendName)("refuses reads without the lock", () => {
+        const readOnly = new FileManager("store", { readOnly: true });
+
+        expect(() => readOnly.readBlockNumbers()).toThrow(
+          expect.objectContaining({
+            name: "FileManagerError",
+            operation: "readBlockNumbers",
+            message: expect.stringMatching(/^Store has an unfinished commit\n/),
+          }),
+        );
+        expect(() => new FileManager("store").readBlockNumbers()).toThrow(
+          /^Store has an unfinished commit\n/,
+        );
+      });
+
+      itOnFileSystem(backendName)("reports it when verifying the store", () => {
+        const report = new FileManager("store", {
+          readOnly: true,
+        }).verifyStore();
+
+        expect(report.violations).toContainEqual(
+          expect.objectContaining({
+            file: ".",
+            kind: StoreViolationKind.PENDING_COMMIT,
+          }),
+        );
+      });
+
+      itOnFileSystem(backendName)(
+        "refuses writes without the lock, leaving the journal to the lock holder",
+        () => {
+          const fileManager = new FileManager("store");
+
+          expect(() =>
+            fileManager.writeBlockNumbers(createBlocks(300)),
+          ).toThrow(
+            expect.objectContaining({
+              name: "FileManagerError",
+              operation: "writeBlockNumbers",
+              message: expect.stringMatching(
+                /^Store has an unfinished commit\n/,
+              ),
+            }),
+          );
+          fileManager.beginTransaction();
+          fileManager.writeBlockNumbers(createBlocks(300));
+          expect(() => fileManager.commitTransaction()).toThrow(
+            /^Store has an unfinished commit\n/,
+          );
+
+          expect(fs.existsSync(path.join(JOURNAL_PATH, "manifest.json"))).toBe(
+            true,
+          );
+          fileManager.acquireLock();
+          expect(fileManager.readBlockNumbers()).toEqual(createBlocks(200));
+          fileManager.releaseLock();
+        },
+      );
+    });
+
+    itOnFileSystem(backendName)(
+      "rolls an interrupted commit forward when the lock is acquired",
+      () => {
+        const { fileManager } = testContext;
+        // A directory in place of balances.json makes the second move fail mid-commit
+        fs.rmSync(BALANCES_PATH);
+        fs.mkdirSync(path.join(BALANCES_PATH, "obstacle"), { recursive: true });
+
+        fileManager.beginTransaction();
+        fileManager.writeBlockNumbers(createBlocks(200));
+        fileManager.writeDistributorBalances(
+          VALID_ADDRESS,
+          createBalances("2"),
+        );
+        expect(() => fileManager.commitTransaction()).toThrow(
+          /^Cannot move journaled file into place\n/,
+        );
+
+        // The first file is already in place; the journal still holds the second
+        expect(
+          JSON.parse(
+            fs.readFileSync(path.join("store", "block_numbers.json"), "utf-8"),
+          ),
+        ).toEqual(withSchemaVersion(createBlocks(200)));
+        expect(fs.readdirSync(JOURNAL_PATH).sort()).toEqual([
+          "1.json",
+          "manifest.json",
+        ]);
+
+        fs.rmSync(BALANCES_PATH, { recursive: true });
+        const reopened = new FileManager("store");
+        reopened.acquireLock();
+        reopened.releaseLock();
+
+        expect(fs.existsSync(JOURNAL_PATH)).toBe(false);
+        expect(reopened.readBlockNumbers()).toEqual(createBlocks(200));
+        expect(reopened.readDistributorBalances(VALID_ADDRESS)).toEqual(
+          createBalances("2"),
+        );
+      },
+    );
+
+    itOnFileSystem(backendName)(
+      "lets the lock holder settle its own failed commit before the next write",
+      () => {
+        const { fileManager } = testContext;
+        fileManager.acquireLock();
+        fs.rmSync(BALANCES_PATH);
+        fs.mkdirSync(path.join(BALANCES_PATH, "obstacle"), { recursive: true });
+
+        fileManager.beginTransaction();
+        fileManager.writeBlockNumbers(createBlocks(200));
+        fileManager.writeDistributorBalances(
+          VALID_ADDRESS,
+          createBalances("2"),
+        );
+        expect(() => fileManager.commitTransaction()).toThrow(
+          /^Cannot move journaled file into place\n/,
+        );
+
+        fs.rmSync(BALANCES_PATH, { recursive: true });
+        fileManager.writeBlockNumbers(createBlocks(300));
+
+        expect(fs.existsSync(JOURNAL_PATH)).toBe(false);
+        expect(fileManager.readBlockNumbers()).toEqual(createBlocks(300));
+        expect(fileManager.readDistributorBalances(VALID_ADDRESS)).toEqual(
+          createBalances("2"),
+        );
+        fileManager.releaseLock();
+      },
+    );
+  },
+);
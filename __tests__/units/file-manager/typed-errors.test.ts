@@ -0,0 +1,204 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  setupTestEnvironment,
+  cleanupTestEnvironment,
+  VALID_ADDRESS,
+  VALID_ADDRESS_LOWERCASE,
+  TestContext,
+  TEST_BACKENDS,
+  itOnFileSystem,
+} from "./test-utils";
+import { FileManager } from "../../../src/file-manager";
+import {
+  BalanceData,
+  CHAIN_IDS,
+  FileManagerError,
+  ValidationError,
+} from "../../../src/types";
+
+function captureError(action: () => unknown): unknown {
+  try {
+    action();
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected the action to throw");
+}
+
+describe.each(TEST_BACKENDS)(
+  "%s - FileManager - typed errors",
+  (backendName) => {
+    let testContext: TestContext;
+
+    const balances: BalanceData = {
+      metadata: {
+        chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+        reward_distributor: VALID_ADDRESS,
+      },
+      balances: { "2024-01-01": { block_number: 100, balance_wei: "1" } },
+    };
+
+    beforeEach(() => {
+      testContext = setupTestEnvironment(backendName);
+    });
+
+    afterEach(() => {
+      cleanupTestEnvironment(testContext.tempDir);
+    });
+
+    describe("ValidationError", () => {
+      it("reports the field, value and expected format of bad data", () => {
+        const error = captureError(() =>
+          testContext.fileManager.writeDistributorBalances(VALID_ADDRESS, {
+            ...balances,
+            balances: {
+              "2024-01-01": { block_number: 100, balance_wei: "1.5" },
+            },
+          }),
+        );
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error).toMatchObject({
+          field: "balance_wei",
+          value: "1.5",
+          expected: "Integer string (no decimal points)",
+        });
+      });
+
+      it("reports invalid dates and block numbers", () => {
+        const dateError = captureError(() =>
+          testContext.fileManager.writeBlockNumbers({
+            metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+            blocks: { "2024-02-30": 100 },
+          }),
+        );
+        const blockError = captureError(() =>
+          testContext.fileManager.writeBlockNumbers({
+            metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+            blocks: { "2024-01-01": -1 },
+          }),
+        );
+
+        expect(dateError).toMatchObject({
+          name: "ValidationError",
+          message: "Invalid calendar date: 2024-02-30",
+          field: "date",
+          value: "2024-02-30",
+        });
+        expect(blockError).toMatchObject({
+          name: "ValidationError",
+          field: "block_number",
+          value: -1,
+          expected: "Positive integer",
+        });
+      });
+
+      it("reports addresses with a bad checksum", () => {
+        const badChecksum = VALID_ADDRESS.replace("a", "A");
+
+        const error = captureError(() =>
+          testContext.fileManager.validateAddress(badChecksum),
+        );
+
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error).toMatchObject({
+          message: "bad address checksum",
+          field: "address",
+          value: badChecksum,
+        });
+        expect(
+          testContext.fileManager.validateAddress(VALID_ADDRESS_LOWERCASE),
+        ).toBe(VALID_ADDRESS);
+      });
+
+      it("rejects an empty store directory", () => {
+        expect(() => new FileManager("")).toThrow(ValidationError);
+      });
+    });
+
+    describe("FileManagerError", () => {
+      itOnFileSystem(backendName)(
+        "wraps write failures with the operation, path and cause",
+        () => {
+          // A file where the store directory should be makes every write fail
+          fs.writeFileSync("store", "");
+          const filePath = path.join("store", "block_numbers.json");
+
+          const error = captureError(() =>
+            testContext.fileManager.writeBlockNumbers({
+              metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+              blocks: { "2024-01-01": 100 },
+            }),
+          );
+
+          expect(error).toBeInstanceOf(FileManagerError);
+          expect(error).toMatchObject({
+            operation: "writeBlockNumbers",
+            path: filePath,
+            cause: expect.objectContaining({ code: "ENOTDIR" }),
+          });
+          expect((error as Error).message).toMatch(
+            /^Cannot write block_numbers\.json\n {2}File: store\/block_numbers\.json\n {2}Reason: ENOTDIR.*\n {2}Check: Check file permissions and free disk space$/,
+          );
+        },
+      );
+
+      itOnFileSystem(backendName)("wraps directory creation failures", () => {
+        fs.mkdirSync("store");
+        fs.writeFileSync(path.join("store", "distributors"), "");
+
+        const error = captureError(() =>
+          testContext.fileManager.writeDistributorBalances(
+            VALID_ADDRESS,
+            balances,
+          ),
+        );
+
+        expect(error).toBeInstanceOf(FileManagerError);
+        expect(error).toMatchObject({
+          operation: "writeDistributorBalances",
+          path: path.join("store", "distributors", VALID_ADDRESS),
+        });
+        expect((error as Error).message).toMatch(/^Cannot create directory\n/);
+      });
+
+      itOnFileSystem(backendName)("wraps read failures", () => {
+        fs.mkdirSync(path.join("store", "block_numbers.json"), {
+          recursive: true,
+        });
+
+        const error = captureError(() =>
+          testContext.fileManager.readBlockNumbers(),
+        );
+
+        expect(error).toBeInstanceOf(FileManagerError);
+        expect(error).toMatchObject({
+          operation: "readBlockNumbers",
+          cause: expect.objectContaining({ code: "EISDIR" }),
+        });
+      });
+
+      itOnFileSystem(backendName)(
+        "does not leave a temporary file behind when the rename fails",
+        () => {
+          fs.mkdirSync(path.join("store", "block_numbers.json"), {
+            recursive: true,
+          });
+          fs.writeFileSync(
+            path.join("store", "block_numbers.json", "child"),
+            "",
+          );
+
+          expect(() =>
+            testContext.fileManager.writeBlockNumbers({
+              metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+              blocks: { "2024-01-01": 100 },
+            }),
+          ).toThrow(FileManagerError);
+          expect(fs.readdirSync("store")).toEqual(["block_numbers.json"]);
+        },
+      );
+    });
+  },
+);
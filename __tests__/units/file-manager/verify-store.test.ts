@@ -0,0 +1,194 @@
+import {
+  setupTestEnvironment,
+  cleanupTestEnvironment,
+  VALID_ADDRESS,
+  VALID_ADDRESS_2,
+  VALID_TX_HASH,
+  TestContext,
+  TEST_BACKENDS,
+} from "./test-utils";
+import {
+  CHAIN_IDS,
+  DistributorType,
+  StoreViolationKind,
+} from "../../../src/types";
+
+describe.each(TEST_BACKENDS)(
+  "%s - FileManager - verifyStore",
+  (backendName) => {
+    let testContext: TestContext;
+
+    beforeEach(() => {
+      testContext = setupTestEnvironment(backendName);
+      const { fileManager } = testContext;
+
+      fileManager.writeBlockNumbers({
+        metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+        blocks: { "2024-01-01": 100, "2024-01-02": 200 },
+      });
+      fileManager.writeDistributors({
+        metadata: {
+          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+          arbowner_address: "0x0000000000000000000000000000000000000070",
+        },
+        distributors: {
+          [VALID_ADDRESS]: {
+            type: DistributorType.L2_BASE_FEE,
+            block: 50,
+            date: "2024-01-01",
+            tx_hash: VALID_TX_HASH,
+            method: "0x57f585db",
+            owner: VALID_ADDRESS,
+            event_data: "0x",
+            is_reward_distributor: true,
+            distributor_address: VALID_ADDRESS,
+          },
+        },
+      });
+      fileManager.writeDistributorBalances(VALID_ADDRESS, {
+        metadata: {
+          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+          reward_distributor: VALID_ADDRESS,
+        },
+        balances: {
+          "2024-01-01": { block_number: 100, balance_wei: "1" },
+          "2024-01-02": { block_number: 200, balance_wei: "2" },
+        },
+      });
+      fileManager.writeDistributorOutflows(VALID_ADDRESS, {
+        metadata: {
+          chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+          reward_distributor: VALID_ADDRESS,
+        },
+        outflows: {
+          "2024-01-01": {
+            block_number: 100,
+            total_outflow_wei: "0",
+            events: [],
+          },
+        },
+      });
+    });
+
+    afterEach(() => {
+      cleanupTestEnvironment(testContext.tempDir);
+    });
+
+    it("reports no violations for a consistent store", () => {
+      expect(testContext.fileManager.verifyStore()).toEqual({
+        checked_files: 4,
+        violations: [],
+      });
+    });
+
+    it("reports an empty store as consistent", () => {
+      cleanupTestEnvironment(testContext.tempDir);
+      testContext = setupTestEnvironment(backendName);
+
+      expect(testContext.fileManager.verifyStore()).toEqual({
+        checked_files: 0,
+        violations: [],
+      });
+    });
+
+    it("reports files that are not valid JSON or fail validation", () => {
+      testContext.backend.write("block_numbers.json", "{", "test");
+      testContext.backend.write(
+        `distributors/${VALID_ADDRESS}/outflows.json`,
+        JSON.stringify({
+          metadata: { chain_id: 42170, reward_distributor: VALID_ADDRESS },
+          outflows: {
+            "2024-01-01": {
+              block_number: 100,
+              total_outflow_wei: "5",
+              events: [],
+            },
+          },
+        }),
+        "test",
+      );
+
+      const { checked_files, violations } =
+        testContext.fileManager.verifyStore();
+
+      expect(checked_files).toBe(4);
+      expect(violations).toEqual([
+        {
+          file: "block_numbers.json",
+          kind: StoreViolationKind.INVALID_JSON,
+          message: expect.stringContaining(
+            `File is not valid JSON\n  File: ${testContext.backend.describe("block_numbers.json")}\n  Error: `,
+          ),
+        },
+        {
+          file: `distributors/${VALID_ADDRESS}/outflows.json`,
+          kind: StoreViolationKind.INVALID_DATA,
+          message: "Total outflow mismatch for 2024-01-01: expected 0, got 5",
+        },
+      ]);
+    });
+
+    it("reports balances and outflows that disagree with block_numbers.json", () => {
+      testContext.fileManager.writeBlockNumbers({
+        metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+        blocks: { "2024-01-02": 250 },
+      });
+
+      const { violations } = testContext.fileManager.verifyStore();
+
+      const balancesFile = `distributors/${VALID_ADDRESS}/balances.json`;
+      expect(violations).toEqual([
+        expect.objectContaining({
+          file: balancesFile,
+          kind: StoreViolationKind.DATE_WITHOUT_BLOCK,
+          date: "2024-01-01",
+        }),
+        {
+          file: balancesFile,
+          kind: StoreViolationKind.BALANCE_BLOCK_MISMATCH,
+          date: "2024-01-02",
+          message: `Balance block does not match the end-of-day block\n  File: ${balancesFile}\n  Date: 2024-01-02\n  Balance block: 200\n  End-of-day block: 250\n  Check: Remove the balance for this date and run balance fetching`,
+        },
+        expect.objectContaining({
+          file: `distributors/${VALID_ADDRESS}/outflows.json`,
+          kind: StoreViolationKind.DATE_WITHOUT_BLOCK,
+          date: "2024-01-01",
+        }),
+      ]);
+    });
+
+    it("does not compare the blocks of stale balances", () => {
+      testContext.fileManager.writeBlockNumbers({
+        metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+        blocks: { "2024-01-01": 100, "2024-01-02": 250 },
+      });
+      const balances =
+        testContext.fileManager.readDistributorBalances(VALID_ADDRESS)!;
+      testContext.fileManager.writeDistributorBalances(VALID_ADDRESS, {
+        ...balances,
+        metadata: { ...balances.metadata, stale_dates: ["2024-01-02"] },
+      });
+
+      expect(testContext.fileManager.verifyStore().violations).toEqual([]);
+    });
+
+    it("reports distributor directories missing from distributors.json", () => {
+      testContext.backend.write(
+        `distributors/${VALID_ADDRESS_2}/balances.json`,
+        JSON.stringify({
+          metadata: { chain_id: 42170, reward_distributor: VALID_ADDRESS_2 },
+          balances: {},
+        }),
+        "test",
+      );
+
+      expect(testContext.fileManager.verifyStore().violations).toEqual([
+        {
+          file: `distributors/${VALID_ADDRESS_2}`,
+          kind: StoreViolationKind.UNKNOWN_DISTRIBUTOR_DIRECTORY,
+          message: `Distributor directory is not listed in distributors.json\n  Directory: distributors/${VALID_ADDRESS_2}\n  Check: Run distributor detection, or move the directory out of the store`,
+        },
+      ]);
+    });
+  },
+);
@@ -0,0 +1,165 @@
+import { FileManager } from "../../src/file-manager";
+import { GapDetector } from "../../src/gap-detector";
+import { ARBITRUM_ONE } from "../../src/constants/chains";
+import {
+  BalanceData,
+  BlockNumberData,
+  DistributorInfo,
+  DistributorType,
+  OutflowData,
+} from "../../src/types";
+
+jest.mock("../../src/file-manager");
+
+const DISTRIBUTOR = "0xdff90519a9DE6ad469D4f9839a9220C5D340B792";
+const RETIRED_DISTRIBUTOR = "0x37daA99b1cAAE0c22670963e103a66CA2c5dB2dB";
+
+function createInfo(date: string, activeUntilDate?: string): DistributorInfo {
+  return {
+    type: DistributorType.L2_SURPLUS_FEE,
+    block: 100,
+    date,
+    tx_hash: "0x" + "a".repeat(64),
+    method: "0xfcdde2b4",
+    owner: "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9",
+    event_data: "0x",
+    is_reward_distributor: true,
+    distributor_address: DISTRIBUTOR,
+    ...(activeUntilDate && { active_until_date: activeUntilDate }),
+  };
+}
+
+function createBalances(dates: string[]): BalanceData {
+  return {
+    metadata: { chain_id: 42170, reward_distributor: DISTRIBUTOR },
+    balances: Object.fromEntries(
+      dates.map((date) => [date, { block_number: 1, balance_wei: "0" }]),
+    ),
+  };
+}
+
+function createOutflows(dates: string[]): OutflowData {
+  return {
+    metadata: { chain_id: 42170, reward_distributor: DISTRIBUTOR },
+    outflows: Object.fromEntries(
+      dates.map((date) => [
+        date,
+        { block_number: 1, total_outflow_wei: "0", events: [] },
+      ]),
+    ),
+  };
+}
+
+describe("GapDetector", () => {
+  let mockFileManager: jest.Mocked<FileManager>;
+  let gapDetector: GapDetector;
+  let blockNumbersData: BlockNumberData | undefined;
+
+  beforeEach(() => {
+    blockNumbersData = {
+      metadata: { chain_id: 42170 },
+      blocks: { "2024-01-01": 100, "2024-01-02": 200, "2024-01-04": 400 },
+    };
+
+    mockFileManager = {
+      readBlockNumbers: jest.fn(() => blockNumbersData),
+      readDistributors: jest.fn().mockReturnValue({
+        metadata: {
+          chain_id: 42170,
+          arbowner_address: "0x0000000000000000000000000000000000000070",
+        },
+        distributors: {
+          [DISTRIBUTOR]: createInfo("2024-01-02"),
+          [RETIRED_DISTRIBUTOR]: createInfo("2023-12-31", "2024-01-01"),
+        },
+      }),
+      readDistributorBalances: jest.fn((address: string) =>
+        address === DISTRIBUTOR
+          ? createBalances(["2024-01-02", "2024-01-04"])
+          : createBalances(["2023-12-31", "2024-01-01"]),
+      ),
+      readDistributorOutflows: jest.fn((address: string) =>
+        address === DISTRIBUTOR
+          ? createOutflows(["2024-01-02", "2024-01-03", "2024-01-04"])
+          : undefined,
+      ),
+    } as unknown as jest.Mocked<FileManager>;
+    gapDetector = new GapDetector(mockFileManager);
+  });
+
+  it("lists dates missing from each file up to the latest block date", () => {
+    expect(gapDetector.findGaps()).toEqual({
+      metadata: { chain_id: 42170 },
+      latest_date: "2024-01-04",
+      block_numbers: ["2024-01-03"],
+      distributors: {
+        [DISTRIBUTOR]: { balances: ["2024-01-03"], outflows: [] },
+        // Retired on 2024-01-01, so later dates are not expected
+        [RETIRED_DISTRIBUTOR]: {
+          balances: [],
+          outflows: ["2023-12-31", "2024-01-01"],
+        },
+      },
+    });
+  });
+
+  it("expects no outflows, and only the balance before its return, while a distributor was replaced", () => {
+    mockFileManager.readDistributors.mockReturnValue({
+      metadata: {
+        chain_id: 42170,
+        arbowner_address: "0x0000000000000000000000000000000000000070",
+      },
+      distributors: {
+        [RETIRED_DISTRIBUTOR]: {
+          ...createInfo("2023-12-31"),
+          active_periods: [
+            {
+              from_block: 100,
+              from_date: "2023-12-31",
+              until_block: 150,
+              until_date: "2023-12-31",
+            },
+            { from_block: 350, from_date: "2024-01-03" },
+          ],
+        },
+      },
+    });
+
+    expect(gapDetector.findGaps().distributors).toEqual({
+      [RETIRED_DISTRIBUTOR]: {
+        balances: ["2024-01-02", "2024-01-03", "2024-01-04"],
+        outflows: ["2023-12-31", "2024-01-03", "2024-01-04"],
+      },
+    });
+  });
+
+  it("omits distributors without gaps", () => {
+    mockFileManager.readDistributorBalances.mockReturnValue(
+      createBalances(["2023-12-31", "2024-01-01", "2024-01-02", "2024-01-03"]),
+    );
+    mockFileManager.readDistributorOutflows.mockReturnValue(
+      createOutflows(["2023-12-31", "2024-01-01", "2024-01-02", "2024-01-03"]),
+    );
+    blockNumbersData!.blocks["2024-01-03"] = 300;
+    delete blockNumbersData!.blocks["2024-01-04"];
+
+    expect(gapDetector.findGaps()).toEqual({
+      metadata: { chain_id: 42170 },
+      latest_date: "2024-01-03",
+      block_numbers: [],
+      distributors: {},
+    });
+  });
+
+  it("reports no gaps for a store without block numbers", () => {
+    blockNumbersData = undefined;
+    gapDetector = new GapDetector(mockFileManager, ARBITRUM_ONE);
+
+    expect(gapDetector.findGaps()).toEqual({
+      metadata: { chain_id: 42161 },
+      block_numbers: [],
+      distributors: {},
+    });
+    expect(mockFileManager.readDistributors).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,307 @@
+import { FileManager } from "../../src/file-manager";
+import { OutflowReconciler } from "../../src/outflow-reconciler";
+import {
+  DistributorsData,
+  DistributorType,
+  OutflowData,
+  OutflowEvent,
+  OutflowEventKind,
+  RecipientMismatchKind,
+  RecipientsData,
+  RecipientsUpdate,
+  ReconciliationError,
+} from "../../src/types";
+
+jest.mock("../../src/file-manager");
+
+const DISTRIBUTOR = "0xdff90519a9DE6ad469D4f9839a9220C5D340B792";
+const RECIPIENT_1 = "0x9C040726F2A657226Ed95712245DeE84b650A1b5";
+const RECIPIENT_2 = "0x37daA99b1cAAE0c22670963e103a66CA2c5dB2dB";
+const RECIPIENT_3 = "0x3B68a689c929327224dBfCe31C1bf72Ffd2559Ce";
+const OWNER = "0x67a24CE4321aB3aF51c2D0a4801c3E111D88C9d9";
+const TX_HASH_1 = "0x" + "a".repeat(64);
+const TX_HASH_2 = "0x" + "b".repeat(64);
+const UPDATE_TX_HASH = "0x" + "c".repeat(64);
+
+function createUpdate(
+  blockNumber: number,
+  recipients: string[],
+  weights: number[],
+  txHash: string = UPDATE_TX_HASH,
+): RecipientsUpdate {
+  return {
+    block_number: blockNumber,
+    date: "2024-01-01",
+    tx_hash: txHash,
+    recipient_group: "0x" + "1".repeat(64),
+    recipient_weights: "0x" + "2".repeat(64),
+    recipients,
+    weights,
+  };
+}
+
+function createEvent(
+  recipient: string,
+  valueWei: string,
+  txHash: string,
+  blockNumber: number,
+): OutflowEvent {
+  return {
+    recipient,
+    value_wei: valueWei,
+    tx_hash: txHash,
+    block_number: blockNumber,
+    kind: OutflowEventKind.RECIPIENT,
+  };
+}
+
+function createOutflowData(events: OutflowEvent[]): OutflowData {
+  return {
+    metadata: { chain_id: 42170, reward_distributor: DISTRIBUTOR },
+    outflows: {
+      "2024-01-02": {
+        block_number: 2000,
+        total_outflow_wei: events
+          .reduce((sum, event) => sum + BigInt(event.value_wei), BigInt(0))
+          .toString(),
+        events,
+      },
+    },
+  };
+}
+
+describe("OutflowReconciler", () => {
+  let mockFileManager: jest.Mocked<FileManager>;
+  let reconciler: OutflowReconciler;
+  let outflowData: OutflowData | undefined;
+  let recipientsData: RecipientsData | undefined;
+
+  const distributorsData: DistributorsData = {
+    metadata: {
+      chain_id: 42170,
+      arbowner_address: "0x0000000000000000000000000000000000000070",
+      last_scanned_block: 5000,
+    },
+    distributors: {
+      [DISTRIBUTOR]: {
+        type: DistributorType.L2_SURPLUS_FEE,
+        block: 100,
+        date: "2024-01-01",
+        tx_hash: TX_HASH_1,
+        method: "0xfcdde2b4",
+        owner: OWNER,
+        event_data: "0x",
+        is_reward_distributor: true,
+        distributor_address: DISTRIBUTOR,
+      },
+    },
+  };
+
+  beforeEach(() => {
+    recipientsData = {
+      metadata: {
+        chain_id: 42170,
+        reward_distributor: DISTRIBUTOR,
+        last_scanned_block: 2000,
+      },
+      updates: [createUpdate(50, [RECIPIENT_1, RECIPIENT_2], [7500, 2500])],
+    };
+    outflowData = createOutflowData([
+      createEvent(RECIPIENT_1, "7500", TX_HASH_1, 1500),
+      createEvent(RECIPIENT_2, "2500", TX_HASH_1, 1500),
+    ]);
+
+    mockFileManager = {
+      readDistributors: jest.fn().mockReturnValue(distributorsData),
+      readDistributorOutflows: jest.fn(() => outflowData),
+      readDistributorRecipients: jest.fn(() => recipientsData),
+    } as unknown as jest.Mocked<FileManager>;
+    reconciler = new OutflowReconciler(mockFileManager);
+  });
+
+  it("stores FileManager as readonly property", () => {
+    expect(reconciler.fileManager).toBe(mockFileManager);
+  });
+
+  it("reports no mismatches when payouts follow the weights", () => {
+    const report = reconciler.reconcile();
+
+    expect(report).toEqual({
+      metadata: { chain_id: 42170 },
+      distributors: {
+        [DISTRIBUTOR]: { checked_transactions: 1, mismatches: [] },
+      },
+    });
+  });
+
+  it("reports wrong proportions with expected and actual amounts", () => {
+    outflowData = createOutflowData([
+      createEvent(RECIPIENT_1, "8000", TX_HASH_1, 1500),
+      createEvent(RECIPIENT_2, "2000", TX_HASH_1, 1500),
+    ]);
+
+    const mismatches =
+      reconciler.reconcile().distributors[DISTRIBUTOR]!.mismatches;
+
+    expect(mismatches).toHaveLength(1);
+    expect(mismatches[0]!.recipients).toEqual([
+      {
+        kind: RecipientMismatchKind.WRONG_PROPORTION,
+        recipient: RECIPIENT_1,
+        weight: 7500,
+        expected_wei: "7500",
+        actual_wei: "8000",
+      },
+      {
+        kind: RecipientMismatchKind.WRONG_PROPORTION,
+        recipient: RECIPIENT_2,
+        weight: 2500,
+        expected_wei: "2500",
+        actual_wei: "2000",
+      },
+    ]);
+  });
+
+  it("reports missing and unexpected recipients", () => {
+    outflowData = createOutflowData([
+      createEvent(RECIPIENT_1, "7500", TX_HASH_1, 1500),
+      createEvent(RECIPIENT_3, "2500", TX_HASH_1, 1500),
+    ]);
+
+    const mismatch =
+      reconciler.reconcile().distributors[DISTRIBUTOR]!.mismatches[0]!;
+
+    expect(mismatch.recipients).toEqual([
+      {
+        kind: RecipientMismatchKind.MISSING_RECIPIENT,
+        recipient: RECIPIENT_2,
+        weight: 2500,
+        expected_wei: "2500",
+        actual_wei: "0",
+      },
+      {
+        kind: RecipientMismatchKind.UNEXPECTED_RECIPIENT,
+        recipient: RECIPIENT_3,
+        weight: 0,
+        expected_wei: "0",
+        actual_wei: "2500",
+      },
+    ]);
+    expect(mismatch.message).toBe(
+      [
+        "Outflows do not match recipient weights",
+        `  Distributor: ${DISTRIBUTOR}`,
+        "  Date: 2024-01-02",
+        `  Transaction: ${TX_HASH_1}`,
+        "  Block: 1500",
+        `  MISSING_RECIPIENT: ${RECIPIENT_2} (weight 2500/10000, expected 2500 wei, got 0 wei)`,
+        `  UNEXPECTED_RECIPIENT: ${RECIPIENT_3} (weight 0/10000, expected 0 wei, got 2500 wei)`,
+        "  Check: Compare the transaction's events with recipients.json and rescan outflows and recipients if either is incomplete",
+      ].join("\n"),
+    );
+  });
+
+  it("counts owner fallback payouts towards the intended recipient", () => {
+    outflowData = createOutflowData([
+      createEvent(RECIPIENT_1, "7500", TX_HASH_1, 1500),
+      {
+        ...createEvent(OWNER, "2500", TX_HASH_1, 1500),
+        kind: OutflowEventKind.OWNER_FALLBACK,
+        intended_recipient: RECIPIENT_2,
+      },
+    ]);
+
+    expect(
+      reconciler.reconcile().distributors[DISTRIBUTOR]!.mismatches,
+    ).toEqual([]);
+  });
+
+  it("checks each transaction against the weights active at its block", () => {
+    recipientsData!.updates.push(
+      createUpdate(1600, [RECIPIENT_1, RECIPIENT_2], [5000, 5000]),
+    );
+    outflowData = createOutflowData([
+      createEvent(RECIPIENT_1, "7500", TX_HASH_1, 1500),
+      createEvent(RECIPIENT_2, "2500", TX_HASH_1, 1500),
+      createEvent(RECIPIENT_1, "5000", TX_HASH_2, 1700),
+      createEvent(RECIPIENT_2, "5000", TX_HASH_2, 1700),
+    ]);
+
+    const result = reconciler.reconcile().distributors[DISTRIBUTOR]!;
+
+    expect(result.checked_transactions).toBe(2);
+    expect(result.mismatches).toEqual([]);
+  });
+
+  it("uses the previous weights for payouts made by setRecipients itself", () => {
+    recipientsData!.updates.push(
+      createUpdate(1500, [RECIPIENT_3], [10000], TX_HASH_1),
+    );
+
+    expect(
+      reconciler.reconcile().distributors[DISTRIBUTOR]!.mismatches,
+    ).toEqual([]);
+  });
+
+  it("falls back to the end-of-day block for events without a block", () => {
+    recipientsData!.updates.push(
+      createUpdate(1800, [RECIPIENT_1, RECIPIENT_2], [5000, 5000]),
+    );
+    outflowData = createOutflowData([
+      { recipient: RECIPIENT_1, value_wei: "5000", tx_hash: TX_HASH_1 },
+      { recipient: RECIPIENT_2, value_wei: "5000", tx_hash: TX_HASH_1 },
+    ]);
+
+    const result = reconciler.reconcile().distributors[DISTRIBUTOR]!;
+
+    expect(result.mismatches).toEqual([]);
+  });
+
+  it("skips distributors without outflows", () => {
+    outflowData = undefined;
+
+    expect(reconciler.reconcile().distributors).toEqual({});
+  });
+
+  it("throws when distributors data is missing", () => {
+    mockFileManager.readDistributors.mockReturnValue(undefined);
+
+    expect(() => reconciler.reconcile()).toThrow(ReconciliationError);
+  });
+
+  it("throws when the specified distributor is not found", () => {
+    expect(() => reconciler.reconcile(RECIPIENT_3)).toThrow(
+      `Distributor not found: ${RECIPIENT_3}`,
+    );
+  });
+
+  it("throws with context when recipients data is missing", () => {
+    recipientsData = undefined;
+
+    expect(() => reconciler.reconcile()).toThrow(
+      `Recipients data not found for distributor with outflows\n  Distributor: ${DISTRIBUTOR}\n  Date: 2024-01-02\n  Transaction: ${TX_HASH_1}`,
+    );
+  });
+
+  it("throws with context when no configuration precedes a payout", () => {
+    recipientsData!.updates = [
+      createUpdate(1900, [RECIPIENT_1, RECIPIENT_2], [7500, 2500]),
+    ];
+
+    try {
+      reconciler.reconcile();
+      fail("Expected reconcile to throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ReconciliationError);
+      expect((error as ReconciliationError).operation).toBe(
+        "reconcileDistributor",
+      );
+      expect((error as ReconciliationError).context).toEqual({
+        distributor: DISTRIBUTOR,
+        date: "2024-01-02",
+        txHash: TX_HASH_1,
+        blockNumber: 1500,
+      });
+    }
+  });
+});
@@ -0,0 +1,291 @@
+import { ethers } from "ethers";
+import { FileManager } from "../../src/file-manager";
+import { Pipeline } from "../../src/pipeline";
+import { BlockFinder } from "../../src/block-finder";
+import { DistributorDetector } from "../../src/distributor-detector";
+import { BalanceFetcher } from "../../src/balance-fetcher";
+import { EventScanner } from "../../src/event-scanner";
+import { FeeCalculator } from "../../src/fee-calculator";
+import { GapDetector } from "../../src/gap-detector";
+import { ARBITRUM_ONE } from "../../src/constants/chains";
+import { DistributorInfo, FeeReport, GapReport } from "../../src/types";
+
+jest.mock("../../src/file-manager");
+jest.mock("../../src/block-finder");
+jest.mock("../../src/distributor-detector");
+jest.mock("../../src/balance-fetcher");
+jest.mock("../../src/event-scanner");
+jest.mock("../../src/fee-calculator");
+jest.mock("../../src/gap-detector");
+
+describe("Pipeline", () => {
+  const startDate = new Date("2024-01-01T00:00:00Z");
+  const endDate = new Date("2024-01-03T00:00:00Z");
+  const report: FeeReport = {
+    metadata: { chain_id: 42170 },
+    distributors: {},
+    by_type: {},
+    total: { total_fee_wei: "0", daily: {} },
+  };
+
+  let fileManager: FileManager;
+  let provider: ethers.Provider;
+  let calls: string[];
+  let pipeline: Pipeline;
+
+  beforeEach(() => {
+    fileManager = new FileManager("store");
+    provider = {} as ethers.Provider;
+    calls = [];
+
+    jest
+      .mocked(BlockFinder.prototype.findBlocksForDateRange)
+      .mockImplementation(async function (this: BlockFinder) {
+        calls.push("findBlocks");
+        Object.assign(this, {
+          rpcCallsByDate: { "2024-01-01": 9, "2024-01-02": 6 },
+        });
+        return {
+          metadata: { chain_id: 42170 },
+          blocks: { "2024-01-01": 100, "2024-01-02": 200 },
+        };
+      });
+    jest
+      .mocked(DistributorDetector.prototype.detectDistributors)
+      .mockImplementation(async () => {
+        calls.push("detectDistributors");
+        return {
+          metadata: { chain_id: 42170, arbowner_address: "0x" },
+          distributors: {},
+        };
+      });
+    jest
+      .mocked(BalanceFetcher.prototype.fetchBalances)
+      .mockImplementation(async () => {
+        calls.push("fetchBalances");
+      });
+    jest
+      .mocked(EventScanner.prototype.scanOutflows)
+      .mockImplementation(async () => {
+        calls.push("scanOutflows");
+      });
+    jest
+      .mocked(EventScanner.prototype.scanRecipientUpdates)
+      .mockImplementation(async () => {
+        calls.push("scanRecipientUpdates");
+      });
+    jest
+      .mocked(FeeCalculator.prototype.calculateFees)
+      .mockImplementation(() => {
+        calls.push("calculateFees");
+        return report;
+      });
+
+    pipeline = new Pipeline(fileManager, provider, () => {});
+  });
+
+  it("runs every stage in order and returns the fee report", async () => {
+    const result = await pipeline.run(startDate, endDate);
+
+    expect(result).toBe(report);
+    expect(calls).toEqual([
+      "findBlocks",
+      "detectDistributors",
+      "fetchBalances",
+      "scanOutflows",
+      "scanRecipientUpdates",
+      "calculateFees",
+    ]);
+    expect(BlockFinder.prototype.findBlocksForDateRange).toHaveBeenCalledWith(
+      startDate,
+      endDate,
+    );
+  });
+
+  it("logs the getBlock calls spent per date by the block finder", async () => {
+    const log = jest.fn();
+    pipeline = new Pipeline(fileManager, provider, log);
+
+    await pipeline.run(startDate, endDate);
+
+    expect(log).toHaveBeenCalledWith(
+      "Found 2 end-of-day blocks with 15 getBlock calls (7.5 per date)",
+    );
+  });
+
+  it("detects distributors up to the latest known date within the range", async () => {
+    await pipeline.run(startDate, endDate);
+
+    expect(
+      DistributorDetector.prototype.detectDistributors,
+    ).toHaveBeenCalledWith(new Date("2024-01-02T00:00:00Z"));
+  });
+
+  it("passes the selected chain to chain-aware stages", async () => {
+    pipeline = new Pipeline(fileManager, provider, () => {}, ARBITRUM_ONE);
+
+    await pipeline.run(startDate, endDate);
+
+    expect(BlockFinder).toHaveBeenCalledWith(
+      fileManager,
+      provider,
+      ARBITRUM_ONE,
+    );
+    expect(DistributorDetector).toHaveBeenCalledWith(
+      fileManager,
+      provider,
+      ARBITRUM_ONE,
+    );
+    expect(BalanceFetcher).toHaveBeenCalledWith(
+      fileManager,
+      provider,
+      ARBITRUM_ONE,
+    );
+  });
+
+  it("stops at the first failing stage", async () => {
+    jest
+      .mocked(BalanceFetcher.prototype.fetchBalances)
+      .mockRejectedValue(new Error("RPC down"));
+
+    await expect(pipeline.run(startDate, endDate)).rejects.toThrow("RPC down");
+
+    expect(calls).toEqual(["findBlocks", "detectDistributors"]);
+    expect(EventScanner.prototype.scanOutflows).not.toHaveBeenCalled();
+    expect(FeeCalculator.prototype.calculateFees).not.toHaveBeenCalled();
+  });
+
+  it("keeps what each stage saved when a later stage fails", async () => {
+    jest
+      .mocked(BalanceFetcher.prototype.fetchBalances)
+      .mockRejectedValue(new Error("RPC down"));
+
+    await expect(pipeline.run(startDate, endDate)).rejects.toThrow("RPC down");
+
+    // Stages save per date or per distributor, so nothing is staged or rolled back
+    expect(fileManager.beginTransaction).not.toHaveBeenCalled();
+    expect(fileManager.rollbackTransaction).not.toHaveBeenCalled();
+  });
+
+  it("fails when no end-of-day block exists within the range", async () => {
+    jest
+      .mocked(BlockFinder.prototype.findBlocksForDateRange)
+      .mockImplementation(async function (this: BlockFinder) {
+        Object.assign(this, { rpcCallsByDate: {} });
+        return { metadata: { chain_id: 42170 }, blocks: {} };
+      });
+
+    await expect(pipeline.run(startDate, endDate)).rejects.toThrow(
+      "No end-of-day blocks found on or before 2024-01-03",
+    );
+    expect(
+      DistributorDetector.prototype.detectDistributors,
+    ).not.toHaveBeenCalled();
+  });
+
+  describe("repairGaps", () => {
+    const DISTRIBUTOR = "0x37daA99b1cAAE0c22670963e103a66CA2c5dB2dB";
+    const noGaps: GapReport = {
+      metadata: { chain_id: 42170 },
+      latest_date: "2024-01-03",
+      block_numbers: [],
+      distributors: {},
+    };
+
+    beforeEach(() => {
+      jest.mocked(fileManager.readBlockNumbers).mockReturnValue({
+        metadata: { chain_id: 42170 },
+        blocks: { "2024-01-01": 100, "2024-01-03": 300 },
+      });
+    });
+
+    it("fills missing blocks before the distributors' missing dates", async () => {
+      jest
+        .mocked(GapDetector.prototype.findGaps)
+        .mockReturnValueOnce({
+          ...noGaps,
+          block_numbers: ["2024-01-02"],
+          distributors: {
+            [DISTRIBUTOR]: { balances: ["2024-01-02"], outflows: [] },
+          },
+        })
+        .mockReturnValueOnce(noGaps);
+
+      expect(await pipeline.repairGaps()).toBe(noGaps);
+
+      expect(calls).toEqual(["findBlocks", "fetchBalances", "scanOutflows"]);
+      expect(BlockFinder.prototype.findBlocksForDateRange).toHaveBeenCalledWith(
+        new Date("2024-01-02T00:00:00Z"),
+        new Date("2024-01-03T00:00:00Z"),
+      );
+      expect(BalanceFetcher.prototype.fetchBalances).toHaveBeenCalledWith(
+        DISTRIBUTOR,
+      );
+      expect(EventScanner.prototype.scanOutflows).toHaveBeenCalledWith(
+        DISTRIBUTOR,
+      );
+    });
+
+    it("writes the stale marks of filled dates in one transaction", async () => {
+      jest
+        .mocked(GapDetector.prototype.findGaps)
+        .mockReturnValueOnce({ ...noGaps, block_numbers: ["2024-01-02"] })
+        .mockReturnValueOnce(noGaps);
+      jest
+        .mocked(BlockFinder.prototype.findBlocksForDateRange)
+        .mockImplementation(async function (this: BlockFinder) {
+          calls.push("findBlocks");
+          Object.assign(this, { rpcCallsByDate: { "2024-01-02": 5 } });
+          return {
+            metadata: { chain_id: 42170 },
+            blocks: { "2024-01-01": 100, "2024-01-02": 200, "2024-01-03": 300 },
+          };
+        });
+      jest.mocked(fileManager.readDistributors).mockReturnValue({
+        metadata: { chain_id: 42170, arbowner_address: "0x" },
+        distributors: { [DISTRIBUTOR]: {} as DistributorInfo },
+      });
+      jest.mocked(fileManager.readDistributorOutflows).mockReturnValue({
+        metadata: { chain_id: 42170, reward_distributor: DISTRIBUTOR },
+        outflows: {
+          "2024-01-03": {
+            block_number: 300,
+            total_outflow_wei: "0",
+            events: [],
+          },
+        },
+      });
+      jest
+        .mocked(fileManager.beginTransaction)
+        .mockImplementation(() => calls.push("begin"));
+      jest
+        .mocked(fileManager.writeDistributorOutflows)
+        .mockImplementation(() => calls.push("writeOutflows"));
+      jest
+        .mocked(fileManager.commitTransaction)
+        .mockImplementation(() => calls.push("commit"));
+
+      await pipeline.repairGaps();
+
+      expect(calls).toEqual([
+        "findBlocks",
+        ...["begin", "writeOutflows", "commit"],
+        "fetchBalances",
+        "scanOutflows",
+      ]);
+      expect(fileManager.writeDistributorOutflows).toHaveBeenCalledWith(
+        DISTRIBUTOR,
+        expect.objectContaining({
+          metadata: expect.objectContaining({ stale_dates: ["2024-01-03"] }),
+        }),
+      );
+    });
+
+    it("does nothing when the store has no gaps", async () => {
+      jest.mocked(GapDetector.prototype.findGaps).mockReturnValue(noGaps);
+
+      expect(await pipeline.repairGaps()).toBe(noGaps);
+      expect(calls).toEqual([]);
+    });
+  });
+});
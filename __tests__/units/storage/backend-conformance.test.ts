@@ -0,0 +1,341 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileManager } from "../../../src/file-manager";
+import { FileSystemBackend } from "../../../src/storage/filesystem-backend";
+import { MemoryBackend } from "../../../src/storage/memory-backend";
+import { SqliteBackend } from "../../../src/storage/sqlite-backend";
+import {
+  BalanceData,
+  BlockNumberData,
+  CHAIN_IDS,
+  DistributorsData,
+  DistributorType,
+  FileManagerError,
+  OutflowData,
+  RecipientsData,
+  StorageBackend,
+  StoreViolationKind,
+} from "../../../src/types";
+import {
+  VALID_ADDRESS,
+  VALID_ADDRESS_2,
+  VALID_TX_HASH,
+  canTestSqlite,
+  withSchemaVersion,
+} from "../file-manager/test-utils";
+
+const BALANCES_KEY = `distributors/${VALID_ADDRESS}/balances.json`;
+
+/** Opens connections to one store per test, as separate runs would */
+interface BackendFactory {
+  /** Opens the store, returning a new backend for it unless the store lives in one */
+  open(): StorageBackend;
+  cleanup(): void;
+}
+
+function createFileSystemFactory(): BackendFactory {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "backend-test-"));
+  return {
+    open: () =>
+      new FileSystemBackend(path.join(tempDir, "store"), { durable: false }),
+    cleanup: () => fs.rmSync(tempDir, { recursive: true, force: true }),
+  };
+}
+
+function createMemoryFactory(): BackendFactory {
+  const backend = new MemoryBackend();
+  return { open: () => backend, cleanup: () => {} };
+}
+
+function createSqliteFactory(): BackendFactory {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "backend-test-"));
+  const opened: SqliteBackend[] = [];
+  return {
+    open: () => {
+      const backend = new SqliteBackend(path.join(tempDir, "store.db"));
+      opened.push(backend);
+      return backend;
+    },
+    cleanup: () => {
+      for (const backend of opened) backend.close();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    },
+  };
+}
+
+function createBlocks(blockNumber: number): BlockNumberData {
+  return {
+    metadata: { chain_id: CHAIN_IDS.ARBITRUM_NOVA },
+    blocks: { "2024-01-01": blockNumber },
+  };
+}
+
+function createDistributors(): DistributorsData {
+  return {
+    metadata: {
+      chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+      arbowner_address: "0x0000000000000000000000000000000000000070",
+    },
+    distributors: {
+      [VALID_ADDRESS]: {
+        type: DistributorType.L2_BASE_FEE,
+        block: 50,
+        date: "2024-01-01",
+        tx_hash: VALID_TX_HASH,
+        method: "0x57f585db",
+        owner: VALID_ADDRESS,
+        event_data: "0x",
+        is_reward_distributor: true,
+        distributor_address: VALID_ADDRESS,
+      },
+    },
+  };
+}
+
+function createBalances(balanceWei: string): BalanceData {
+  return {
+    metadata: {
+      chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+      reward_distributor: VALID_ADDRESS,
+    },
+    balances: { "2024-01-01": { block_number: 100, balance_wei: balanceWei } },
+  };
+}
+
+function createOutflows(): OutflowData {
+  return {
+    metadata: {
+      chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+      reward_distributor: VALID_ADDRESS,
+    },
+    outflows: {
+      "2024-01-01": { block_number: 100, total_outflow_wei: "0", events: [] },
+    },
+  };
+}
+
+function createRecipients(): RecipientsData {
+  return {
+    metadata: {
+      chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+      reward_distributor: VALID_ADDRESS,
+      last_scanned_block: 20000000,
+    },
+    updates: [
+      {
+        block_number: 12345678,
+        date: "2024-01-15",
+        tx_hash: VALID_TX_HASH,
+        recipient_group: "0x" + "1".repeat(64),
+        recipient_weights: "0x" + "2".repeat(64),
+        recipients: ["0xAaa1234567890123456789012345678901234567"],
+        weights: [10000],
+      },
+    ],
+  };
+}
+
+const BACKENDS: [string, () => BackendFactory][] = [
+  ["FileSystemBackend", createFileSystemFactory],
+  ["MemoryBackend", createMemoryFactory],
+];
+if (canTestSqlite()) {
+  BACKENDS.push(["SqliteBackend", createSqliteFactory]);
+} else {
+  it.skip("SqliteBackend needs Node.js 22.5 or later", () => {});
+}
+
+describe.each(BACKENDS)("%s - conformance", (_name, createFactory) => {
+  let factory: BackendFactory;
+  let fileManager: FileManager;
+
+  beforeEach(() => {
+    factory = createFactory();
+    fileManager = new FileManager(factory.open());
+  });
+
+  afterEach(() => {
+    fileManager.releaseLock();
+    factory.cleanup();
+  });
+
+  it("reads back every kind of store file and returns undefined for missing ones", () => {
+    expect(fileManager.readBlockNumbers()).toBeUndefined();
+    expect(fileManager.readDistributorBalances(VALID_ADDRESS)).toBeUndefined();
+
+    fileManager.ensureStoreDirectory();
+    fileManager.writeBlockNumbers(createBlocks(100));
+    fileManager.writeDistributors(createDistributors());
+    fileManager.writeDistributorBalances(VALID_ADDRESS, createBalances("1"));
+    fileManager.writeDistributorOutflows(VALID_ADDRESS, createOutflows());
+    fileManager.writeDistributorRecipients(VALID_ADDRESS, createRecipients());
+
+    const reopened = new FileManager(factory.open());
+    expect(reopened.readBlockNumbers()).toEqual(createBlocks(100));
+    expect(reopened.readDistributors()).toEqual(createDistributors());
+    expect(reopened.readDistributorBalances(VALID_ADDRESS)).toEqual(
+      createBalances("1"),
+    );
+    expect(reopened.readDistributorOutflows(VALID_ADDRESS)).toEqual(
+      createOutflows(),
+    );
+    expect(reopened.readDistributorRecipients(VALID_ADDRESS)).toEqual(
+      createRecipients(),
+    );
+  });
+
+  it("stores files as formatted JSON with the schema version", () => {
+    fileManager.writeBlockNumbers(createBlocks(100));
+
+    expect(factory.open().read("block_numbers.json", "test")).toBe(
+      JSON.stringify(withSchemaVersion(createBlocks(100)), null, 2),
+    );
+  });
+
+  it("commits a transaction's writes together and discards rolled back ones", () => {
+    fileManager.writeBlockNumbers(createBlocks(100));
+
+    fileManager.beginTransaction();
+    fileManager.writeBlockNumbers(createBlocks(200));
+    fileManager.writeDistributorBalances(VALID_ADDRESS, createBalances("2"));
+    expect(fileManager.readBlockNumbers()).toEqual(createBlocks(200));
+    expect(new FileManager(factory.open()).readBlockNumbers()).toEqual(
+      createBlocks(100),
+    );
+    fileManager.commitTransaction();
+
+    fileManager.beginTransaction();
+    fileManager.writeBlockNumbers(createBlocks(300));
+    fileManager.rollbackTransaction();
+
+    const reopened = new FileManager(factory.open());
+    expect(reopened.readBlockNumbers()).toEqual(createBlocks(200));
+    expect(reopened.readDistributorBalances(VALID_ADDRESS)).toEqual(
+      createBalances("2"),
+    );
+  });
+
+  it("lists only directories that hold files", () => {
+    const backend = factory.open();
+    backend.write(BALANCES_KEY, "{}", "test");
+    backend.write(`distributors/${VALID_ADDRESS_2}/a/b.json`, "{}", "test");
+    backend.write("distributors/loose.json", "{}", "test");
+
+    expect(backend.listDirectories("distributors", "test")).toEqual(
+      [VALID_ADDRESS, VALID_ADDRESS_2].sort(),
+    );
+    expect(backend.listDirectories("missing", "test")).toEqual([]);
+  });
+
+  it("verifies the store and reports invalid files by key", () => {
+    fileManager.writeBlockNumbers(createBlocks(100));
+    fileManager.writeDistributors(createDistributors());
+    fileManager.writeDistributorBalances(VALID_ADDRESS, createBalances("1"));
+    expect(fileManager.verifyStore()).toEqual({
+      checked_files: 3,
+      violations: [],
+    });
+
+    const backend = factory.open();
+    backend.write(BALANCES_KEY, "{ not json", "test");
+    backend.write(
+      `distributors/${VALID_ADDRESS_2}/outflows.json`,
+      JSON.stringify(createOutflows()),
+      "test",
+    );
+
+    const report = new FileManager(factory.open()).verifyStore();
+    expect(report.violations.map(({ file, kind }) => ({ file, kind }))).toEqual(
+      [
+        { file: BALANCES_KEY, kind: StoreViolationKind.INVALID_JSON },
+        {
+          file: `distributors/${VALID_ADDRESS_2}`,
+          kind: StoreViolationKind.UNKNOWN_DISTRIBUTOR_DIRECTORY,
+        },
+        {
+          file: `distributors/${VALID_ADDRESS_2}/outflows.json`,
+          kind: StoreViolationKind.INVALID_DATA,
+        },
+      ],
+    );
+  });
+
+  it("names the file in errors for files it cannot parse", () => {
+    factory.open().write(BALANCES_KEY, "{ not json", "test");
+
+    expect(() => fileManager.readDistributorBalances(VALID_ADDRESS)).toThrow(
+      expect.objectContaining({
+        name: "FileManagerError",
+        operation: "readDistributorBalances",
+        path: factory.open().describe(BALANCES_KEY),
+      }),
+    );
+  });
+
+  it("gives the lock to one run at a time", () => {
+    expect(fileManager.acquireLock()).toEqual([]);
+    expect(fileManager.acquireLock()).toEqual([]);
+
+    const other = new FileManager(factory.open());
+    expect(() => other.acquireLock()).toThrow(
+      expect.objectContaining({
+        name: "FileManagerError",
+        operation: "acquireLock",
+        message: expect.stringMatching(
+          new RegExp(
+            `^Store is locked by another run\\n.*PID ${process.pid}`,
+            "s",
+          ),
+        ),
+      }),
+    );
+
+    fileManager.releaseLock();
+    other.acquireLock();
+    other.releaseLock();
+  });
+
+  it("refuses a store written by a newer version and releases the lock", () => {
+    factory.open().write(
+      "block_numbers.json",
+      JSON.stringify({
+        ...createBlocks(100),
+        metadata: { schema_version: 99 },
+      }),
+      "test",
+    );
+
+    expect(() => fileManager.acquireLock()).toThrow(
+      /^File was written by a newer version of the fee tracker\n/,
+    );
+
+    const other = new FileManager(factory.open());
+    factory.open().write("block_numbers.json", "{}", "test");
+    expect(other.acquireLock()).toEqual([]);
+    other.releaseLock();
+  });
+
+  it("migrates files written without a schema version", () => {
+    factory
+      .open()
+      .write("block_numbers.json", JSON.stringify(createBlocks(100)), "test");
+
+    expect(fileManager.migrateStore(false).files).toEqual([
+      { file: "block_numbers.json", from_version: 0, to_version: 1 },
+    ]);
+    expect(
+      JSON.parse(factory.open().read("block_numbers.json", "test") ?? ""),
+    ).toEqual(withSchemaVersion(createBlocks(100)));
+  });
+
+  it("refuses writes when opened read-only", () => {
+    const readOnly = new FileManager(factory.open(), { readOnly: true });
+
+    expect(() => readOnly.writeBlockNumbers(createBlocks(100))).toThrow(
+      FileManagerError,
+    );
+    expect(() => readOnly.acquireLock()).toThrow(/^Store is open read-only\n/);
+    expect(readOnly.readBlockNumbers()).toBeUndefined();
+  });
+});
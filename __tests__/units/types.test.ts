@@ -268,6 +268,26 @@ describe("Core Types", () => {
           outflows: {},
         }),
         writeDistributorOutflows: () => {},
+        readDistributorRecipients: () => ({
+          metadata: {
+            chain_id: 42170,
+            reward_distributor: "",
+            last_scanned_block: 0,
+          },
+          updates: [],
+        }),
+        writeDistributorRecipients: () => {},
+        verifyStore: () => ({ checked_files: 0, violations: [] }),
+        migrateStore: (dryRun: boolean) => ({
+          schema_version: 1,
+          dry_run: dryRun,
+          files: [],
+        }),
+        beginTransaction: () => {},
+        commitTransaction: () => {},
+        rollbackTransaction: () => {},
+        acquireLock: () => [],
+        releaseLock: () => {},
         ensureStoreDirectory: () => {},
         validateAddress: (address: string) => address as Address,
         formatDate: (date: Date) =>
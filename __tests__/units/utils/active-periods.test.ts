@@ -0,0 +1,110 @@
+import {
+  getActivePeriods,
+  isActiveOn,
+  isBalanceTrackedOn,
+} from "../../../src/utils/active-periods";
+import { DistributorInfo, DistributorType } from "../../../src/types";
+
+const DISTRIBUTOR_INFO: DistributorInfo = {
+  type: DistributorType.L2_SURPLUS_FEE,
+  block: 100,
+  date: "2024-01-01",
+  tx_hash: "0x" + "a".repeat(64),
+  method: "0xfcdde2b4",
+  owner: "0x9C040726F2A657226Ed95712245DeE84b650A1b5",
+  event_data: "0x",
+  is_reward_distributor: true,
+  distributor_address: "0x37daA99b1cAAE0c22670963e103a66CA2c5dB2dB",
+};
+
+const REACTIVATED_INFO: DistributorInfo = {
+  ...DISTRIBUTOR_INFO,
+  active_periods: [
+    {
+      from_block: 100,
+      from_date: "2024-01-01",
+      until_block: 200,
+      until_date: "2024-01-02",
+    },
+    { from_block: 500, from_date: "2024-01-05" },
+  ],
+};
+
+describe("active periods", () => {
+  describe("getActivePeriods", () => {
+    it("derives one period from entries written without active periods", () => {
+      expect(getActivePeriods(DISTRIBUTOR_INFO)).toEqual([
+        { from_block: 100, from_date: "2024-01-01" },
+      ]);
+      expect(
+        getActivePeriods({
+          ...DISTRIBUTOR_INFO,
+          active_from_block: 120,
+          active_from_date: "2024-01-02",
+          active_until_block: 300,
+          active_until_date: "2024-01-03",
+        }),
+      ).toEqual([
+        {
+          from_block: 120,
+          from_date: "2024-01-02",
+          until_block: 300,
+          until_date: "2024-01-03",
+        },
+      ]);
+    });
+
+    it("returns recorded active periods as they are", () => {
+      expect(getActivePeriods(REACTIVATED_INFO)).toBe(
+        REACTIVATED_INFO.active_periods,
+      );
+    });
+  });
+
+  describe("isActiveOn", () => {
+    it("includes the dates a period starts and ends and excludes the dates between periods", () => {
+      const activeDates = [
+        "2023-12-31",
+        "2024-01-01",
+        "2024-01-02",
+        "2024-01-03",
+        "2024-01-04",
+        "2024-01-05",
+        "2024-02-01",
+      ].filter((date) => isActiveOn(REACTIVATED_INFO, date));
+
+      expect(activeDates).toEqual([
+        "2024-01-01",
+        "2024-01-02",
+        "2024-01-05",
+        "2024-02-01",
+      ]);
+    });
+  });
+
+  describe("isBalanceTrackedOn", () => {
+    it("adds the day before each reactivation to the active dates", () => {
+      expect(isBalanceTrackedOn(REACTIVATED_INFO, "2024-01-03")).toBe(false);
+      expect(isBalanceTrackedOn(REACTIVATED_INFO, "2024-01-04")).toBe(true);
+      expect(isBalanceTrackedOn(REACTIVATED_INFO, "2024-01-05")).toBe(true);
+      expect(isBalanceTrackedOn(DISTRIBUTOR_INFO, "2023-12-31")).toBe(false);
+    });
+
+    it("finds the day before a reactivation across month and year ends", () => {
+      const info: DistributorInfo = {
+        ...DISTRIBUTOR_INFO,
+        active_periods: [
+          {
+            from_block: 100,
+            from_date: "2023-11-01",
+            until_block: 200,
+            until_date: "2023-11-02",
+          },
+          { from_block: 500, from_date: "2024-01-01" },
+        ],
+      };
+
+      expect(isBalanceTrackedOn(info, "2023-12-31")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { ethers } from "ethers";
+import { verifyStoreChain } from "../../../src/utils/chain-guard";
+import { ARBITRUM_NOVA } from "../../../src/constants/chains";
+import {
+  ChainMismatchError,
+  DistributorsData,
+  FileManager,
+} from "../../../src/types";
+
+const DISTRIBUTOR = "0x37daA99b1cAAE0c22670963e103a66CA2c5dB2dB";
+
+describe("verifyStoreChain", () => {
+  let fileManager: jest.Mocked<FileManager>;
+  let provider: jest.Mocked<ethers.Provider>;
+
+  const distributorsData: DistributorsData = {
+    metadata: {
+      chain_id: 42170,
+      arbowner_address: "0x0000000000000000000000000000000000000070",
+      last_scanned_block: 1000,
+    },
+    distributors: {},
+  };
+
+  beforeEach(() => {
+    fileManager = {
+      readBlockNumbers: jest
+        .fn()
+        .mockReturnValue({ metadata: { chain_id: 42170 }, blocks: {} }),
+      readDistributors: jest.fn().mockReturnValue({
+        ...distributorsData,
+        distributors: { [DISTRIBUTOR]: {} },
+      }),
+      readDistributorBalances: jest.fn(),
+      readDistributorOutflows: jest.fn(),
+      readDistributorRecipients: jest.fn(),
+    } as unknown as jest.Mocked<FileManager>;
+    provider = {
+      getNetwork: jest.fn().mockResolvedValue({ chainId: BigInt(42170) }),
+    } as unknown as jest.Mocked<ethers.Provider>;
+  });
+
+  it("passes when every store file matches the provider", async () => {
+    fileManager.readDistributorOutflows.mockReturnValue({
+      metadata: { chain_id: 42170, reward_distributor: DISTRIBUTOR },
+      outflows: {},
+    });
+
+    await expect(
+      verifyStoreChain(fileManager, provider, ARBITRUM_NOVA),
+    ).resolves.toBeUndefined();
+    expect(fileManager.readDistributorBalances).toHaveBeenCalledWith(
+      DISTRIBUTOR,
+    );
+  });
+
+  it("passes for an empty store", async () => {
+    fileManager.readBlockNumbers.mockReturnValue(undefined);
+    fileManager.readDistributors.mockReturnValue(undefined);
+
+    await expect(
+      verifyStoreChain(fileManager, provider, ARBITRUM_NOVA),
+    ).resolves.toBeUndefined();
+  });
+
+  it("rejects a provider on another chain than selected", async () => {
+    provider.getNetwork.mockResolvedValue({
+      chainId: BigInt(42161),
+    } as unknown as ethers.Network);
+
+    await expect(
+      verifyStoreChain(fileManager, provider, ARBITRUM_NOVA),
+    ).rejects.toThrow(
+      new ChainMismatchError(
+        "Provider is connected to a different chain than selected\n  Selected: arbitrum-nova (42170)\n  Provider chain_id: 42161\n  Check: Point RPC_URL at arbitrum-nova or select chain 42161 with --chain",
+        42161,
+        { selectedChainId: 42170 },
+      ),
+    );
+  });
+
+  it("names the store file that disagrees with the provider", async () => {
+    fileManager.readDistributorBalances.mockReturnValue({
+      metadata: { chain_id: 42161, reward_distributor: DISTRIBUTOR },
+      balances: {},
+    });
+
+    try {
+      await verifyStoreChain(fileManager, provider, ARBITRUM_NOVA);
+      fail("Expected verifyStoreChain to throw");
+    } catch (error) {
+      expect(error).toBeInstanceOf(ChainMismatchError);
+      const mismatch = error as ChainMismatchError;
+      expect(mismatch.message).toBe(
+        `Store file belongs to a different chain than the provider\n  File: distributors/${DISTRIBUTOR}/balances.json\n  Stored chain_id: 42161\n  Provider chain_id: 42170\n  Check: Point RPC_URL at chain 42161, or move the file out of the store for chain 42170`,
+      );
+      expect(mismatch.providerChainId).toBe(42170);
+      expect(mismatch.context).toEqual({
+        file: `distributors/${DISTRIBUTOR}/balances.json`,
+        storedChainId: 42161,
+      });
+    }
+  });
+
+  it("checks block_numbers.json before other files", async () => {
+    fileManager.readBlockNumbers.mockReturnValue({
+      metadata: { chain_id: 1 },
+      blocks: {},
+    });
+    fileManager.readDistributors.mockReturnValue({
+      ...distributorsData,
+      metadata: { ...distributorsData.metadata, chain_id: 2 },
+    });
+
+    await expect(
+      verifyStoreChain(fileManager, provider, ARBITRUM_NOVA),
+    ).rejects.toThrow("File: block_numbers.json");
+  });
+
+  it("checks a file manager and provider pair once per chain", async () => {
+    await verifyStoreChain(fileManager, provider, ARBITRUM_NOVA);
+    await verifyStoreChain(fileManager, provider, ARBITRUM_NOVA);
+
+    expect(provider.getNetwork).toHaveBeenCalledTimes(1);
+    expect(fileManager.readDistributors).toHaveBeenCalledTimes(1);
+
+    // Another provider is checked again
+    const otherProvider = {
+      getNetwork: jest.fn().mockResolvedValue({ chainId: BigInt(42161) }),
+    } as unknown as jest.Mocked<ethers.Provider>;
+    await expect(
+      verifyStoreChain(fileManager, otherProvider, ARBITRUM_NOVA),
+    ).rejects.toThrow(ChainMismatchError);
+  });
+
+  it("checks a pair again after a failed check", async () => {
+    fileManager.readBlockNumbers.mockReturnValueOnce({
+      metadata: { chain_id: 1 },
+      blocks: {},
+    });
+
+    await expect(
+      verifyStoreChain(fileManager, provider, ARBITRUM_NOVA),
+    ).rejects.toThrow(ChainMismatchError);
+    await expect(
+      verifyStoreChain(fileManager, provider, ARBITRUM_NOVA),
+    ).resolves.toBeUndefined();
+    expect(provider.getNetwork).toHaveBeenCalledTimes(2);
+  });
+
+  it("wraps network failures in an RPCError", async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    provider.getNetwork.mockRejectedValue(new Error("connection refused"));
+
+    const result = verifyStoreChain(fileManager, provider, ARBITRUM_NOVA);
+    const assertion = expect(result).rejects.toMatchObject({
+      name: "RPCError",
+      message: "Failed to get network information after 3 retries",
+      operation: "getNetwork",
+      retryCount: 3,
+    });
+    await jest.runAllTimersAsync();
+    await assertion;
+
+    jest.useRealTimers();
+  });
+});
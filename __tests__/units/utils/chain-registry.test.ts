@@ -0,0 +1,117 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CHAINS_FILE,
+  loadChainRegistry,
+} from "../../../src/utils/chain-registry";
+import { CHAIN_REGISTRY } from "../../../src/constants/chains";
+import { CONTRACTS, FileManagerError } from "../../../src/types";
+
+const ORBIT_CHAIN = {
+  chain_id: 660279,
+  name: "xai-mainnet",
+  finality_blocks: 1000,
+  default_chunk_size: 5000,
+  genesis_date: "2024-01-09",
+};
+
+describe("loadChainRegistry", () => {
+  let storeDirectory: string;
+
+  function writeChainsFile(data: unknown): void {
+    fs.writeFileSync(
+      path.join(storeDirectory, CHAINS_FILE),
+      typeof data === "string" ? data : JSON.stringify(data),
+    );
+  }
+
+  function captureError(): FileManagerError {
+    try {
+      loadChainRegistry(storeDirectory);
+    } catch (error) {
+      if (error instanceof FileManagerError) return error;
+      throw error;
+    }
+    throw new Error("Expected loadChainRegistry to throw");
+  }
+
+  beforeEach(() => {
+    storeDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chain-registry-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storeDirectory, { recursive: true, force: true });
+  });
+
+  it("returns the built-in chains when the store registers none", () => {
+    expect(loadChainRegistry(storeDirectory)).toBe(CHAIN_REGISTRY);
+  });
+
+  it("adds registered chains, defaulting to the ArbOwner precompile", () => {
+    writeChainsFile({
+      chains: [
+        ORBIT_CHAIN,
+        {
+          ...ORBIT_CHAIN,
+          chain_id: 33139,
+          name: "apechain",
+          arbowner_address: "0x00000000000000000000000000000000000000aa",
+        },
+      ],
+    });
+
+    expect(loadChainRegistry(storeDirectory)).toEqual([
+      ...CHAIN_REGISTRY,
+      { ...ORBIT_CHAIN, arbowner_address: CONTRACTS.ARB_OWNER },
+      {
+        ...ORBIT_CHAIN,
+        chain_id: 33139,
+        name: "apechain",
+        arbowner_address: "0x00000000000000000000000000000000000000AA",
+      },
+    ]);
+  });
+
+  it("reports the field of an invalid entry", () => {
+    writeChainsFile({ chains: [{ ...ORBIT_CHAIN, name: "Xai Mainnet" }] });
+
+    const error = captureError();
+
+    expect(error.operation).toBe("loadChainRegistry");
+    expect(error.pointer).toBe("/chains/0/name");
+    expect(error.message).toBe(
+      `Invalid chain in chains.json\n  File: ${path.join(storeDirectory, CHAINS_FILE)}\n  Field: /chains/0/name\n  Expected: lowercase slug such as xai-mainnet\n  Got: "Xai Mainnet"\n  Check: Fix the entry in chains.json`,
+    );
+  });
+
+  it("rejects names that look like chain ids and missing fields", () => {
+    writeChainsFile({ chains: [{ ...ORBIT_CHAIN, name: "660279" }] });
+    expect(captureError().pointer).toBe("/chains/0/name");
+
+    const withoutGenesis: Partial<typeof ORBIT_CHAIN> = { ...ORBIT_CHAIN };
+    delete withoutGenesis.genesis_date;
+    writeChainsFile({ chains: [withoutGenesis] });
+    expect(captureError().message).toContain(
+      "Field: /chains/0/genesis_date\n  Expected: string\n  Got: missing",
+    );
+  });
+
+  it("rejects chain ids and names already registered", () => {
+    writeChainsFile({ chains: [{ ...ORBIT_CHAIN, chain_id: 42170 }] });
+    expect(captureError().message).toContain(
+      "Field: /chains/0/chain_id\n  Expected: a chain_id not used by another chain\n  Got: 42170",
+    );
+
+    writeChainsFile({
+      chains: [ORBIT_CHAIN, { ...ORBIT_CHAIN, chain_id: 1 }],
+    });
+    expect(captureError().pointer).toBe("/chains/1/name");
+  });
+
+  it("reports a file that is not valid JSON", () => {
+    writeChainsFile("{");
+
+    expect(captureError().message).toMatch(/^File is not valid JSON\n/);
+  });
+});
@@ -0,0 +1,101 @@
+import { ethers } from "ethers";
+import {
+  getSafeBlockNumber,
+  resolveFinality,
+} from "../../../src/utils/finality";
+import { ARBITRUM_NOVA } from "../../../src/constants/chains";
+import { ChainConfig, RPCError } from "../../../src/types";
+
+const HEAD_BLOCK = 10000;
+const HEAD_TIMESTAMP = 1700000000;
+
+describe("finality", () => {
+  let provider: jest.Mocked<ethers.Provider>;
+
+  // One block every 2 seconds up to the head
+  function blockAt(blockNumber: number): ethers.Block {
+    return {
+      number: blockNumber,
+      timestamp: HEAD_TIMESTAMP - (HEAD_BLOCK - blockNumber) * 2,
+    } as ethers.Block;
+  }
+
+  beforeEach(() => {
+    provider = {
+      getBlockNumber: jest.fn().mockResolvedValue(HEAD_BLOCK),
+      getBlock: jest.fn(async (blockTag: ethers.BlockTag) =>
+        blockAt(blockTag === "latest" ? HEAD_BLOCK : Number(blockTag)),
+      ),
+    } as unknown as jest.Mocked<ethers.Provider>;
+  });
+
+  describe("resolveFinality", () => {
+    it("defaults to the chain's finality depth", () => {
+      expect(resolveFinality(ARBITRUM_NOVA)).toEqual({
+        kind: "depth",
+        blocks: 1000,
+      });
+    });
+
+    it("prefers the chain's finality strategy", () => {
+      const chain: ChainConfig = {
+        ...ARBITRUM_NOVA,
+        finality: { kind: "tag", tag: "safe" },
+      };
+
+      expect(resolveFinality(chain)).toEqual({ kind: "tag", tag: "safe" });
+    });
+  });
+
+  describe("getSafeBlockNumber", () => {
+    it("subtracts the finality depth from the current block", async () => {
+      expect(await getSafeBlockNumber(provider, ARBITRUM_NOVA)).toBe(9000);
+    });
+
+    it("finds the newest block at least the given age behind the head", async () => {
+      const chain: ChainConfig = {
+        ...ARBITRUM_NOVA,
+        finality: { kind: "age", seconds: 3601 },
+      };
+
+      // 3601 seconds at 2 seconds per block is 1800.5 blocks behind the head
+      expect(await getSafeBlockNumber(provider, chain)).toBe(8199);
+    });
+
+    it("returns -1 when no block is old enough", async () => {
+      const chain: ChainConfig = {
+        ...ARBITRUM_NOVA,
+        finality: { kind: "age", seconds: HEAD_BLOCK * 2 + 1 },
+      };
+
+      expect(await getSafeBlockNumber(provider, chain)).toBe(-1);
+    });
+
+    it("uses the provider's block tag", async () => {
+      provider.getBlock.mockResolvedValue(blockAt(9500));
+      const chain: ChainConfig = {
+        ...ARBITRUM_NOVA,
+        finality: { kind: "tag", tag: "finalized" },
+      };
+
+      expect(await getSafeBlockNumber(provider, chain)).toBe(9500);
+      expect(provider.getBlock).toHaveBeenCalledWith("finalized");
+    });
+
+    it("throws when the provider does not support the block tag", async () => {
+      provider.getBlock.mockResolvedValue(null);
+      const chain: ChainConfig = {
+        ...ARBITRUM_NOVA,
+        finality: { kind: "tag", tag: "safe" },
+      };
+
+      await expect(getSafeBlockNumber(provider, chain)).rejects.toThrow(
+        new RPCError(
+          'Block safe not found; the provider may not support the "safe" block tag',
+          "getBlock(safe)",
+          0,
+        ),
+      );
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  findSchemaViolation,
+  JsonSchema,
+} from "../../../src/utils/json-schema";
+
+describe("findSchemaViolation", () => {
+  const schema: JsonSchema = {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      tags: { type: "array", items: { type: "string" } },
+      counts: { type: "map", values: { type: "number" } },
+      note: { type: "string" },
+    },
+    optional: ["note"],
+  };
+
+  it("accepts matching values, optional properties and unknown properties", () => {
+    expect(
+      findSchemaViolation(
+        { name: "a", tags: [], counts: { x: 1 }, extra: true },
+        schema,
+      ),
+    ).toBeUndefined();
+  });
+
+  it("points at array items by index", () => {
+    expect(
+      findSchemaViolation({ name: "a", tags: ["b", 2], counts: {} }, schema),
+    ).toEqual({ pointer: "/tags/1", expected: "string", actual: "number" });
+  });
+
+  it("escapes ~ and / in map keys", () => {
+    expect(
+      findSchemaViolation(
+        { name: "a", tags: [], counts: { "a/b~c": "1" } },
+        schema,
+      ),
+    ).toEqual({
+      pointer: "/counts/a~1b~0c",
+      expected: "number",
+      actual: "string",
+    });
+  });
+
+  it("reports missing required properties", () => {
+    expect(findSchemaViolation({ name: "a", tags: [] }, schema)).toEqual({
+      pointer: "/counts",
+      expected: "object",
+      actual: "missing",
+    });
+  });
+});
@@ -6,10 +6,10 @@ interface ExtendedRetryOptions extends RetryOptions {
 }
 
 describe("Retry with HTTP 429 Rate Limiting", () => {
-  let consoleSpy: jest.SpiedFunction<typeof console.log>;
+  let consoleSpy: jest.SpiedFunction<typeof console.error>;
 
   beforeEach(() => {
-    consoleSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+    consoleSpy = jest.spyOn(console, "error").mockImplementation(() => {});
     jest.useFakeTimers();
   });
 
@@ -0,0 +1,106 @@
+import {
+  clearStaleDates,
+  markDependentDataStale,
+} from "../../../src/utils/stale-data";
+import {
+  BalanceData,
+  BlockNumberData,
+  FileManager,
+  OutflowData,
+} from "../../../src/types";
+
+const DISTRIBUTOR = "0x37daA99b1cAAE0c22670963e103a66CA2c5dB2dB";
+
+describe("stale data", () => {
+  describe("markDependentDataStale", () => {
+    let fileManager: jest.Mocked<FileManager>;
+
+    const blockNumberData: BlockNumberData = {
+      metadata: { chain_id: 42170 },
+      blocks: { "2024-01-01": 100, "2024-01-02": 200, "2024-01-03": 300 },
+    };
+
+    function createDay(blockNumber: number) {
+      return { block_number: blockNumber, total_outflow_wei: "0", events: [] };
+    }
+
+    beforeEach(() => {
+      const balanceData: BalanceData = {
+        metadata: {
+          chain_id: 42170,
+          reward_distributor: DISTRIBUTOR,
+          stale_dates: ["2024-01-01"],
+        },
+        balances: {
+          "2024-01-01": { block_number: 100, balance_wei: "1" },
+          "2024-01-02": { block_number: 200, balance_wei: "2" },
+        },
+      };
+      const outflowData: OutflowData = {
+        metadata: { chain_id: 42170, reward_distributor: DISTRIBUTOR },
+        outflows: {
+          "2024-01-01": createDay(100),
+          "2024-01-02": createDay(200),
+          "2024-01-03": createDay(300),
+        },
+      };
+
+      fileManager = {
+        readDistributors: jest.fn().mockReturnValue({
+          metadata: { chain_id: 42170 },
+          distributors: { [DISTRIBUTOR]: {} },
+        }),
+        readDistributorBalances: jest.fn().mockReturnValue(balanceData),
+        writeDistributorBalances: jest.fn(),
+        readDistributorOutflows: jest.fn().mockReturnValue(outflowData),
+        writeDistributorOutflows: jest.fn(),
+      } as unknown as jest.Mocked<FileManager>;
+    });
+
+    it("marks the repaired date's balance and the outflows it bounds", () => {
+      expect(
+        markDependentDataStale(fileManager, blockNumberData, ["2024-01-02"]),
+      ).toEqual([DISTRIBUTOR]);
+
+      expect(fileManager.writeDistributorBalances).toHaveBeenCalledWith(
+        DISTRIBUTOR,
+        expect.objectContaining({
+          metadata: expect.objectContaining({
+            stale_dates: ["2024-01-01", "2024-01-02"],
+          }),
+        }),
+      );
+      expect(fileManager.writeDistributorOutflows).toHaveBeenCalledWith(
+        DISTRIBUTOR,
+        expect.objectContaining({
+          metadata: expect.objectContaining({
+            stale_dates: ["2024-01-02", "2024-01-03"],
+          }),
+        }),
+      );
+    });
+
+    it("does not write files without affected dates", () => {
+      expect(
+        markDependentDataStale(fileManager, blockNumberData, ["2024-01-01"]),
+      ).toEqual([DISTRIBUTOR]);
+
+      // 2024-01-01 was already stale in balances.json
+      expect(fileManager.writeDistributorBalances).not.toHaveBeenCalled();
+      expect(fileManager.writeDistributorOutflows).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("clearStaleDates", () => {
+    it("returns the dates that remain stale", () => {
+      expect(
+        clearStaleDates(["2024-01-01", "2024-01-02"], ["2024-01-01"]),
+      ).toEqual(["2024-01-02"]);
+    });
+
+    it("returns undefined once no dates remain", () => {
+      expect(clearStaleDates(["2024-01-01"], ["2024-01-01"])).toBeUndefined();
+      expect(clearStaleDates(undefined, ["2024-01-01"])).toBeUndefined();
+    });
+  });
+});
@@ -1,16 +1,37 @@
 import { ethers } from "ethers";
 import { FileManager } from "./file-manager";
+import {
+  BalanceData,
+  BlockNumberData,
+  ChainConfig,
+  DistributorInfo,
+  RPCError,
+  withRetry,
+} from "./types";
+import { DEFAULT_CHAIN } from "./constants/chains";
+import { verifyStoreChain } from "./utils/chain-guard";
+import { getSafeBlockNumber } from "./utils/finality";
+import { clearStaleDates } from "./utils/stale-data";
+import { isBalanceTrackedOn } from "./utils/active-periods";
+
+const RETRY_CONFIG = {
+  maxRetries: 3,
+  initialDelay: 1000,
+  backoffMultiplier: 2,
+};
 
 /**
  * Creates a new BalanceFetcher instance with the specified dependencies.
  *
  * @param fileManager - File manager instance for data persistence
- * @param provider - Nova provider for RPC calls
+ * @param provider - Provider for RPC calls on the selected chain
+ * @param chain - Chain the store and provider belong to, defaults to Arbitrum Nova
  */
 export class BalanceFetcher {
   constructor(
     public readonly fileManager: FileManager,
     public readonly provider: ethers.Provider,
+    public readonly chain: ChainConfig = DEFAULT_CHAIN,
   ) {}
 
   /**
@@ -46,6 +67,9 @@ export class BalanceFetcher {
       return;
     }
 
+    await verifyStoreChain(this.fileManager, this.provider, this.chain);
+    const safeBlock = await getSafeBlockNumber(this.provider, this.chain);
+
     // Process distributors
     const distributorsToProcess = distributorAddress
       ? {
@@ -58,17 +82,90 @@ export class BalanceFetcher {
       distributorsToProcess,
     )) {
       if (!distributorInfo) continue;
-      const creationDate = distributorInfo.date;
+      await this.fetchDistributorBalances(
+        address,
+        distributorInfo,
+        blockNumbersData,
+        safeBlock,
+      );
+    }
+  }
 
-      // Filter block numbers to only include dates >= creation date
-      const applicableDates = Object.entries(blockNumbersData.blocks)
-        .filter(([date]) => date >= creationDate)
-        .sort(([a], [b]) => a.localeCompare(b));
+  /**
+   * Fetches balances for every applicable date not yet present in the
+   * distributor's balances.json, then persists the merged document.
+   * @private
+   */
+  private async fetchDistributorBalances(
+    address: string,
+    distributorInfo: DistributorInfo,
+    blockNumbersData: BlockNumberData,
+    safeBlock: number,
+  ): Promise<void> {
+    const existingData = this.fileManager.readDistributorBalances(address);
+    const balanceData: BalanceData = {
+      metadata: {
+        chain_id: this.chain.chain_id,
+        reward_distributor: address,
+      },
+      balances: { ...(existingData?.balances || {}) },
+    };
+    // Dates whose end-of-day block was repaired are refetched like missing ones
+    const staleDates = new Set(existingData?.metadata.stale_dates);
 
-      // Fetch balance for each applicable date
-      for (const [, blockNumber] of applicableDates) {
-        await this.provider.getBalance(address, blockNumber);
-      }
+    // Filter block numbers to final dates on which the distributor's balance is needed
+    const missingDates = Object.entries(blockNumbersData.blocks)
+      .filter(
+        ([date, blockNumber]) =>
+          isBalanceTrackedOn(distributorInfo, date) &&
+          blockNumber <= safeBlock &&
+          (!balanceData.balances[date] || staleDates.has(date)),
+      )
+      .sort(([a], [b]) => a.localeCompare(b));
+
+    if (missingDates.length === 0) {
+      return;
+    }
+
+    for (const [date, blockNumber] of missingDates) {
+      const balance = await this.getBalance(address, blockNumber);
+      balanceData.balances[date] = {
+        block_number: blockNumber,
+        balance_wei: balance.toString(),
+      };
+    }
+
+    const remainingStaleDates = clearStaleDates(
+      existingData?.metadata.stale_dates,
+      missingDates.map(([date]) => date),
+    );
+    if (remainingStaleDates) {
+      balanceData.metadata.stale_dates = remainingStaleDates;
+    }
+
+    this.fileManager.writeDistributorBalances(address, balanceData);
+  }
+
+  private async getBalance(
+    address: string,
+    blockNumber: number,
+  ): Promise<bigint> {
+    try {
+      return await withRetry(
+        () => this.provider.getBalance(address, blockNumber),
+        {
+          ...RETRY_CONFIG,
+          operationName: `getBalance(${address}, ${blockNumber})`,
+        },
+      );
+    } catch (error) {
+      const cause = error instanceof Error ? error : undefined;
+      throw new RPCError(
+        `Failed to fetch balance for distributor\n  Distributor: ${address}\n  Block: ${blockNumber}\n  RPC Error: ${cause?.message || "Unknown error"} after ${RETRY_CONFIG.maxRetries} retries\n  Check: Ensure RPC_URL is accessible and archive node has block ${blockNumber}`,
+        "getBalance",
+        RETRY_CONFIG.maxRetries,
+        cause,
+      );
     }
   }
 }
@@ -1,26 +1,55 @@
 import { ethers } from "ethers";
 import {
+  BlockIssue,
+  BlockIssueKind,
   BlockNumberData,
+  BlockRepairReport,
+  BlockVerificationReport,
+  ChainConfig,
   DateString,
   FileManager,
   withRetry,
   RPCError,
   BlockFinderError,
 } from "./types";
+import { DEFAULT_CHAIN } from "./constants/chains";
+import { verifyStoreChain } from "./utils/chain-guard";
+import { getSafeBlockNumber } from "./utils/finality";
+import { markDependentDataStale } from "./utils/stale-data";
 
-const FINALITY_BLOCKS = 1000;
 const MILLISECONDS_PER_SECOND = 1000;
+const MILLISECONDS_PER_DAY = 86400 * MILLISECONDS_PER_SECOND;
 const MINIMUM_VALID_BLOCK = 1;
+// Headroom over the recent blocks per day when estimating an upper bound
+const UPPER_BOUND_MARGIN = 1.25;
 const RETRY_CONFIG = {
   maxRetries: 3,
   initialDelay: 1000,
   backoffMultiplier: 2,
 };
 
+interface EndOfDayBlock {
+  number: number;
+  hash: string;
+}
+
+// A block bounding the search; hash is null until the block has been fetched
+interface SearchPoint {
+  number: number;
+  timestamp: number;
+  hash: string | null;
+}
+
 export class BlockFinder {
+  /** getBlock calls, retries included, spent finding each date's end-of-day block */
+  readonly rpcCallsByDate: { [date: DateString]: number } = {};
+
+  private blockRequests = 0;
+
   constructor(
     private readonly fileManager: FileManager,
     private readonly provider: ethers.Provider,
+    private readonly chain: ChainConfig = DEFAULT_CHAIN,
   ) {}
 
   async findBlocksForDateRange(
@@ -37,6 +66,8 @@ export class BlockFinder {
     }
 
     for (const date of this.datesBetween(startDate, endDate)) {
+      // No end-of-day block exists before the chain's first day
+      if (this.formatDateString(date) < this.chain.genesis_date) continue;
       await this.processDate(date, result, safeCurrentBlock);
     }
 
@@ -44,37 +75,20 @@ export class BlockFinder {
   }
 
   private async initializeResult(): Promise<BlockNumberData> {
-    const existingData = this.fileManager.readBlockNumbers();
-    const network = await this.getNetwork();
-    const chainId = Number(network.chainId);
+    await verifyStoreChain(this.fileManager, this.provider, this.chain);
 
-    if (!existingData) {
-      return { metadata: { chain_id: chainId }, blocks: {} };
+    const existingData = this.fileManager.readBlockNumbers();
+    if (!existingData || Object.keys(existingData.blocks).length === 0) {
+      return { metadata: { chain_id: this.chain.chain_id }, blocks: {} };
     }
 
-    const hasData = Object.keys(existingData.blocks).length > 0;
     return {
-      metadata: hasData ? existingData.metadata : { chain_id: chainId },
+      metadata: existingData.metadata,
       blocks: { ...existingData.blocks },
+      ...(existingData.hashes && { hashes: { ...existingData.hashes } }),
     };
   }
 
-  private async getNetwork(): Promise<ethers.Network> {
-    try {
-      return await withRetry(() => this.provider.getNetwork(), {
-        ...RETRY_CONFIG,
-        operationName: "getNetwork",
-      });
-    } catch (error) {
-      throw new RPCError(
-        `Failed to get network information after ${RETRY_CONFIG.maxRetries} retries`,
-        "getNetwork",
-        RETRY_CONFIG.maxRetries,
-        error instanceof Error ? error : undefined,
-      );
-    }
-  }
-
   private async processDate(
     date: Date,
     result: BlockNumberData,
@@ -91,14 +105,17 @@ export class BlockFinder {
 
     if (upperBound > safeCurrentBlock) return;
 
+    const requestsBefore = this.blockRequests;
     try {
-      const blockNumber = await this.findEndOfDayBlock(
+      const block = await this.searchWithEstimatedBound(
         date,
         lowerBound,
         upperBound,
         result,
       );
-      result.blocks[dateStr] = blockNumber;
+      this.rpcCallsByDate[dateStr] = this.blockRequests - requestsBefore;
+      result.blocks[dateStr] = block.number;
+      result.hashes = { ...result.hashes, [dateStr]: block.hash };
       this.fileManager.writeBlockNumbers(result);
     } catch (error) {
       if (error instanceof BlockFinderError) throw error;
@@ -121,6 +138,357 @@ export class BlockFinder {
     upperBound: number,
     existingBlocks?: BlockNumberData,
   ): Promise<number> {
+    const block = await this.searchEndOfDayBlock(
+      date,
+      lowerBound,
+      upperBound,
+      existingBlocks,
+    );
+    return block.number;
+  }
+
+  /**
+   * Re-fetches every stored end-of-day block and checks it against its recorded hash and
+   * the end-of-day invariant: the block is before the next midnight UTC and the block
+   * after it is not. Dates without a recorded hash are checked against the invariant only.
+   *
+   * @returns Report of the checked dates and the first issue found for each invalid date
+   * @throws BlockFinderError if a block cannot be fetched after retries
+   */
+  async verifyBlocks(): Promise<BlockVerificationReport> {
+    await verifyStoreChain(this.fileManager, this.provider, this.chain);
+
+    const existingData = this.fileManager.readBlockNumbers();
+    if (!existingData) {
+      return {
+        metadata: { chain_id: this.chain.chain_id },
+        checked_dates: 0,
+        issues: [],
+      };
+    }
+
+    const { issues } = await this.checkStoredBlocks(existingData);
+    return {
+      metadata: existingData.metadata,
+      checked_dates: Object.keys(existingData.blocks).length,
+      issues,
+    };
+  }
+
+  /**
+   * Verifies the stored end-of-day blocks, recomputes every invalid date and marks
+   * distributor balances and outflows derived from those dates as stale. Hashes are
+   * recorded for every date, including valid dates stored before hashes were kept.
+   *
+   * @returns The verification report with the recomputed dates and affected distributors
+   * @throws BlockFinderError if a block cannot be fetched or an invalid date cannot be recomputed
+   */
+  async repairBlocks(): Promise<BlockRepairReport> {
+    await verifyStoreChain(this.fileManager, this.provider, this.chain);
+
+    const existingData = this.fileManager.readBlockNumbers();
+    if (!existingData) {
+      return {
+        metadata: { chain_id: this.chain.chain_id },
+        checked_dates: 0,
+        issues: [],
+        repaired: [],
+        stale_distributors: [],
+      };
+    }
+
+    const { issues, hashes } = await this.checkStoredBlocks(existingData);
+    const report: BlockRepairReport = {
+      metadata: existingData.metadata,
+      checked_dates: Object.keys(existingData.blocks).length,
+      issues,
+      repaired: [],
+      stale_distributors: [],
+    };
+
+    // Search each invalid date between the valid blocks around it
+    const invalidDates = new Set(issues.map((issue) => issue.date));
+    const validData: BlockNumberData = {
+      metadata: existingData.metadata,
+      blocks: Object.fromEntries(
+        Object.entries(existingData.blocks).filter(
+          ([date]) => !invalidDates.has(date),
+        ),
+      ),
+    };
+    const safeCurrentBlock =
+      issues.length > 0 ? await this.getSafeCurrentBlock() : 0;
+
+    for (const issue of issues) {
+      const date = new Date(`${issue.date}T00:00:00Z`);
+      const [lowerBound, upperBound] = this.getSearchBounds(
+        date,
+        validData,
+        safeCurrentBlock,
+      );
+      const block = await this.searchWithEstimatedBound(
+        date,
+        lowerBound,
+        upperBound,
+        validData,
+      );
+
+      validData.blocks[issue.date] = block.number;
+      hashes[issue.date] = block.hash;
+      report.repaired.push({
+        date: issue.date,
+        previous_block: issue.block_number,
+        block_number: block.number,
+      });
+    }
+
+    const sortedDates = Object.keys(validData.blocks).sort();
+    const repairedData: BlockNumberData = {
+      metadata: existingData.metadata,
+      blocks: Object.fromEntries(
+        sortedDates.map((date) => [date, validData.blocks[date]!]),
+      ),
+      hashes: Object.fromEntries(
+        sortedDates
+          .filter((date) => hashes[date] !== undefined)
+          .map((date) => [date, hashes[date]!]),
+      ),
+    };
+    // The repaired blocks and the stale marks they imply are written together
+    this.fileManager.beginTransaction();
+    try {
+      this.fileManager.writeBlockNumbers(repairedData);
+
+      // A block at the same height still changes after a reorg, so every recomputed date is stale
+      report.stale_distributors = markDependentDataStale(
+        this.fileManager,
+        repairedData,
+        report.repaired.map((repair) => repair.date),
+      );
+    } catch (error) {
+      this.fileManager.rollbackTransaction();
+      throw error;
+    }
+    this.fileManager.commitTransaction();
+
+    return report;
+  }
+
+  /**
+   * Checks each stored date in order and collects the current hash of every valid block.
+   * @private
+   */
+  private async checkStoredBlocks(
+    data: BlockNumberData,
+  ): Promise<{ issues: BlockIssue[]; hashes: { [date: string]: string } }> {
+    const issues: BlockIssue[] = [];
+    const hashes: { [date: string]: string } = {};
+
+    for (const date of Object.keys(data.blocks).sort()) {
+      const blockNumber = data.blocks[date]!;
+      const result = await this.checkStoredBlock(
+        date,
+        blockNumber,
+        data.hashes?.[date],
+      );
+      if (typeof result === "string") {
+        hashes[date] = result;
+      } else {
+        issues.push(result);
+      }
+    }
+
+    return { issues, hashes };
+  }
+
+  /**
+   * Checks one stored end-of-day block.
+   * @returns The block's hash if valid, otherwise the first issue found
+   * @private
+   */
+  private async checkStoredBlock(
+    date: DateString,
+    blockNumber: number,
+    storedHash: string | undefined,
+  ): Promise<string | BlockIssue> {
+    const midnight = this.getNextMidnight(new Date(`${date}T00:00:00Z`));
+    const issue = (
+      kind: BlockIssueKind,
+      summary: string,
+      details: string[] = [],
+    ): BlockIssue => ({
+      date,
+      block_number: blockNumber,
+      kind,
+      message: [
+        summary,
+        `  Date: ${date}`,
+        `  Block: ${blockNumber}`,
+        ...details,
+        "  Check: Run repair-blocks to recompute this date",
+      ].join("\n"),
+    });
+
+    const block = await this.fetchStoredBlock(date, blockNumber);
+    if (!block || !block.hash) {
+      return issue(
+        BlockIssueKind.BLOCK_NOT_FOUND,
+        "Stored end-of-day block not found",
+      );
+    }
+
+    if (storedHash !== undefined && block.hash !== storedHash) {
+      return issue(
+        BlockIssueKind.HASH_MISMATCH,
+        "Stored end-of-day block hash does not match the chain",
+        [`  Stored hash: ${storedHash}`, `  Chain hash: ${block.hash}`],
+      );
+    }
+
+    if (block.timestamp >= this.toUnixTimestamp(midnight)) {
+      return issue(
+        BlockIssueKind.AFTER_MIDNIGHT,
+        "Stored end-of-day block is not before midnight",
+        [
+          `  Block timestamp: ${this.fromUnixTimestamp(block.timestamp).toISOString()}`,
+          `  Midnight: ${midnight.toISOString()}`,
+        ],
+      );
+    }
+
+    const nextBlock = await this.fetchStoredBlock(date, blockNumber + 1);
+    if (!nextBlock) {
+      return issue(
+        BlockIssueKind.BLOCK_NOT_FOUND,
+        "Block after the stored end-of-day block not found",
+        [`  Next block: ${blockNumber + 1}`],
+      );
+    }
+
+    if (nextBlock.timestamp < this.toUnixTimestamp(midnight)) {
+      return issue(
+        BlockIssueKind.NOT_LAST_BEFORE_MIDNIGHT,
+        "Stored end-of-day block is not the last block before midnight",
+        [
+          `  Next block ${blockNumber + 1} timestamp: ${this.fromUnixTimestamp(nextBlock.timestamp).toISOString()}`,
+          `  Midnight: ${midnight.toISOString()}`,
+        ],
+      );
+    }
+
+    return block.hash;
+  }
+
+  /**
+   * Fetches a block while verifying a stored date, wrapping RPC failures with the date.
+   * @private
+   */
+  private async fetchStoredBlock(
+    date: DateString,
+    blockNumber: number,
+  ): Promise<ethers.Block | null> {
+    try {
+      return await this.fetchBlock(blockNumber);
+    } catch (error) {
+      throw new BlockFinderError(
+        `Failed to get block ${blockNumber} while verifying stored blocks\n  Date: ${date}\n  Check: Ensure RPC_URL is accessible and points at an archive node`,
+        "verifyBlocks",
+        { date, ...(error instanceof Error && { cause: error }) },
+      );
+    }
+  }
+
+  /**
+   * Finds the end-of-day block, first narrowing the upper bound to an estimate from the
+   * recent blocks per day. The estimated block is only used if it is after midnight;
+   * otherwise the search falls back to the given upper bound.
+   * @private
+   */
+  private async searchWithEstimatedBound(
+    date: Date,
+    lowerBound: number,
+    upperBound: number,
+    existingBlocks: BlockNumberData,
+  ): Promise<EndOfDayBlock> {
+    const estimate = this.estimateUpperBound(date, existingBlocks);
+    if (
+      estimate !== undefined &&
+      estimate > lowerBound &&
+      estimate < upperBound
+    ) {
+      const targetTimestamp = this.toUnixTimestamp(this.getNextMidnight(date));
+      const estimatedBlock = await this.fetchBlock(estimate);
+      if (estimatedBlock && estimatedBlock.timestamp >= targetTimestamp) {
+        return this.searchEndOfDayBlock(
+          date,
+          lowerBound,
+          estimate,
+          existingBlocks,
+          estimatedBlock,
+        );
+      }
+    }
+
+    return this.searchEndOfDayBlock(
+      date,
+      lowerBound,
+      upperBound,
+      existingBlocks,
+    );
+  }
+
+  /**
+   * Estimates a block after the date's midnight by extrapolating the blocks per day
+   * between the two latest known dates before it.
+   *
+   * @returns The estimated block, or undefined if fewer than two earlier dates are known
+   * @private
+   */
+  private estimateUpperBound(
+    date: Date,
+    existingBlocks: BlockNumberData,
+  ): number | undefined {
+    const dateStr = this.formatDateString(date);
+    const [previous, latest] = Object.keys(existingBlocks.blocks)
+      .filter((known) => known < dateStr)
+      .sort()
+      .slice(-2);
+    if (previous === undefined || latest === undefined) return undefined;
+
+    const previousBlock = existingBlocks.blocks[previous]!;
+    const latestBlock = existingBlocks.blocks[latest]!;
+    const blocksPerDay =
+      (latestBlock - previousBlock) / this.daysBetweenDates(previous, latest);
+
+    return (
+      latestBlock +
+      Math.ceil(
+        blocksPerDay *
+          this.daysBetweenDates(latest, dateStr) *
+          UPPER_BOUND_MARGIN,
+      )
+    );
+  }
+
+  private daysBetweenDates(from: DateString, to: DateString): number {
+    return (
+      (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      MILLISECONDS_PER_DAY
+    );
+  }
+
+  /**
+   * Finds the end-of-day block and its hash, validating the search bounds first unless
+   * the lower bound is a known end-of-day block.
+   * @private
+   */
+  private async searchEndOfDayBlock(
+    date: Date,
+    lowerBound: number,
+    upperBound: number,
+    existingBlocks?: BlockNumberData,
+    fetchedUpperBlock?: ethers.Block,
+  ): Promise<EndOfDayBlock> {
     if (lowerBound > upperBound) {
       throw new BlockFinderError(
         `Invalid search bounds: lower bound is greater than upper bound\n  Date: ${this.formatDateString(date)}\n  Lower bound: ${lowerBound}\n  Upper bound: ${upperBound}\n  Check: Ensure safe current block (${upperBound}) is greater than most recent known block (${lowerBound})`,
@@ -141,13 +509,7 @@ export class BlockFinder {
       Object.values(existingBlocks.blocks).includes(lowerBound);
 
     // Fetch upper block (always needed)
-    const upperBlock = await withRetry(
-      () => this.provider.getBlock(upperBound),
-      {
-        ...RETRY_CONFIG,
-        operationName: `getBlock(${upperBound})`,
-      },
-    );
+    const upperBlock = fetchedUpperBlock ?? (await this.fetchBlock(upperBound));
 
     const context = {
       date: this.formatDateString(date),
@@ -162,15 +524,16 @@ export class BlockFinder {
       );
     }
 
+    // A known end-of-day block is before the date starts; its exact timestamp is not needed
+    let lower: SearchPoint = {
+      number: lowerBound,
+      timestamp: dateStartTimestamp - 1,
+      hash: null,
+    };
+
     // Only fetch and validate lower block if it's not a known end-of-day block
     if (!isLowerBoundKnown) {
-      const lowerBlock = await withRetry(
-        () => this.provider.getBlock(lowerBound),
-        {
-          ...RETRY_CONFIG,
-          operationName: `getBlock(${lowerBound})`,
-        },
-      );
+      const lowerBlock = await this.fetchBlock(lowerBound);
 
       if (!lowerBlock) {
         throw new BlockFinderError(
@@ -189,6 +552,11 @@ export class BlockFinder {
         targetTimestamp,
         dateStartTimestamp,
       );
+      lower = {
+        number: lowerBound,
+        timestamp: lowerBlock.timestamp,
+        hash: lowerBlock.hash,
+      };
     } else {
       // For known blocks, we only need to validate that the upper block is after the target date start
       if (upperBlock.timestamp < dateStartTimestamp) {
@@ -224,44 +592,88 @@ export class BlockFinder {
       }
     }
 
-    const lastValidBlock = await this.binarySearchForBlock(
+    const lastValidBlock = await this.searchForBlock(
+      lower,
+      { number: upperBound, timestamp: upperBlock.timestamp, hash: null },
+      targetTimestamp,
+    );
+    if (lastValidBlock.hash !== null) {
+      return { number: lastValidBlock.number, hash: lastValidBlock.hash };
+    }
+
+    // The result is a known lower bound that was never fetched, so fetch it for its hash
+    const block = await this.getBlockForSearch(
+      lastValidBlock.number,
       lowerBound,
       upperBound,
       targetTimestamp,
     );
-
-    return lastValidBlock;
+    if (!block.hash) {
+      throw new BlockFinderError(
+        `Block ${lastValidBlock.number} has no hash`,
+        "findEndOfDayBlock",
+        context,
+      );
+    }
+    return { number: lastValidBlock.number, hash: block.hash };
   }
 
-  private async binarySearchForBlock(
-    low: number,
-    high: number,
+  /**
+   * Finds the last block before the target timestamp between a lower block known to be
+   * before it and an upper block known not to be. Each step interpolates the target's
+   * position from the timestamps of the current bounds, since block times are roughly
+   * regular. A step that fails to halve the range is followed by a bisection step, so the
+   * search never needs more than about twice the requests of a binary search.
+   */
+  private async searchForBlock(
+    lower: SearchPoint,
+    upper: SearchPoint,
     targetTimestamp: number,
-  ): Promise<number> {
-    let lastValidBlock = -1;
+  ): Promise<SearchPoint> {
+    let low = lower;
+    let high = upper;
+    let interpolate = true;
     let lastCheckedBlock: { number: number; timestamp: number } | undefined;
 
-    while (low <= high) {
-      const mid = Math.floor((low + high) / 2);
+    while (high.number - low.number > 1) {
+      const span = high.number - low.number;
+      // Aim between the last second before midnight and midnight, as blocks share timestamps
+      const guess = interpolate
+        ? low.number +
+          Math.floor(
+            ((targetTimestamp - 0.5 - low.timestamp) * span) /
+              (high.timestamp - low.timestamp),
+          )
+        : low.number + Math.floor(span / 2);
+      const blockNumber = Math.min(
+        high.number - 1,
+        Math.max(low.number + 1, guess),
+      );
+
       const block = await this.getBlockForSearch(
-        mid,
-        low,
-        high,
+        blockNumber,
+        low.number,
+        high.number,
         targetTimestamp,
         lastCheckedBlock,
       );
+      lastCheckedBlock = { number: blockNumber, timestamp: block.timestamp };
 
-      lastCheckedBlock = { number: mid, timestamp: block.timestamp };
-
+      const point = {
+        number: blockNumber,
+        timestamp: block.timestamp,
+        hash: block.hash,
+      };
       if (block.timestamp < targetTimestamp) {
-        lastValidBlock = mid;
-        low = mid + 1;
+        low = point;
       } else {
-        high = mid - 1;
+        high = point;
       }
+
+      interpolate = !interpolate || high.number - low.number <= span / 2;
     }
 
-    return lastValidBlock === -1 ? low - 1 : lastValidBlock;
+    return low;
   }
 
   private async getBlockForSearch(
@@ -279,14 +691,11 @@ export class BlockFinder {
     );
 
     try {
-      const block = await withRetry(() => this.provider.getBlock(blockNumber), {
-        ...RETRY_CONFIG,
-        operationName: `getBlock(${blockNumber})`,
-      });
+      const block = await this.fetchBlock(blockNumber);
       if (!block) {
         throw new BlockFinderError(
           `Block ${blockNumber} not found during search`,
-          "binarySearchForBlock",
+          "searchForBlock",
           context,
         );
       }
@@ -295,13 +704,30 @@ export class BlockFinder {
       if (error instanceof BlockFinderError) throw error;
 
       throw new BlockFinderError(
-        `Failed to get block ${blockNumber} during binary search`,
-        "binarySearchForBlock",
+        `Failed to get block ${blockNumber} during end-of-day block search`,
+        "searchForBlock",
         { ...context, ...(error instanceof Error && { cause: error }) },
       );
     }
   }
 
+  /**
+   * Fetches a block with retries, counting every request made to the provider.
+   * @private
+   */
+  private async fetchBlock(blockNumber: number): Promise<ethers.Block | null> {
+    return withRetry(
+      () => {
+        this.blockRequests++;
+        return this.provider.getBlock(blockNumber);
+      },
+      {
+        ...RETRY_CONFIG,
+        operationName: `getBlock(${blockNumber})`,
+      },
+    );
+  }
+
   private createSearchContext(
     low: number,
     high: number,
@@ -320,33 +746,25 @@ export class BlockFinder {
     };
   }
 
+  /**
+   * Returns the newest block treated as final under the chain's finality strategy.
+   * Dates whose end-of-day block could be after it are left for a later run.
+   */
   async getSafeCurrentBlock(): Promise<number> {
     try {
-      const currentBlock = await withRetry(
-        () => this.provider.getBlockNumber(),
-        {
-          ...RETRY_CONFIG,
-          operationName: "getBlockNumber",
-        },
-      );
-      return currentBlock - FINALITY_BLOCKS;
+      return await getSafeBlockNumber(this.provider, this.chain);
     } catch (error) {
-      const rpcError = new RPCError(
-        `Failed to get current block number after ${RETRY_CONFIG.maxRetries} retries`,
-        "getBlockNumber",
-        RETRY_CONFIG.maxRetries,
-        error instanceof Error ? error : undefined,
-      );
+      if (!(error instanceof RPCError)) throw error;
       throw new BlockFinderError(
-        this.formatRPCError(rpcError),
+        this.formatRPCError(error),
         "getSafeCurrentBlock",
-        { cause: rpcError },
+        { cause: error },
       );
     }
   }
 
   private formatRPCError(rpcError: RPCError): string {
-    return `Failed to get current block number\n  RPC request failed after ${rpcError.retryCount} retries\n  Original error: ${rpcError.cause?.message || "Unknown error"}\n  Check: Ensure RPC_URL is accessible and the provider is properly configured`;
+    return `Failed to get current block number\n  RPC request failed after ${rpcError.retryCount} retries\n  Original error: ${rpcError.cause?.message || rpcError.message}\n  Check: Ensure RPC_URL is accessible and the provider is properly configured`;
   }
 
   getSearchBounds(
@@ -356,8 +774,26 @@ export class BlockFinder {
   ): [number, number] {
     const dateStr = this.formatDateString(date);
     const lowerBound = this.findMostRecentBlock(dateStr, existingBlocks);
+    const nextBlock = this.findNextKnownBlock(dateStr, existingBlocks);
 
-    return [Math.max(MINIMUM_VALID_BLOCK, lowerBound), safeCurrentBlock];
+    // The block after a later date's end-of-day block is past that date's midnight
+    const upperBound =
+      nextBlock === undefined
+        ? safeCurrentBlock
+        : Math.min(safeCurrentBlock, nextBlock + 1);
+
+    return [Math.max(MINIMUM_VALID_BLOCK, lowerBound), upperBound];
+  }
+
+  // Find the earliest known block after the target date
+  private findNextKnownBlock(
+    targetDate: string,
+    existingBlocks: BlockNumberData,
+  ): number | undefined {
+    const next = Object.keys(existingBlocks.blocks)
+      .filter((date) => date > targetDate)
+      .sort()[0];
+    return next === undefined ? undefined : existingBlocks.blocks[next];
   }
 
   // Find the most recent known block before the target date
@@ -0,0 +1,707 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { types } from "util";
+import { ethers } from "ethers";
+import * as dotenv from "dotenv";
+import { FileManager } from "./file-manager";
+import { Pipeline } from "./pipeline";
+import { BlockFinder } from "./block-finder";
+import { DistributorDetector } from "./distributor-detector";
+import { BalanceFetcher } from "./balance-fetcher";
+import { EventScanner } from "./event-scanner";
+import { FeeCalculator } from "./fee-calculator";
+import { OutflowReconciler } from "./outflow-reconciler";
+import { GapDetector } from "./gap-detector";
+import { FileSystemBackend } from "./storage/filesystem-backend";
+import { parseJson } from "./storage/json-files";
+import { CHAINS_FILE, loadChainRegistry } from "./utils/chain-registry";
+import { isJsonObject } from "./utils/json-schema";
+import {
+  CHAIN_REGISTRY,
+  DEFAULT_CHAIN,
+  findChainConfig,
+} from "./constants/chains";
+import {
+  BlockVerificationReport,
+  ChainConfig,
+  DISTRIBUTORS_DIR,
+  FileManagerError,
+  FinalityStrategy,
+  GapReport,
+  ReconciliationReport,
+  STORE_DIR,
+  StoreLayoutMigration,
+  StoreVerificationReport,
+  UsageError,
+  isValidDateString,
+} from "./types";
+
+// Exit codes
+export const EXIT_SUCCESS = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+const RPC_URL_ENV = "RPC_URL";
+const STORE_OPTION = "store";
+const CHAIN_OPTION = "chain";
+const FINALITY_OPTION = "finality";
+const DRY_RUN_FLAG = "dry-run";
+
+// Units accepted by --finality ages, in seconds
+const AGE_UNITS: Readonly<Record<string, number>> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+};
+
+// Files that sit directly in the store directory in the single-chain layout
+const LEGACY_STORE_FILES = ["block_numbers.json", "distributors.json"];
+// Everything moved into the chain's directory; the directory first, so a move that
+// is interrupted still leaves a legacy file behind to be found and finished
+const LEGACY_STORE_ENTRIES = [DISTRIBUTORS_DIR, ...LEGACY_STORE_FILES];
+
+/**
+ * Dependencies available to every command. The provider is created on first use
+ * so commands that only read the store do not require RPC_URL.
+ */
+export interface CommandContext {
+  chain: ChainConfig;
+  fileManager: FileManager;
+  getProvider(): ethers.Provider;
+  /** Set when the store was found in the single-chain layout by a layout-migrating command */
+  storeLayout?: StoreLayoutMigration;
+}
+
+interface Command {
+  usage: string;
+  description: string;
+  options: readonly string[];
+  /** Options that take no value */
+  flags?: readonly string[];
+  /** Resolves to a value to print as JSON, or undefined to print nothing */
+  execute(
+    options: Map<string, string>,
+    context: CommandContext,
+  ): Promise<unknown>;
+  /** Whether a printed result should still exit with EXIT_FAILURE */
+  failed?(result: unknown): boolean;
+  /** Opens the store read-only, without taking its lock, so it can run beside a writer */
+  readOnly?: boolean;
+  /**
+   * Moves a store in the single-chain layout into the chain's directory first; a dry
+   * run opens the store where it is instead
+   */
+  migratesLayout?: boolean;
+}
+
+const COMMANDS: Readonly<Record<string, Command>> = {
+  run: {
+    usage: "--start <date> --end <date> [--finality <mode>]",
+    description: "Run every stage in order and print the fee report as JSON",
+    options: ["start", "end", FINALITY_OPTION],
+    execute: (options, context) => {
+      const { startDate, endDate } = parseDateRange(options);
+      return new Pipeline(
+        context.fileManager,
+        context.getProvider(),
+        console.error,
+        context.chain,
+      ).run(startDate, endDate);
+    },
+  },
+  "find-blocks": {
+    usage: "--start <date> --end <date> [--finality <mode>]",
+    description: "Find end-of-day blocks and print block_numbers.json",
+    options: ["start", "end", FINALITY_OPTION],
+    execute: (options, context) => {
+      const { startDate, endDate } = parseDateRange(options);
+      return new BlockFinder(
+        context.fileManager,
+        context.getProvider(),
+        context.chain,
+      ).findBlocksForDateRange(startDate, endDate);
+    },
+  },
+  "verify-blocks": {
+    usage: "",
+    description:
+      "Check stored end-of-day blocks against the chain and print issues as JSON",
+    options: [],
+    readOnly: true,
+    execute: (_options, context) =>
+      new BlockFinder(
+        context.fileManager,
+        context.getProvider(),
+        context.chain,
+      ).verifyBlocks(),
+    failed: (result) => (result as BlockVerificationReport).issues.length > 0,
+  },
+  "repair-blocks": {
+    usage: "[--finality <mode>]",
+    description:
+      "Recompute invalid end-of-day blocks and mark dependent balances and outflows stale",
+    options: [FINALITY_OPTION],
+    execute: (_options, context) =>
+      new BlockFinder(
+        context.fileManager,
+        context.getProvider(),
+        context.chain,
+      ).repairBlocks(),
+  },
+  gaps: {
+    usage: "",
+    description:
+      "List dates missing from block_numbers.json and each distributor's balances and outflows as JSON",
+    options: [],
+    readOnly: true,
+    execute: async (_options, context) =>
+      new GapDetector(context.fileManager, context.chain).findGaps(),
+    failed: (result) => hasGaps(result as GapReport),
+  },
+  "repair-gaps": {
+    usage: "[--finality <mode>]",
+    description:
+      "Find missing end-of-day blocks, balances and outflows and print the remaining gaps",
+    options: [FINALITY_OPTION],
+    execute: (_options, context) =>
+      new Pipeline(
+        context.fileManager,
+        context.getProvider(),
+        console.error,
+        context.chain,
+      ).repairGaps(),
+    failed: (result) => hasGaps(result as GapReport),
+  },
+  "detect-distributors": {
+    usage: "--end <date> [--finality <mode>]",
+    description: "Detect distributors up to a date and print distributors.json",
+    options: ["end", FINALITY_OPTION],
+    execute: (options, context) =>
+      new DistributorDetector(
+        context.fileManager,
+        context.getProvider(),
+        context.chain,
+      ).detectDistributors(parseDateOption(options, "end")),
+  },
+  "fetch-balances": {
+    usage: "[--distributor <address>] [--finality <mode>]",
+    description: "Fetch missing end-of-day balances",
+    options: ["distributor", FINALITY_OPTION],
+    execute: (options, context) =>
+      new BalanceFetcher(
+        context.fileManager,
+        context.getProvider(),
+        context.chain,
+      ).fetchBalances(parseAddressOption(options, "distributor")),
+  },
+  "scan-outflows": {
+    usage: "[--distributor <address>]",
+    description:
+      "Scan missing daily RecipientRecieved and OwnerRecieved outflows",
+    options: ["distributor"],
+    execute: (options, context) =>
+      new EventScanner(
+        context.fileManager,
+        context.getProvider(),
+        context.chain,
+      ).scanOutflows(parseAddressOption(options, "distributor")),
+  },
+  "scan-recipients": {
+    usage: "[--distributor <address>]",
+    description: "Scan RecipientsUpdated history into recipients.json",
+    options: ["distributor"],
+    execute: (options, context) =>
+      new EventScanner(
+        context.fileManager,
+        context.getProvider(),
+        context.chain,
+      ).scanRecipientUpdates(parseAddressOption(options, "distributor")),
+  },
+  reconcile: {
+    usage: "[--distributor <address>]",
+    description:
+      "Check outflows against recipient weights and print mismatches as JSON",
+    options: ["distributor"],
+    readOnly: true,
+    execute: async (options, context) =>
+      new OutflowReconciler(context.fileManager).reconcile(
+        parseAddressOption(options, "distributor"),
+      ),
+    failed: (result) =>
+      Object.values((result as ReconciliationReport).distributors).some(
+        (distributor) => distributor.mismatches.length > 0,
+      ),
+  },
+  verify: {
+    usage: "",
+    description:
+      "Validate every store file and check them against each other; print violations as JSON",
+    options: [],
+    readOnly: true,
+    execute: async (_options, context) => context.fileManager.verifyStore(),
+    failed: (result) =>
+      (result as StoreVerificationReport).violations.length > 0,
+  },
+  migrate: {
+    usage: `[--${DRY_RUN_FLAG}]`,
+    description:
+      "Upgrade store files written by an older version and print the files upgraded as JSON",
+    options: [],
+    flags: [DRY_RUN_FLAG],
+    migratesLayout: true,
+    execute: async (options, context) => ({
+      ...context.fileManager.migrateStore(options.has(DRY_RUN_FLAG)),
+      ...(context.storeLayout && { layout: context.storeLayout }),
+    }),
+  },
+  calculate: {
+    usage: "",
+    description: "Calculate fees from the store and print the report as JSON",
+    options: [],
+    readOnly: true,
+    execute: async (_options, context) =>
+      new FeeCalculator(context.fileManager).calculateFees(),
+  },
+};
+
+export const USAGE = `Usage: aep-fee-tracker <command> [options] [--${CHAIN_OPTION} <chain>] [--${STORE_OPTION} <dir>]
+
+Commands:
+${Object.entries(COMMANDS)
+  .map(
+    ([name, command]) =>
+      `  ${`${name} ${command.usage}`.trim()}\n      ${command.description}`,
+  )
+  .join("\n")}
+
+Options:
+  --start <date>          First date to process (inclusive, YYYY-MM-DD, UTC)
+  --end <date>            Last date to process (inclusive, YYYY-MM-DD, UTC)
+  --distributor <address> Only process this distributor
+  --${DRY_RUN_FLAG}               List the files migrate would upgrade without writing them
+  --${FINALITY_OPTION} <mode>       Newest block treated as final: a block depth (1000), an age
+                          (4h, 30m, 3600s) or the provider's finalized/safe tag
+                          (default: the chain's finality depth)
+  --${CHAIN_OPTION} <chain>         Chain name or id (default: ${DEFAULT_CHAIN.name})
+  --${STORE_OPTION} <dir>           Store directory holding one subdirectory per chain id (default: ${STORE_DIR})
+  --help                  Show this message
+
+Chains:
+${CHAIN_REGISTRY.map((chain) => `  ${chain.name} (${chain.chain_id})`).join("\n")}
+  Other chains, such as Orbit chains, can be registered in <dir>/${CHAINS_FILE}
+
+Environment:
+  ${RPC_URL_ENV}                 Archive node endpoint for the selected chain (read from .env if present)`;
+
+/** Whether a gap report lists any missing date */
+function hasGaps(report: GapReport): boolean {
+  return (
+    report.block_numbers.length > 0 ||
+    Object.keys(report.distributors).length > 0
+  );
+}
+
+/**
+ * Parses `--name value` and `--name=value` options into a map. Flags are given
+ * as `--name` alone and map to "true".
+ *
+ * @param args - Arguments following the command name
+ * @param allowed - Option names accepted by the command
+ * @param flags - Option names accepted by the command that take no value
+ * @throws UsageError on unknown options, missing values or flags given a value
+ */
+export function parseOptions(
+  args: string[],
+  allowed: readonly string[],
+  flags: readonly string[] = [],
+): Map<string, string> {
+  const options = new Map<string, string>();
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (!arg.startsWith("--")) {
+      throw new UsageError(`Unexpected argument: ${arg}`);
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s, 2) as [
+      string,
+      string | undefined,
+    ];
+    if (flags.includes(name)) {
+      if (inlineValue !== undefined) {
+        throw new UsageError(`Option --${name} does not take a value`);
+      }
+      options.set(name, "true");
+      continue;
+    }
+    if (!allowed.includes(name)) {
+      throw new UsageError(`Unknown option: --${name}`);
+    }
+
+    const value = inlineValue ?? args[++i];
+    if (value === undefined || value.startsWith("--")) {
+      throw new UsageError(`Missing value for option: --${name}`);
+    }
+    options.set(name, value);
+  }
+
+  return options;
+}
+
+/**
+ * Parses a YYYY-MM-DD option value into a UTC midnight Date.
+ *
+ * @throws UsageError if the value is missing or not a valid calendar date
+ */
+export function parseDateOption(
+  options: Map<string, string>,
+  name: string,
+): Date {
+  const value = options.get(name);
+  if (value === undefined) {
+    throw new UsageError(`Missing required option: --${name}`);
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+  if (
+    !isValidDateString(value) ||
+    isNaN(date.getTime()) ||
+    date.toISOString().split("T")[0] !== value
+  ) {
+    throw new UsageError(
+      `Invalid date for --${name}: ${value}. Expected YYYY-MM-DD`,
+    );
+  }
+
+  return date;
+}
+
+/**
+ * Parses the required `--start` and `--end` options.
+ *
+ * @throws UsageError if either date is missing, invalid or out of order
+ */
+export function parseDateRange(options: Map<string, string>): {
+  startDate: Date;
+  endDate: Date;
+} {
+  const startDate = parseDateOption(options, "start");
+  const endDate = parseDateOption(options, "end");
+
+  if (startDate > endDate) {
+    throw new UsageError(
+      `--start (${options.get("start")}) must not be after --end (${options.get("end")})`,
+    );
+  }
+
+  return { startDate, endDate };
+}
+
+/**
+ * Parses an optional address option into its checksummed form.
+ *
+ * @throws UsageError if the value is not a valid address
+ */
+export function parseAddressOption(
+  options: Map<string, string>,
+  name: string,
+): string | undefined {
+  const value = options.get(name);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  try {
+    return ethers.getAddress(value);
+  } catch {
+    throw new UsageError(`Invalid address for --${name}: ${value}`);
+  }
+}
+
+/**
+ * Parses the optional `--chain` option into a registered chain.
+ *
+ * @param registry - Chains to choose from, defaulting to the built-in ones
+ * @throws UsageError if the chain is not registered
+ */
+export function parseChainOption(
+  options: Map<string, string>,
+  registry: readonly ChainConfig[] = CHAIN_REGISTRY,
+): ChainConfig {
+  const value = options.get(CHAIN_OPTION);
+  if (value === undefined) {
+    return DEFAULT_CHAIN;
+  }
+
+  const chain = findChainConfig(value, registry);
+  if (!chain) {
+    throw new UsageError(
+      `Unknown chain for --${CHAIN_OPTION}: ${value}. Expected one of: ${registry.map((known) => known.name).join(", ")}`,
+    );
+  }
+  return chain;
+}
+
+/**
+ * Parses the optional `--finality` option into a finality strategy.
+ *
+ * @returns The strategy, or undefined to use the chain's finality depth
+ * @throws UsageError if the value is not a depth, an age or a block tag
+ */
+export function parseFinalityOption(
+  options: Map<string, string>,
+): FinalityStrategy | undefined {
+  const value = options.get(FINALITY_OPTION);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (value === "finalized" || value === "safe") {
+    return { kind: "tag", tag: value };
+  }
+  if (/^\d+$/.test(value)) {
+    return { kind: "depth", blocks: Number(value) };
+  }
+  const age = /^(\d+)([smhd])$/.exec(value);
+  if (age) {
+    return { kind: "age", seconds: Number(age[1]) * AGE_UNITS[age[2]!]! };
+  }
+
+  throw new UsageError(
+    `Invalid value for --${FINALITY_OPTION}: ${value}. Expected a block depth (1000), an age (4h, 30m, 3600s), finalized or safe`,
+  );
+}
+
+/**
+ * Resolves the chain's directory inside the store, so chains are tracked side by side.
+ *
+ * @throws UsageError if the store still uses the single-chain layout
+ */
+export function resolveStoreDirectory(
+  storeDirectory: string,
+  chain: ChainConfig,
+): string {
+  const legacyFile = LEGACY_STORE_FILES.find((file) =>
+    fs.existsSync(path.join(storeDirectory, file)),
+  );
+  if (legacyFile) {
+    throw new UsageError(
+      `Store uses the single-chain layout\n  File: ${path.join(storeDirectory, legacyFile)}\n  Check: Run migrate to move the store's contents into ${path.join(storeDirectory, String(chain.chain_id))}`,
+    );
+  }
+
+  return path.join(storeDirectory, String(chain.chain_id));
+}
+
+/**
+ * Moves a store in the single-chain layout into the chain's directory, under the
+ * store's lock so an interrupted commit is settled first. A move that is interrupted
+ * part way is finished by running it again.
+ *
+ * @param dryRun - Only list the files that would move
+ * @returns The files moved, or undefined if the store is not in the single-chain layout
+ * @throws UsageError if the store's files belong to another chain than selected
+ * @throws FileManagerError if the store is locked or a file cannot be moved
+ */
+export function migrateStoreLayout(
+  storeDirectory: string,
+  chain: ChainConfig,
+  dryRun: boolean,
+): StoreLayoutMigration | undefined {
+  if (!isSingleChainLayout(storeDirectory)) {
+    return undefined;
+  }
+  checkLegacyChainId(storeDirectory, chain);
+
+  const chainDirectory = path.join(storeDirectory, String(chain.chain_id));
+  const listEntries = (): string[] =>
+    LEGACY_STORE_ENTRIES.filter((entry) =>
+      fs.existsSync(path.join(storeDirectory, entry)),
+    );
+  if (dryRun) {
+    return { from: storeDirectory, to: chainDirectory, files: listEntries() };
+  }
+
+  const backend = new FileSystemBackend(storeDirectory);
+  backend.acquireLock();
+  try {
+    const files = listEntries();
+    fs.mkdirSync(chainDirectory, { recursive: true });
+    for (const file of files) {
+      moveIntoChainDirectory(storeDirectory, chainDirectory, file);
+    }
+    return { from: storeDirectory, to: chainDirectory, files };
+  } finally {
+    backend.releaseLock();
+  }
+}
+
+function isSingleChainLayout(storeDirectory: string): boolean {
+  return LEGACY_STORE_FILES.some((file) =>
+    fs.existsSync(path.join(storeDirectory, file)),
+  );
+}
+
+/**
+ * @throws UsageError if a legacy file's metadata.chain_id is not the selected chain's
+ */
+function checkLegacyChainId(storeDirectory: string, chain: ChainConfig): void {
+  for (const file of LEGACY_STORE_FILES) {
+    const filePath = path.join(storeDirectory, file);
+    if (!fs.existsSync(filePath)) {
+      continue;
+    }
+    const data = parseJson(
+      fs.readFileSync(filePath, "utf-8"),
+      filePath,
+      "migrateStoreLayout",
+    );
+    const storedChainId =
+      isJsonObject(data) && isJsonObject(data["metadata"])
+        ? data["metadata"]["chain_id"]
+        : undefined;
+    if (storedChainId !== undefined && storedChainId !== chain.chain_id) {
+      throw new UsageError(
+        `Store belongs to a different chain than selected\n  File: ${filePath}\n  Stored chain_id: ${String(storedChainId)}\n  Selected: ${chain.name} (${chain.chain_id})\n  Check: Select chain ${String(storedChainId)} with --${CHAIN_OPTION}`,
+      );
+    }
+  }
+}
+
+function moveIntoChainDirectory(
+  storeDirectory: string,
+  chainDirectory: string,
+  file: string,
+): void {
+  const source = path.join(storeDirectory, file);
+  const target = path.join(chainDirectory, file);
+  if (fs.existsSync(target)) {
+    throw new FileManagerError(
+      `Cannot move store file into the chain's directory\n  File: ${source}\n  Target: ${target}\n  Check: Both exist; move one of them out of the store`,
+      "migrateStoreLayout",
+      target,
+    );
+  }
+  try {
+    fs.renameSync(source, target);
+  } catch (error) {
+    throw new FileManagerError(
+      `Cannot move store file into the chain's directory\n  File: ${source}\n  Target: ${target}\n  Check: Check permissions on the store directory`,
+      "migrateStoreLayout",
+      source,
+      types.isNativeError(error) ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Creates the RPC provider from the environment. The URL itself is never logged.
+ *
+ * @throws UsageError if RPC_URL is not set
+ */
+export function createProvider(env: NodeJS.ProcessEnv): ethers.JsonRpcProvider {
+  const rpcUrl = env[RPC_URL_ENV];
+  if (!rpcUrl) {
+    throw new UsageError(
+      `${RPC_URL_ENV} is not set\n  Check: Add ${RPC_URL_ENV} to the environment or a .env file`,
+    );
+  }
+  return new ethers.JsonRpcProvider(rpcUrl);
+}
+
+/**
+ * Runs the CLI and resolves to the process exit code.
+ *
+ * @param argv - Arguments without the node executable and script path
+ * @param env - Environment to read RPC_URL from
+ */
+export async function main(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<number> {
+  const [commandName, ...args] = argv;
+
+  if (
+    commandName === undefined ||
+    commandName === "--help" ||
+    args.includes("--help")
+  ) {
+    console.log(USAGE);
+    return commandName === undefined ? EXIT_USAGE : EXIT_SUCCESS;
+  }
+
+  let provider: ethers.JsonRpcProvider | undefined;
+  let fileManager: FileManager | undefined;
+  try {
+    const command = COMMANDS[commandName];
+    if (!command) {
+      throw new UsageError(`Unknown command: ${commandName}`);
+    }
+
+    const options = parseOptions(
+      args,
+      [...command.options, CHAIN_OPTION, STORE_OPTION],
+      command.flags,
+    );
+    const finality = parseFinalityOption(options);
+    const storeRoot = options.get(STORE_OPTION) ?? STORE_DIR;
+    const chain: ChainConfig = {
+      ...parseChainOption(options, loadChainRegistry(storeRoot)),
+      ...(finality && { finality }),
+    };
+    const dryRun = options.has(DRY_RUN_FLAG);
+    const storeLayout = command.migratesLayout
+      ? migrateStoreLayout(storeRoot, chain, dryRun)
+      : undefined;
+    // A dry run leaves a single-chain store in place, so it is read where it is
+    const storeDirectory =
+      storeLayout && dryRun
+        ? storeRoot
+        : resolveStoreDirectory(storeRoot, chain);
+    // Taking the lock settles journals and removes temporary files, which a dry run
+    // only reports
+    const readOnly = command.readOnly === true || dryRun;
+    fileManager = new FileManager(storeDirectory, { readOnly });
+    if (!readOnly) {
+      const orphanedFiles = fileManager.acquireLock();
+      if (orphanedFiles.length > 0) {
+        console.error(
+          `Removed temporary files left by an interrupted write\n  Store: ${storeDirectory}\n  Files: ${orphanedFiles.join(", ")}`,
+        );
+      }
+    }
+    const context: CommandContext = {
+      chain,
+      fileManager,
+      getProvider: () => (provider ??= createProvider(env)),
+      ...(storeLayout && { storeLayout }),
+    };
+
+    const result = await command.execute(options, context);
+    if (result !== undefined) {
+      process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+    }
+    return command.failed?.(result) ? EXIT_FAILURE : EXIT_SUCCESS;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`Error: ${error.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    console.error(
+      `Error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return EXIT_FAILURE;
+  } finally {
+    fileManager?.releaseLock();
+    provider?.destroy();
+  }
+}
+
+if (require.main === module) {
+  dotenv.config();
+  main(process.argv.slice(2)).then((exitCode) => {
+    process.exitCode = exitCode;
+  });
+}
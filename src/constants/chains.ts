@@ -0,0 +1,46 @@
+import { CHAIN_IDS, CONTRACTS, ChainConfig } from "../types";
+
+export const ARBITRUM_ONE: ChainConfig = {
+  chain_id: CHAIN_IDS.ARBITRUM_ONE,
+  name: "arbitrum-one",
+  arbowner_address: CONTRACTS.ARB_OWNER,
+  finality_blocks: 1000,
+  // Maximum block range for RPC providers (e.g., Alchemy limit)
+  default_chunk_size: 10000,
+  genesis_date: "2021-05-28",
+};
+
+export const ARBITRUM_NOVA: ChainConfig = {
+  chain_id: CHAIN_IDS.ARBITRUM_NOVA,
+  name: "arbitrum-nova",
+  arbowner_address: CONTRACTS.ARB_OWNER,
+  finality_blocks: 1000,
+  default_chunk_size: 10000,
+  genesis_date: "2022-06-25",
+};
+
+// Built-in chains; others, such as Orbit chains, are registered in the store's chains.json
+// and loaded by loadChainRegistry() (src/utils/chain-registry.ts)
+export const CHAIN_REGISTRY: readonly ChainConfig[] = [
+  ARBITRUM_ONE,
+  ARBITRUM_NOVA,
+];
+
+// Chain used when none is selected, matching stores created before multi-chain support
+export const DEFAULT_CHAIN = ARBITRUM_NOVA;
+
+/**
+ * Looks up a registered chain by numeric chain id or name.
+ *
+ * @param idOrName - Chain id such as "42170" or name such as "arbitrum-nova"
+ * @param registry - Chains to search, defaulting to the built-in ones
+ * @returns The chain config, or undefined if the chain is not registered
+ */
+export function findChainConfig(
+  idOrName: string,
+  registry: readonly ChainConfig[] = CHAIN_REGISTRY,
+): ChainConfig | undefined {
+  return registry.find(
+    (chain) => chain.name === idOrName || String(chain.chain_id) === idOrName,
+  );
+}
@@ -34,3 +34,17 @@ export const ALL_DISTRIBUTOR_METHOD_SIGNATURES_PADDED = [
 export const OWNER_ACTS_EVENT_ABI = [
   "event OwnerActs(bytes4 indexed method, address indexed owner, bytes data)",
 ] as const;
+
+// ArbAggregator precompile, which keeps the L1 base fee collector of each batch poster
+export const ARB_AGGREGATOR_PRECOMPILE_ADDRESS =
+  "0x000000000000000000000000000000000000006D" as const;
+
+// setFeeCollector(address batchPoster, address newFeeCollector), recorded as the method
+// of L1 base fee collectors; it emits no OwnerActs event, so collectors are polled
+export const SET_FEE_COLLECTOR_METHOD = "0x29149799" as const;
+
+// ArbAggregator functions read to poll L1 base fee collectors
+export const ARB_AGGREGATOR_ABI = [
+  "function getBatchPosters() view returns (address[])",
+  "function getFeeCollector(address batchPoster) view returns (address)",
+] as const;
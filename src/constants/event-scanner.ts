@@ -0,0 +1,38 @@
+// RecipientRecieved event signature
+// event RecipientRecieved(address indexed recipient, uint256 value)
+// Note: "Recieved" is misspelled in the deployed RewardDistributor contract
+export const RECIPIENT_RECIEVED_EVENT_SIGNATURE =
+  "0x8b2a2b28e169eb0e4f62578e9d12f747d7bd0fe1ebc935af28387c18034d7cc0" as const;
+
+// OwnerRecieved event signature
+// event OwnerRecieved(address indexed owner, address indexed recipient, uint256 value)
+// Emitted instead of RecipientRecieved when a recipient transfer fails and the owner is paid
+export const OWNER_RECIEVED_EVENT_SIGNATURE =
+  "0xf3b03d863408466d72337e3dd8e40d5b9a37c5ef4c274f40dd3542d87697ab7e" as const;
+
+// Both outflow event signatures, used as an OR filter on topic0
+export const OUTFLOW_EVENT_SIGNATURES = [
+  RECIPIENT_RECIEVED_EVENT_SIGNATURE,
+  OWNER_RECIEVED_EVENT_SIGNATURE,
+] as const;
+
+// RecipientRecieved event ABI for parsing
+export const RECIPIENT_RECIEVED_EVENT_ABI = [
+  "event RecipientRecieved(address indexed recipient, uint256 value)",
+] as const;
+
+// OwnerRecieved event ABI for parsing
+export const OWNER_RECIEVED_EVENT_ABI = [
+  "event OwnerRecieved(address indexed owner, address indexed recipient, uint256 value)",
+] as const;
+
+// RecipientsUpdated event signature
+// event RecipientsUpdated(bytes32 recipientGroup, address[] recipients, bytes32 recipientWeights, uint256[] weights)
+// Emitted by the constructor and on every later change of the recipient split
+export const RECIPIENTS_UPDATED_EVENT_SIGNATURE =
+  "0x33bc54b3c50e54df666d4399528026a4b04671bb2a879281b5279f7352fb3e6c" as const;
+
+// RecipientsUpdated event ABI for parsing
+export const RECIPIENTS_UPDATED_EVENT_ABI = [
+  "event RecipientsUpdated(bytes32 recipientGroup, address[] recipients, bytes32 recipientWeights, uint256[] weights)",
+] as const;
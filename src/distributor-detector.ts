@@ -1,6 +1,9 @@
 import { ethers } from "ethers";
 import { FileManager } from "./file-manager";
 import {
+  ActivePeriod,
+  BlockNumberData,
+  ChainConfig,
   DistributorType,
   DISTRIBUTOR_METHODS,
   DistributorInfo,
@@ -13,22 +16,28 @@ import {
   ARBOWNER_PRECOMPILE_ADDRESS,
   OWNER_ACTS_EVENT_SIGNATURE,
   ALL_DISTRIBUTOR_METHOD_SIGNATURES_PADDED,
+  ARB_AGGREGATOR_ABI,
+  ARB_AGGREGATOR_PRECOMPILE_ADDRESS,
+  SET_FEE_COLLECTOR_METHOD,
 } from "./constants/distributor-detector";
+import { DEFAULT_CHAIN } from "./constants/chains";
+import { verifyStoreChain } from "./utils/chain-guard";
+import { getSafeBlockNumber } from "./utils/finality";
+import { getActivePeriods } from "./utils/active-periods";
 import { chunkBlockRange } from "./utils/block-range-chunking";
 
-// Maximum block range for RPC providers (e.g., Alchemy limit)
-const DEFAULT_BLOCK_CHUNK_SIZE = 10000;
-
 /**
  * Creates a new DistributorDetector instance with the specified dependencies.
  *
  * @param fileManager - File manager instance for data persistence
- * @param provider - Nova provider for RPC calls
+ * @param provider - Provider for RPC calls on the selected chain
+ * @param chain - Chain the store and provider belong to, defaults to Arbitrum Nova
  */
 export class DistributorDetector {
   constructor(
     public readonly fileManager: FileManager,
     public readonly provider: ethers.Provider,
+    public readonly chain: ChainConfig = DEFAULT_CHAIN,
   ) {}
 
   static getDistributorType(methodSignature: string): DistributorType | null {
@@ -165,13 +174,16 @@ export class DistributorDetector {
    * @param provider - The ethers provider to query blockchain data
    * @param fromBlock - Starting block number (inclusive)
    * @param toBlock - Ending block number (inclusive)
+   * @param chunkSize - Maximum block range per getLogs request
+   * @param arbOwnerAddress - ArbOwner precompile emitting the OwnerActs events
    * @returns Array of DistributorInfo objects for discovered distributors
    */
   static async scanBlockRange(
     provider: ethers.Provider,
     fromBlock: number,
     toBlock: number,
-    chunkSize: number = DEFAULT_BLOCK_CHUNK_SIZE,
+    chunkSize: number = DEFAULT_CHAIN.default_chunk_size,
+    arbOwnerAddress: string = ARBOWNER_PRECOMPILE_ADDRESS,
   ): Promise<DistributorInfo[]> {
     const allLogs: ethers.Log[] = [];
     const chunks = chunkBlockRange(fromBlock, toBlock, chunkSize);
@@ -180,7 +192,7 @@ export class DistributorDetector {
     for (const chunk of chunks) {
       // Construct filter with OR logic for method signatures
       const filter = {
-        address: ARBOWNER_PRECOMPILE_ADDRESS,
+        address: arbOwnerAddress,
         topics: [
           OWNER_ACTS_EVENT_SIGNATURE,
           [...ALL_DISTRIBUTOR_METHOD_SIGNATURES_PADDED],
@@ -207,6 +219,50 @@ export class DistributorDetector {
     return processedResults.sort((a, b) => a.block - b.block);
   }
 
+  /**
+   * Reads the L1 base fee collectors at a block: the fee collector of every batch
+   * poster registered with the ArbAggregator precompile.
+   *
+   * @param provider - The ethers provider to query blockchain data
+   * @param blockNumber - Block to read the collectors at
+   * @returns Checksummed collector addresses, sorted and without duplicates
+   */
+  static async getFeeCollectors(
+    provider: ethers.Provider,
+    blockNumber: number,
+  ): Promise<string[]> {
+    const iface = new ethers.Interface(ARB_AGGREGATOR_ABI);
+    const callAggregator = async (
+      method: "getBatchPosters" | "getFeeCollector",
+      args: string[],
+    ): Promise<ethers.Result> => {
+      const result = await withRetry(
+        () =>
+          provider.call({
+            to: ARB_AGGREGATOR_PRECOMPILE_ADDRESS,
+            data: iface.encodeFunctionData(method, args),
+            blockTag: blockNumber,
+          }),
+        {
+          maxRetries: 3,
+          operationName: `getFeeCollectors.${method}(${blockNumber})`,
+        },
+      );
+      return iface.decodeFunctionResult(method, result);
+    };
+
+    const [batchPosters] = await callAggregator("getBatchPosters", []);
+    const collectors = await Promise.all(
+      (batchPosters as string[]).map(async (batchPoster) => {
+        const [collector] = await callAggregator("getFeeCollector", [
+          batchPoster,
+        ]);
+        return ethers.getAddress(collector as string);
+      }),
+    );
+    return [...new Set(collectors)].sort();
+  }
+
   /**
    * Detects new distributors up to a specified end date by scanning blockchain events.
    * Performs incremental scanning from the last processed block.
@@ -218,26 +274,46 @@ export class DistributorDetector {
   async detectDistributors(endDate: Date): Promise<DistributorsData> {
     // Load existing data and determine scan range
     const existingData = this.fileManager.readDistributors();
-    const endBlock = this.getBlockForDate(endDate);
-    const scanRange = this.calculateScanRange(existingData, endBlock);
+    const blockNumbersData = this.fileManager.readBlockNumbers();
+    const endBlock = this.getBlockForDate(blockNumbersData, endDate);
+    // Never scan past the newest final block, even if block_numbers.json is ahead of it
+    const safeBlock = await getSafeBlockNumber(this.provider, this.chain);
+    const scanRange = this.calculateScanRange(
+      existingData,
+      Math.min(endBlock, safeBlock),
+    );
+    const pollRange = this.calculatePollRange(
+      existingData,
+      Math.min(endBlock, safeBlock),
+    );
 
     // Check if scanning is needed
-    if (!this.isScanningNeeded(scanRange)) {
+    if (
+      !this.isScanningNeeded(scanRange) &&
+      !this.isScanningNeeded(pollRange)
+    ) {
       return existingData!;
     }
 
-    // Scan for new distributors and build updated data
-    const newDistributors = await DistributorDetector.scanBlockRange(
-      this.provider,
-      scanRange.fromBlock,
-      scanRange.toBlock,
-    );
+    await verifyStoreChain(this.fileManager, this.provider, this.chain);
 
-    const updatedData = await this.buildUpdatedData(
+    // Scan for new distributors and build updated data
+    const newDistributors = this.isScanningNeeded(scanRange)
+      ? await DistributorDetector.scanBlockRange(
+          this.provider,
+          scanRange.fromBlock,
+          scanRange.toBlock,
+          this.chain.default_chunk_size,
+          this.chain.arbowner_address,
+        )
+      : [];
+
+    const updatedData = this.buildUpdatedData(
       existingData,
       newDistributors,
-      scanRange.toBlock,
+      Math.max(scanRange.toBlock, scanRange.fromBlock - 1),
     );
+    await this.pollFeeCollectors(updatedData, blockNumbersData, pollRange);
 
     // Persist and return updated data
     this.fileManager.writeDistributors(updatedData);
@@ -248,8 +324,10 @@ export class DistributorDetector {
    * Gets the block number for a given date from block numbers data.
    * @private
    */
-  private getBlockForDate(date: Date): number {
-    const blockNumbersData = this.fileManager.readBlockNumbers();
+  private getBlockForDate(
+    blockNumbersData: BlockNumberData | undefined,
+    date: Date,
+  ): number {
     if (!blockNumbersData) {
       throw new Error("Block numbers data not found");
     }
@@ -278,6 +356,21 @@ export class DistributorDetector {
     return { fromBlock, toBlock: endBlock };
   }
 
+  /**
+   * Calculates the block range whose end-of-day blocks still need their L1 base fee
+   * collectors read. Stores scanned before collectors were polled start from block 0.
+   * @private
+   */
+  private calculatePollRange(
+    existingData: DistributorsData | undefined,
+    endBlock: number,
+  ): { fromBlock: number; toBlock: number } {
+    const lastPolledBlock = existingData?.metadata.last_polled_block;
+    const fromBlock = lastPolledBlock !== undefined ? lastPolledBlock + 1 : 0;
+
+    return { fromBlock, toBlock: endBlock };
+  }
+
   /**
    * Determines if scanning is needed based on the calculated range.
    * @private
@@ -293,37 +386,212 @@ export class DistributorDetector {
    * Builds the updated distributors data by merging existing and new distributors.
    * @private
    */
-  private async buildUpdatedData(
+  private buildUpdatedData(
     existingData: DistributorsData | undefined,
     newDistributors: DistributorInfo[],
     lastScannedBlock: number,
-  ): Promise<DistributorsData> {
-    // Get chain ID - use existing if available, otherwise get from provider
-    let chainId: number;
-    if (existingData?.metadata.chain_id !== undefined) {
-      chainId = existingData.metadata.chain_id;
-    } else {
-      const network = await this.provider.getNetwork();
-      chainId = Number(network.chainId);
-    }
-
+  ): DistributorsData {
     // Initialize with existing distributors or empty object
     const updatedData: DistributorsData = {
       metadata: {
-        chain_id: chainId,
-        arbowner_address: ARBOWNER_PRECOMPILE_ADDRESS,
+        chain_id: this.chain.chain_id,
+        arbowner_address: this.chain.arbowner_address,
         last_scanned_block: lastScannedBlock,
+        ...(existingData?.metadata.last_polled_block !== undefined && {
+          last_polled_block: existingData.metadata.last_polled_block,
+        }),
       },
       distributors: { ...(existingData?.distributors || {}) },
     };
 
-    // Add new distributors (skip if already known)
-    for (const distributor of newDistributors) {
-      if (!updatedData.distributors[distributor.distributor_address]) {
-        updatedData.distributors[distributor.distributor_address] = distributor;
+    // Apply creation events in block order so each one retires its predecessor
+    const sortedEvents = [...newDistributors].sort((a, b) => a.block - b.block);
+    for (const distributor of sortedEvents) {
+      this.retireReplacedDistributors(updatedData, distributor);
+
+      const existing =
+        updatedData.distributors[distributor.distributor_address];
+      if (!existing) {
+        updatedData.distributors[distributor.distributor_address] =
+          DistributorDetector.activate(distributor);
+      } else if (existing.active_until_block !== undefined) {
+        // Set again after being replaced
+        updatedData.distributors[distributor.distributor_address] =
+          DistributorDetector.reactivate(
+            existing,
+            distributor.block,
+            distributor.date,
+          );
       }
     }
 
     return updatedData;
   }
+
+  /**
+   * Marks every live distributor of the same type as retired at the block of a
+   * new creation event, closing its current active period, since only one
+   * distributor per type receives fees.
+   * @private
+   */
+  private retireReplacedDistributors(
+    data: DistributorsData,
+    replacement: DistributorInfo,
+  ): void {
+    for (const [address, info] of Object.entries(data.distributors)) {
+      const periods = getActivePeriods(info);
+      if (
+        address === replacement.distributor_address ||
+        info.type !== replacement.type ||
+        info.active_until_block !== undefined ||
+        periods[periods.length - 1]!.from_block > replacement.block
+      ) {
+        continue;
+      }
+
+      data.distributors[address] = DistributorDetector.retire(
+        info,
+        replacement.block,
+        replacement.date,
+      );
+    }
+  }
+
+  /**
+   * Reads the L1 base fee collectors at the end-of-day block of every tracked date in
+   * the poll range. Collectors are set through ArbAggregator, which emits no OwnerActs
+   * event, so a change is recorded at the first end-of-day block that shows it, with the
+   * zero hash as its transaction. Collectors no longer set for any batch poster retire.
+   * @private
+   */
+  private async pollFeeCollectors(
+    data: DistributorsData,
+    blockNumbersData: BlockNumberData | undefined,
+    pollRange: { fromBlock: number; toBlock: number },
+  ): Promise<void> {
+    if (!this.isScanningNeeded(pollRange)) {
+      return;
+    }
+
+    const dates = Object.entries(blockNumbersData?.blocks ?? {})
+      .filter(
+        ([, block]) =>
+          block >= pollRange.fromBlock && block <= pollRange.toBlock,
+      )
+      .sort(([a], [b]) => a.localeCompare(b));
+    for (const [date, block] of dates) {
+      const collectors = await DistributorDetector.getFeeCollectors(
+        this.provider,
+        block,
+      );
+
+      for (const [address, info] of Object.entries(data.distributors)) {
+        if (
+          info.type === DistributorType.L1_BASE_FEE &&
+          info.active_until_block === undefined &&
+          !collectors.includes(address)
+        ) {
+          data.distributors[address] = DistributorDetector.retire(
+            info,
+            block,
+            date,
+          );
+        }
+      }
+
+      for (const collector of collectors) {
+        const existing = data.distributors[collector];
+        if (!existing) {
+          data.distributors[collector] = DistributorDetector.activate({
+            type: DistributorType.L1_BASE_FEE,
+            block,
+            date,
+            tx_hash: ethers.ZeroHash,
+            method: SET_FEE_COLLECTOR_METHOD,
+            owner: ethers.ZeroAddress,
+            event_data: "0x",
+            is_reward_distributor:
+              await DistributorDetector.isRewardDistributor(
+                this.provider,
+                collector,
+              ),
+            distributor_address: collector,
+          });
+        } else if (
+          // An address already tracked for another fee type keeps that entry
+          existing.type === DistributorType.L1_BASE_FEE &&
+          existing.active_until_block !== undefined
+        ) {
+          data.distributors[collector] = DistributorDetector.reactivate(
+            existing,
+            block,
+            date,
+          );
+        }
+      }
+    }
+
+    data.metadata.last_polled_block = pollRange.toBlock;
+  }
+
+  /**
+   * Makes a newly found distributor live from its creation event, with one open
+   * active period.
+   * @private
+   */
+  private static activate(distributor: DistributorInfo): DistributorInfo {
+    return {
+      ...distributor,
+      active_from_block: distributor.block,
+      active_from_date: distributor.date,
+      active_periods: [
+        { from_block: distributor.block, from_date: distributor.date },
+      ],
+    };
+  }
+
+  /**
+   * Makes a retired distributor live again from the given block, while the period in
+   * which its replacement was live stays excluded.
+   * @private
+   */
+  private static reactivate(
+    info: DistributorInfo,
+    block: number,
+    date: string,
+  ): DistributorInfo {
+    const period: ActivePeriod = { from_block: block, from_date: date };
+    const reactivated: DistributorInfo = {
+      ...info,
+      active_periods: [...getActivePeriods(info), period],
+    };
+    delete reactivated.active_until_block;
+    delete reactivated.active_until_date;
+    return reactivated;
+  }
+
+  /**
+   * Retires a live distributor at the given block by closing its current active period.
+   * @private
+   */
+  private static retire(
+    info: DistributorInfo,
+    block: number,
+    date: string,
+  ): DistributorInfo {
+    const periods = getActivePeriods(info);
+    return {
+      ...info,
+      active_until_block: block,
+      active_until_date: date,
+      active_periods: [
+        ...periods.slice(0, -1),
+        {
+          ...periods[periods.length - 1]!,
+          until_block: block,
+          until_date: date,
+        },
+      ],
+    };
+  }
 }
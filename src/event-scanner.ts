@@ -0,0 +1,506 @@
+import { ethers } from "ethers";
+import { FileManager } from "./file-manager";
+import {
+  BlockNumberData,
+  ChainConfig,
+  DailyOutflow,
+  DistributorInfo,
+  OutflowData,
+  OutflowEvent,
+  OutflowEventKind,
+  RecipientsData,
+  RecipientsUpdate,
+  withRetry,
+} from "./types";
+import {
+  OUTFLOW_EVENT_SIGNATURES,
+  OWNER_RECIEVED_EVENT_ABI,
+  OWNER_RECIEVED_EVENT_SIGNATURE,
+  RECIPIENT_RECIEVED_EVENT_ABI,
+  RECIPIENTS_UPDATED_EVENT_ABI,
+  RECIPIENTS_UPDATED_EVENT_SIGNATURE,
+} from "./constants/event-scanner";
+import { DEFAULT_CHAIN } from "./constants/chains";
+import { chunkBlockRange } from "./utils/block-range-chunking";
+import { verifyStoreChain } from "./utils/chain-guard";
+import { clearStaleDates } from "./utils/stale-data";
+import { isActiveOn } from "./utils/active-periods";
+
+// Maximum block range for RPC providers (e.g., Alchemy limit)
+const DEFAULT_BLOCK_CHUNK_SIZE = 10000;
+
+/**
+ * Creates a new EventScanner instance with the specified dependencies.
+ *
+ * @param fileManager - File manager instance for data persistence
+ * @param provider - Provider for RPC calls on the selected chain
+ * @param chain - Chain the store and provider belong to, defaults to Arbitrum Nova
+ */
+export class EventScanner {
+  constructor(
+    public readonly fileManager: FileManager,
+    public readonly provider: ethers.Provider,
+    public readonly chain: ChainConfig = DEFAULT_CHAIN,
+  ) {}
+
+  /**
+   * Scans missing outflows for all distributors or a specific distributor.
+   * Uses incremental processing to only scan dates that haven't been scanned yet.
+   *
+   * @param distributorAddress - If provided, only scan outflows for this specific distributor
+   * @returns Promise that resolves when all missing outflows are scanned successfully
+   * @throws Error on any failure
+   */
+  async scanOutflows(distributorAddress?: string): Promise<void> {
+    const inputs = await this.loadScanInputs(distributorAddress);
+    if (!inputs) {
+      return;
+    }
+
+    for (const [address, distributorInfo] of inputs.distributors) {
+      await this.scanDistributorOutflows(
+        address,
+        distributorInfo,
+        inputs.blockNumbersData,
+      );
+    }
+  }
+
+  /**
+   * Scans RecipientsUpdated events for all distributors or a specific distributor and
+   * appends them to recipients.json. The first scan starts at the deployment block so
+   * the split set by the constructor is captured; later scans resume after last_scanned_block.
+   *
+   * @param distributorAddress - If provided, only scan this specific distributor
+   * @returns Promise that resolves when every distributor is scanned up to its last tracked day
+   * @throws Error on any failure
+   */
+  async scanRecipientUpdates(distributorAddress?: string): Promise<void> {
+    const inputs = await this.loadScanInputs(distributorAddress);
+    if (!inputs) {
+      return;
+    }
+
+    for (const [address, distributorInfo] of inputs.distributors) {
+      await this.scanDistributorRecipients(
+        address,
+        distributorInfo,
+        inputs.blockNumbersData,
+      );
+    }
+  }
+
+  /**
+   * Loads the distributors to scan and the block numbers that bound each scan, after
+   * checking the store and provider belong to the selected chain.
+   * @private
+   */
+  private async loadScanInputs(distributorAddress: string | undefined): Promise<
+    | {
+        distributors: [string, DistributorInfo][];
+        blockNumbersData: BlockNumberData;
+      }
+    | undefined
+  > {
+    const distributorsData = this.fileManager.readDistributors();
+
+    // Early return if no distributors data
+    if (
+      !distributorsData ||
+      Object.keys(distributorsData.distributors).length === 0
+    ) {
+      return undefined;
+    }
+
+    // If specific distributor requested, validate it exists
+    const requestedInfo = distributorAddress
+      ? distributorsData.distributors[distributorAddress]
+      : undefined;
+    if (distributorAddress && !requestedInfo) {
+      throw new Error(`Distributor not found: ${distributorAddress}`);
+    }
+
+    // Load block numbers
+    const blockNumbersData = this.fileManager.readBlockNumbers();
+    if (!blockNumbersData) {
+      return undefined;
+    }
+
+    await verifyStoreChain(this.fileManager, this.provider, this.chain);
+
+    return {
+      distributors:
+        distributorAddress && requestedInfo
+          ? [[distributorAddress, requestedInfo]]
+          : Object.entries(distributorsData.distributors),
+      blockNumbersData,
+    };
+  }
+
+  /**
+   * Scans each applicable date not yet present in the distributor's outflows.json,
+   * persisting after every date so an interrupted run resumes where it stopped.
+   * @private
+   */
+  private async scanDistributorOutflows(
+    address: string,
+    distributorInfo: DistributorInfo,
+    blockNumbersData: BlockNumberData,
+  ): Promise<void> {
+    const existingData = this.fileManager.readDistributorOutflows(address);
+    const outflowData: OutflowData = {
+      metadata: {
+        chain_id:
+          existingData?.metadata.chain_id ?? blockNumbersData.metadata.chain_id,
+        reward_distributor: address,
+        ...(existingData?.metadata.stale_dates && {
+          stale_dates: existingData.metadata.stale_dates,
+        }),
+      },
+      outflows: { ...(existingData?.outflows || {}) },
+    };
+
+    const sortedBlocks = Object.entries(blockNumbersData.blocks).sort(
+      ([a], [b]) => a.localeCompare(b),
+    );
+
+    for (let i = 0; i < sortedBlocks.length; i++) {
+      const [date, blockNumber] = sortedBlocks[i]!;
+      // Dates whose block range changed in a repair are rescanned like missing ones
+      const isStale = outflowData.metadata.stale_dates?.includes(date) ?? false;
+      if (
+        !isActiveOn(distributorInfo, date) ||
+        (outflowData.outflows[date] && !isStale)
+      ) {
+        continue;
+      }
+
+      // Day range: previous day's block + 1 to current day's block
+      const previousBlock = i > 0 ? sortedBlocks[i - 1]![1] : undefined;
+      const fromBlock =
+        previousBlock !== undefined ? previousBlock + 1 : distributorInfo.block;
+
+      outflowData.outflows[date] = await this.scanDay(
+        address,
+        fromBlock,
+        blockNumber,
+      );
+      if (isStale) {
+        const { stale_dates, ...metadata } = outflowData.metadata;
+        const remaining = clearStaleDates(stale_dates, [date]);
+        outflowData.metadata = {
+          ...metadata,
+          ...(remaining && { stale_dates: remaining }),
+        };
+      }
+      this.fileManager.writeDistributorOutflows(address, outflowData);
+    }
+  }
+
+  /**
+   * Scans one distributor from its deployment (or last scanned block) to the end-of-day
+   * block of its last tracked date and persists the result once.
+   * @private
+   */
+  private async scanDistributorRecipients(
+    address: string,
+    distributorInfo: DistributorInfo,
+    blockNumbersData: BlockNumberData,
+  ): Promise<void> {
+    const endBlock = Object.entries(blockNumbersData.blocks)
+      .filter(([date]) => isActiveOn(distributorInfo, date))
+      .reduce<number | undefined>(
+        (max, [, block]) => (max === undefined || block > max ? block : max),
+        undefined,
+      );
+    if (endBlock === undefined) {
+      return;
+    }
+
+    const existingData = this.fileManager.readDistributorRecipients(address);
+    const fromBlock =
+      existingData !== undefined
+        ? existingData.metadata.last_scanned_block + 1
+        : await EventScanner.findDeploymentBlock(
+            this.provider,
+            address,
+            distributorInfo.block,
+          );
+    if (fromBlock > endBlock) {
+      return;
+    }
+
+    const updates = await EventScanner.scanRecipientsUpdatedRange(
+      this.provider,
+      address,
+      fromBlock,
+      endBlock,
+    );
+
+    const recipientsData: RecipientsData = {
+      metadata: {
+        chain_id:
+          existingData?.metadata.chain_id ?? blockNumbersData.metadata.chain_id,
+        reward_distributor: address,
+        last_scanned_block: endBlock,
+      },
+      updates: [...(existingData?.updates || []), ...updates],
+    };
+    this.fileManager.writeDistributorRecipients(address, recipientsData);
+  }
+
+  /**
+   * Collects RecipientRecieved and OwnerRecieved events for one day and aggregates the total.
+   * @private
+   */
+  private async scanDay(
+    address: string,
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<DailyOutflow> {
+    const events =
+      fromBlock <= toBlock
+        ? await EventScanner.scanBlockRange(
+            this.provider,
+            address,
+            fromBlock,
+            toBlock,
+          )
+        : [];
+
+    const total = events.reduce(
+      (sum, event) => sum + BigInt(event.value_wei),
+      BigInt(0),
+    );
+
+    return {
+      block_number: toBlock,
+      total_outflow_wei: total.toString(),
+      events,
+    };
+  }
+
+  /**
+   * Parses a RecipientRecieved event log into an OutflowEvent.
+   *
+   * @param log - The ethers.Log object containing the event data
+   * @returns OutflowEvent with checksummed recipient and decimal wei value
+   * @throws Error if the log is not a RecipientRecieved event
+   */
+  static parseRecipientRecieved(log: ethers.Log): OutflowEvent {
+    const iface = new ethers.Interface(RECIPIENT_RECIEVED_EVENT_ABI);
+    const parsedLog = iface.parseLog(log);
+
+    if (!parsedLog) {
+      throw new Error("Failed to parse log as RecipientRecieved event");
+    }
+
+    return {
+      recipient: ethers.getAddress(parsedLog.args["recipient"]),
+      value_wei: parsedLog.args["value"].toString(),
+      tx_hash: log.transactionHash,
+      block_number: log.blockNumber,
+      kind: OutflowEventKind.RECIPIENT,
+    };
+  }
+
+  /**
+   * Parses an OwnerRecieved event log, emitted when a recipient transfer fails
+   * and the distributor pays the owner instead.
+   *
+   * @param log - The ethers.Log object containing the event data
+   * @returns OutflowEvent paid to the owner, recording the intended recipient
+   * @throws Error if the log is not an OwnerRecieved event
+   */
+  static parseOwnerRecieved(log: ethers.Log): OutflowEvent {
+    const iface = new ethers.Interface(OWNER_RECIEVED_EVENT_ABI);
+    const parsedLog = iface.parseLog(log);
+
+    if (!parsedLog) {
+      throw new Error("Failed to parse log as OwnerRecieved event");
+    }
+
+    return {
+      recipient: ethers.getAddress(parsedLog.args["owner"]),
+      value_wei: parsedLog.args["value"].toString(),
+      tx_hash: log.transactionHash,
+      block_number: log.blockNumber,
+      kind: OutflowEventKind.OWNER_FALLBACK,
+      intended_recipient: ethers.getAddress(parsedLog.args["recipient"]),
+    };
+  }
+
+  /**
+   * Parses either outflow event log based on its topic0.
+   *
+   * @param log - The ethers.Log object containing the event data
+   * @returns OutflowEvent of the matching kind
+   * @throws Error if the log is neither outflow event
+   */
+  static parseOutflowLog(log: ethers.Log): OutflowEvent {
+    return log.topics[0] === OWNER_RECIEVED_EVENT_SIGNATURE
+      ? this.parseOwnerRecieved(log)
+      : this.parseRecipientRecieved(log);
+  }
+
+  /**
+   * Scans a block range for RecipientRecieved and OwnerRecieved events emitted by a distributor.
+   *
+   * @param provider - The ethers provider to query blockchain data
+   * @param address - The reward distributor address
+   * @param fromBlock - Starting block number (inclusive)
+   * @param toBlock - Ending block number (inclusive)
+   * @returns Array of OutflowEvent objects in block order
+   */
+  static async scanBlockRange(
+    provider: ethers.Provider,
+    address: string,
+    fromBlock: number,
+    toBlock: number,
+    chunkSize: number = DEFAULT_BLOCK_CHUNK_SIZE,
+  ): Promise<OutflowEvent[]> {
+    const allLogs: ethers.Log[] = [];
+    const chunks = chunkBlockRange(fromBlock, toBlock, chunkSize);
+
+    for (const chunk of chunks) {
+      const filter = {
+        address,
+        topics: [[...OUTFLOW_EVENT_SIGNATURES]],
+        fromBlock: chunk.fromBlock,
+        toBlock: chunk.toBlock,
+      };
+
+      // Query events with retry logic
+      const logs = await withRetry(() => provider.getLogs(filter), {
+        maxRetries: 3,
+        operationName: `scanBlockRange.getLogs(${address})`,
+      });
+
+      allLogs.push(...logs);
+    }
+
+    return allLogs
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+      .map((log) => this.parseOutflowLog(log));
+  }
+
+  /**
+   * Parses a RecipientsUpdated event log into a RecipientsUpdate.
+   *
+   * @param log - The ethers.Log object containing the event data
+   * @param blockTimestamp - The timestamp of the block containing the event
+   * @returns RecipientsUpdate with checksummed recipients and basis-point weights
+   * @throws Error if the log is not a RecipientsUpdated event
+   */
+  static parseRecipientsUpdated(
+    log: ethers.Log,
+    blockTimestamp: number,
+  ): RecipientsUpdate {
+    const iface = new ethers.Interface(RECIPIENTS_UPDATED_EVENT_ABI);
+    const parsedLog = iface.parseLog(log);
+
+    if (!parsedLog) {
+      throw new Error("Failed to parse log as RecipientsUpdated event");
+    }
+
+    return {
+      block_number: log.blockNumber,
+      date: new Date(blockTimestamp * 1000).toISOString().split("T")[0]!,
+      tx_hash: log.transactionHash,
+      recipient_group: parsedLog.args["recipientGroup"],
+      recipient_weights: parsedLog.args["recipientWeights"],
+      recipients: parsedLog.args["recipients"].map((recipient: string) =>
+        ethers.getAddress(recipient),
+      ),
+      weights: parsedLog.args["weights"].map((weight: bigint) =>
+        Number(weight),
+      ),
+    };
+  }
+
+  /**
+   * Scans a block range for RecipientsUpdated events emitted by a distributor.
+   *
+   * @param provider - The ethers provider to query blockchain data
+   * @param address - The reward distributor address
+   * @param fromBlock - Starting block number (inclusive)
+   * @param toBlock - Ending block number (inclusive)
+   * @returns Array of RecipientsUpdate objects in block order
+   */
+  static async scanRecipientsUpdatedRange(
+    provider: ethers.Provider,
+    address: string,
+    fromBlock: number,
+    toBlock: number,
+    chunkSize: number = DEFAULT_BLOCK_CHUNK_SIZE,
+  ): Promise<RecipientsUpdate[]> {
+    const allLogs: ethers.Log[] = [];
+    const chunks = chunkBlockRange(fromBlock, toBlock, chunkSize);
+
+    for (const chunk of chunks) {
+      const filter = {
+        address,
+        topics: [RECIPIENTS_UPDATED_EVENT_SIGNATURE],
+        fromBlock: chunk.fromBlock,
+        toBlock: chunk.toBlock,
+      };
+
+      // Query events with retry logic
+      const logs = await withRetry(() => provider.getLogs(filter), {
+        maxRetries: 3,
+        operationName: `scanRecipientsUpdatedRange.getLogs(${address})`,
+      });
+
+      allLogs.push(...logs);
+    }
+
+    allLogs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const updates: RecipientsUpdate[] = [];
+    for (const log of allLogs) {
+      const block = await withRetry(() => provider.getBlock(log.blockNumber), {
+        maxRetries: 3,
+        operationName: `scanRecipientsUpdatedRange.getBlock(${log.blockNumber})`,
+      });
+      if (!block) {
+        throw new Error(`Block ${log.blockNumber} not found`);
+      }
+      updates.push(this.parseRecipientsUpdated(log, block.timestamp));
+    }
+
+    return updates;
+  }
+
+  /**
+   * Binary searches for the first block at which a contract has code, so scans can
+   * include events emitted by its constructor.
+   *
+   * @param provider - The ethers provider to query blockchain data (archive node)
+   * @param address - The contract address
+   * @param knownDeployedBlock - A block at which the contract is known to exist
+   * @returns The deployment block number
+   */
+  static async findDeploymentBlock(
+    provider: ethers.Provider,
+    address: string,
+    knownDeployedBlock: number,
+  ): Promise<number> {
+    let low = 0;
+    let high = knownDeployedBlock;
+
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      const code = await withRetry(() => provider.getCode(address, mid), {
+        maxRetries: 3,
+        operationName: `findDeploymentBlock.getCode(${address}, ${mid})`,
+      });
+      if (code === "0x") {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+}
@@ -0,0 +1,168 @@
+import { FileManager } from "./file-manager";
+import {
+  DailyFee,
+  DistributorDailyFee,
+  DistributorFeeReport,
+  DistributorInfo,
+  DistributorType,
+  FeeReport,
+  FeeSummary,
+} from "./types";
+import { isActiveOn, isBalanceTrackedOn } from "./utils/active-periods";
+
+/**
+ * Creates a new FeeCalculator instance with the specified dependencies.
+ *
+ * @param fileManager - File manager instance for reading stored balances and outflows
+ */
+export class FeeCalculator {
+  constructor(public readonly fileManager: FileManager) {}
+
+  /**
+   * Calculates daily and cumulative fees for every known distributor.
+   *
+   * Daily fees follow `Balance_Today - Balance_Yesterday + Outflows_Today`, where the
+   * balance before a distributor's first tracked date is zero. Cumulative fees are
+   * therefore `Balance_Current + Σ(All_Outflows_To_Date)`.
+   *
+   * @returns Fee report broken down per distributor, per distributor type and in total
+   * @throws Error if distributors data is missing or a balance date has no outflow data or is stale
+   */
+  calculateFees(): FeeReport {
+    const distributorsData = this.fileManager.readDistributors();
+    if (!distributorsData) {
+      throw new Error(
+        "Distributors data not found\n  Check: Run distributor detection before calculating fees",
+      );
+    }
+
+    const report: FeeReport = {
+      metadata: { chain_id: distributorsData.metadata.chain_id },
+      distributors: {},
+      by_type: {},
+      total: { total_fee_wei: "0", daily: {} },
+    };
+
+    const dailyByType = new Map<DistributorType, Map<string, bigint>>();
+    const dailyTotal = new Map<string, bigint>();
+
+    for (const [address, distributorInfo] of Object.entries(
+      distributorsData.distributors,
+    )) {
+      const distributorReport = this.calculateDistributorFees(
+        address,
+        distributorInfo,
+      );
+      report.distributors[address] = distributorReport;
+
+      const typeDaily =
+        dailyByType.get(distributorInfo.type) ?? new Map<string, bigint>();
+      dailyByType.set(distributorInfo.type, typeDaily);
+
+      for (const [date, fee] of Object.entries(distributorReport.daily)) {
+        const dailyFee = BigInt(fee.daily_fee_wei);
+        typeDaily.set(date, (typeDaily.get(date) ?? BigInt(0)) + dailyFee);
+        dailyTotal.set(date, (dailyTotal.get(date) ?? BigInt(0)) + dailyFee);
+      }
+    }
+
+    for (const [type, typeDaily] of dailyByType) {
+      report.by_type[type] = this.summarize(typeDaily);
+    }
+    report.total = this.summarize(dailyTotal);
+
+    return report;
+  }
+
+  /**
+   * Calculates daily and cumulative fees for a single distributor.
+   * @private
+   */
+  private calculateDistributorFees(
+    address: string,
+    distributorInfo: DistributorInfo,
+  ): DistributorFeeReport {
+    const balanceData = this.fileManager.readDistributorBalances(address);
+    const outflowData = this.fileManager.readDistributorOutflows(address);
+    const daily: { [date: string]: DistributorDailyFee } = {};
+
+    let previousBalance = BigInt(0);
+    let cumulative = BigInt(0);
+
+    // Fees are only attributed while the distributor is live; balances outside its
+    // active periods are the starting point for the first day after a reactivation
+    const retirementDate = distributorInfo.active_until_date;
+    const dates = Object.keys(balanceData?.balances || {})
+      .filter((date) => isBalanceTrackedOn(distributorInfo, date))
+      .sort();
+    for (const date of dates) {
+      const balance = balanceData!.balances[date]!;
+      if (balanceData!.metadata.stale_dates?.includes(date)) {
+        throw new Error(
+          `Stale balance data for fee calculation\n  Distributor: ${address}\n  Date: ${date}\n  Check: The end-of-day block was repaired; run balance fetching to refetch this date`,
+        );
+      }
+      if (!isActiveOn(distributorInfo, date)) {
+        previousBalance = BigInt(balance.balance_wei);
+        continue;
+      }
+
+      const outflow = outflowData?.outflows[date];
+      if (!outflow) {
+        throw new Error(
+          `Missing outflow data for fee calculation\n  Distributor: ${address}\n  Date: ${date}\n  Check: Run outflow scanning for this distributor before calculating fees`,
+        );
+      }
+      if (outflowData!.metadata.stale_dates?.includes(date)) {
+        throw new Error(
+          `Stale outflow data for fee calculation\n  Distributor: ${address}\n  Date: ${date}\n  Check: The end-of-day block was repaired; run outflow scanning to rescan this date`,
+        );
+      }
+
+      const balanceWei = BigInt(balance.balance_wei);
+      const outflowWei = BigInt(outflow.total_outflow_wei);
+      const dailyFee = balanceWei - previousBalance + outflowWei;
+      cumulative += dailyFee;
+      previousBalance = balanceWei;
+
+      daily[date] = {
+        block_number: balance.block_number,
+        balance_wei: balanceWei.toString(),
+        outflow_wei: outflowWei.toString(),
+        daily_fee_wei: dailyFee.toString(),
+        cumulative_fee_wei: cumulative.toString(),
+      };
+    }
+
+    return {
+      type: distributorInfo.type,
+      active_from_date:
+        distributorInfo.active_from_date ?? distributorInfo.date,
+      ...(retirementDate !== undefined && {
+        active_until_date: retirementDate,
+      }),
+      total_fee_wei: cumulative.toString(),
+      daily,
+    };
+  }
+
+  /**
+   * Converts per-date fee sums into a summary with running cumulative totals.
+   * @private
+   */
+  private summarize(dailyFees: Map<string, bigint>): FeeSummary {
+    const daily: { [date: string]: DailyFee } = {};
+    let cumulative = BigInt(0);
+
+    for (const date of [...dailyFees.keys()].sort()) {
+      const dailyFee = dailyFees.get(date)!;
+      cumulative += dailyFee;
+      daily[date] = {
+        daily_fee_wei: dailyFee.toString(),
+        cumulative_fee_wei: cumulative.toString(),
+      };
+    }
+
+    return { total_fee_wei: cumulative.toString(), daily };
+  }
+}
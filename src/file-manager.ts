@@ -1,8 +1,8 @@
-import * as fs from "fs";
 import * as path from "path";
 import { getAddress } from "ethers";
 import {
   FileManager as FileManagerInterface,
+  FileManagerOptions,
   Address,
   DateString,
   BlockNumberData,
@@ -11,24 +11,51 @@ import {
   DistributorType,
   BalanceData,
   OutflowData,
+  OutflowEvent,
+  OutflowEventKind,
+  RecipientsData,
+  RecipientsUpdate,
+  StoreVerificationReport,
+  StoreViolation,
+  StoreViolationKind,
+  StoreMigrationReport,
+  StorageBackend,
+  BASIS_POINTS,
   DISTRIBUTORS_DIR,
+  STORE_SCHEMA_VERSION,
+  FileManagerError,
+  ValidationError,
 } from "./types";
+import { JsonObject, JsonSchema, isJsonObject } from "./utils/json-schema";
+import { FileSystemBackend } from "./storage/filesystem-backend";
+import {
+  checkSchema,
+  parseJson,
+  schemaViolationError,
+} from "./storage/json-files";
 
 // Error messages
 const ERROR_INVALID_ADDRESS = "Invalid address";
 const ERROR_BAD_CHECKSUM = "bad address checksum";
+const EXPECTED_ADDRESS = "0x followed by 40 hexadecimal characters";
+const EXPECTED_CHECKSUMMED_ADDRESS = "EIP-55 checksummed address";
+const EXPECTED_BYTES32 = "0x followed by 64 hexadecimal characters";
+const EXPECTED_SCHEMA_VERSION = "non-negative integer";
 
-// File system constants
+// Store file constants
 const BLOCK_NUMBERS_FILE = "block_numbers.json";
 const DISTRIBUTORS_FILE = "distributors.json";
 const BALANCES_FILE = "balances.json";
 const OUTFLOWS_FILE = "outflows.json";
+const RECIPIENTS_FILE = "recipients.json";
 const JSON_INDENT_SIZE = 2;
+const SCHEMA_VERSION_FIELD = "schema_version";
 
 // Ethereum constants
 const ADDRESS_PREFIX = "0x";
 const TX_HASH_LENGTH = 64;
 const TX_HASH_REGEX = /^0x[a-fA-F0-9]{64}$/;
+const BYTES32_REGEX = /^0x[a-fA-F0-9]{64}$/;
 
 // Date and time constants
 const DATE_FORMAT_REGEX = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
@@ -38,89 +65,529 @@ const MAX_REASONABLE_BLOCK = 1000000000; // 1 billion blocks - Arbitrum mainnet
 const EXAMPLE_WEI_VALUE = "1230000000000000000000";
 const WEI_DECIMAL_REGEX = /^\d+$/;
 
+// File schemas, checked on read before the data is trusted as its TypeScript type
+const STRING: JsonSchema = { type: "string" };
+const NUMBER: JsonSchema = { type: "number" };
+const STALE_DATES: JsonSchema = { type: "array", items: STRING };
+
+const BLOCK_NUMBERS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    metadata: { type: "object", properties: { chain_id: NUMBER } },
+    blocks: { type: "map", values: NUMBER },
+    hashes: { type: "map", values: STRING },
+  },
+  optional: ["hashes"],
+};
+
+const DISTRIBUTORS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    metadata: {
+      type: "object",
+      properties: {
+        chain_id: NUMBER,
+        arbowner_address: STRING,
+        last_scanned_block: NUMBER,
+        last_polled_block: NUMBER,
+      },
+      optional: ["last_scanned_block", "last_polled_block"],
+    },
+    distributors: {
+      type: "map",
+      values: {
+        type: "object",
+        properties: {
+          type: { type: "enum", values: Object.values(DistributorType) },
+          block: NUMBER,
+          date: STRING,
+          tx_hash: STRING,
+          method: STRING,
+          owner: STRING,
+          event_data: STRING,
+          is_reward_distributor: { type: "boolean" },
+          distributor_address: STRING,
+          active_from_block: NUMBER,
+          active_from_date: STRING,
+          active_until_block: NUMBER,
+          active_until_date: STRING,
+          active_periods: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                from_block: NUMBER,
+                from_date: STRING,
+                until_block: NUMBER,
+                until_date: STRING,
+              },
+              optional: ["until_block", "until_date"],
+            },
+          },
+        },
+        optional: [
+          "active_from_block",
+          "active_from_date",
+          "active_until_block",
+          "active_until_date",
+          "active_periods",
+        ],
+      },
+    },
+  },
+};
+
+const DISTRIBUTOR_METADATA_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    chain_id: NUMBER,
+    reward_distributor: STRING,
+    stale_dates: STALE_DATES,
+  },
+  optional: ["stale_dates"],
+};
+
+const BALANCES_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    metadata: DISTRIBUTOR_METADATA_SCHEMA,
+    balances: {
+      type: "map",
+      values: {
+        type: "object",
+        properties: { block_number: NUMBER, balance_wei: STRING },
+      },
+    },
+  },
+};
+
+const OUTFLOWS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    metadata: DISTRIBUTOR_METADATA_SCHEMA,
+    outflows: {
+      type: "map",
+      values: {
+        type: "object",
+        properties: {
+          block_number: NUMBER,
+          total_outflow_wei: STRING,
+          events: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                recipient: STRING,
+                value_wei: STRING,
+                tx_hash: STRING,
+                block_number: NUMBER,
+                kind: { type: "enum", values: Object.values(OutflowEventKind) },
+                intended_recipient: STRING,
+              },
+              optional: ["block_number", "kind", "intended_recipient"],
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const RECIPIENTS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    metadata: {
+      type: "object",
+      properties: {
+        chain_id: NUMBER,
+        reward_distributor: STRING,
+        last_scanned_block: NUMBER,
+      },
+    },
+    updates: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          block_number: NUMBER,
+          date: STRING,
+          tx_hash: STRING,
+          recipient_group: STRING,
+          recipient_weights: STRING,
+          recipients: { type: "array", items: STRING },
+          weights: { type: "array", items: NUMBER },
+        },
+      },
+    },
+  },
+};
+
+const STORE_FILE_SCHEMAS: Readonly<Record<string, JsonSchema>> = {
+  [BLOCK_NUMBERS_FILE]: BLOCK_NUMBERS_SCHEMA,
+  [DISTRIBUTORS_FILE]: DISTRIBUTORS_SCHEMA,
+  [BALANCES_FILE]: BALANCES_SCHEMA,
+  [OUTFLOWS_FILE]: OUTFLOWS_SCHEMA,
+  [RECIPIENTS_FILE]: RECIPIENTS_SCHEMA,
+};
+
+/**
+ * Upgrades the parsed contents of one store file by one schema version.
+ * @param fileName - Store file name, such as balances.json
+ */
+type StoreMigration = (fileName: string, data: JsonObject) => JsonObject;
+
+// Migration n upgrades files from version n to n + 1, so there is one per version
+// below STORE_SCHEMA_VERSION. Changing a file's shape means bumping the version and
+// adding the migration that converts existing files.
+const STORE_MIGRATIONS: readonly StoreMigration[] = [
+  // 0 -> 1: files gain metadata.schema_version; their shape is unchanged
+  (_fileName, data) => data,
+];
+
 export class FileManager implements FileManagerInterface {
-  private readonly storeDirectory: string;
+  private readonly backend: StorageBackend;
+  private readonly readOnly: boolean;
+  /** Serialized contents of each file written in the active transaction, by key */
+  private stagedWrites: Map<string, string> | undefined;
+  private holdsLock = false;
 
-  constructor(storeDirectory: string) {
-    if (storeDirectory === undefined || storeDirectory === null) {
-      throw new Error("storeDirectory parameter is required");
-    }
-    if (storeDirectory === "") {
-      throw new Error("storeDirectory cannot be empty");
-    }
-    this.storeDirectory = storeDirectory;
+  /**
+   * @param store - Store directory, kept as JSON files by a FileSystemBackend, or the
+   *   backend to keep the store's files in
+   */
+  constructor(
+    store: string | StorageBackend,
+    options: FileManagerOptions = {},
+  ) {
+    const { readOnly = false, durable } = options;
+    this.backend =
+      typeof store === "object" && store !== null
+        ? store
+        : new FileSystemBackend(
+            store,
+            durable === undefined ? {} : { durable },
+          );
+    this.readOnly = readOnly;
   }
 
   readBlockNumbers(): BlockNumberData | undefined {
     return this.readJsonFileOrUndefined(
-      path.join(this.storeDirectory, BLOCK_NUMBERS_FILE),
+      BLOCK_NUMBERS_FILE,
+      "readBlockNumbers",
+      BLOCK_NUMBERS_SCHEMA,
     );
   }
 
   writeBlockNumbers(data: BlockNumberData): void {
     this.validateBlockNumberData(data);
-    this.ensureStoreDirectory();
-    this.writeJsonFile(
-      path.join(this.storeDirectory, BLOCK_NUMBERS_FILE),
-      data,
-    );
+    this.writeJsonFile(BLOCK_NUMBERS_FILE, data, "writeBlockNumbers");
   }
 
   readDistributors(): DistributorsData | undefined {
     return this.readJsonFileOrUndefined(
-      path.join(this.storeDirectory, DISTRIBUTORS_FILE),
+      DISTRIBUTORS_FILE,
+      "readDistributors",
+      DISTRIBUTORS_SCHEMA,
     );
   }
 
   writeDistributors(data: DistributorsData): void {
     this.validateDistributorsData(data);
-    this.ensureStoreDirectory();
-    this.writeJsonFile(path.join(this.storeDirectory, DISTRIBUTORS_FILE), data);
+    this.writeJsonFile(DISTRIBUTORS_FILE, data, "writeDistributors");
   }
 
   readDistributorBalances(address: Address): BalanceData | undefined {
     const validatedAddress = this.validateAddress(address);
     return this.readJsonFileOrUndefined(
-      this.getDistributorFilePath(validatedAddress, BALANCES_FILE),
+      this.getDistributorFileKey(validatedAddress, BALANCES_FILE),
+      "readDistributorBalances",
+      BALANCES_SCHEMA,
     );
   }
 
   writeDistributorBalances(address: Address, data: BalanceData): void {
     const validatedAddress = this.validateAddress(address);
     this.validateBalanceData(validatedAddress, data);
-    this.ensureDistributorDirectory(validatedAddress);
     this.writeJsonFile(
-      this.getDistributorFilePath(validatedAddress, BALANCES_FILE),
+      this.getDistributorFileKey(validatedAddress, BALANCES_FILE),
       data,
+      "writeDistributorBalances",
     );
   }
 
   readDistributorOutflows(address: Address): OutflowData | undefined {
     const validatedAddress = this.validateAddress(address);
     return this.readJsonFileOrUndefined(
-      this.getDistributorFilePath(validatedAddress, OUTFLOWS_FILE),
+      this.getDistributorFileKey(validatedAddress, OUTFLOWS_FILE),
+      "readDistributorOutflows",
+      OUTFLOWS_SCHEMA,
     );
   }
 
   writeDistributorOutflows(address: Address, data: OutflowData): void {
     const validatedAddress = this.validateAddress(address);
     this.validateOutflowData(validatedAddress, data);
-    this.ensureDistributorDirectory(validatedAddress);
     this.writeJsonFile(
-      this.getDistributorFilePath(validatedAddress, OUTFLOWS_FILE),
+      this.getDistributorFileKey(validatedAddress, OUTFLOWS_FILE),
       data,
+      "writeDistributorOutflows",
     );
   }
 
-  ensureStoreDirectory(): void {
-    if (!fs.existsSync(this.storeDirectory)) {
-      fs.mkdirSync(this.storeDirectory, { recursive: true });
+  readDistributorRecipients(address: Address): RecipientsData | undefined {
+    const validatedAddress = this.validateAddress(address);
+    return this.readJsonFileOrUndefined(
+      this.getDistributorFileKey(validatedAddress, RECIPIENTS_FILE),
+      "readDistributorRecipients",
+      RECIPIENTS_SCHEMA,
+    );
+  }
+
+  writeDistributorRecipients(address: Address, data: RecipientsData): void {
+    const validatedAddress = this.validateAddress(address);
+    this.validateRecipientsData(validatedAddress, data);
+    this.writeJsonFile(
+      this.getDistributorFileKey(validatedAddress, RECIPIENTS_FILE),
+      data,
+      "writeDistributorRecipients",
+    );
+  }
+
+  /**
+   * Loads every file in the store and checks it with the validators used on write, then
+   * checks the files against each other: each balance's block_number must be the
+   * end-of-day block for its date, outflows may only be stored for dates with an
+   * end-of-day block, and every distributor directory must be listed in distributors.json.
+   * Stale dates are awaiting a refetch, so their blocks are not compared. An unfinished
+   * commit is reported rather than settled, as the store is only read.
+   *
+   * @returns Number of files checked and every violation found
+   */
+  verifyStore(): StoreVerificationReport {
+    const report: StoreVerificationReport = {
+      checked_files: 0,
+      violations: [],
+    };
+
+    const blockNumbers = this.verifyFile<BlockNumberData>(
+      report,
+      BLOCK_NUMBERS_FILE,
+      BLOCK_NUMBERS_SCHEMA,
+      (data) => this.validateBlockNumberData(data),
+    );
+    const distributors = this.verifyFile<DistributorsData>(
+      report,
+      DISTRIBUTORS_FILE,
+      DISTRIBUTORS_SCHEMA,
+      (data) => this.validateDistributorsData(data),
+    );
+    const knownDistributors = this.backend.exists(DISTRIBUTORS_FILE)
+      ? distributors?.distributors
+      : {};
+
+    for (const directory of this.backend.listDirectories(
+      DISTRIBUTORS_DIR,
+      "verifyStore",
+    )) {
+      const directoryPath = `${DISTRIBUTORS_DIR}/${directory}`;
+      if (knownDistributors && !knownDistributors[directory]) {
+        report.violations.push({
+          file: directoryPath,
+          kind: StoreViolationKind.UNKNOWN_DISTRIBUTOR_DIRECTORY,
+          message: `Distributor directory is not listed in distributors.json\n  Directory: ${directoryPath}\n  Check: Run distributor detection, or move the directory out of the store`,
+        });
+      }
+
+      const balancesPath = `${directoryPath}/${BALANCES_FILE}`;
+      const balances = this.verifyFile<BalanceData>(
+        report,
+        balancesPath,
+        BALANCES_SCHEMA,
+        (data) => this.validateBalanceData(directory, data),
+      );
+      const outflowsPath = `${directoryPath}/${OUTFLOWS_FILE}`;
+      const outflows = this.verifyFile<OutflowData>(
+        report,
+        outflowsPath,
+        OUTFLOWS_SCHEMA,
+        (data) => this.validateOutflowData(directory, data),
+      );
+      this.verifyFile<RecipientsData>(
+        report,
+        `${directoryPath}/${RECIPIENTS_FILE}`,
+        RECIPIENTS_SCHEMA,
+        (data) => this.validateRecipientsData(directory, data),
+      );
+
+      if (!blockNumbers) continue;
+      if (balances) {
+        report.violations.push(
+          ...this.checkBalanceBlocks(balancesPath, balances, blockNumbers),
+        );
+      }
+      if (outflows) {
+        report.violations.push(
+          ...this.checkOutflowDates(outflowsPath, outflows, blockNumbers),
+        );
+      }
+    }
+
+    if (this.backend.hasPendingCommit()) {
+      report.violations.push({
+        file: ".",
+        kind: StoreViolationKind.PENDING_COMMIT,
+        message: `A multi-file write was interrupted part way, so some files are old and some new\n  Store: ${this.backend.location}\n  Check: Run any command that updates the store to finish it`,
+      });
+    }
+    for (const file of this.backend.listOrphanedFiles("verifyStore")) {
+      report.violations.push({
+        file,
+        kind: StoreViolationKind.ORPHANED_TEMP_FILE,
+        message: `Temporary file left by an interrupted write\n  File: ${file}\n  Check: Run any command that writes to the store to remove it`,
+      });
+    }
+
+    return report;
+  }
+
+  /**
+   * Rewrites every file written with an older schema version in the current one, in a
+   * single transaction. Reads already upgrade older files in memory, so migrating is
+   * only needed to bring the files on disk up to date.
+   * @param dryRun - Report the files that would be rewritten without writing them
+   * @throws FileManagerError if a file cannot be read or a newer version wrote it
+   */
+  migrateStore(dryRun: boolean): StoreMigrationReport {
+    if (!dryRun) {
+      this.requireWritable("migrateStore");
+    }
+    this.requireNoPendingCommit("migrateStore");
+    const report: StoreMigrationReport = {
+      schema_version: STORE_SCHEMA_VERSION,
+      dry_run: dryRun,
+      files: [],
+    };
+    const upgraded = new Map<string, { metadata: object }>();
+
+    for (const key of this.listStoreFiles("migrateStore")) {
+      const file = this.readStoreFile<{ metadata: object }>(
+        key,
+        "migrateStore",
+        STORE_FILE_SCHEMAS[path.posix.basename(key)]!,
+      );
+      if (file && file.schemaVersion < STORE_SCHEMA_VERSION) {
+        report.files.push({
+          file: key,
+          from_version: file.schemaVersion,
+          to_version: STORE_SCHEMA_VERSION,
+        });
+        upgraded.set(key, file.data);
+      }
+    }
+
+    if (dryRun || upgraded.size === 0) {
+      return report;
+    }
+    this.beginTransaction();
+    try {
+      for (const [key, data] of upgraded) {
+        this.writeJsonFile(key, data, "migrateStore");
+      }
+    } catch (error) {
+      this.rollbackTransaction();
+      throw error;
     }
+    this.commitTransaction();
+    return report;
+  }
+
+  /**
+   * Starts a transaction. Until it is committed or rolled back, write methods validate
+   * their data and stage it in memory instead of writing it, and read methods return
+   * staged data in place of the file on disk.
+   * @throws FileManagerError if a transaction is already active
+   */
+  beginTransaction(): void {
+    this.requireWritable("beginTransaction");
+    if (this.stagedWrites) {
+      throw new FileManagerError(
+        `A transaction is already active\n  Store: ${this.backend.location}\n  Check: Commit or roll back the active transaction before beginning another`,
+        "beginTransaction",
+        this.backend.location,
+      );
+    }
+    this.stagedWrites = new Map();
+  }
+
+  /**
+   * Writes every staged file through the backend's writeAll(), so either every file
+   * changes or none does, even if the process dies part way.
+   * @throws FileManagerError if no transaction is active or the files cannot be written
+   */
+  commitTransaction(): void {
+    const stagedWrites = this.requireTransaction("commitTransaction");
+    this.stagedWrites = undefined;
+    this.backend.writeAll(stagedWrites, "commitTransaction");
+  }
+
+  /**
+   * Discards every staged write.
+   * @throws FileManagerError if no transaction is active
+   */
+  rollbackTransaction(): void {
+    this.requireTransaction("rollbackTransaction");
+    this.stagedWrites = undefined;
+  }
+
+  /**
+   * Takes the store's write lock for the rest of the run through the backend, which also
+   * settles any commit interrupted by a crash and removes files left by interrupted
+   * writes. Then refuses the store if a newer version wrote any of its files. Does
+   * nothing if this instance already holds the lock.
+   * @returns Keys of the orphaned temporary files removed
+   * @throws FileManagerError naming the holder if another run holds the lock
+   */
+  acquireLock(): string[] {
+    this.requireWritable("acquireLock");
+    if (this.holdsLock) {
+      return [];
+    }
+
+    const orphanedFiles = this.backend.acquireLock();
+    this.holdsLock = true;
+    try {
+      this.requireSupportedSchemaVersions();
+    } catch (error) {
+      this.releaseLock();
+      throw error;
+    }
+    return orphanedFiles;
+  }
+
+  /**
+   * Releases the lock if this instance holds it.
+   */
+  releaseLock(): void {
+    if (!this.holdsLock) {
+      return;
+    }
+    this.holdsLock = false;
+    this.backend.releaseLock();
+  }
+
+  ensureStoreDirectory(): void {
+    this.requireWritable("ensureStoreDirectory");
+    this.backend.initialize("ensureStoreDirectory");
   }
 
   validateAddress(address: string): Address {
     if (!address.startsWith(ADDRESS_PREFIX)) {
-      throw new Error(ERROR_INVALID_ADDRESS);
+      throw new ValidationError(
+        ERROR_INVALID_ADDRESS,
+        "address",
+        address,
+        EXPECTED_ADDRESS,
+      );
     }
 
     try {
@@ -130,9 +597,19 @@ export class FileManager implements FileManagerInterface {
         error instanceof Error &&
         error.message?.includes(ERROR_BAD_CHECKSUM)
       ) {
-        throw new Error(ERROR_BAD_CHECKSUM);
+        throw new ValidationError(
+          ERROR_BAD_CHECKSUM,
+          "address",
+          address,
+          EXPECTED_CHECKSUMMED_ADDRESS,
+        );
       }
-      throw new Error(ERROR_INVALID_ADDRESS);
+      throw new ValidationError(
+        ERROR_INVALID_ADDRESS,
+        "address",
+        address,
+        EXPECTED_ADDRESS,
+      );
     }
   }
 
@@ -140,28 +617,278 @@ export class FileManager implements FileManagerInterface {
     return date.toISOString().split("T")[0]!;
   }
 
-  private ensureDistributorDirectory(address: Address): void {
-    const dirPath = path.join(this.storeDirectory, DISTRIBUTORS_DIR, address);
-    if (!fs.existsSync(dirPath)) {
-      fs.mkdirSync(dirPath, { recursive: true });
+  /**
+   * Refuses a store holding any file written by a newer version, before this version
+   * writes over it. Files that cannot be parsed are left to fail when they are read.
+   * @throws FileManagerError naming the first such file
+   */
+  private requireSupportedSchemaVersions(): void {
+    for (const file of this.listStoreFiles("acquireLock")) {
+      let data: unknown;
+      try {
+        data = JSON.parse(this.backend.read(file, "acquireLock") ?? "");
+      } catch {
+        continue;
+      }
+      this.getSchemaVersion(data, this.backend.describe(file), "acquireLock");
+    }
+  }
+
+  /**
+   * @returns Keys of the store's data files that exist
+   */
+  private listStoreFiles(operation: string): string[] {
+    const candidates = [BLOCK_NUMBERS_FILE, DISTRIBUTORS_FILE];
+    for (const directory of this.backend.listDirectories(
+      DISTRIBUTORS_DIR,
+      operation,
+    )) {
+      for (const fileName of [BALANCES_FILE, OUTFLOWS_FILE, RECIPIENTS_FILE]) {
+        candidates.push(`${DISTRIBUTORS_DIR}/${directory}/${fileName}`);
+      }
+    }
+    return candidates.filter((file) => this.backend.exists(file));
+  }
+
+  private requireWritable(operation: string): void {
+    if (this.readOnly) {
+      throw new FileManagerError(
+        `Store is open read-only\n  Store: ${this.backend.location}\n  Operation: ${operation}\n  Check: Open the store without readOnly to write to it`,
+        operation,
+        this.backend.location,
+      );
+    }
+  }
+
+  /**
+   * Refuses to read a store with an unfinished commit, whose files are part old and
+   * part new, unless this instance holds the lock and so settled it when taking it.
+   * Settling needs the lock, as the commit may be one another run is writing now.
+   */
+  private requireNoPendingCommit(operation: string): void {
+    if (!this.holdsLock && this.backend.hasPendingCommit()) {
+      throw new FileManagerError(
+        `Store has an unfinished commit\n  Store: ${this.backend.location}\n  Operation: ${operation}\n  Check: Wait for the run writing to the store to finish, or run a command that updates the store to finish the commit`,
+        operation,
+        this.backend.location,
+      );
+    }
+  }
+
+  private requireTransaction(operation: string): Map<string, string> {
+    if (!this.stagedWrites) {
+      throw new FileManagerError(
+        `No transaction is active\n  Store: ${this.backend.location}\n  Check: Call beginTransaction() first`,
+        operation,
+        this.backend.location,
+      );
+    }
+    return this.stagedWrites;
+  }
+
+  private getDistributorFileKey(address: Address, fileName: string): string {
+    return `${DISTRIBUTORS_DIR}/${address}/${fileName}`;
+  }
+
+  /**
+   * Reads and validates one store file, recording a violation instead of throwing.
+   * @returns The file's data, or undefined if it is missing or has a violation
+   */
+  private verifyFile<T>(
+    report: StoreVerificationReport,
+    key: string,
+    schema: JsonSchema,
+    validate: (data: T) => void,
+  ): T | undefined {
+    if (!this.backend.exists(key)) {
+      return undefined;
+    }
+    report.checked_files++;
+
+    try {
+      const file = this.readStoreFile<T>(key, "verifyStore", schema);
+      if (file) validate(file.data);
+      return file?.data;
+    } catch (error) {
+      report.violations.push({
+        file: key,
+        kind:
+          error instanceof FileManagerError &&
+          error.cause instanceof SyntaxError
+            ? StoreViolationKind.INVALID_JSON
+            : StoreViolationKind.INVALID_DATA,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  private checkBalanceBlocks(
+    file: string,
+    data: BalanceData,
+    blockNumbers: BlockNumberData,
+  ): StoreViolation[] {
+    const staleDates = new Set(data.metadata.stale_dates);
+    const violations: StoreViolation[] = [];
+
+    for (const [date, balance] of Object.entries(data.balances)) {
+      const endOfDayBlock = blockNumbers.blocks[date];
+      if (endOfDayBlock === undefined) {
+        violations.push({
+          file,
+          kind: StoreViolationKind.DATE_WITHOUT_BLOCK,
+          date,
+          message: `Balance stored for a date without an end-of-day block\n  File: ${file}\n  Date: ${date}\n  Balance block: ${balance.block_number}\n  Check: Run block finding for this date`,
+        });
+      } else if (
+        balance.block_number !== endOfDayBlock &&
+        !staleDates.has(date)
+      ) {
+        violations.push({
+          file,
+          kind: StoreViolationKind.BALANCE_BLOCK_MISMATCH,
+          date,
+          message: `Balance block does not match the end-of-day block\n  File: ${file}\n  Date: ${date}\n  Balance block: ${balance.block_number}\n  End-of-day block: ${endOfDayBlock}\n  Check: Remove the balance for this date and run balance fetching`,
+        });
+      }
     }
+
+    return violations;
   }
 
-  private getDistributorFilePath(address: Address, fileName: string): string {
-    return path.join(this.storeDirectory, DISTRIBUTORS_DIR, address, fileName);
+  private checkOutflowDates(
+    file: string,
+    data: OutflowData,
+    blockNumbers: BlockNumberData,
+  ): StoreViolation[] {
+    return Object.keys(data.outflows)
+      .filter((date) => blockNumbers.blocks[date] === undefined)
+      .map((date) => ({
+        file,
+        kind: StoreViolationKind.DATE_WITHOUT_BLOCK,
+        date,
+        message: `Outflows stored for a date without an end-of-day block\n  File: ${file}\n  Date: ${date}\n  Check: Run block finding for this date`,
+      }));
   }
 
-  private readJsonFileOrUndefined<T>(filePath: string): T | undefined {
-    if (!fs.existsSync(filePath)) {
+  private readJsonFileOrUndefined<T>(
+    key: string,
+    operation: string,
+    schema: JsonSchema,
+  ): T | undefined {
+    // Staged data was validated when it was written
+    const staged = this.stagedWrites?.get(key);
+    if (staged !== undefined) {
+      return this.withoutSchemaVersion(JSON.parse(staged)) as T;
+    }
+    this.requireNoPendingCommit(operation);
+    return this.readStoreFile<T>(key, operation, schema)?.data;
+  }
+
+  /**
+   * Parses a store data file, upgrading it in memory through STORE_MIGRATIONS if an
+   * older version wrote it, and checks the result against the schema.
+   * @returns The data without its schema_version and the version the file was written
+   *   with, or undefined if there is no such file
+   * @throws FileManagerError if the file is not valid JSON, a newer version wrote it, or
+   *   with the JSON pointer of the first field that does not match the schema
+   */
+  private readStoreFile<T>(
+    key: string,
+    operation: string,
+    schema: JsonSchema,
+  ): { data: T; schemaVersion: number } | undefined {
+    const contents = this.backend.read(key, operation);
+    if (contents === undefined) {
       return undefined;
     }
-    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+    const location = this.backend.describe(key);
+    let data = parseJson(contents, location, operation);
+    const schemaVersion = this.getSchemaVersion(data, location, operation);
+    // Anything but an object fails the schema check below
+    let version = schemaVersion;
+    while (isJsonObject(data) && version < STORE_SCHEMA_VERSION) {
+      data = STORE_MIGRATIONS[version]!(path.posix.basename(key), data);
+      version++;
+    }
+    data = this.withoutSchemaVersion(data);
+    checkSchema(data, location, operation, schema);
+    return { data: data as T, schemaVersion };
   }
 
-  private writeJsonFile(filePath: string, data: unknown): void {
-    const tempPath = `${filePath}.tmp`;
-    fs.writeFileSync(tempPath, JSON.stringify(data, null, JSON_INDENT_SIZE));
-    fs.renameSync(tempPath, filePath);
+  /**
+   * @returns The file's metadata.schema_version, or 0 if it has none
+   * @throws FileManagerError if the version is not a non-negative integer, or is newer
+   *   than STORE_SCHEMA_VERSION
+   */
+  private getSchemaVersion(
+    data: unknown,
+    filePath: string,
+    operation: string,
+  ): number {
+    const metadata = isJsonObject(data) ? data["metadata"] : undefined;
+    const version = isJsonObject(metadata)
+      ? metadata[SCHEMA_VERSION_FIELD]
+      : undefined;
+    const pointer = `/metadata/${SCHEMA_VERSION_FIELD}`;
+    if (version === undefined) {
+      return 0;
+    }
+    if (
+      typeof version !== "number" ||
+      !Number.isInteger(version) ||
+      version < 0
+    ) {
+      throw schemaViolationError(filePath, operation, {
+        pointer,
+        expected: EXPECTED_SCHEMA_VERSION,
+        actual: JSON.stringify(version),
+      });
+    }
+    if (version > STORE_SCHEMA_VERSION) {
+      throw new FileManagerError(
+        `File was written by a newer version of the fee tracker\n  File: ${filePath}\n  Schema version: ${version}\n  Supported: up to ${STORE_SCHEMA_VERSION}\n  Check: Upgrade the fee tracker to open this store`,
+        operation,
+        filePath,
+        undefined,
+        pointer,
+      );
+    }
+    return version;
+  }
+
+  private withoutSchemaVersion(data: unknown): unknown {
+    if (!isJsonObject(data) || !isJsonObject(data["metadata"])) {
+      return data;
+    }
+    const metadata = { ...data["metadata"] };
+    delete metadata[SCHEMA_VERSION_FIELD];
+    return { ...data, metadata };
+  }
+
+  /**
+   * Stages the data if a transaction is active, otherwise writes it. The current schema
+   * version is added to its metadata.
+   */
+  private writeJsonFile(
+    key: string,
+    data: { metadata: object },
+    operation: string,
+  ): void {
+    this.requireWritable(operation);
+    const contents = JSON.stringify(
+      {
+        ...data,
+        metadata: { ...data.metadata, schema_version: STORE_SCHEMA_VERSION },
+      },
+      null,
+      JSON_INDENT_SIZE,
+    );
+    if (this.stagedWrites) {
+      this.stagedWrites.set(key, contents);
+      return;
+    }
+    this.backend.write(key, contents, operation);
   }
 
   private validateBlockNumberData(data: BlockNumberData): void {
@@ -169,40 +896,75 @@ export class FileManager implements FileManagerInterface {
       this.validateDateFormat(date);
       this.validateBlockNumber(blockNumber);
     }
+
+    for (const [date, hash] of Object.entries(data.hashes ?? {})) {
+      if (data.blocks[date] === undefined) {
+        throw new ValidationError(
+          `Block hash recorded for ${date} without a block`,
+          "hashes",
+          date,
+          "Date with an entry in blocks",
+        );
+      }
+      if (!BYTES32_REGEX.test(hash)) {
+        throw new ValidationError(
+          `Invalid block hash format for ${date}: ${hash}. Expected 0x followed by 64 hexadecimal characters`,
+          "hashes",
+          hash,
+          EXPECTED_BYTES32,
+        );
+      }
+    }
   }
 
   /**
    * Validates that a date string is in YYYY-MM-DD format and represents a valid calendar date
-   * @throws {Error} If the date format is invalid or the date doesn't exist
+   * @throws {ValidationError} If the date format is invalid or the date doesn't exist
    */
   validateDateFormat(date: string): void {
     if (!DATE_FORMAT_REGEX.test(date)) {
-      throw new Error(`Invalid date format: ${date}. Expected YYYY-MM-DD`);
+      throw new ValidationError(
+        `Invalid date format: ${date}. Expected YYYY-MM-DD`,
+        "date",
+        date,
+        "YYYY-MM-DD",
+      );
     }
 
     // Validate it's an actual calendar date by parsing and checking roundtrip
     const parsed = new Date(date + "T00:00:00Z");
     const roundtrip = parsed.toISOString().split("T")[0];
     if (roundtrip !== date) {
-      throw new Error(`Invalid calendar date: ${date}`);
+      throw new ValidationError(
+        `Invalid calendar date: ${date}`,
+        "date",
+        date,
+        "Existing calendar date",
+      );
     }
   }
 
   /**
    * Validates that a block number is a positive integer within reasonable bounds
-   * @throws {Error} If the block number is invalid
+   * @throws {ValidationError} If the block number is invalid
    */
   validateBlockNumber(blockNumber: number): void {
     if (!Number.isInteger(blockNumber) || blockNumber <= 0) {
-      throw new Error(
+      throw new ValidationError(
         `Block number must be a positive integer, got: ${blockNumber}`,
+        "block_number",
+        blockNumber,
+        "Positive integer",
       );
     }
 
     // Check reasonable range
     if (blockNumber > MAX_REASONABLE_BLOCK) {
-      throw new Error(
+      throw new ValidationError(
         `Block number exceeds reasonable maximum: ${blockNumber} (max: ${MAX_REASONABLE_BLOCK})`,
+        "block_number",
+        blockNumber,
+        `At most ${MAX_REASONABLE_BLOCK}`,
       );
     }
   }
@@ -212,19 +974,27 @@ export class FileManager implements FileManagerInterface {
    * @param value The value to validate
    * @param field Optional field name for error context
    * @param date Optional date for error context
-   * @throws {Error} If the value is not a valid wei amount
+   * @throws {ValidationError} If the value is not a valid wei amount
    */
   validateWeiValue(value: string, field?: string, date?: string): void {
     const formatError = (message: string, expected: string) => {
       if (!field) {
-        return new Error(`${message}. Value: ${value}. Expected: ${expected}`);
+        return new ValidationError(
+          `${message}. Value: ${value}. Expected: ${expected}`,
+          "wei_value",
+          value,
+          expected,
+        );
       }
-      return new Error(
+      return new ValidationError(
         `${message}\n` +
           `  Field: ${field}\n` +
           (date ? `  Date: ${date}\n` : "") +
           `  Value: ${value}\n` +
           `  Expected: ${expected}\n`,
+        field,
+        value,
+        expected,
       );
     };
 
@@ -260,7 +1030,12 @@ export class FileManager implements FileManagerInterface {
     )) {
       // Validate checksummed address
       if (address !== this.validateAddress(address)) {
-        throw new Error(`Distributor address must be checksummed: ${address}`);
+        throw new ValidationError(
+          `Distributor address must be checksummed: ${address}`,
+          "distributors",
+          address,
+          EXPECTED_CHECKSUMMED_ADDRESS,
+        );
       }
       this.validateDistributorInfo(address, distributorInfo);
     }
@@ -283,8 +1058,11 @@ export class FileManager implements FileManagerInterface {
 
     for (const field of requiredFields) {
       if (info[field] === undefined || info[field] === null) {
-        throw new Error(
+        throw new ValidationError(
           `Missing required field '${field}' for distributor ${address}`,
+          field,
+          info[field],
+          "Required value",
         );
       }
     }
@@ -299,16 +1077,110 @@ export class FileManager implements FileManagerInterface {
     this.validateTransactionHash(info.tx_hash);
     this.validateBlockNumber(info.block);
     this.validateAddress(info.owner);
+
+    // Validate optional lifecycle fields
+    if (info.active_from_block !== undefined) {
+      this.validateBlockNumber(info.active_from_block);
+    }
+    if (info.active_from_date !== undefined) {
+      this.validateDateFormat(info.active_from_date);
+    }
+    if (info.active_until_block !== undefined) {
+      this.validateBlockNumber(info.active_until_block);
+    }
+    if (info.active_until_date !== undefined) {
+      this.validateDateFormat(info.active_until_date);
+    }
+    if (
+      (info.active_until_block === undefined) !==
+      (info.active_until_date === undefined)
+    ) {
+      throw new ValidationError(
+        `Distributor ${address} must set both active_until_block and active_until_date or neither`,
+        info.active_until_block === undefined
+          ? "active_until_block"
+          : "active_until_date",
+        undefined,
+        "Set together with the other active_until field",
+      );
+    }
+    if (info.active_periods !== undefined) {
+      this.validateActivePeriods(address, info);
+    }
+  }
+
+  private validateActivePeriods(address: string, info: DistributorInfo): void {
+    const periods = info.active_periods ?? [];
+    if (periods.length === 0) {
+      throw new ValidationError(
+        `Distributor ${address} has no active periods`,
+        "active_periods",
+        periods,
+        "At least one period, starting at its creation event",
+      );
+    }
+
+    periods.forEach((period, index) => {
+      this.validateBlockNumber(period.from_block);
+      this.validateDateFormat(period.from_date);
+      if (period.until_block !== undefined) {
+        this.validateBlockNumber(period.until_block);
+      }
+      if (period.until_date !== undefined) {
+        this.validateDateFormat(period.until_date);
+      }
+      if (
+        (period.until_block === undefined) !==
+        (period.until_date === undefined)
+      ) {
+        throw new ValidationError(
+          `Distributor ${address} must set both until_block and until_date of active period ${index} or neither`,
+          `active_periods[${index}]`,
+          period,
+          "Set together with the other until field",
+        );
+      }
+
+      // Only the last period may still be open, and periods follow each other
+      const next = periods[index + 1];
+      if (
+        next !== undefined &&
+        (period.until_block === undefined ||
+          next.from_block < period.until_block)
+      ) {
+        throw new ValidationError(
+          `Distributor ${address} has overlapping active periods ${index} and ${index + 1}`,
+          `active_periods[${index + 1}]`,
+          next,
+          "Periods ordered oldest first, each starting after the previous one ends",
+        );
+      }
+    });
+
+    const last = periods[periods.length - 1]!;
+    if (last.until_block !== info.active_until_block) {
+      throw new ValidationError(
+        `Distributor ${address} has an active_until_block that does not match the end of its last active period`,
+        "active_until_block",
+        info.active_until_block,
+        "The end of the last active period, or absent while it is open",
+      );
+    }
   }
 
   private validateBalanceData(address: Address, data: BalanceData): void {
     // Validate metadata
     if (data.metadata.reward_distributor !== address) {
-      throw new Error(
+      throw new ValidationError(
         `Reward distributor address mismatch: expected ${address}, got ${data.metadata.reward_distributor}`,
+        "reward_distributor",
+        data.metadata.reward_distributor,
+        address,
       );
     }
 
+    this.validateStaleDates(data.metadata.stale_dates, data.balances);
+
     // Validate balances
     for (const [date, balance] of Object.entries(data.balances)) {
       this.validateDateFormat(date);
@@ -320,11 +1192,16 @@ export class FileManager implements FileManagerInterface {
   private validateOutflowData(address: Address, data: OutflowData): void {
     // Validate metadata
     if (data.metadata.reward_distributor !== address) {
-      throw new Error(
+      throw new ValidationError(
         `Reward distributor address mismatch: expected ${address}, got ${data.metadata.reward_distributor}`,
+        "reward_distributor",
+        data.metadata.reward_distributor,
+        address,
       );
     }
 
+    this.validateStaleDates(data.metadata.stale_dates, data.outflows);
+
     // Validate outflows
     for (const [date, outflow] of Object.entries(data.outflows)) {
       this.validateDateFormat(date);
@@ -340,33 +1217,225 @@ export class FileManager implements FileManagerInterface {
       for (const event of outflow.events) {
         // Validate recipient address is checksummed
         if (event.recipient !== this.validateAddress(event.recipient)) {
-          throw new Error(
+          throw new ValidationError(
             `Recipient address must be checksummed: ${event.recipient}`,
+            "recipient",
+            event.recipient,
+            EXPECTED_CHECKSUMMED_ADDRESS,
           );
         }
 
         this.validateWeiValue(event.value_wei, "event.value_wei", date);
         this.validateTransactionHash(event.tx_hash);
+        this.validateOutflowEventKind(event, date);
+        if (event.block_number !== undefined) {
+          this.validateBlockNumber(event.block_number);
+          if (event.block_number > outflow.block_number) {
+            throw new ValidationError(
+              `Outflow event block ${event.block_number} is after the end-of-day block ${outflow.block_number} for ${date}`,
+              "block_number",
+              event.block_number,
+              `At most ${outflow.block_number}`,
+            );
+          }
+        }
         totalEventWei += BigInt(event.value_wei);
       }
 
       // Validate total matches sum of events
       if (totalEventWei.toString() !== outflow.total_outflow_wei) {
-        throw new Error(
+        throw new ValidationError(
           `Total outflow mismatch for ${date}: expected ${totalEventWei.toString()}, got ${outflow.total_outflow_wei}`,
+          "total_outflow_wei",
+          outflow.total_outflow_wei,
+          totalEventWei.toString(),
+        );
+      }
+    }
+  }
+
+  /**
+   * Validates that stale dates are well formed and refer to stored entries
+   * @throws {ValidationError} If a stale date is malformed or has no entry
+   */
+  private validateStaleDates(
+    staleDates: string[] | undefined,
+    entries: { [date: string]: unknown },
+  ): void {
+    for (const date of staleDates ?? []) {
+      this.validateDateFormat(date);
+      if (entries[date] === undefined) {
+        throw new ValidationError(
+          `Stale date ${date} has no stored entry`,
+          "stale_dates",
+          date,
+          "Date with a stored entry",
+        );
+      }
+    }
+  }
+
+  private validateRecipientsData(address: Address, data: RecipientsData): void {
+    // Validate metadata
+    if (data.metadata.reward_distributor !== address) {
+      throw new ValidationError(
+        `Reward distributor address mismatch: expected ${address}, got ${data.metadata.reward_distributor}`,
+        "reward_distributor",
+        data.metadata.reward_distributor,
+        address,
+      );
+    }
+    this.validateBlockNumber(data.metadata.last_scanned_block);
+
+    // Validate updates are ordered and within the scanned range
+    let previousBlock = 0;
+    for (const update of data.updates) {
+      this.validateRecipientsUpdate(update);
+
+      if (update.block_number < previousBlock) {
+        throw new ValidationError(
+          `Recipients updates must be in block order: block ${update.block_number} follows block ${previousBlock}`,
+          "block_number",
+          update.block_number,
+          `At least ${previousBlock}`,
+        );
+      }
+      previousBlock = update.block_number;
+    }
+
+    if (previousBlock > data.metadata.last_scanned_block) {
+      throw new ValidationError(
+        `Recipients update at block ${previousBlock} is after last_scanned_block ${data.metadata.last_scanned_block}`,
+        "last_scanned_block",
+        data.metadata.last_scanned_block,
+        `At least ${previousBlock}`,
+      );
+    }
+  }
+
+  /**
+   * Validates a single RecipientsUpdated entry, including that the weights cover the full split
+   * @throws {ValidationError} If any field is malformed or the weights do not sum to BASIS_POINTS
+   */
+  private validateRecipientsUpdate(update: RecipientsUpdate): void {
+    this.validateBlockNumber(update.block_number);
+    this.validateDateFormat(update.date);
+    this.validateTransactionHash(update.tx_hash);
+
+    for (const [field, value] of [
+      ["recipient_group", update.recipient_group],
+      ["recipient_weights", update.recipient_weights],
+    ] as const) {
+      if (!BYTES32_REGEX.test(value)) {
+        throw new ValidationError(
+          `Invalid ${field} format: ${value}. Expected 0x followed by 64 hexadecimal characters`,
+          field,
+          value,
+          EXPECTED_BYTES32,
+        );
+      }
+    }
+
+    if (update.recipients.length !== update.weights.length) {
+      throw new ValidationError(
+        `Recipients and weights length mismatch at block ${update.block_number}: ${update.recipients.length} recipients, ${update.weights.length} weights`,
+        "weights",
+        update.weights,
+        `One weight per recipient (${update.recipients.length})`,
+      );
+    }
+
+    for (const recipient of update.recipients) {
+      if (recipient !== this.validateAddress(recipient)) {
+        throw new ValidationError(
+          `Recipient address must be checksummed: ${recipient}`,
+          "recipients",
+          recipient,
+          EXPECTED_CHECKSUMMED_ADDRESS,
+        );
+      }
+    }
+
+    let totalWeight = 0;
+    for (const weight of update.weights) {
+      if (!Number.isInteger(weight) || weight < 0) {
+        throw new ValidationError(
+          `Invalid recipient weight at block ${update.block_number}: ${weight}. Expected a non-negative integer in basis points`,
+          "weights",
+          weight,
+          "Non-negative integer in basis points",
+        );
+      }
+      totalWeight += weight;
+    }
+
+    if (totalWeight !== BASIS_POINTS) {
+      throw new ValidationError(
+        `Recipient weights at block ${update.block_number} sum to ${totalWeight}, expected ${BASIS_POINTS} basis points`,
+        "weights",
+        update.weights,
+        `Sum of ${BASIS_POINTS} basis points`,
+      );
+    }
+  }
+
+  /**
+   * Validates the event kind and that only owner fallback events name an intended recipient
+   * @throws {ValidationError} If the kind is unknown or intended_recipient is missing, misplaced or not checksummed
+   */
+  private validateOutflowEventKind(event: OutflowEvent, date: string): void {
+    if (event.kind !== undefined) {
+      this.validateEnumValue(
+        event.kind,
+        "OutflowEventKind",
+        Object.values(OutflowEventKind),
+      );
+    }
+
+    if (event.kind !== OutflowEventKind.OWNER_FALLBACK) {
+      if (event.intended_recipient !== undefined) {
+        throw new ValidationError(
+          `intended_recipient is only allowed on ${OutflowEventKind.OWNER_FALLBACK} events\n  Date: ${date}\n  Transaction: ${event.tx_hash}`,
+          "intended_recipient",
+          event.intended_recipient,
+          `Absent unless kind is ${OutflowEventKind.OWNER_FALLBACK}`,
         );
       }
+      return;
+    }
+
+    if (event.intended_recipient === undefined) {
+      throw new ValidationError(
+        `Missing intended_recipient for ${OutflowEventKind.OWNER_FALLBACK} event\n  Date: ${date}\n  Transaction: ${event.tx_hash}`,
+        "intended_recipient",
+        undefined,
+        "Address of the recipient whose transfer failed",
+      );
+    }
+    if (
+      event.intended_recipient !==
+      this.validateAddress(event.intended_recipient)
+    ) {
+      throw new ValidationError(
+        `Intended recipient address must be checksummed: ${event.intended_recipient}`,
+        "intended_recipient",
+        event.intended_recipient,
+        EXPECTED_CHECKSUMMED_ADDRESS,
+      );
     }
   }
 
   /**
    * Validates that a transaction hash is in the correct format (0x followed by 64 hex characters)
-   * @throws {Error} If the transaction hash format is invalid
+   * @throws {ValidationError} If the transaction hash format is invalid
    */
   validateTransactionHash(txHash: string): void {
     if (!TX_HASH_REGEX.test(txHash)) {
-      throw new Error(
+      throw new ValidationError(
         `Invalid transaction hash format: ${txHash}. Expected 0x followed by ${TX_HASH_LENGTH} hexadecimal characters`,
+        "tx_hash",
+        txHash,
+        `0x followed by ${TX_HASH_LENGTH} hexadecimal characters`,
       );
     }
   }
@@ -376,7 +1445,7 @@ export class FileManager implements FileManagerInterface {
    * @param value The value to validate
    * @param enumName The name of the enum for error messages
    * @param validValues Array of valid values
-   * @throws {Error} If the value is not in the list of valid values
+   * @throws {ValidationError} If the value is not in the list of valid values
    */
   validateEnumValue(
     value: string,
@@ -384,8 +1453,11 @@ export class FileManager implements FileManagerInterface {
     validValues: string[],
   ): void {
     if (!validValues.includes(value)) {
-      throw new Error(
+      throw new ValidationError(
         `Invalid ${enumName} value: ${value}. Valid values are: ${validValues.join(", ")}`,
+        enumName,
+        value,
+        `One of ${validValues.join(", ")}`,
       );
     }
   }
@@ -0,0 +1,93 @@
+import { FileManager } from "./file-manager";
+import { ChainConfig, DateString, GapReport } from "./types";
+import { DEFAULT_CHAIN } from "./constants/chains";
+import { isActiveOn, isBalanceTrackedOn } from "./utils/active-periods";
+
+const MILLISECONDS_PER_DAY = 86400 * 1000;
+
+/**
+ * Creates a new GapDetector instance with the specified dependencies.
+ *
+ * @param fileManager - File manager instance for reading the store
+ * @param chain - Chain the store belongs to, defaults to Arbitrum Nova
+ */
+export class GapDetector {
+  constructor(
+    public readonly fileManager: FileManager,
+    public readonly chain: ChainConfig = DEFAULT_CHAIN,
+  ) {}
+
+  /**
+   * Lists the dates missing from each store file. block_numbers.json should have every
+   * date between its first and latest date, and each distributor's balances.json and
+   * outflows.json every date from its creation up to the latest block date, or up to
+   * its retirement if it was replaced.
+   *
+   * @returns Missing dates for block_numbers.json and for each distributor with gaps
+   */
+  findGaps(): GapReport {
+    const report: GapReport = {
+      metadata: { chain_id: this.chain.chain_id },
+      block_numbers: [],
+      distributors: {},
+    };
+
+    const blocks = this.fileManager.readBlockNumbers()?.blocks ?? {};
+    const storedDates = Object.keys(blocks).sort();
+    const firstDate = storedDates[0];
+    const latestDate = storedDates[storedDates.length - 1];
+    if (firstDate === undefined || latestDate === undefined) {
+      return report;
+    }
+
+    report.latest_date = latestDate;
+    report.block_numbers = this.datesBetween(firstDate, latestDate).filter(
+      (date) => blocks[date] === undefined,
+    );
+
+    const distributors =
+      this.fileManager.readDistributors()?.distributors ?? {};
+    for (const [address, info] of Object.entries(distributors)) {
+      const lastDate =
+        info.active_until_date !== undefined &&
+        info.active_until_date < latestDate
+          ? info.active_until_date
+          : latestDate;
+      const trackedDates = this.datesBetween(info.date, lastDate);
+
+      // Balances and outflows are only kept for the dates fees are attributed on
+      const balances =
+        this.fileManager.readDistributorBalances(address)?.balances ?? {};
+      const outflows =
+        this.fileManager.readDistributorOutflows(address)?.outflows ?? {};
+      const gaps = {
+        balances: trackedDates.filter(
+          (date) => isBalanceTrackedOn(info, date) && !balances[date],
+        ),
+        outflows: trackedDates.filter(
+          (date) => isActiveOn(info, date) && !outflows[date],
+        ),
+      };
+
+      if (gaps.balances.length > 0 || gaps.outflows.length > 0) {
+        report.distributors[address] = gaps;
+      }
+    }
+
+    return report;
+  }
+
+  // Every date from start to end inclusive, empty if end is before start
+  private datesBetween(start: DateString, end: DateString): DateString[] {
+    const dates: DateString[] = [];
+    const endTime = Date.parse(`${end}T00:00:00Z`);
+    for (
+      let time = Date.parse(`${start}T00:00:00Z`);
+      time <= endTime;
+      time += MILLISECONDS_PER_DAY
+    ) {
+      dates.push(new Date(time).toISOString().split("T")[0]!);
+    }
+    return dates;
+  }
+}
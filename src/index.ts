@@ -0,0 +1,45 @@
+// Components
+export { FileManager } from "./file-manager";
+export { BlockFinder } from "./block-finder";
+export { DistributorDetector } from "./distributor-detector";
+export { BalanceFetcher } from "./balance-fetcher";
+export { EventScanner } from "./event-scanner";
+export { FeeCalculator } from "./fee-calculator";
+export { OutflowReconciler } from "./outflow-reconciler";
+export { GapDetector } from "./gap-detector";
+export { Pipeline } from "./pipeline";
+
+// Storage backends
+export {
+  FileSystemBackend,
+  type FileSystemBackendOptions,
+} from "./storage/filesystem-backend";
+export { MemoryBackend } from "./storage/memory-backend";
+export { SqliteBackend, isSqliteAvailable } from "./storage/sqlite-backend";
+
+// Chains
+export {
+  ARBITRUM_NOVA,
+  ARBITRUM_ONE,
+  CHAIN_REGISTRY,
+  DEFAULT_CHAIN,
+  findChainConfig,
+} from "./constants/chains";
+export { CHAINS_FILE, loadChainRegistry } from "./utils/chain-registry";
+
+// Utilities
+export {
+  getActivePeriods,
+  isActiveOn,
+  isBalanceTrackedOn,
+} from "./utils/active-periods";
+export {
+  chunkBlockRange,
+  type BlockRangeChunk,
+} from "./utils/block-range-chunking";
+export { verifyStoreChain } from "./utils/chain-guard";
+export { getSafeBlockNumber, resolveFinality } from "./utils/finality";
+export { clearStaleDates, markDependentDataStale } from "./utils/stale-data";
+
+// Types, constants and errors
+export * from "./types";
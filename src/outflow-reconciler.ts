@@ -0,0 +1,277 @@
+import { FileManager } from "./file-manager";
+import {
+  BASIS_POINTS,
+  DailyOutflow,
+  DistributorReconciliation,
+  OutflowData,
+  OutflowEvent,
+  ReconciliationError,
+  ReconciliationReport,
+  RecipientMismatch,
+  RecipientMismatchKind,
+  RecipientsData,
+  RecipientsUpdate,
+  TransactionMismatch,
+} from "./types";
+
+/**
+ * Creates a new OutflowReconciler instance with the specified dependencies.
+ *
+ * @param fileManager - File manager instance for reading stored outflows and recipients
+ */
+export class OutflowReconciler {
+  constructor(public readonly fileManager: FileManager) {}
+
+  /**
+   * Checks every distribution transaction against the recipient weights active when it ran.
+   *
+   * A distribution pays each recipient `floor(balance / BASIS_POINTS) * weight`, so within one
+   * transaction every payout must be the same per-basis-point amount times its weight. Owner
+   * fallback payouts count towards their intended recipient.
+   *
+   * @param distributorAddress - If provided, only reconcile this specific distributor
+   * @returns Report of checked transactions and mismatches per distributor
+   * @throws ReconciliationError if outflows exist without the recipient history to check them
+   */
+  reconcile(distributorAddress?: string): ReconciliationReport {
+    const distributorsData = this.fileManager.readDistributors();
+    if (!distributorsData) {
+      throw new ReconciliationError(
+        "Distributors data not found\n  Check: Run distributor detection before reconciling outflows",
+        "reconcile",
+        {},
+      );
+    }
+
+    if (
+      distributorAddress &&
+      !distributorsData.distributors[distributorAddress]
+    ) {
+      throw new Error(`Distributor not found: ${distributorAddress}`);
+    }
+
+    const report: ReconciliationReport = {
+      metadata: { chain_id: distributorsData.metadata.chain_id },
+      distributors: {},
+    };
+
+    const addresses = distributorAddress
+      ? [distributorAddress]
+      : Object.keys(distributorsData.distributors);
+    for (const address of addresses) {
+      const outflowData = this.fileManager.readDistributorOutflows(address);
+      if (!outflowData) continue;
+
+      report.distributors[address] = this.reconcileDistributor(
+        address,
+        outflowData,
+        this.fileManager.readDistributorRecipients(address),
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Reconciles every transaction in a distributor's outflows, in date order.
+   * @private
+   */
+  private reconcileDistributor(
+    address: string,
+    outflowData: OutflowData,
+    recipientsData: RecipientsData | undefined,
+  ): DistributorReconciliation {
+    const result: DistributorReconciliation = {
+      checked_transactions: 0,
+      mismatches: [],
+    };
+
+    for (const date of Object.keys(outflowData.outflows).sort()) {
+      const dailyOutflow = outflowData.outflows[date]!;
+
+      for (const [txHash, events] of this.groupByTransaction(dailyOutflow)) {
+        // Events without a block predate block tracking; the end-of-day block bounds them
+        const blockNumber =
+          events[0]!.block_number ?? dailyOutflow.block_number;
+
+        if (!recipientsData) {
+          throw new ReconciliationError(
+            `Recipients data not found for distributor with outflows\n  Distributor: ${address}\n  Date: ${date}\n  Transaction: ${txHash}\n  Check: Run recipient scanning for this distributor before reconciling`,
+            "reconcileDistributor",
+            { distributor: address, date, txHash, blockNumber },
+          );
+        }
+
+        const update = this.findActiveUpdate(
+          recipientsData.updates,
+          blockNumber,
+          txHash,
+        );
+        if (!update) {
+          throw new ReconciliationError(
+            `No recipient configuration active for distribution\n  Distributor: ${address}\n  Date: ${date}\n  Transaction: ${txHash}\n  Block: ${blockNumber}\n  Check: Ensure recipients.json was scanned from the distributor's deployment block`,
+            "reconcileDistributor",
+            { distributor: address, date, txHash, blockNumber },
+          );
+        }
+
+        result.checked_transactions++;
+        const recipients = this.compareWithWeights(events, update);
+        if (recipients.length > 0) {
+          result.mismatches.push({
+            date,
+            tx_hash: txHash,
+            block_number: blockNumber,
+            recipients,
+            message: OutflowReconciler.formatMismatch(address, {
+              date,
+              tx_hash: txHash,
+              block_number: blockNumber,
+              recipients,
+            }),
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Groups a day's events by transaction, preserving event order.
+   * @private
+   */
+  private groupByTransaction(
+    dailyOutflow: DailyOutflow,
+  ): Map<string, OutflowEvent[]> {
+    const groups = new Map<string, OutflowEvent[]>();
+    for (const event of dailyOutflow.events) {
+      const group = groups.get(event.tx_hash) ?? [];
+      group.push(event);
+      groups.set(event.tx_hash, group);
+    }
+    return groups;
+  }
+
+  /**
+   * Finds the latest configuration at or before the block. setRecipients distributes with
+   * the previous split before emitting RecipientsUpdated, so an update from the same
+   * transaction does not apply to its own payouts.
+   * @private
+   */
+  private findActiveUpdate(
+    updates: RecipientsUpdate[],
+    blockNumber: number,
+    txHash: string,
+  ): RecipientsUpdate | undefined {
+    let active: RecipientsUpdate | undefined;
+    for (const update of updates) {
+      if (update.block_number > blockNumber) break;
+      if (update.tx_hash !== txHash) {
+        active = update;
+      }
+    }
+    return active;
+  }
+
+  /**
+   * Compares one transaction's payouts with the configured weights.
+   * @private
+   */
+  private compareWithWeights(
+    events: OutflowEvent[],
+    update: RecipientsUpdate,
+  ): RecipientMismatch[] {
+    // Sum weights and payouts per address, since a recipient may appear more than once
+    const weights = new Map<string, number>();
+    update.recipients.forEach((recipient, i) => {
+      weights.set(
+        recipient,
+        (weights.get(recipient) ?? 0) + update.weights[i]!,
+      );
+    });
+
+    const paid = new Map<string, bigint>();
+    for (const event of events) {
+      const recipient = event.intended_recipient ?? event.recipient;
+      paid.set(
+        recipient,
+        (paid.get(recipient) ?? BigInt(0)) + BigInt(event.value_wei),
+      );
+    }
+
+    // Derive the per-basis-point amount from the configured recipients that were paid
+    let paidWeight = 0;
+    let paidTotal = BigInt(0);
+    for (const [recipient, weight] of weights) {
+      const amount = paid.get(recipient);
+      if (amount === undefined) continue;
+      paidWeight += weight;
+      paidTotal += amount;
+    }
+    const perBasisPoint =
+      paidWeight > 0 ? paidTotal / BigInt(paidWeight) : BigInt(0);
+
+    const mismatches: RecipientMismatch[] = [];
+    for (const [recipient, weight] of weights) {
+      const expected = perBasisPoint * BigInt(weight);
+      const actual = paid.get(recipient);
+      if (actual === undefined) {
+        mismatches.push({
+          kind: RecipientMismatchKind.MISSING_RECIPIENT,
+          recipient,
+          weight,
+          expected_wei: expected.toString(),
+          actual_wei: "0",
+        });
+      } else if (actual !== expected) {
+        mismatches.push({
+          kind: RecipientMismatchKind.WRONG_PROPORTION,
+          recipient,
+          weight,
+          expected_wei: expected.toString(),
+          actual_wei: actual.toString(),
+        });
+      }
+    }
+
+    for (const [recipient, actual] of paid) {
+      if (weights.has(recipient)) continue;
+      mismatches.push({
+        kind: RecipientMismatchKind.UNEXPECTED_RECIPIENT,
+        recipient,
+        weight: 0,
+        expected_wei: "0",
+        actual_wei: actual.toString(),
+      });
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Formats a transaction mismatch as a multi-line message in the repo's error style.
+   *
+   * @param address - The reward distributor address
+   * @param mismatch - The mismatched transaction without its message
+   * @returns Message listing every mismatched recipient
+   */
+  static formatMismatch(
+    address: string,
+    mismatch: Omit<TransactionMismatch, "message">,
+  ): string {
+    const lines = [
+      "Outflows do not match recipient weights",
+      `  Distributor: ${address}`,
+      `  Date: ${mismatch.date}`,
+      `  Transaction: ${mismatch.tx_hash}`,
+      `  Block: ${mismatch.block_number}`,
+      ...mismatch.recipients.map(
+        (recipient) =>
+          `  ${recipient.kind}: ${recipient.recipient} (weight ${recipient.weight}/${BASIS_POINTS}, expected ${recipient.expected_wei} wei, got ${recipient.actual_wei} wei)`,
+      ),
+      "  Check: Compare the transaction's events with recipients.json and rescan outflows and recipients if either is incomplete",
+    ];
+    return lines.join("\n");
+  }
+}
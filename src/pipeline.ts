@@ -0,0 +1,206 @@
+import { ethers } from "ethers";
+import { FileManager } from "./file-manager";
+import { BlockFinder } from "./block-finder";
+import { DistributorDetector } from "./distributor-detector";
+import { BalanceFetcher } from "./balance-fetcher";
+import { EventScanner } from "./event-scanner";
+import { FeeCalculator } from "./fee-calculator";
+import { GapDetector } from "./gap-detector";
+import { ChainConfig, FeeReport, GapReport } from "./types";
+import { DEFAULT_CHAIN } from "./constants/chains";
+import { markDependentDataStale } from "./utils/stale-data";
+
+/**
+ * Creates a new Pipeline instance that runs every component in order.
+ *
+ * @param fileManager - File manager instance shared by all components
+ * @param provider - Provider for RPC calls on the selected chain
+ * @param log - Progress logger, defaults to stderr so stdout stays machine-readable
+ * @param chain - Chain the store and provider belong to, defaults to Arbitrum Nova
+ */
+export class Pipeline {
+  constructor(
+    public readonly fileManager: FileManager,
+    public readonly provider: ethers.Provider,
+    private readonly log: (message: string) => void = console.error,
+    public readonly chain: ChainConfig = DEFAULT_CHAIN,
+  ) {}
+
+  /**
+   * Runs block finding, distributor detection, balance fetching, outflow and recipient
+   * scanning and fee calculation for the given date range. Any stage failure aborts the run.
+   * Each stage saves its progress as it goes, per date or per distributor, so a failed or
+   * interrupted run resumes where it stopped.
+   *
+   * @param startDate - First date to process (inclusive)
+   * @param endDate - Last date to process (inclusive)
+   * @returns Fee report computed from the updated store
+   * @throws Error from the first stage that fails
+   */
+  async run(startDate: Date, endDate: Date): Promise<FeeReport> {
+    this.log("Finding end-of-day blocks...");
+    const blockFinder = new BlockFinder(
+      this.fileManager,
+      this.provider,
+      this.chain,
+    );
+    const blockNumbers = await blockFinder.findBlocksForDateRange(
+      startDate,
+      endDate,
+    );
+    this.logBlockSearchCalls(blockFinder.rpcCallsByDate);
+
+    const lastDate = this.getLastKnownDate(
+      Object.keys(blockNumbers.blocks),
+      endDate,
+    );
+
+    this.log(`Detecting distributors up to ${lastDate}...`);
+    const distributorDetector = new DistributorDetector(
+      this.fileManager,
+      this.provider,
+      this.chain,
+    );
+    await distributorDetector.detectDistributors(
+      new Date(`${lastDate}T00:00:00Z`),
+    );
+
+    this.log("Fetching balances...");
+    const balanceFetcher = new BalanceFetcher(
+      this.fileManager,
+      this.provider,
+      this.chain,
+    );
+    await balanceFetcher.fetchBalances();
+
+    this.log("Scanning outflows...");
+    const eventScanner = new EventScanner(
+      this.fileManager,
+      this.provider,
+      this.chain,
+    );
+    await eventScanner.scanOutflows();
+
+    this.log("Scanning recipient updates...");
+    await eventScanner.scanRecipientUpdates();
+
+    this.log("Calculating fees...");
+    return new FeeCalculator(this.fileManager).calculateFees();
+  }
+
+  /**
+   * Fills the dates reported missing by the GapDetector. Missing end-of-day blocks are
+   * found first; the stored outflows after each filled date covered it too, so they are
+   * marked stale. Balances and outflows are then fetched for each affected distributor,
+   * which only touches its missing and stale dates.
+   *
+   * @returns Gap report of the store after the repair, listing dates that could not be filled
+   * @throws Error from the first stage that fails
+   */
+  async repairGaps(): Promise<GapReport> {
+    const gapDetector = new GapDetector(this.fileManager, this.chain);
+    const gaps = gapDetector.findGaps();
+    const addresses = new Set(Object.keys(gaps.distributors));
+
+    const blocksBefore = this.fileManager.readBlockNumbers()?.blocks ?? {};
+    const missingBlockDates = [
+      ...gaps.block_numbers,
+      ...Object.values(gaps.distributors).flatMap((distributor) =>
+        distributor.balances.filter((date) => blocksBefore[date] === undefined),
+      ),
+    ].sort();
+    const firstMissingDate = missingBlockDates[0];
+
+    if (firstMissingDate !== undefined && gaps.latest_date !== undefined) {
+      this.log(
+        `Finding end-of-day blocks from ${firstMissingDate} to ${gaps.latest_date}...`,
+      );
+      const blockFinder = new BlockFinder(
+        this.fileManager,
+        this.provider,
+        this.chain,
+      );
+      const blockNumbers = await blockFinder.findBlocksForDateRange(
+        new Date(`${firstMissingDate}T00:00:00Z`),
+        new Date(`${gaps.latest_date}T00:00:00Z`),
+      );
+      this.logBlockSearchCalls(blockFinder.rpcCallsByDate);
+
+      const filledDates = Object.keys(blockNumbers.blocks).filter(
+        (date) => blocksBefore[date] === undefined,
+      );
+      // The stale marks span several distributors' files, so they are written together
+      this.fileManager.beginTransaction();
+      let staleAddresses: string[];
+      try {
+        staleAddresses = markDependentDataStale(
+          this.fileManager,
+          blockNumbers,
+          filledDates,
+        );
+      } catch (error) {
+        this.fileManager.rollbackTransaction();
+        throw error;
+      }
+      this.fileManager.commitTransaction();
+      for (const address of staleAddresses) {
+        addresses.add(address);
+      }
+    }
+
+    const balanceFetcher = new BalanceFetcher(
+      this.fileManager,
+      this.provider,
+      this.chain,
+    );
+    const eventScanner = new EventScanner(
+      this.fileManager,
+      this.provider,
+      this.chain,
+    );
+    for (const address of addresses) {
+      this.log(`Filling balances and outflows for ${address}...`);
+      await balanceFetcher.fetchBalances(address);
+      await eventScanner.scanOutflows(address);
+    }
+
+    return gapDetector.findGaps();
+  }
+
+  /**
+   * Logs the getBlock calls spent finding new end-of-day blocks, to track backfill cost.
+   * @private
+   */
+  private logBlockSearchCalls(rpcCallsByDate: {
+    [date: string]: number;
+  }): void {
+    const counts = Object.values(rpcCallsByDate);
+    if (counts.length === 0) return;
+
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    this.log(
+      `Found ${counts.length} end-of-day blocks with ${total} getBlock calls (${(total / counts.length).toFixed(1)} per date)`,
+    );
+  }
+
+  /**
+   * Finds the latest date with a known end-of-day block that is not after the end date,
+   * since distributor detection scans up to a block recorded in block_numbers.json.
+   * @private
+   */
+  private getLastKnownDate(dates: string[], endDate: Date): string {
+    const endDateString = endDate.toISOString().split("T")[0]!;
+    const lastDate = dates
+      .filter((date) => date <= endDateString)
+      .sort()
+      .pop();
+
+    if (!lastDate) {
+      throw new Error(
+        `No end-of-day blocks found on or before ${endDateString}\n  Check: Ensure the date range has at least one finalized day`,
+      );
+    }
+
+    return lastDate;
+  }
+}
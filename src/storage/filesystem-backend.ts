@@ -0,0 +1,611 @@
+import * as fs from "fs";
+import * as path from "path";
+import { types } from "util";
+import {
+  FileManagerError,
+  StorageBackend,
+  StoreLock,
+  ValidationError,
+} from "../types";
+import { JsonSchema } from "../utils/json-schema";
+import { parseJsonFile } from "./json-files";
+import {
+  createStoreLock,
+  isProcessRunning,
+  isSameLock,
+  isStaleLock,
+  lockHeldError,
+} from "./store-lock";
+
+const JSON_INDENT_SIZE = 2;
+const JOURNAL_DIR = ".journal";
+const JOURNAL_MANIFEST_FILE = "manifest.json";
+const LOCK_FILE = ".lock";
+const TEMP_FILE_SUFFIX = ".tmp";
+const LOCK_TAKEOVER_SUFFIX = ".takeover";
+// Temporary files tryCreateLock() links into place (.lock.<pid>.tmp) and
+// removeStaleLock() moves a stale lock to (.lock.<pid>.takeover.tmp)
+const LOCK_TEMP_FILE_REGEX = /^\.lock\.(\d+)(?:\.takeover)?\.tmp$/;
+
+/** Lists the files journaled by a commit, in the order they are moved into place */
+interface JournalManifest {
+  files: { path: string; journal: string }[];
+}
+
+const JOURNAL_MANIFEST_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    files: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { path: { type: "string" }, journal: { type: "string" } },
+      },
+    },
+  },
+};
+
+const LOCK_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    pid: { type: "number" },
+    hostname: { type: "string" },
+    started_at: { type: "string" },
+  },
+};
+
+export interface FileSystemBackendOptions {
+  /**
+   * Sync each written file and its directory to disk before returning, so a completed
+   * write survives a power loss. Defaults to true.
+   */
+  durable?: boolean;
+}
+
+/**
+ * Keeps each store file as a JSON file under the store directory. Writes go through a
+ * temporary file renamed over the target, multi-file writes through a journal, and the
+ * lock is a file in the store directory.
+ */
+export class FileSystemBackend implements StorageBackend {
+  readonly location: string;
+  private readonly durable: boolean;
+  /** Lock file contents written by this backend while it holds the lock */
+  private heldLock: StoreLock | undefined;
+
+  constructor(storeDirectory: string, options: FileSystemBackendOptions = {}) {
+    if (storeDirectory === undefined || storeDirectory === null) {
+      throw new ValidationError(
+        "storeDirectory parameter is required",
+        "storeDirectory",
+        storeDirectory,
+        "Directory path",
+      );
+    }
+    if (storeDirectory === "") {
+      throw new ValidationError(
+        "storeDirectory cannot be empty",
+        "storeDirectory",
+        storeDirectory,
+        "Non-empty directory path",
+      );
+    }
+    this.location = storeDirectory;
+    this.durable = options.durable ?? true;
+  }
+
+  describe(key: string): string {
+    return path.join(this.location, key);
+  }
+
+  exists(key: string): boolean {
+    return fs.existsSync(this.describe(key));
+  }
+
+  read(key: string, operation: string): string | undefined {
+    const filePath = this.describe(key);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    try {
+      return fs.readFileSync(filePath, "utf-8");
+    } catch (error) {
+      throw this.fileSystemError(
+        `Cannot read ${path.basename(filePath)}\n  File: ${filePath}`,
+        "Check permissions on the store directory",
+        operation,
+        filePath,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Writes the file, creating its directory if needed. A pending journal must be settled
+   * first, so its older contents cannot later be rolled forward over this write.
+   */
+  write(key: string, contents: string, operation: string): void {
+    this.settleJournalBeforeWrite(operation);
+    const filePath = this.describe(key);
+    this.ensureDirectory(path.dirname(filePath), operation);
+    this.writeFileAtomically(filePath, contents, operation);
+  }
+
+  /**
+   * The files are first written to the journal directory, followed by a manifest
+   * listing them; writing the manifest is the commit point. If the process dies before
+   * then, the next run to acquire the store's lock discards the journal and no file has
+   * changed. If it dies later, that run finishes moving the journaled files into place.
+   */
+  writeAll(files: ReadonlyMap<string, string>, operation: string): void {
+    if (files.size === 0) {
+      return;
+    }
+
+    this.settleJournalBeforeWrite(operation);
+
+    const journalPath = path.join(this.location, JOURNAL_DIR);
+    this.ensureDirectory(journalPath, operation);
+    const manifest: JournalManifest = { files: [] };
+    for (const [key, contents] of files) {
+      const journalFile = `${manifest.files.length}.json`;
+      this.writeFileAtomically(
+        path.join(journalPath, journalFile),
+        contents,
+        operation,
+      );
+      manifest.files.push({ path: key, journal: journalFile });
+    }
+    this.writeFileAtomically(
+      path.join(journalPath, JOURNAL_MANIFEST_FILE),
+      JSON.stringify(manifest, null, JSON_INDENT_SIZE),
+      operation,
+    );
+
+    this.applyJournal(manifest, operation);
+  }
+
+  listDirectories(prefix: string, operation: string): string[] {
+    const dirPath = this.describe(prefix);
+    if (!fs.existsSync(dirPath)) {
+      return [];
+    }
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dirPath, { withFileTypes: true });
+    } catch (error) {
+      throw this.fileSystemError(
+        `Cannot list directory\n  Path: ${dirPath}`,
+        "Check permissions on the store directory",
+        operation,
+        dirPath,
+        error,
+      );
+    }
+    return entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort();
+  }
+
+  initialize(operation: string): void {
+    this.ensureDirectory(this.location, operation);
+  }
+
+  /**
+   * The lock file records the holder's PID, hostname and start time. A lock taken on
+   * this host by a process that is no longer running is stale and is taken over.
+   */
+  acquireLock(): string[] {
+    const lockPath = path.join(this.location, LOCK_FILE);
+    if (this.heldLock) {
+      throw this.lockHeldError(lockPath, this.heldLock);
+    }
+
+    this.ensureDirectory(this.location, "acquireLock");
+    const lock = createStoreLock();
+
+    if (!this.tryCreateLock(lockPath, lock)) {
+      const holder = this.readLock(LOCK_FILE);
+      if (holder && !isStaleLock(holder)) {
+        throw this.lockHeldError(lockPath, holder);
+      }
+      // The holder released the lock or died without releasing it
+      if (holder) {
+        this.removeStaleLock(lockPath, holder);
+      }
+      if (!this.tryCreateLock(lockPath, lock)) {
+        throw this.lockHeldError(lockPath, this.readLock(LOCK_FILE));
+      }
+    }
+
+    this.heldLock = lock;
+    this.recoverJournal("acquireLock");
+
+    const orphanedFiles = this.listOrphanedFiles("acquireLock");
+    for (const file of orphanedFiles) {
+      const filePath = path.join(this.location, file);
+      try {
+        fs.rmSync(filePath, { force: true });
+      } catch (error) {
+        throw this.fileSystemError(
+          `Cannot remove orphaned temporary file\n  File: ${filePath}`,
+          "Check permissions on the store directory",
+          "acquireLock",
+          filePath,
+          error,
+        );
+      }
+    }
+    return orphanedFiles;
+  }
+
+  releaseLock(): void {
+    const lock = this.heldLock;
+    if (!lock) {
+      return;
+    }
+    this.heldLock = undefined;
+
+    const lockPath = path.join(this.location, LOCK_FILE);
+    const current = this.readLock(LOCK_FILE);
+    if (current && isSameLock(current, lock)) {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+
+  /**
+   * Finds temporary files left by writes that were interrupted between writing the
+   * temporary file and renaming it into place. The journal directory is settled by
+   * recoverJournal() and is not searched; lock files being created by a running
+   * process are not orphaned.
+   */
+  listOrphanedFiles(operation: string): string[] {
+    const orphanedFiles: string[] = [];
+    const visit = (relativeDir: string): void => {
+      const dirPath = path.join(this.location, relativeDir);
+      let entries: fs.Dirent[];
+      try {
+        entries = fs.readdirSync(dirPath, { withFileTypes: true });
+      } catch (error) {
+        throw this.fileSystemError(
+          `Cannot list store directory\n  Path: ${dirPath}`,
+          "Check permissions on the store directory",
+          operation,
+          dirPath,
+          error,
+        );
+      }
+      for (const entry of entries) {
+        const relativePath = path.posix.join(relativeDir, entry.name);
+        if (entry.isDirectory()) {
+          if (relativePath !== JOURNAL_DIR) visit(relativePath);
+          continue;
+        }
+        if (!entry.name.endsWith(TEMP_FILE_SUFFIX)) continue;
+        const lockOwner = LOCK_TEMP_FILE_REGEX.exec(entry.name)?.[1];
+        if (
+          relativeDir === "" &&
+          lockOwner !== undefined &&
+          isProcessRunning(Number(lockOwner))
+        ) {
+          continue;
+        }
+        orphanedFiles.push(relativePath);
+      }
+    };
+
+    if (fs.existsSync(this.location)) {
+      visit("");
+    }
+    return orphanedFiles.sort();
+  }
+
+  /** A journal directory is left by a writeAll() that did not finish */
+  hasPendingCommit(): boolean {
+    return fs.existsSync(path.join(this.location, JOURNAL_DIR));
+  }
+
+  /**
+   * Creates the lock file with its contents in one step, by linking a fully written
+   * temporary file into place.
+   * @returns False if the lock file already exists
+   */
+  private tryCreateLock(lockPath: string, lock: StoreLock): boolean {
+    const tempPath = `${lockPath}.${process.pid}${TEMP_FILE_SUFFIX}`;
+    try {
+      fs.writeFileSync(tempPath, JSON.stringify(lock, null, JSON_INDENT_SIZE));
+      fs.linkSync(tempPath, lockPath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        return false;
+      }
+      throw this.fileSystemError(
+        `Cannot create the store lock\n  File: ${lockPath}`,
+        "Check permissions on the store directory",
+        "acquireLock",
+        lockPath,
+        error,
+      );
+    } finally {
+      fs.rmSync(tempPath, { force: true });
+    }
+  }
+
+  /**
+   * Removes a stale lock file unless another run replaced it after it was read. The
+   * lock file is first moved to a name only this process uses, so the contents checked
+   * are the contents removed; a lock that turns out to be another run's is put back.
+   */
+  private removeStaleLock(lockPath: string, stale: StoreLock): void {
+    const takeoverFile = `${LOCK_FILE}.${process.pid}${LOCK_TAKEOVER_SUFFIX}${TEMP_FILE_SUFFIX}`;
+    const takeoverPath = path.join(this.location, takeoverFile);
+    try {
+      fs.renameSync(lockPath, takeoverPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        // Another run removed the stale lock first
+        return;
+      }
+      throw this.fileSystemError(
+        `Cannot remove the stale store lock\n  File: ${lockPath}`,
+        "Check permissions on the store directory",
+        "acquireLock",
+        lockPath,
+        error,
+      );
+    }
+
+    try {
+      const taken = this.readLock(takeoverFile);
+      if (taken && !isSameLock(taken, stale)) {
+        // Another run took over the lock between reading it and moving it
+        fs.linkSync(takeoverPath, lockPath);
+      }
+    } catch (error) {
+      // EEXIST: yet another run created a lock after the move and holds the store
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    } finally {
+      fs.rmSync(takeoverPath, { force: true });
+    }
+  }
+
+  /**
+   * @param file The lock file, or a copy of it, relative to the store directory
+   * @returns The file's contents, or undefined if there is no such file
+   */
+  private readLock(file: string): StoreLock | undefined {
+    const contents = this.read(file, "acquireLock");
+    if (contents === undefined) {
+      return undefined;
+    }
+    return parseJsonFile<StoreLock>(
+      contents,
+      this.describe(file),
+      "acquireLock",
+      LOCK_SCHEMA,
+    );
+  }
+
+  private lockHeldError(
+    lockPath: string,
+    holder: StoreLock | undefined,
+  ): FileManagerError {
+    return lockHeldError(this.location, lockPath, holder, `remove ${lockPath}`);
+  }
+
+  /**
+   * Settles a pending journal before a write if this backend holds the lock, as after a
+   * commit that failed earlier in this run; acquireLock() settles any older one. Without
+   * the lock the journal may belong to a commit another run is still writing, so the
+   * write is refused instead.
+   * @throws FileManagerError if a journal is pending and the lock is not held
+   */
+  private settleJournalBeforeWrite(operation: string): void {
+    if (!this.hasPendingCommit()) {
+      return;
+    }
+    if (!this.heldLock) {
+      throw new FileManagerError(
+        `Store has an unfinished commit\n  Store: ${this.location}\n  Operation: ${operation}\n  Check: Wait for the run writing to the store to finish, or acquire the store's lock to finish the commit`,
+        operation,
+        this.location,
+      );
+    }
+    this.recoverJournal(operation);
+  }
+
+  /**
+   * Settles a journal left by an interrupted commit: rolls it forward if its manifest
+   * was written, otherwise discards it.
+   */
+  private recoverJournal(operation: string): void {
+    const journalPath = path.join(this.location, JOURNAL_DIR);
+    if (!fs.existsSync(journalPath)) {
+      return;
+    }
+
+    const manifestKey = `${JOURNAL_DIR}/${JOURNAL_MANIFEST_FILE}`;
+    const manifest = this.read(manifestKey, operation);
+    if (manifest !== undefined) {
+      this.applyJournal(
+        parseJsonFile<JournalManifest>(
+          manifest,
+          this.describe(manifestKey),
+          operation,
+          JOURNAL_MANIFEST_SCHEMA,
+        ),
+        operation,
+      );
+    } else {
+      this.removeJournal(operation);
+    }
+  }
+
+  /**
+   * Moves each journaled file over its target, then removes the journal. Files moved
+   * before an interruption are no longer in the journal and are skipped.
+   */
+  private applyJournal(manifest: JournalManifest, operation: string): void {
+    const journalPath = path.join(this.location, JOURNAL_DIR);
+    const targetDirectories = new Set<string>();
+    for (const file of manifest.files) {
+      const journalFilePath = path.join(journalPath, file.journal);
+      if (!fs.existsSync(journalFilePath)) {
+        continue;
+      }
+      const targetPath = path.join(this.location, file.path);
+      targetDirectories.add(path.dirname(targetPath));
+      this.ensureDirectory(path.dirname(targetPath), operation);
+      try {
+        fs.renameSync(journalFilePath, targetPath);
+      } catch (error) {
+        throw this.fileSystemError(
+          `Cannot move journaled file into place\n  File: ${targetPath}\n  Journal: ${journalFilePath}`,
+          "Fix the cause; the commit is finished the next time the store is opened",
+          operation,
+          targetPath,
+          error,
+        );
+      }
+    }
+    // The moves must be on disk before the journal that replays them is removed
+    for (const directory of targetDirectories) {
+      this.syncDirectory(directory, operation);
+    }
+    this.removeJournal(operation);
+  }
+
+  private removeJournal(operation: string): void {
+    const journalPath = path.join(this.location, JOURNAL_DIR);
+    try {
+      // Without the manifest an interrupted removal is discarded rather than replayed
+      fs.rmSync(path.join(journalPath, JOURNAL_MANIFEST_FILE), { force: true });
+      fs.rmSync(journalPath, { recursive: true, force: true });
+    } catch (error) {
+      throw this.fileSystemError(
+        `Cannot remove the journal directory\n  Path: ${journalPath}`,
+        "Check permissions on the store directory",
+        operation,
+        journalPath,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Creates the directory and any missing parents, syncing each new directory's entry
+   * in its parent.
+   * @throws FileManagerError if the directory cannot be created
+   */
+  private ensureDirectory(dirPath: string, operation: string): void {
+    if (fs.existsSync(dirPath)) {
+      return;
+    }
+    let firstCreated: string | undefined;
+    try {
+      firstCreated = fs.mkdirSync(dirPath, { recursive: true });
+    } catch (error) {
+      throw this.fileSystemError(
+        `Cannot create directory\n  Path: ${dirPath}`,
+        "Check permissions on the store directory",
+        operation,
+        dirPath,
+        error,
+      );
+    }
+    if (firstCreated === undefined) {
+      return;
+    }
+    const firstCreatedPath = path.resolve(firstCreated);
+    let created = path.resolve(dirPath);
+    this.syncDirectory(path.dirname(created), operation);
+    while (created !== firstCreatedPath) {
+      created = path.dirname(created);
+      this.syncDirectory(path.dirname(created), operation);
+    }
+  }
+
+  /**
+   * Flushes a directory's entries to disk so files renamed or created in it survive a
+   * power loss. Does nothing in non-durable mode, or on Windows, which cannot open a
+   * directory for syncing.
+   * @throws FileManagerError if the directory cannot be synced
+   */
+  private syncDirectory(dirPath: string, operation: string): void {
+    if (!this.durable || process.platform === "win32") {
+      return;
+    }
+    let fd: number | undefined;
+    try {
+      fd = fs.openSync(dirPath, "r");
+      fs.fsyncSync(fd);
+    } catch (error) {
+      throw this.fileSystemError(
+        `Cannot sync directory\n  Path: ${dirPath}`,
+        "Check that the store's file system supports fsync",
+        operation,
+        dirPath,
+        error,
+      );
+    } finally {
+      if (fd !== undefined) fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Writes to a temporary file and renames it over the target, so readers never see a
+   * partial file. In durable mode the temporary file is synced before the rename and
+   * the directory after it, so a power loss cannot leave an empty or missing file.
+   * @throws FileManagerError if any step fails; the temporary file is removed
+   */
+  private writeFileAtomically(
+    filePath: string,
+    contents: string,
+    operation: string,
+  ): void {
+    const tempPath = `${filePath}${TEMP_FILE_SUFFIX}`;
+    try {
+      const fd = fs.openSync(tempPath, "w");
+      try {
+        fs.writeFileSync(fd, contents);
+        if (this.durable) fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      if (fs.existsSync(tempPath)) {
+        fs.rmSync(tempPath, { force: true });
+      }
+      throw this.fileSystemError(
+        `Cannot write ${path.basename(filePath)}\n  File: ${filePath}`,
+        "Check file permissions and free disk space",
+        operation,
+        filePath,
+        error,
+      );
+    }
+    this.syncDirectory(path.dirname(filePath), operation);
+  }
+
+  private fileSystemError(
+    description: string,
+    check: string,
+    operation: string,
+    filePath: string,
+    error: unknown,
+  ): FileManagerError {
+    // fs errors are native errors, which fail instanceof checks across realms
+    const cause = types.isNativeError(error) ? error : undefined;
+    return new FileManagerError(
+      `${description}\n  Reason: ${cause ? cause.message : String(error)}\n  Check: ${check}`,
+      operation,
+      filePath,
+      cause,
+    );
+  }
+}
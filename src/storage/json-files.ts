@@ -0,0 +1,75 @@
+import * as path from "path";
+import { FileManagerError } from "../types";
+import {
+  JsonSchema,
+  SchemaViolation,
+  findSchemaViolation,
+} from "../utils/json-schema";
+
+/**
+ * Parses a file's contents and checks its structure and field types.
+ *
+ * @param location - Where the file is kept, as shown in error messages
+ * @throws FileManagerError if the contents are not valid JSON, or with the JSON pointer
+ *   of the first field that does not match the schema
+ */
+export function parseJsonFile<T>(
+  contents: string,
+  location: string,
+  operation: string,
+  schema: JsonSchema,
+): T {
+  const data = parseJson(contents, location, operation);
+  checkSchema(data, location, operation, schema);
+  return data as T;
+}
+
+/**
+ * @throws FileManagerError if the contents are not valid JSON, with the SyntaxError as cause
+ */
+export function parseJson(
+  contents: string,
+  location: string,
+  operation: string,
+): unknown {
+  try {
+    return JSON.parse(contents);
+  } catch (error) {
+    throw new FileManagerError(
+      `File is not valid JSON\n  File: ${location}\n  Error: ${error instanceof Error ? error.message : String(error)}\n  Check: Repair the file by hand, or remove it and rerun the stage that writes it`,
+      operation,
+      location,
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * @throws FileManagerError with the JSON pointer of the first field that does not
+ *   match the schema
+ */
+export function checkSchema(
+  data: unknown,
+  location: string,
+  operation: string,
+  schema: JsonSchema,
+): void {
+  const violation = findSchemaViolation(data, schema);
+  if (violation) {
+    throw schemaViolationError(location, operation, violation);
+  }
+}
+
+export function schemaViolationError(
+  location: string,
+  operation: string,
+  violation: SchemaViolation,
+): FileManagerError {
+  return new FileManagerError(
+    `Invalid field in ${path.basename(location)}\n  File: ${location}\n  Field: ${violation.pointer || "(root)"}\n  Expected: ${violation.expected}\n  Got: ${violation.actual}\n  Check: Repair the field by hand, or remove the file and rerun the stage that writes it`,
+    operation,
+    location,
+    undefined,
+    violation.pointer,
+  );
+}
@@ -0,0 +1,20 @@
+/**
+ * Lists the directories directly under a prefix, for backends that keep keys rather
+ * than directories. A directory exists while it holds at least one file.
+ *
+ * @returns Directory names, sorted
+ */
+export function listDirectoriesInKeys(
+  keys: Iterable<string>,
+  prefix: string,
+): string[] {
+  const directories = new Set<string>();
+  for (const key of keys) {
+    if (!key.startsWith(`${prefix}/`)) continue;
+    const [directory, ...rest] = key.slice(prefix.length + 1).split("/");
+    if (directory !== undefined && rest.length > 0) {
+      directories.add(directory);
+    }
+  }
+  return [...directories].sort();
+}
@@ -0,0 +1,80 @@
+import * as path from "path";
+import { StorageBackend, StoreLock } from "../types";
+import { listDirectoriesInKeys } from "./keys";
+import { createStoreLock, lockHeldError } from "./store-lock";
+
+const MEMORY_LOCATION = "(memory)";
+
+/**
+ * Keeps the store's files in a map, for tests and dry runs. Nothing outlives the
+ * instance, so there are no interrupted writes to settle. The lock is only shared by
+ * FileManagers given the same instance.
+ */
+export class MemoryBackend implements StorageBackend {
+  readonly location = MEMORY_LOCATION;
+  private readonly files = new Map<string, string>();
+  private heldLock: StoreLock | undefined;
+
+  /**
+   * @param files - Initial contents of the store, by key
+   */
+  constructor(files: Readonly<Record<string, string>> = {}) {
+    for (const [key, contents] of Object.entries(files)) {
+      this.files.set(key, contents);
+    }
+  }
+
+  describe(key: string): string {
+    return path.posix.join(MEMORY_LOCATION, key);
+  }
+
+  exists(key: string): boolean {
+    return this.files.has(key);
+  }
+
+  read(key: string): string | undefined {
+    return this.files.get(key);
+  }
+
+  write(key: string, contents: string): void {
+    this.files.set(key, contents);
+  }
+
+  writeAll(files: ReadonlyMap<string, string>): void {
+    for (const [key, contents] of files) {
+      this.files.set(key, contents);
+    }
+  }
+
+  listDirectories(prefix: string): string[] {
+    return listDirectoriesInKeys(this.files.keys(), prefix);
+  }
+
+  initialize(): void {}
+
+  acquireLock(): string[] {
+    if (this.heldLock) {
+      throw lockHeldError(
+        MEMORY_LOCATION,
+        MEMORY_LOCATION,
+        this.heldLock,
+        "release the lock it holds",
+      );
+    }
+    this.heldLock = createStoreLock();
+    return [];
+  }
+
+  releaseLock(): void {
+    this.heldLock = undefined;
+  }
+
+  listOrphanedFiles(): string[] {
+    return [];
+  }
+
+  /** Writes replace the files in one step, so none is left part way */
+  hasPendingCommit(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,294 @@
+import * as path from "path";
+import { types } from "util";
+import type { DatabaseSync } from "node:sqlite";
+import { FileManagerError, StorageBackend, StoreLock } from "../types";
+import { listDirectoriesInKeys } from "./keys";
+import {
+  createStoreLock,
+  isSameLock,
+  isStaleLock,
+  lockHeldError,
+} from "./store-lock";
+
+// Wait this long for another connection's write transaction before failing
+const BUSY_TIMEOUT_MS = 5000;
+
+const CREATE_TABLES_SQL = `
+  CREATE TABLE IF NOT EXISTS files (
+    key TEXT PRIMARY KEY,
+    contents TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS store_lock (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    pid INTEGER NOT NULL,
+    hostname TEXT NOT NULL,
+    started_at TEXT NOT NULL
+  );
+`;
+const UPSERT_FILE_SQL =
+  "INSERT INTO files (key, contents) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET contents = excluded.contents";
+
+/**
+ * Whether this Node.js has the built-in node:sqlite module (22.5 and later).
+ */
+export function isSqliteAvailable(): boolean {
+  try {
+    loadSqlite();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function loadSqlite(): typeof import("node:sqlite") {
+  // Loaded on first use, so the other backends work on Node.js versions without it
+  return require("node:sqlite") as typeof import("node:sqlite");
+}
+
+/**
+ * Keeps the store's files as rows of an embedded SQLite database, using Node.js's
+ * built-in node:sqlite. Every write is a SQLite transaction, so interrupted writes
+ * leave nothing to settle, and the lock is a row that is taken in a transaction.
+ */
+export class SqliteBackend implements StorageBackend {
+  readonly location: string;
+  private readonly database: DatabaseSync;
+  /** Lock row written by this backend while it holds the lock */
+  private heldLock: StoreLock | undefined;
+
+  /**
+   * Opens the database, creating it and its tables if they do not exist.
+   * @param databasePath - Database file; its directory must exist
+   * @throws FileManagerError if node:sqlite is unavailable or the database cannot be opened
+   */
+  constructor(databasePath: string) {
+    this.location = databasePath;
+    let sqlite: typeof import("node:sqlite");
+    try {
+      sqlite = loadSqlite();
+    } catch (error) {
+      throw new FileManagerError(
+        `SQLite storage needs Node.js 22.5 or later\n  Node.js: ${process.version}\n  Check: Upgrade Node.js, or keep the store in a directory`,
+        "openDatabase",
+        databasePath,
+        types.isNativeError(error) ? error : undefined,
+      );
+    }
+    try {
+      this.database = new sqlite.DatabaseSync(databasePath);
+      this.database.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+      this.database.exec(CREATE_TABLES_SQL);
+    } catch (error) {
+      throw this.databaseError(
+        "Cannot open the store database",
+        "Check that the database's directory exists and is writable",
+        "openDatabase",
+        databasePath,
+        error,
+      );
+    }
+  }
+
+  /** Where a file is kept, shown as a path inside the database file */
+  describe(key: string): string {
+    return path.join(this.location, key);
+  }
+
+  exists(key: string): boolean {
+    return this.read(key, "exists") !== undefined;
+  }
+
+  read(key: string, operation: string): string | undefined {
+    try {
+      const row = this.database
+        .prepare("SELECT contents FROM files WHERE key = ?")
+        .get(key);
+      return row === undefined ? undefined : String(row["contents"]);
+    } catch (error) {
+      throw this.databaseError(
+        `Cannot read ${path.posix.basename(key)}`,
+        "Check that the database file is readable and not corrupted",
+        operation,
+        this.describe(key),
+        error,
+      );
+    }
+  }
+
+  write(key: string, contents: string, operation: string): void {
+    this.writeAll(new Map([[key, contents]]), operation);
+  }
+
+  writeAll(files: ReadonlyMap<string, string>, operation: string): void {
+    if (files.size === 0) {
+      return;
+    }
+    try {
+      this.inTransaction(() => {
+        const upsert = this.database.prepare(UPSERT_FILE_SQL);
+        for (const [key, contents] of files) {
+          upsert.run(key, contents);
+        }
+      });
+    } catch (error) {
+      throw this.databaseError(
+        `Cannot write ${[...files.keys()].map((key) => path.posix.basename(key)).join(", ")}`,
+        "Check file permissions and free disk space; no file was changed",
+        operation,
+        this.location,
+        error,
+      );
+    }
+  }
+
+  listDirectories(prefix: string, operation: string): string[] {
+    let rows: Record<string, unknown>[];
+    try {
+      rows = this.database
+        .prepare("SELECT key FROM files WHERE substr(key, 1, ?) = ?")
+        .all(prefix.length + 1, `${prefix}/`);
+    } catch (error) {
+      throw this.databaseError(
+        `Cannot list directory\n  Path: ${this.describe(prefix)}`,
+        "Check that the database file is readable and not corrupted",
+        operation,
+        this.location,
+        error,
+      );
+    }
+    return listDirectoriesInKeys(
+      rows.map((row) => String(row["key"])),
+      prefix,
+    );
+  }
+
+  /** The database and its tables are created when the backend is constructed */
+  initialize(): void {}
+
+  /**
+   * The lock row records the holder's PID, hostname and start time and is checked and
+   * taken in one transaction. A lock taken on this host by a process that is no longer
+   * running is stale and is taken over.
+   */
+  acquireLock(): string[] {
+    const lock = createStoreLock();
+    let holder: StoreLock | undefined;
+    try {
+      this.inTransaction(() => {
+        holder = this.readLock();
+        if (holder && (this.heldLock || !isStaleLock(holder))) {
+          return;
+        }
+        holder = undefined;
+        this.database
+          .prepare(
+            "INSERT OR REPLACE INTO store_lock (id, pid, hostname, started_at) VALUES (1, ?, ?, ?)",
+          )
+          .run(lock.pid, lock.hostname, lock.started_at);
+      });
+    } catch (error) {
+      throw this.databaseError(
+        "Cannot take the store lock",
+        "Check that the database file is writable",
+        "acquireLock",
+        this.location,
+        error,
+      );
+    }
+    if (holder) {
+      throw lockHeldError(
+        this.location,
+        this.location,
+        holder,
+        `delete the row from the store_lock table in ${this.location}`,
+      );
+    }
+    this.heldLock = lock;
+    return [];
+  }
+
+  releaseLock(): void {
+    const lock = this.heldLock;
+    if (!lock) {
+      return;
+    }
+    this.heldLock = undefined;
+
+    try {
+      this.inTransaction(() => {
+        const current = this.readLock();
+        if (current && isSameLock(current, lock)) {
+          this.database.prepare("DELETE FROM store_lock WHERE id = 1").run();
+        }
+      });
+    } catch (error) {
+      throw this.databaseError(
+        "Cannot release the store lock",
+        "Check that the database file is writable",
+        "releaseLock",
+        this.location,
+        error,
+      );
+    }
+  }
+
+  /** Writes are transactions, so none leaves files behind */
+  listOrphanedFiles(): string[] {
+    return [];
+  }
+
+  /** Writes are transactions, so none is left part way */
+  hasPendingCommit(): boolean {
+    return false;
+  }
+
+  /**
+   * Closes the database. The backend cannot be used afterwards.
+   */
+  close(): void {
+    this.database.close();
+  }
+
+  private readLock(): StoreLock | undefined {
+    const row = this.database
+      .prepare("SELECT pid, hostname, started_at FROM store_lock WHERE id = 1")
+      .get();
+    return row === undefined
+      ? undefined
+      : {
+          pid: Number(row["pid"]),
+          hostname: String(row["hostname"]),
+          started_at: String(row["started_at"]),
+        };
+  }
+
+  /**
+   * Runs the statements in a write transaction, rolling it back if they throw.
+   */
+  private inTransaction(statements: () => void): void {
+    this.database.exec("BEGIN IMMEDIATE");
+    try {
+      statements();
+    } catch (error) {
+      this.database.exec("ROLLBACK");
+      throw error;
+    }
+    this.database.exec("COMMIT");
+  }
+
+  private databaseError(
+    description: string,
+    check: string,
+    operation: string,
+    location: string,
+    error: unknown,
+  ): FileManagerError {
+    const cause = types.isNativeError(error) ? error : undefined;
+    return new FileManagerError(
+      `${description}\n  Database: ${this.location}\n  Reason: ${cause ? cause.message : String(error)}\n  Check: ${check}`,
+      operation,
+      location,
+      cause,
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import * as os from "os";
+import { FileManagerError, StoreLock } from "../types";
+
+/**
+ * @returns A lock identifying this process, taken now
+ */
+export function createStoreLock(): StoreLock {
+  return {
+    pid: process.pid,
+    hostname: os.hostname(),
+    started_at: new Date().toISOString(),
+  };
+}
+
+export function isSameLock(a: StoreLock, b: StoreLock): boolean {
+  return (
+    a.pid === b.pid &&
+    a.hostname === b.hostname &&
+    a.started_at === b.started_at
+  );
+}
+
+/**
+ * Whether the lock was taken on this host by a process that is no longer running.
+ * Locks from other hosts cannot be checked and are never considered stale.
+ */
+export function isStaleLock(lock: StoreLock): boolean {
+  return lock.hostname === os.hostname() && !isProcessRunning(lock.pid);
+}
+
+/**
+ * Whether a process with this PID is running on this host. Invalid PIDs are treated
+ * as running, so nothing is taken over on their account.
+ */
+export function isProcessRunning(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return true;
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * @param store - Where the store is kept, as shown in error messages
+ * @param lockLocation - Where the lock is kept, reported as the error's path
+ * @param removal - How to remove the lock by hand, completing "if it is no longer running, ..."
+ */
+export function lockHeldError(
+  store: string,
+  lockLocation: string,
+  holder: StoreLock | undefined,
+  removal: string,
+): FileManagerError {
+  const holderDescription = holder
+    ? `PID ${holder.pid} on ${holder.hostname} since ${holder.started_at}`
+    : "unknown";
+  return new FileManagerError(
+    `Store is locked by another run\n  Store: ${store}\n  Holder: ${holderDescription}\n  Check: Wait for that run to finish; if it is no longer running, ${removal}`,
+    "acquireLock",
+    lockLocation,
+  );
+}
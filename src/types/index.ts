@@ -17,6 +17,10 @@ export interface BlockNumberData {
   blocks: {
     [date: string]: number;
   };
+  /** Hash of each date's block, used to detect reorgs; absent for blocks found before hashes were stored */
+  hashes?: {
+    [date: string]: string;
+  };
 }
 
 export enum DistributorType {
@@ -31,6 +35,8 @@ export interface DistributorsData {
     chain_id: number;
     arbowner_address: string;
     last_scanned_block?: number;
+    /** Last block whose L1 base fee collectors were read from ArbAggregator */
+    last_polled_block?: number;
   };
   distributors: {
     [address: string]: DistributorInfo;
@@ -41,18 +47,38 @@ export interface DistributorInfo {
   type: DistributorType;
   block: number;
   date: string;
+  /** Creation transaction; the zero hash for L1 base fee collectors, which are polled */
   tx_hash: string;
   method: string;
   owner: string;
   event_data: string;
   is_reward_distributor: boolean;
   distributor_address: string;
+  /** Block and date of the creation event that first made this distributor the live recipient for its type */
+  active_from_block?: number;
+  active_from_date?: string;
+  /** Block and date its last active period ended; absent while still live */
+  active_until_block?: number;
+  active_until_date?: string;
+  /** Every period it was the live recipient, oldest first; one per creation event that set it */
+  active_periods?: ActivePeriod[];
+}
+
+export interface ActivePeriod {
+  /** Block and date of the creation event that made the distributor live */
+  from_block: number;
+  from_date: string;
+  /** Block and date of the creation event that replaced it; absent while still live */
+  until_block?: number;
+  until_date?: string;
 }
 
 export interface BalanceData {
   metadata: {
     chain_id: number;
     reward_distributor: string;
+    /** Dates whose end-of-day block was repaired since they were fetched; refetched on the next run */
+    stale_dates?: string[];
   };
   balances: {
     [date: string]: {
@@ -66,6 +92,8 @@ export interface OutflowData {
   metadata: {
     chain_id: number;
     reward_distributor: string;
+    /** Dates whose block range changed when an end-of-day block was repaired; rescanned on the next run */
+    stale_dates?: string[];
   };
   outflows: {
     [date: string]: DailyOutflow;
@@ -79,11 +107,263 @@ export interface DailyOutflow {
 }
 
 export interface OutflowEvent {
+  /** Address that received the funds: the recipient, or the owner for a fallback payout */
   recipient: string;
   value_wei: string;
   tx_hash: string;
+  /** Block of the payout; absent in files written before it was recorded */
+  block_number?: number;
+  /** Absent in files written before fallback payouts were tracked, meaning RECIPIENT */
+  kind?: OutflowEventKind;
+  /** Recipient whose transfer failed; only set for OWNER_FALLBACK events */
+  intended_recipient?: string;
+}
+
+export interface RecipientsData {
+  metadata: {
+    chain_id: number;
+    reward_distributor: string;
+    last_scanned_block: number;
+  };
+  /** RecipientsUpdated events in block order */
+  updates: RecipientsUpdate[];
+}
+
+export interface RecipientsUpdate {
+  block_number: number;
+  date: string;
+  tx_hash: string;
+  /** keccak256 of the packed recipients, as stored by the contract */
+  recipient_group: string;
+  /** keccak256 of the packed weights, as stored by the contract */
+  recipient_weights: string;
+  recipients: string[];
+  /** Basis points per recipient, summing to BASIS_POINTS */
+  weights: number[];
+}
+
+export enum OutflowEventKind {
+  RECIPIENT = "RECIPIENT",
+  OWNER_FALLBACK = "OWNER_FALLBACK",
+}
+
+export enum RecipientMismatchKind {
+  MISSING_RECIPIENT = "MISSING_RECIPIENT",
+  UNEXPECTED_RECIPIENT = "UNEXPECTED_RECIPIENT",
+  WRONG_PROPORTION = "WRONG_PROPORTION",
+}
+
+export interface RecipientMismatch {
+  kind: RecipientMismatchKind;
+  recipient: string;
+  /** Basis points configured for the recipient, 0 if unexpected */
+  weight: number;
+  expected_wei: string;
+  actual_wei: string;
+}
+
+export interface TransactionMismatch {
+  date: string;
+  tx_hash: string;
+  block_number: number;
+  recipients: RecipientMismatch[];
+  /** Human-readable description with the same context as ReconciliationError */
+  message: string;
+}
+
+export interface DistributorReconciliation {
+  checked_transactions: number;
+  mismatches: TransactionMismatch[];
+}
+
+export interface ReconciliationReport {
+  metadata: {
+    chain_id: number;
+  };
+  distributors: {
+    [address: string]: DistributorReconciliation;
+  };
+}
+
+export enum BlockIssueKind {
+  BLOCK_NOT_FOUND = "BLOCK_NOT_FOUND",
+  HASH_MISMATCH = "HASH_MISMATCH",
+  AFTER_MIDNIGHT = "AFTER_MIDNIGHT",
+  NOT_LAST_BEFORE_MIDNIGHT = "NOT_LAST_BEFORE_MIDNIGHT",
+}
+
+export interface BlockIssue {
+  date: string;
+  block_number: number;
+  kind: BlockIssueKind;
+  /** Human-readable description with the same context as BlockFinderError */
+  message: string;
+}
+
+export interface BlockVerificationReport {
+  metadata: {
+    chain_id: number;
+  };
+  checked_dates: number;
+  issues: BlockIssue[];
+}
+
+export interface BlockRepair {
+  date: string;
+  previous_block: number;
+  block_number: number;
+}
+
+export interface BlockRepairReport extends BlockVerificationReport {
+  repaired: BlockRepair[];
+  /** Distributors whose balances or outflows were marked stale by the repairs */
+  stale_distributors: string[];
+}
+
+export enum StoreViolationKind {
+  INVALID_JSON = "INVALID_JSON",
+  INVALID_DATA = "INVALID_DATA",
+  BALANCE_BLOCK_MISMATCH = "BALANCE_BLOCK_MISMATCH",
+  DATE_WITHOUT_BLOCK = "DATE_WITHOUT_BLOCK",
+  UNKNOWN_DISTRIBUTOR_DIRECTORY = "UNKNOWN_DISTRIBUTOR_DIRECTORY",
+  ORPHANED_TEMP_FILE = "ORPHANED_TEMP_FILE",
+  PENDING_COMMIT = "PENDING_COMMIT",
+}
+
+export interface StoreViolation {
+  /** Path relative to the store directory */
+  file: string;
+  kind: StoreViolationKind;
+  date?: string;
+  /** Human-readable description, the validator's error message for INVALID_DATA */
+  message: string;
+}
+
+export interface StoreVerificationReport {
+  checked_files: number;
+  violations: StoreViolation[];
+}
+
+/** Contents of a store's lock file, identifying the run that holds it */
+export interface StoreLock {
+  pid: number;
+  hostname: string;
+  /** ISO 8601 time the lock was taken */
+  started_at: string;
+}
+
+export interface StoreFileMigration {
+  /** Path relative to the store directory */
+  file: string;
+  from_version: number;
+  to_version: number;
+}
+
+export interface StoreMigrationReport {
+  /** Version every file has after migrating */
+  schema_version: number;
+  dry_run: boolean;
+  /** Files written with an older schema version; rewritten unless dry_run */
+  files: StoreFileMigration[];
+  /** Set when the store was in the single-chain layout; moved unless dry_run */
+  layout?: StoreLayoutMigration;
 }
 
+/** Move of a single-chain store's files into the selected chain's directory */
+export interface StoreLayoutMigration {
+  /** Store directory holding the files */
+  from: string;
+  /** The chain's directory inside the store */
+  to: string;
+  /** Files and directories moved, relative to the store directory */
+  files: string[];
+}
+
+export interface DistributorGaps {
+  /** Dates from creation up to the latest block date with no stored balance */
+  balances: string[];
+  /** Dates from creation up to the latest block date with no stored outflows */
+  outflows: string[];
+}
+
+export interface GapReport {
+  metadata: {
+    chain_id: number;
+  };
+  /** Latest date in block_numbers.json, where every expected range ends */
+  latest_date?: string;
+  /** Dates missing between the first and latest date in block_numbers.json */
+  block_numbers: string[];
+  /** Only distributors with at least one missing date */
+  distributors: {
+    [address: string]: DistributorGaps;
+  };
+}
+
+export interface FeeReport {
+  metadata: {
+    chain_id: number;
+  };
+  distributors: {
+    [address: string]: DistributorFeeReport;
+  };
+  by_type: Partial<Record<DistributorType, FeeSummary>>;
+  total: FeeSummary;
+}
+
+export interface DistributorFeeReport {
+  type: DistributorType;
+  /** First date the distributor was the live recipient for its type */
+  active_from_date: string;
+  /** Date it was replaced; absent while still live */
+  active_until_date?: string;
+  total_fee_wei: string;
+  daily: {
+    [date: string]: DistributorDailyFee;
+  };
+}
+
+export interface DistributorDailyFee extends DailyFee {
+  block_number: number;
+  balance_wei: string;
+  outflow_wei: string;
+}
+
+export interface FeeSummary {
+  total_fee_wei: string;
+  daily: {
+    [date: string]: DailyFee;
+  };
+}
+
+export interface DailyFee {
+  daily_fee_wei: string;
+  cumulative_fee_wei: string;
+}
+
+export interface ChainConfig {
+  chain_id: number;
+  /** Lowercase slug, also accepted by the CLI's --chain option */
+  name: string;
+  arbowner_address: Address;
+  /** Blocks behind the chain head treated as final */
+  finality_blocks: number;
+  /** How to pick the newest block treated as final, defaults to finality_blocks behind the head */
+  finality?: FinalityStrategy;
+  /** Maximum block range per eth_getLogs request */
+  default_chunk_size: number;
+  /** First UTC date with blocks; earlier dates have no end-of-day block */
+  genesis_date: DateString;
+}
+
+export type FinalityStrategy =
+  /** A fixed number of blocks behind the chain head */
+  | { kind: "depth"; blocks: number }
+  /** The newest block at least this old, measured from the head block's timestamp */
+  | { kind: "age"; seconds: number }
+  /** The provider's finalized or safe block tag */
+  | { kind: "tag"; tag: "finalized" | "safe" };
+
 // Utility Types
 export type DateString = string;
 export type Address = string;
@@ -105,13 +385,72 @@ export const CONTRACTS = {
 } as const;
 
 export const CHAIN_IDS = {
+  ARBITRUM_ONE: 42161,
   ARBITRUM_NOVA: 42170,
 } as const;
 
+// Total weight of a RewardDistributor recipient split
+export const BASIS_POINTS = 10000;
+
 export const STORE_DIR = "store";
 export const DISTRIBUTORS_DIR = "distributors";
 
+// Schema version written to each store file's metadata; files without one are version 0
+export const STORE_SCHEMA_VERSION = 1;
+
 // Component Interfaces
+export interface FileManagerOptions {
+  /** Open the store without writing to it; write methods throw and no lock is taken */
+  readOnly?: boolean;
+  /**
+   * Sync each written file and its directory to disk before returning, so a completed
+   * write survives a power loss. Defaults to true. Only used when the store is given as
+   * a directory; other backends take their own options.
+   */
+  durable?: boolean;
+}
+
+/**
+ * Where a FileManager keeps the store's files. Files are addressed by keys, their paths
+ * relative to the store with "/" separators, such as "distributors/0x.../balances.json".
+ * Each method takes the FileManager operation it serves for its errors, and throws
+ * FileManagerError.
+ */
+export interface StorageBackend {
+  /** Where the store is kept, as shown in error messages */
+  readonly location: string;
+  /** Where a file is kept, as shown in error messages */
+  describe(key: string): string;
+  exists(key: string): boolean;
+  /** @returns The file's contents, or undefined if there is no such file */
+  read(key: string, operation: string): string | undefined;
+  /** Replaces a file's contents; readers see the old or the new contents, never a mix */
+  write(key: string, contents: string, operation: string): void;
+  /** Replaces several files all or nothing, even if the process dies part way */
+  writeAll(files: ReadonlyMap<string, string>, operation: string): void;
+  /** @returns Names of the directories directly under a key prefix, sorted */
+  listDirectories(prefix: string, operation: string): string[];
+  /** Creates the store if it does not exist yet */
+  initialize(operation: string): void;
+  /**
+   * Takes the store's write lock for the rest of the run, then settles any writeAll()
+   * interrupted by a crash and removes files left behind by interrupted writes.
+   * @returns Keys of the orphaned files removed, sorted
+   * @throws FileManagerError naming the holder if the lock is held, including by an
+   *   earlier call on this backend
+   */
+  acquireLock(): string[];
+  /** Releases the lock taken by acquireLock(), if it still holds it */
+  releaseLock(): void;
+  /** @returns Keys of files left behind by interrupted writes, sorted */
+  listOrphanedFiles(operation: string): string[];
+  /**
+   * Whether a writeAll() was interrupted part way, leaving some of its files written
+   * and others not until acquireLock() or the next write settles it.
+   */
+  hasPendingCommit(): boolean;
+}
+
 export interface FileManager {
   readBlockNumbers(): BlockNumberData | undefined;
   writeBlockNumbers(data: BlockNumberData): void;
@@ -121,6 +460,15 @@ export interface FileManager {
   writeDistributorBalances(address: Address, data: BalanceData): void;
   readDistributorOutflows(address: Address): OutflowData | undefined;
   writeDistributorOutflows(address: Address, data: OutflowData): void;
+  readDistributorRecipients(address: Address): RecipientsData | undefined;
+  writeDistributorRecipients(address: Address, data: RecipientsData): void;
+  verifyStore(): StoreVerificationReport;
+  migrateStore(dryRun: boolean): StoreMigrationReport;
+  beginTransaction(): void;
+  commitTransaction(): void;
+  rollbackTransaction(): void;
+  acquireLock(): string[];
+  releaseLock(): void;
   ensureStoreDirectory(): void;
   validateAddress(address: string): Address;
   formatDate(date: Date): DateString;
@@ -142,6 +490,8 @@ export class FileManagerError extends Error {
     public readonly operation: string,
     public readonly path?: string,
     public readonly cause?: Error,
+    /** JSON pointer of the invalid field, for files that fail validation on read */
+    public readonly pointer?: string,
   ) {
     super(message);
     this.name = "FileManagerError";
@@ -178,6 +528,39 @@ export class BlockFinderError extends Error {
   }
 }
 
+export class ReconciliationError extends Error {
+  constructor(
+    message: string,
+    public readonly operation: string,
+    public readonly context: {
+      distributor?: string;
+      date?: string;
+      txHash?: string;
+      blockNumber?: number;
+      mismatches?: RecipientMismatch[];
+      cause?: Error;
+    },
+  ) {
+    super(message);
+    this.name = "ReconciliationError";
+  }
+}
+
+export class ChainMismatchError extends Error {
+  constructor(
+    message: string,
+    public readonly providerChainId: number,
+    public readonly context: {
+      file?: string;
+      storedChainId?: number;
+      selectedChainId?: number;
+    },
+  ) {
+    super(message);
+    this.name = "ChainMismatchError";
+  }
+}
+
 export class RPCError extends Error {
   constructor(
     message: string,
@@ -190,6 +573,13 @@ export class RPCError extends Error {
   }
 }
 
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
 // Type Guards
 export function isValidDistributorType(type: string): type is DistributorType {
   return Object.values(DistributorType).includes(type as DistributorType);
@@ -0,0 +1,71 @@
+import { ActivePeriod, DateString, DistributorInfo } from "../types";
+
+const MILLISECONDS_PER_DAY = 86400 * 1000;
+
+/**
+ * Returns the periods a distributor was the live recipient for its type, oldest first.
+ * Entries written before active periods were recorded have one period, spanning their
+ * first activation to their retirement.
+ *
+ * @param info - The distributor's entry in distributors.json
+ * @returns Its active periods; only the last one may be open
+ */
+export function getActivePeriods(info: DistributorInfo): ActivePeriod[] {
+  if (info.active_periods !== undefined) {
+    return info.active_periods;
+  }
+  return [
+    {
+      from_block: info.active_from_block ?? info.block,
+      from_date: info.active_from_date ?? info.date,
+      ...(info.active_until_block !== undefined && {
+        until_block: info.active_until_block,
+      }),
+      ...(info.active_until_date !== undefined && {
+        until_date: info.active_until_date,
+      }),
+    },
+  ];
+}
+
+/**
+ * Whether the distributor was the live recipient on a date. The dates it was set and
+ * replaced both count, as fees for those whole days are attributed to it.
+ *
+ * @param info - The distributor's entry in distributors.json
+ * @param date - Date to check (YYYY-MM-DD)
+ */
+export function isActiveOn(info: DistributorInfo, date: DateString): boolean {
+  return getActivePeriods(info).some(
+    (period) =>
+      date >= period.from_date &&
+      (period.until_date === undefined || date <= period.until_date),
+  );
+}
+
+/**
+ * Whether the distributor's balance is needed on a date: every active date, plus the
+ * day before each reactivation, whose balance is the starting point for the first
+ * day's fee after a period in which it was replaced.
+ *
+ * @param info - The distributor's entry in distributors.json
+ * @param date - Date to check (YYYY-MM-DD)
+ */
+export function isBalanceTrackedOn(
+  info: DistributorInfo,
+  date: DateString,
+): boolean {
+  return (
+    isActiveOn(info, date) ||
+    getActivePeriods(info)
+      .slice(1)
+      .some((period) => date === previousDate(period.from_date))
+  );
+}
+
+// The calendar day before a date
+function previousDate(date: DateString): DateString {
+  return new Date(Date.parse(`${date}T00:00:00Z`) - MILLISECONDS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
@@ -0,0 +1,118 @@
+import { ethers } from "ethers";
+import {
+  ChainConfig,
+  ChainMismatchError,
+  DISTRIBUTORS_DIR,
+  FileManager,
+  RPCError,
+} from "../types";
+import { withRetry } from "./retry";
+
+const RETRY_CONFIG = {
+  maxRetries: 3,
+  initialDelay: 1000,
+  backoffMultiplier: 2,
+};
+
+// Chain id each FileManager and provider pair was verified for, so a run reads the
+// store and the network once however many components and addresses it covers
+const verifiedPairs = new WeakMap<
+  FileManager,
+  WeakMap<ethers.Provider, number>
+>();
+
+/**
+ * Checks that the provider is on the selected chain and that every store file's
+ * metadata.chain_id matches it. Components call this before writing so a wrong RPC_URL
+ * fails fast instead of mixing another chain's data into the store. A pair that passed
+ * is not checked again for the same chain, since components only write the provider's
+ * chain_id afterwards.
+ *
+ * @param fileManager - File manager for the selected chain's store directory
+ * @param provider - Provider the component is about to query
+ * @param chain - Chain selected for the store
+ * @throws RPCError if the network cannot be fetched
+ * @throws ChainMismatchError naming the first file, or the provider, that disagrees
+ */
+export async function verifyStoreChain(
+  fileManager: FileManager,
+  provider: ethers.Provider,
+  chain: ChainConfig,
+): Promise<void> {
+  if (verifiedPairs.get(fileManager)?.get(provider) === chain.chain_id) {
+    return;
+  }
+
+  const providerChainId = await getProviderChainId(provider);
+
+  if (providerChainId !== chain.chain_id) {
+    throw new ChainMismatchError(
+      `Provider is connected to a different chain than selected\n  Selected: ${chain.name} (${chain.chain_id})\n  Provider chain_id: ${providerChainId}\n  Check: Point RPC_URL at ${chain.name} or select chain ${providerChainId} with --chain`,
+      providerChainId,
+      { selectedChainId: chain.chain_id },
+    );
+  }
+
+  for (const [file, storedChainId] of readStoredChainIds(fileManager)) {
+    if (storedChainId !== providerChainId) {
+      throw new ChainMismatchError(
+        `Store file belongs to a different chain than the provider\n  File: ${file}\n  Stored chain_id: ${storedChainId}\n  Provider chain_id: ${providerChainId}\n  Check: Point RPC_URL at chain ${storedChainId}, or move the file out of the store for chain ${providerChainId}`,
+        providerChainId,
+        { file, storedChainId },
+      );
+    }
+  }
+
+  const verifiedProviders = verifiedPairs.get(fileManager) ?? new WeakMap();
+  verifiedProviders.set(provider, chain.chain_id);
+  verifiedPairs.set(fileManager, verifiedProviders);
+}
+
+async function getProviderChainId(provider: ethers.Provider): Promise<number> {
+  try {
+    const network = await withRetry(() => provider.getNetwork(), {
+      ...RETRY_CONFIG,
+      operationName: "getNetwork",
+    });
+    return Number(network.chainId);
+  } catch (error) {
+    throw new RPCError(
+      `Failed to get network information after ${RETRY_CONFIG.maxRetries} retries`,
+      "getNetwork",
+      RETRY_CONFIG.maxRetries,
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+/**
+ * Yields each existing store file with its chain_id, keyed by path relative to the store.
+ */
+function* readStoredChainIds(
+  fileManager: FileManager,
+): Generator<[string, number]> {
+  const blockNumbers = fileManager.readBlockNumbers();
+  if (blockNumbers) {
+    yield ["block_numbers.json", blockNumbers.metadata.chain_id];
+  }
+
+  const distributors = fileManager.readDistributors();
+  if (!distributors) return;
+  yield ["distributors.json", distributors.metadata.chain_id];
+
+  for (const address of Object.keys(distributors.distributors)) {
+    const directory = `${DISTRIBUTORS_DIR}/${address}`;
+    const balances = fileManager.readDistributorBalances(address);
+    if (balances) {
+      yield [`${directory}/balances.json`, balances.metadata.chain_id];
+    }
+    const outflows = fileManager.readDistributorOutflows(address);
+    if (outflows) {
+      yield [`${directory}/outflows.json`, outflows.metadata.chain_id];
+    }
+    const recipients = fileManager.readDistributorRecipients(address);
+    if (recipients) {
+      yield [`${directory}/recipients.json`, recipients.metadata.chain_id];
+    }
+  }
+}
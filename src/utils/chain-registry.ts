@@ -0,0 +1,178 @@
+import * as fs from "fs";
+import * as path from "path";
+import { types } from "util";
+import { ethers } from "ethers";
+import { CHAIN_REGISTRY } from "../constants/chains";
+import {
+  CONTRACTS,
+  ChainConfig,
+  FileManagerError,
+  isValidDateString,
+} from "../types";
+import { parseJson } from "../storage/json-files";
+import {
+  JsonObject,
+  JsonSchema,
+  SchemaViolation,
+  findSchemaViolation,
+} from "./json-schema";
+
+// Chains registered for a store, such as Orbit chains, kept beside the chain directories
+export const CHAINS_FILE = "chains.json";
+
+const CHAIN_NAME_REGEX = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const CHAINS_FILE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    chains: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          chain_id: { type: "number" },
+          name: { type: "string" },
+          arbowner_address: { type: "string" },
+          finality_blocks: { type: "number" },
+          default_chunk_size: { type: "number" },
+          genesis_date: { type: "string" },
+        },
+        optional: ["arbowner_address"],
+      },
+    },
+  },
+};
+
+interface ChainsFile {
+  chains: (Omit<ChainConfig, "arbowner_address" | "finality"> & {
+    arbowner_address?: string;
+  })[];
+}
+
+/**
+ * Adds the chains registered in the store directory's chains.json to the built-in
+ * registry. Orbit chains share the ArbOwner precompile, so arbowner_address may be left
+ * out of an entry.
+ *
+ * @param storeDirectory - Store directory holding one subdirectory per chain id
+ * @returns The built-in chains followed by the registered ones
+ * @throws FileManagerError if chains.json cannot be read or parsed, or an entry is
+ *   invalid or reuses a known chain id or name
+ */
+export function loadChainRegistry(
+  storeDirectory: string,
+): readonly ChainConfig[] {
+  const filePath = path.join(storeDirectory, CHAINS_FILE);
+  if (!fs.existsSync(filePath)) {
+    return CHAIN_REGISTRY;
+  }
+
+  let contents: string;
+  try {
+    contents = fs.readFileSync(filePath, "utf-8");
+  } catch (error) {
+    throw new FileManagerError(
+      `Cannot read ${CHAINS_FILE}\n  File: ${filePath}\n  Check: Check permissions on the store directory`,
+      "loadChainRegistry",
+      filePath,
+      types.isNativeError(error) ? error : undefined,
+    );
+  }
+  const data = parseJson(contents, filePath, "loadChainRegistry");
+  const violation = findSchemaViolation(data, CHAINS_FILE_SCHEMA);
+  if (violation) {
+    throw invalidChainError(filePath, violation);
+  }
+
+  const registry = [...CHAIN_REGISTRY];
+  (data as ChainsFile).chains.forEach((entry, index) => {
+    const chain = toChainConfig(entry, `/chains/${index}`, filePath);
+    const clash = registry.find(
+      (known) => known.chain_id === chain.chain_id || known.name === chain.name,
+    );
+    if (clash) {
+      const field = clash.chain_id === chain.chain_id ? "chain_id" : "name";
+      throw invalidChainError(filePath, {
+        pointer: `/chains/${index}/${field}`,
+        expected: `a ${field} not used by another chain`,
+        actual: JSON.stringify(chain[field]),
+      });
+    }
+    registry.push(chain);
+  });
+  return registry;
+}
+
+function toChainConfig(
+  entry: ChainsFile["chains"][number],
+  pointer: string,
+  filePath: string,
+): ChainConfig {
+  const check = (field: string, valid: boolean, expected: string): void => {
+    if (!valid) {
+      throw invalidChainError(filePath, {
+        pointer: `${pointer}/${field}`,
+        expected,
+        actual: JSON.stringify((entry as unknown as JsonObject)[field]),
+      });
+    }
+  };
+
+  check(
+    "chain_id",
+    Number.isSafeInteger(entry.chain_id) && entry.chain_id > 0,
+    "positive integer",
+  );
+  // Names and ids share --chain, so a name may not look like an id
+  check(
+    "name",
+    CHAIN_NAME_REGEX.test(entry.name) && !/^\d+$/.test(entry.name),
+    "lowercase slug such as xai-mainnet",
+  );
+  check(
+    "arbowner_address",
+    entry.arbowner_address === undefined ||
+      ethers.isAddress(entry.arbowner_address),
+    "address",
+  );
+  check(
+    "finality_blocks",
+    Number.isSafeInteger(entry.finality_blocks) && entry.finality_blocks >= 0,
+    "non-negative integer",
+  );
+  check(
+    "default_chunk_size",
+    Number.isSafeInteger(entry.default_chunk_size) &&
+      entry.default_chunk_size > 0,
+    "positive integer",
+  );
+  check(
+    "genesis_date",
+    isValidDateString(entry.genesis_date),
+    "date (YYYY-MM-DD)",
+  );
+
+  return {
+    chain_id: entry.chain_id,
+    name: entry.name,
+    arbowner_address: ethers.getAddress(
+      entry.arbowner_address ?? CONTRACTS.ARB_OWNER,
+    ),
+    finality_blocks: entry.finality_blocks,
+    default_chunk_size: entry.default_chunk_size,
+    genesis_date: entry.genesis_date,
+  };
+}
+
+function invalidChainError(
+  filePath: string,
+  violation: SchemaViolation,
+): FileManagerError {
+  return new FileManagerError(
+    `Invalid chain in ${CHAINS_FILE}\n  File: ${filePath}\n  Field: ${violation.pointer || "(root)"}\n  Expected: ${violation.expected}\n  Got: ${violation.actual}\n  Check: Fix the entry in ${CHAINS_FILE}`,
+    "loadChainRegistry",
+    filePath,
+    undefined,
+    violation.pointer,
+  );
+}
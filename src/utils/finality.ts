@@ -0,0 +1,129 @@
+import { ethers } from "ethers";
+import { ChainConfig, FinalityStrategy, RPCError } from "../types";
+import { withRetry } from "./retry";
+
+const RETRY_CONFIG = {
+  maxRetries: 3,
+  initialDelay: 1000,
+  backoffMultiplier: 2,
+};
+
+/**
+ * Resolves the chain's finality strategy, falling back to its fixed finality depth.
+ *
+ * @param chain - Chain whose strategy to use
+ * @returns The configured strategy or a depth of finality_blocks
+ */
+export function resolveFinality(chain: ChainConfig): FinalityStrategy {
+  return chain.finality ?? { kind: "depth", blocks: chain.finality_blocks };
+}
+
+/**
+ * Finds the newest block treated as final under the chain's finality strategy. Block
+ * finding, distributor scanning and balance fetching all stop at this block.
+ *
+ * @param provider - Provider to query
+ * @param chain - Chain whose finality strategy to apply
+ * @returns The newest final block number, or -1 if no block is final yet
+ * @throws RPCError if the provider cannot be queried after retries
+ */
+export async function getSafeBlockNumber(
+  provider: ethers.Provider,
+  chain: ChainConfig,
+): Promise<number> {
+  const strategy = resolveFinality(chain);
+  switch (strategy.kind) {
+    case "depth":
+      return (await getCurrentBlockNumber(provider)) - strategy.blocks;
+    case "age":
+      return findBlockOlderThan(provider, strategy.seconds);
+    case "tag":
+      return (await getBlock(provider, strategy.tag)).number;
+  }
+}
+
+async function getCurrentBlockNumber(
+  provider: ethers.Provider,
+): Promise<number> {
+  try {
+    return await withRetry(() => provider.getBlockNumber(), {
+      ...RETRY_CONFIG,
+      operationName: "getBlockNumber",
+    });
+  } catch (error) {
+    throw new RPCError(
+      `Failed to get current block number after ${RETRY_CONFIG.maxRetries} retries`,
+      "getBlockNumber",
+      RETRY_CONFIG.maxRetries,
+      error instanceof Error ? error : undefined,
+    );
+  }
+}
+
+async function getBlock(
+  provider: ethers.Provider,
+  blockTag: ethers.BlockTag,
+): Promise<ethers.Block> {
+  let block: ethers.Block | null;
+  try {
+    block = await withRetry(() => provider.getBlock(blockTag), {
+      ...RETRY_CONFIG,
+      operationName: `getBlock(${blockTag})`,
+    });
+  } catch (error) {
+    throw new RPCError(
+      `Failed to get block ${blockTag} after ${RETRY_CONFIG.maxRetries} retries`,
+      `getBlock(${blockTag})`,
+      RETRY_CONFIG.maxRetries,
+      error instanceof Error ? error : undefined,
+    );
+  }
+
+  if (!block) {
+    throw new RPCError(
+      `Block ${blockTag} not found; the provider may not support the "${blockTag}" block tag`,
+      `getBlock(${blockTag})`,
+      0,
+    );
+  }
+  return block;
+}
+
+/**
+ * Finds the newest block whose timestamp is at least `seconds` before the head block's.
+ * The head timestamp is used instead of the local clock so results do not depend on
+ * clock skew. Steps back from the head in doubling strides, then binary searches the
+ * last stride, so recent targets take few requests.
+ */
+async function findBlockOlderThan(
+  provider: ethers.Provider,
+  seconds: number,
+): Promise<number> {
+  const head = await getBlock(provider, "latest");
+  const targetTimestamp = head.timestamp - seconds;
+  if (head.timestamp <= targetTimestamp) return head.number;
+
+  // Invariant: `newer` is after the target; find an `older` block at or before it
+  let newer = head.number;
+  let older = newer;
+  let stride = 1;
+  for (;;) {
+    older = Math.max(0, newer - stride);
+    const block = await getBlock(provider, older);
+    if (block.timestamp <= targetTimestamp) break;
+    if (older === 0) return -1;
+    newer = older;
+    stride *= 2;
+  }
+
+  while (newer - older > 1) {
+    const mid = Math.floor((older + newer) / 2);
+    const block = await getBlock(provider, mid);
+    if (block.timestamp <= targetTimestamp) {
+      older = mid;
+    } else {
+      newer = mid;
+    }
+  }
+  return older;
+}
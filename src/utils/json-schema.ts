@@ -0,0 +1,133 @@
+/**
+ * Shape of a parsed JSON value. Objects list their properties; maps are objects keyed by
+ * arbitrary strings such as dates or addresses. Properties not in the schema are allowed.
+ */
+export type JsonSchema =
+  | { type: "string" | "number" | "boolean" }
+  | { type: "enum"; values: readonly string[] }
+  | { type: "array"; items: JsonSchema }
+  | {
+      type: "object";
+      properties: { [key: string]: JsonSchema };
+      optional?: readonly string[];
+    }
+  | { type: "map"; values: JsonSchema };
+
+export type JsonObject = { [key: string]: unknown };
+
+export interface SchemaViolation {
+  /** JSON pointer (RFC 6901) of the offending value, "" for the document root */
+  pointer: string;
+  expected: string;
+  actual: string;
+}
+
+/**
+ * Checks a parsed JSON value against a schema, depth first in property order.
+ *
+ * @param value - Parsed JSON value
+ * @param schema - Expected shape
+ * @returns The first violation found, or undefined if the value matches
+ */
+export function findSchemaViolation(
+  value: unknown,
+  schema: JsonSchema,
+  pointer = "",
+): SchemaViolation | undefined {
+  switch (schema.type) {
+    case "string":
+    case "number":
+    case "boolean":
+      return typeof value === schema.type
+        ? undefined
+        : { pointer, expected: schema.type, actual: describeJsonType(value) };
+
+    case "enum":
+      return typeof value === "string" && schema.values.includes(value)
+        ? undefined
+        : {
+            pointer,
+            expected: describeSchema(schema),
+            actual:
+              typeof value === "string"
+                ? JSON.stringify(value)
+                : describeJsonType(value),
+          };
+
+    case "array":
+      if (!Array.isArray(value)) {
+        return { pointer, expected: "array", actual: describeJsonType(value) };
+      }
+      for (const [index, item] of value.entries()) {
+        const violation = findSchemaViolation(
+          item,
+          schema.items,
+          `${pointer}/${index}`,
+        );
+        if (violation) return violation;
+      }
+      return undefined;
+
+    case "object":
+      if (!isJsonObject(value)) {
+        return { pointer, expected: "object", actual: describeJsonType(value) };
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        const propertyPointer = `${pointer}/${escapePointerToken(key)}`;
+        if (!Object.prototype.hasOwnProperty.call(value, key)) {
+          if (schema.optional?.includes(key)) continue;
+          return {
+            pointer: propertyPointer,
+            expected: describeSchema(propertySchema),
+            actual: "missing",
+          };
+        }
+        const violation = findSchemaViolation(
+          value[key],
+          propertySchema,
+          propertyPointer,
+        );
+        if (violation) return violation;
+      }
+      return undefined;
+
+    case "map":
+      if (!isJsonObject(value)) {
+        return { pointer, expected: "object", actual: describeJsonType(value) };
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        const violation = findSchemaViolation(
+          entry,
+          schema.values,
+          `${pointer}/${escapePointerToken(key)}`,
+        );
+        if (violation) return violation;
+      }
+      return undefined;
+  }
+}
+
+export function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeJsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function describeSchema(schema: JsonSchema): string {
+  switch (schema.type) {
+    case "enum":
+      return `one of ${schema.values.join(", ")}`;
+    case "map":
+      return "object";
+    default:
+      return schema.type;
+  }
+}
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
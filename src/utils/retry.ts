@@ -16,6 +16,7 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+// Notices go to stderr, so a CLI run that retries still prints parseable JSON on stdout
 function logRetryAttempt(
   retryNumber: number,
   maxRetries: number,
@@ -25,11 +26,11 @@ function logRetryAttempt(
   const baseMessage = `Retry attempt ${retryNumber}/${maxRetries}`;
 
   if (operationName) {
-    console.log(
+    console.error(
       `${baseMessage} for ${operationName} after error: ${error.message}`,
     );
   } else {
-    console.log(baseMessage);
+    console.error(baseMessage);
   }
 }
 
@@ -65,7 +66,7 @@ export async function withRetry<T>(
         const isRateLimit = lastError.message.includes("429");
 
         if (isRateLimit && operationName) {
-          console.log(
+          console.error(
             `Rate limit detected for ${operationName}, using longer delay`,
           );
         }
@@ -0,0 +1,107 @@
+import { BlockNumberData, DateString, FileManager } from "../types";
+
+/**
+ * Marks distributor balances and outflows that were derived from repaired end-of-day
+ * blocks as stale, so the next balance fetch and outflow scan recompute them.
+ *
+ * A date's balance is read at its block and its outflows end at its block. The next
+ * stored date's outflows start right after it, so they are marked stale as well.
+ *
+ * @param fileManager - File manager for the selected chain's store directory
+ * @param blockNumbersData - Block numbers after the repair
+ * @param repairedDates - Dates whose end-of-day block changed
+ * @returns Addresses of distributors with data newly marked stale
+ */
+export function markDependentDataStale(
+  fileManager: FileManager,
+  blockNumbersData: BlockNumberData,
+  repairedDates: DateString[],
+): string[] {
+  const distributorsData = fileManager.readDistributors();
+  if (!distributorsData || repairedDates.length === 0) {
+    return [];
+  }
+
+  const sortedDates = Object.keys(blockNumbersData.blocks).sort();
+  const balanceDates = new Set(repairedDates);
+  const outflowDates = new Set(repairedDates);
+  for (const date of repairedDates) {
+    const next = sortedDates[sortedDates.indexOf(date) + 1];
+    if (next !== undefined) outflowDates.add(next);
+  }
+
+  const staleDistributors: string[] = [];
+  for (const address of Object.keys(distributorsData.distributors)) {
+    let marked = false;
+
+    const balanceData = fileManager.readDistributorBalances(address);
+    if (balanceData) {
+      const staleDates = addStaleDates(
+        balanceData.metadata.stale_dates,
+        Object.keys(balanceData.balances),
+        balanceDates,
+      );
+      if (staleDates) {
+        fileManager.writeDistributorBalances(address, {
+          ...balanceData,
+          metadata: { ...balanceData.metadata, stale_dates: staleDates },
+        });
+        marked = true;
+      }
+    }
+
+    const outflowData = fileManager.readDistributorOutflows(address);
+    if (outflowData) {
+      const staleDates = addStaleDates(
+        outflowData.metadata.stale_dates,
+        Object.keys(outflowData.outflows),
+        outflowDates,
+      );
+      if (staleDates) {
+        fileManager.writeDistributorOutflows(address, {
+          ...outflowData,
+          metadata: { ...outflowData.metadata, stale_dates: staleDates },
+        });
+        marked = true;
+      }
+    }
+
+    if (marked) staleDistributors.push(address);
+  }
+
+  return staleDistributors;
+}
+
+/**
+ * Removes refreshed dates from a file's stale dates.
+ *
+ * @param staleDates - The file's current stale dates
+ * @param refreshedDates - Dates that were just refetched or rescanned
+ * @returns The remaining stale dates, or undefined if none remain
+ */
+export function clearStaleDates(
+  staleDates: string[] | undefined,
+  refreshedDates: Iterable<DateString>,
+): string[] | undefined {
+  const refreshed = new Set(refreshedDates);
+  const remaining = (staleDates ?? []).filter((date) => !refreshed.has(date));
+  return remaining.length > 0 ? remaining : undefined;
+}
+
+/**
+ * Adds the affected dates present in a file to its stale dates.
+ *
+ * @returns The sorted stale dates, or undefined if nothing new became stale
+ */
+function addStaleDates(
+  existing: string[] | undefined,
+  storedDates: string[],
+  affectedDates: Set<DateString>,
+): string[] | undefined {
+  const staleDates = new Set(existing ?? []);
+  const before = staleDates.size;
+  for (const date of storedDates) {
+    if (affectedDates.has(date)) staleDates.add(date);
+  }
+  return staleDates.size > before ? [...staleDates].sort() : undefined;
+}